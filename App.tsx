@@ -8,21 +8,57 @@ import { SafeAreaProvider } from 'react-native-safe-area-context';
 import Icon from 'react-native-vector-icons/MaterialIcons';
 
 import { AuthProvider, useAuth } from './src/context/AuthContext';
+import { EnvironmentProvider } from './src/context/EnvironmentContext';
 import LoginScreen from './src/screens/LoginScreen';
 import DashboardScreen from './src/screens/DashboardScreen';
 import InvoicesScreen from './src/screens/InvoicesScreen';
 import PaymentScreen from './src/screens/PaymentScreen';
 import AuditLogScreen from './src/screens/AuditLogScreen';
+import InvoiceDetailScreen from './src/screens/InvoiceDetailScreen';
+import CreateInvoiceScreen from './src/screens/CreateInvoiceScreen';
+import AgingReportScreen from './src/screens/AgingReportScreen';
+import ReminderSettingsScreen from './src/screens/ReminderSettingsScreen';
+import PatientsScreen from './src/screens/PatientsScreen';
+import PatientFormScreen from './src/screens/PatientFormScreen';
+import PatientLedgerScreen from './src/screens/PatientLedgerScreen';
+import ServiceCatalogScreen from './src/screens/ServiceCatalogScreen';
+import ServiceFormScreen from './src/screens/ServiceFormScreen';
+import EncountersScreen from './src/screens/EncountersScreen';
+import EncounterFormScreen from './src/screens/EncounterFormScreen';
+import { withPermission } from './src/components/NotAuthorized';
+import { usePermission } from './src/hooks/usePermission';
 import type { RootStackParamList, MainTabParamList } from './types';
 import tw from './src/lib/tailwind';
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
 const Tab = createBottomTabNavigator<MainTabParamList>();
 
+// Protected screens render a "not authorized" state if reached without permission
+const GuardedDashboardScreen = withPermission(DashboardScreen, 'dashboard:view');
+const GuardedInvoicesScreen = withPermission(InvoicesScreen, 'invoices:view');
+const GuardedAuditLogScreen = withPermission(AuditLogScreen, 'audit:view');
+const GuardedPaymentScreen = withPermission(PaymentScreen, 'payments:process');
+const GuardedInvoiceDetailScreen = withPermission(InvoiceDetailScreen, 'invoices:view');
+const GuardedCreateInvoiceScreen = withPermission(CreateInvoiceScreen, 'invoices:create');
+const GuardedAgingReportScreen = withPermission(AgingReportScreen, 'dashboard:view');
+const GuardedReminderSettingsScreen = withPermission(ReminderSettingsScreen, 'reminders:manage');
+const GuardedPatientsScreen = withPermission(PatientsScreen, 'patients:view');
+const GuardedPatientFormScreen = withPermission(PatientFormScreen, 'patients:manage');
+const GuardedPatientLedgerScreen = withPermission(PatientLedgerScreen, 'invoices:view');
+const GuardedServiceCatalogScreen = withPermission(ServiceCatalogScreen, 'catalog:manage');
+const GuardedServiceFormScreen = withPermission(ServiceFormScreen, 'catalog:manage');
+const GuardedEncountersScreen = withPermission(EncountersScreen, 'encounters:create');
+const GuardedEncounterFormScreen = withPermission(EncounterFormScreen, 'encounters:create');
+
 function MainTabs() {
   const colorScheme = useColorScheme();
   const isDark = colorScheme === 'dark';
-  
+  const canViewDashboard = usePermission('dashboard:view');
+  const canViewInvoices = usePermission('invoices:view');
+  const canViewPatients = usePermission('patients:view');
+  const canLogEncounters = usePermission('encounters:create');
+  const canViewAuditLog = usePermission('audit:view');
+
   return (
     <Tab.Navigator
       screenOptions={({ route }) => ({
@@ -31,6 +67,8 @@ function MainTabs() {
           const iconMap: Record<keyof MainTabParamList, string> = {
             Dashboard: 'dashboard',
             Invoices: 'receipt-long',
+            Patients: 'people',
+            Encounters: 'assignment',
             AuditLog: 'history',
           };
           const iconName = iconMap[route.name];
@@ -44,9 +82,11 @@ function MainTabs() {
         },
       })}
     >
-      <Tab.Screen name="Dashboard" component={DashboardScreen} />
-      <Tab.Screen name="Invoices" component={InvoicesScreen} />
-      <Tab.Screen name="AuditLog" component={AuditLogScreen} />
+      {canViewDashboard && <Tab.Screen name="Dashboard" component={GuardedDashboardScreen} />}
+      {canViewInvoices && <Tab.Screen name="Invoices" component={GuardedInvoicesScreen} />}
+      {canViewPatients && <Tab.Screen name="Patients" component={GuardedPatientsScreen} />}
+      {canLogEncounters && <Tab.Screen name="Encounters" component={GuardedEncountersScreen} />}
+      {canViewAuditLog && <Tab.Screen name="AuditLog" component={GuardedAuditLogScreen} />}
     </Tab.Navigator>
   );
 }
@@ -75,7 +115,16 @@ function AppNavigator() {
         {isAuthenticated ? (
           <Stack.Group>
             <Stack.Screen name="Main" component={MainTabs} />
-            <Stack.Screen name="Payment" component={PaymentScreen} />
+            <Stack.Screen name="Payment" component={GuardedPaymentScreen} />
+            <Stack.Screen name="InvoiceDetail" component={GuardedInvoiceDetailScreen} />
+            <Stack.Screen name="CreateInvoice" component={GuardedCreateInvoiceScreen} />
+            <Stack.Screen name="AgingReport" component={GuardedAgingReportScreen} />
+            <Stack.Screen name="ReminderSettings" component={GuardedReminderSettingsScreen} />
+            <Stack.Screen name="PatientForm" component={GuardedPatientFormScreen} />
+            <Stack.Screen name="PatientLedger" component={GuardedPatientLedgerScreen} />
+            <Stack.Screen name="ServiceCatalog" component={GuardedServiceCatalogScreen} />
+            <Stack.Screen name="ServiceForm" component={GuardedServiceFormScreen} />
+            <Stack.Screen name="EncounterForm" component={GuardedEncounterFormScreen} />
           </Stack.Group>
         ) : (
           <Stack.Group>
@@ -90,9 +139,11 @@ function AppNavigator() {
 const App = () => {
   return (
     <SafeAreaProvider>
-      <AuthProvider>
-        <AppNavigator />
-      </AuthProvider>
+      <EnvironmentProvider>
+        <AuthProvider>
+          <AppNavigator />
+        </AuthProvider>
+      </EnvironmentProvider>
     </SafeAreaProvider>
   );
 };
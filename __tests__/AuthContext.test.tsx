@@ -0,0 +1,73 @@
+/**
+ * @format
+ */
+
+import React from 'react';
+import ReactTestRenderer from 'react-test-renderer';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AuthProvider, useAuth } from '../src/context/AuthContext';
+import { AuthContextValue } from '../src/types/auth';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'));
+
+const STORED_TOKENS = { access_token: 'expired-access', refresh_token: 'refresh', token_type: 'bearer' };
+const STORED_USER = { id: 1, email: 'frontdesk@clinic.test', name: 'Front Desk', role: 'billing_staff', created_at: '2026-01-01T09:00:00Z' };
+
+const unauthorized = () => Promise.resolve({
+  ok: false,
+  status: 401,
+  statusText: 'Unauthorized',
+  text: () => Promise.resolve('{"detail":"Token expired"}'),
+} as Response);
+
+let auth: AuthContextValue | undefined;
+const AuthProbe = () => {
+  auth = useAuth();
+  return null;
+};
+
+const startApp = async () => {
+  await ReactTestRenderer.act(async () => {
+    ReactTestRenderer.create(<AuthProvider><AuthProbe /></AuthProvider>);
+  });
+};
+
+describe('session restore', () => {
+  const fetchMock = jest.fn();
+
+  beforeEach(async () => {
+    auth = undefined;
+    await AsyncStorage.clear();
+    await AsyncStorage.setItem('@auth:tokens', JSON.stringify(STORED_TOKENS));
+    await AsyncStorage.setItem('@auth:user', JSON.stringify(STORED_USER));
+    fetchMock.mockReset();
+    globalThis.fetch = fetchMock;
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('keeps the session when the app starts offline with an expired access token', async () => {
+    fetchMock.mockImplementation((url: string) =>
+      (url.endsWith('/auth/refresh') ? Promise.reject(new TypeError('Network request failed')) : unauthorized()));
+
+    await startApp();
+
+    expect(fetchMock.mock.calls.some(([url]) => String(url).endsWith('/auth/refresh'))).toBe(true);
+    expect(auth?.isAuthenticated).toBe(true);
+    expect(auth?.user).toEqual(STORED_USER);
+    expect(await AsyncStorage.getItem('@auth:tokens')).toBe(JSON.stringify(STORED_TOKENS));
+  });
+
+  test('logs out when the server rejects the refresh token', async () => {
+    fetchMock.mockImplementation(() => unauthorized());
+
+    await startApp();
+
+    expect(auth?.isAuthenticated).toBe(false);
+    expect(await AsyncStorage.getItem('@auth:tokens')).toBeNull();
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * @format
+ */
+
+import { buildAgingReport, getAgingBucket, getDaysPastDue } from '../src/utils/agingReport';
+import { buildInvoice } from './helpers/invoices';
+
+const now = new Date(2026, 5, 30, 15, 30); // 30 June 2026, mid-afternoon
+
+// Due date the given number of days before `now`
+const dueDaysAgo = (days: number): string => {
+  const due = new Date(2026, 5, 30 - days);
+  const month = String(due.getMonth() + 1).padStart(2, '0');
+  const day = String(due.getDate()).padStart(2, '0');
+  return `${due.getFullYear()}-${month}-${day}`;
+};
+
+describe('getDaysPastDue', () => {
+  test('counts whole days from the due date', () => {
+    expect(getDaysPastDue(dueDaysAgo(0), now)).toBe(0);
+    expect(getDaysPastDue(dueDaysAgo(1), now)).toBe(1);
+    expect(getDaysPastDue(dueDaysAgo(-3), now)).toBe(-3);
+  });
+
+  test('returns null without a valid due date', () => {
+    expect(getDaysPastDue(undefined, now)).toBeNull();
+    expect(getDaysPastDue('not a date', now)).toBeNull();
+  });
+});
+
+describe('getAgingBucket', () => {
+  test.each([
+    [-5, 'current'],
+    [0, 'current'],
+    [1, 'days_1_30'],
+    [30, 'days_1_30'],
+    [31, 'days_31_60'],
+    [60, 'days_31_60'],
+    [61, 'days_61_90'],
+    [90, 'days_61_90'],
+    [91, 'days_over_90'],
+    [400, 'days_over_90'],
+  ])('puts an invoice %i days past due in %s', (days, bucket) => {
+    expect(getAgingBucket(buildInvoice({ due_date: dueDaysAgo(days) }), now)).toBe(bucket);
+  });
+
+  test('treats invoices without a due date as current', () => {
+    expect(getAgingBucket(buildInvoice(), now)).toBe('current');
+  });
+
+  test('skips invoices with nothing owed', () => {
+    expect(getAgingBucket(buildInvoice({ status: 'paid', due_date: dueDaysAgo(45) }), now)).toBeNull();
+    expect(getAgingBucket(buildInvoice({ amount_paid_cents: 10000, due_date: dueDaysAgo(45) }), now)).toBeNull();
+  });
+});
+
+describe('buildAgingReport', () => {
+  test('totals outstanding balances per bucket and per patient', () => {
+    const report = buildAgingReport([
+      buildInvoice({ id: 1, due_date: dueDaysAgo(30), amount_paid_cents: 2500 }),
+      buildInvoice({ id: 2, due_date: dueDaysAgo(31) }),
+      buildInvoice({ id: 3, patient_id: 8, due_date: dueDaysAgo(31), total_amount_cents: 4000 }),
+    ], now);
+
+    expect(report.buckets.find(bucket => bucket.id === 'days_1_30')).toMatchObject({ balanceCents: 7500, invoiceCount: 1 });
+    expect(report.buckets.find(bucket => bucket.id === 'days_31_60')).toMatchObject({ balanceCents: 14000, invoiceCount: 2 });
+    expect(report.totalCents).toBe(21500);
+    expect(report.patients.map(patient => [patient.patientId, patient.totalCents])).toEqual([[7, 17500], [8, 4000]]);
+  });
+});
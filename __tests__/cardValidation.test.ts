@@ -0,0 +1,68 @@
+/**
+ * @format
+ */
+
+import { detectCardBrand, passesLuhn, validateCardForm } from '../src/utils/cardValidation';
+
+describe('passesLuhn', () => {
+  test('accepts valid test card numbers, formatted or raw', () => {
+    expect(passesLuhn('4242424242424242')).toBe(true);
+    expect(passesLuhn('4242 4242 4242 4242')).toBe(true);
+    expect(passesLuhn('5555555555554444')).toBe(true);
+    expect(passesLuhn('378282246310005')).toBe(true);
+  });
+
+  test('rejects a wrong check digit', () => {
+    expect(passesLuhn('4242424242424241')).toBe(false);
+  });
+
+  test('rejects an empty number', () => {
+    expect(passesLuhn('')).toBe(false);
+    expect(passesLuhn(' - ')).toBe(false);
+  });
+});
+
+describe('detectCardBrand', () => {
+  test('detects brands from the leading digits', () => {
+    expect(detectCardBrand('4111')).toBe('visa');
+    expect(detectCardBrand('3412')).toBe('amex');
+    expect(detectCardBrand('3712')).toBe('amex');
+    expect(detectCardBrand('5105')).toBe('mastercard');
+    expect(detectCardBrand('5599')).toBe('mastercard');
+  });
+
+  test('detects the Mastercard 2-series range at its edges', () => {
+    expect(detectCardBrand('2220')).toBe('unknown');
+    expect(detectCardBrand('2221')).toBe('mastercard');
+    expect(detectCardBrand('2720')).toBe('mastercard');
+    expect(detectCardBrand('2721')).toBe('unknown');
+  });
+
+  test('needs four digits to detect a 2-series card', () => {
+    expect(detectCardBrand('222')).toBe('unknown');
+  });
+
+  test('returns unknown for other prefixes', () => {
+    expect(detectCardBrand('6011')).toBe('unknown');
+    expect(detectCardBrand('3012')).toBe('unknown');
+    expect(detectCardBrand('')).toBe('unknown');
+  });
+});
+
+describe('validateCardForm', () => {
+  const now = new Date(2026, 5, 15);
+
+  test('accepts a complete card', () => {
+    expect(validateCardForm({ number: '4242 4242 4242 4242', expiry: '06/26', cvc: '123' }, now)).toEqual({});
+  });
+
+  test('rejects a number failing the Luhn check or the brand length', () => {
+    expect(validateCardForm({ number: '4242424242424241', expiry: '12/30', cvc: '123' }, now).number).toBe('Card number is invalid');
+    expect(validateCardForm({ number: '378282246310005', expiry: '12/30', cvc: '123' }, now).cvc).toBe('CVC must be 4 digits');
+    expect(validateCardForm({ number: '42424242424242', expiry: '12/30', cvc: '123' }, now).number).toBe('Card number is invalid');
+  });
+
+  test('rejects a card that expired last month', () => {
+    expect(validateCardForm({ number: '4242424242424242', expiry: '05/26', cvc: '123' }, now).expiry).toBe('Card has expired');
+  });
+});
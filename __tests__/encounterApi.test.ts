@@ -0,0 +1,43 @@
+/**
+ * @format
+ */
+
+import { apiClient } from '../src/api/client';
+import { fetchEncounters } from '../src/api/encounterApi';
+import { getEncounterReviewStatus } from '../src/utils/encounters';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'));
+jest.mock('../src/api/client', () => ({ apiClient: { get: jest.fn(), post: jest.fn() } }));
+
+const mockGet = apiClient.get as jest.MockedFunction<typeof apiClient.get>;
+
+const apiEncounter = (id: number, invoiceStatus?: string) => ({
+  id,
+  patient_id: 7,
+  provider_id: 3,
+  visit_date: '2026-03-02',
+  services: [{ service_id: 1, service_code: '99213', description: 'Office visit', quantity: 1 }],
+  invoice_id: id,
+  invoice_status: invoiceStatus,
+});
+
+describe('fetchEncounters', () => {
+  test('normalizes invoice statuses like the invoice endpoints do', async () => {
+    mockGet.mockResolvedValueOnce([apiEncounter(1, 'Cancelled'), apiEncounter(2, 'unpaid'), apiEncounter(3, ' Draft ')]);
+
+    const encounters = await fetchEncounters();
+
+    expect(encounters.map(encounter => encounter.invoice_status)).toEqual(['void', 'pending', 'draft']);
+    expect(encounters.map(getEncounterReviewStatus)).toEqual(['rejected', 'billed', 'awaiting_review']);
+  });
+
+  test('keeps a deleted invoice\'s missing status missing', async () => {
+    mockGet.mockResolvedValueOnce([apiEncounter(1)]);
+
+    const [encounter] = await fetchEncounters();
+
+    expect(encounter.invoice_status).toBeUndefined();
+    expect(getEncounterReviewStatus(encounter)).toBe('invoice_deleted');
+  });
+});
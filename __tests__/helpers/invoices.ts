@@ -0,0 +1,17 @@
+/**
+ * @format
+ */
+
+import { Invoice } from '../../src/types/invoice';
+
+/**
+ * Unpaid $100.00 invoice for patient 7, with any fields overridden
+ */
+export const buildInvoice = (overrides: Partial<Invoice> = {}): Invoice => ({
+  id: 1,
+  invoice_number: 'INV-001',
+  patient_id: 7,
+  total_amount_cents: 10000,
+  status: 'pending',
+  ...overrides,
+});
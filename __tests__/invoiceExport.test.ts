@@ -0,0 +1,39 @@
+/**
+ * @format
+ */
+
+import { buildInvoiceCsv, escapeCsvField } from '../src/utils/invoiceExport';
+import { buildInvoice } from './helpers/invoices';
+
+describe('escapeCsvField', () => {
+  test('leaves plain text as is', () => {
+    expect(escapeCsvField('Ada Lovelace')).toBe('Ada Lovelace');
+    expect(escapeCsvField('100.00')).toBe('100.00');
+  });
+
+  test('quotes delimiters, quotes and line breaks', () => {
+    expect(escapeCsvField('Lovelace, Ada')).toBe('"Lovelace, Ada"');
+    expect(escapeCsvField('Ada "Countess" Lovelace')).toBe('"Ada ""Countess"" Lovelace"');
+    expect(escapeCsvField('line one\nline two')).toBe('"line one\nline two"');
+  });
+
+  test.each(['=HYPERLINK("http://example.test")', '+1+2', '-2+3', '@SUM(A1:A2)', '\tcmd', '\rcmd'])(
+    'prefixes %j with an apostrophe so it is not run as a formula',
+    value => {
+      expect(escapeCsvField(value).replace(/^"/, '').startsWith(`'${value.charAt(0)}`)).toBe(true);
+    },
+  );
+
+  test('still quotes a prefixed field that needs it', () => {
+    expect(escapeCsvField('=1,2')).toBe('"\'=1,2"');
+    expect(escapeCsvField('=HYPERLINK("x")')).toBe('"\'=HYPERLINK(""x"")"');
+  });
+});
+
+describe('buildInvoiceCsv', () => {
+  test('neutralizes a patient name written as a formula', () => {
+    const csv = buildInvoiceCsv([buildInvoice({ patient_name: '=cmd|\' /C calc\'!A0' })]);
+    const row = csv.split('\r\n')[1];
+    expect(row).toContain(',\'=cmd|\' /C calc\'!A0,');
+  });
+});
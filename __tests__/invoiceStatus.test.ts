@@ -0,0 +1,60 @@
+/**
+ * @format
+ */
+
+import { InvoiceStatus } from '../src/types/invoice';
+import { canTransition, INVOICE_STATUSES, isTerminalStatus, normalizeInvoiceStatus } from '../src/utils/invoiceStatus';
+
+describe('canTransition', () => {
+  test('allows the normal payment lifecycle', () => {
+    expect(canTransition('draft', 'sent')).toBe(true);
+    expect(canTransition('sent', 'partially_paid')).toBe(true);
+    expect(canTransition('partially_paid', 'paid')).toBe(true);
+    expect(canTransition('paid', 'refunded')).toBe(true);
+  });
+
+  test('lets unpaid invoices be voided but not partially paid ones', () => {
+    expect(canTransition('draft', 'void')).toBe(true);
+    expect(canTransition('pending', 'void')).toBe(true);
+    expect(canTransition('overdue', 'void')).toBe(true);
+    expect(canTransition('partially_paid', 'void')).toBe(false);
+    expect(canTransition('paid', 'void')).toBe(false);
+  });
+
+  test('only refunds paid invoices', () => {
+    expect(canTransition('pending', 'refunded')).toBe(false);
+    expect(canTransition('partially_paid', 'refunded')).toBe(false);
+  });
+
+  test('does not move drafts straight to paid', () => {
+    expect(canTransition('draft', 'paid')).toBe(false);
+  });
+
+  test('never leaves a terminal status', () => {
+    const terminal: InvoiceStatus[] = ['void', 'refunded', 'written_off'];
+    for (const from of terminal) {
+      expect(isTerminalStatus(from)).toBe(true);
+      for (const to of INVOICE_STATUSES) {
+        expect(canTransition(from, to)).toBe(false);
+      }
+    }
+  });
+});
+
+describe('normalizeInvoiceStatus', () => {
+  test('keeps known statuses regardless of case and whitespace', () => {
+    expect(normalizeInvoiceStatus(' Partially_Paid ')).toBe('partially_paid');
+  });
+
+  test('maps legacy aliases', () => {
+    expect(normalizeInvoiceStatus('unpaid')).toBe('pending');
+    expect(normalizeInvoiceStatus('Cancelled')).toBe('void');
+  });
+
+  test('falls back to pending for missing and unknown statuses', () => {
+    expect(normalizeInvoiceStatus(undefined)).toBe('pending');
+    expect(normalizeInvoiceStatus(null)).toBe('pending');
+    expect(normalizeInvoiceStatus('  ')).toBe('pending');
+    expect(normalizeInvoiceStatus('on_hold')).toBe('pending');
+  });
+});
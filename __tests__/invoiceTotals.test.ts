@@ -0,0 +1,94 @@
+/**
+ * @format
+ */
+
+import { InvoiceLineItem } from '../src/types/invoice';
+import {
+  allocateProportionally,
+  calculateInvoiceTotals,
+  calculateLineTotal,
+  checkInvoiceTotals,
+  checkLineItemTotals,
+} from '../src/utils/invoiceTotals';
+import { buildInvoice } from './helpers/invoices';
+
+const lineItem = (overrides: Partial<InvoiceLineItem> = {}): InvoiceLineItem => ({
+  description: 'Office visit',
+  quantity: 1,
+  unit_price_cents: 10000,
+  discount_cents: 0,
+  tax_cents: 0,
+  line_total_cents: 10000,
+  ...overrides,
+});
+
+describe('calculateLineTotal', () => {
+  test('multiplies the unit price, then subtracts the discount and adds tax', () => {
+    expect(calculateLineTotal({ quantity: 3, unit_price_cents: 2500, discount_cents: 500, tax_cents: 140 })).toBe(7140);
+  });
+});
+
+describe('calculateInvoiceTotals', () => {
+  test('sums every line into the invoice totals', () => {
+    const totals = calculateInvoiceTotals([
+      lineItem({ quantity: 2, unit_price_cents: 5000, discount_cents: 1000, tax_cents: 0 }),
+      lineItem({ quantity: 1, unit_price_cents: 2000, discount_cents: 0, tax_cents: 160 }),
+    ]);
+    expect(totals).toEqual({ subtotal_cents: 12000, discount_cents: 1000, tax_cents: 160, total_cents: 11160 });
+  });
+
+  test('returns zero totals for no lines', () => {
+    expect(calculateInvoiceTotals([])).toEqual({ subtotal_cents: 0, discount_cents: 0, tax_cents: 0, total_cents: 0 });
+  });
+});
+
+describe('checkLineItemTotals', () => {
+  test('matches when every line and the invoice total add up', () => {
+    const check = checkLineItemTotals([lineItem(), lineItem({ quantity: 2, line_total_cents: 20000 })], 30000);
+    expect(check.matches).toBe(true);
+    expect(check.difference_cents).toBe(0);
+    expect(check.mismatched_lines).toEqual([]);
+  });
+
+  test('reports the difference when the invoice total is off', () => {
+    const check = checkLineItemTotals([lineItem()], 10050);
+    expect(check.matches).toBe(false);
+    expect(check.difference_cents).toBe(50);
+    expect(check.mismatched_lines).toEqual([]);
+  });
+
+  test('reports lines whose stored total is wrong even when the sum matches', () => {
+    const check = checkLineItemTotals([lineItem({ line_total_cents: 9000 }), lineItem()], 20000);
+    expect(check.matches).toBe(false);
+    expect(check.mismatched_lines).toEqual([0]);
+  });
+});
+
+describe('checkInvoiceTotals', () => {
+  const invoice = buildInvoice();
+
+  test('skips invoices without line items', () => {
+    expect(checkInvoiceTotals(invoice)).toBeNull();
+    expect(checkInvoiceTotals({ ...invoice, line_items: [] })).toBeNull();
+  });
+
+  test('checks the line items against total_amount_cents', () => {
+    expect(checkInvoiceTotals({ ...invoice, line_items: [lineItem()] })?.matches).toBe(true);
+  });
+});
+
+describe('allocateProportionally', () => {
+  test('splits without losing or inventing cents', () => {
+    const shares = allocateProportionally(100, [1, 1, 1]);
+    expect(shares.reduce((sum, share) => sum + share, 0)).toBe(100);
+    expect(shares).toEqual([34, 33, 33]);
+  });
+
+  test('gives the remainder to the largest weight first', () => {
+    expect(allocateProportionally(10, [1, 2])).toEqual([3, 7]);
+  });
+
+  test('returns all zero when every weight is zero', () => {
+    expect(allocateProportionally(500, [0, 0])).toEqual([0, 0]);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * @format
+ */
+
+import { Payment } from '../src/types/payment';
+import { parseAmountToCents } from '../src/utils/financialMetrics';
+import { getAmountPaidCents, getBalanceCents } from '../src/utils/invoiceTotals';
+import { buildInvoice } from './helpers/invoices';
+
+describe('parseAmountToCents', () => {
+  test('parses whole and decimal amounts to cents', () => {
+    expect(parseAmountToCents('5')).toBe(500);
+    expect(parseAmountToCents('12.5')).toBe(1250);
+    expect(parseAmountToCents('12.34')).toBe(1234);
+    expect(parseAmountToCents('5.')).toBe(500);
+    expect(parseAmountToCents('0')).toBe(0);
+  });
+
+  test('ignores surrounding whitespace and accepts thousands separators', () => {
+    expect(parseAmountToCents('  42.10 ')).toBe(4210);
+    expect(parseAmountToCents('1,250.5')).toBe(125050);
+    expect(parseAmountToCents('1,234,567')).toBe(123456700);
+  });
+
+  test('rejects malformed amounts', () => {
+    expect(parseAmountToCents('1.2.3')).toBeNull();
+    expect(parseAmountToCents('.5')).toBeNull();
+    expect(parseAmountToCents('12.345')).toBeNull();
+    expect(parseAmountToCents('1,25')).toBeNull();
+  });
+
+  test('rejects signs, letters and other symbols', () => {
+    expect(parseAmountToCents('-5')).toBeNull();
+    expect(parseAmountToCents('+5')).toBeNull();
+    expect(parseAmountToCents('5abc')).toBeNull();
+    expect(parseAmountToCents('$5')).toBeNull();
+  });
+
+  test('rejects empty input', () => {
+    expect(parseAmountToCents('')).toBeNull();
+    expect(parseAmountToCents('   ')).toBeNull();
+  });
+
+  test('allows only as many decimals as the currency has', () => {
+    expect(parseAmountToCents('1500', 'JPY')).toBe(1500);
+    expect(parseAmountToCents('1500.5', 'JPY')).toBeNull();
+    expect(parseAmountToCents('1.234', 'KWD')).toBe(1234);
+    expect(parseAmountToCents('1.5', 'KWD')).toBe(1500);
+  });
+});
+
+describe('partial payment balances', () => {
+  const payment = (amountCents: number, status: Payment['status'] = 'succeeded'): Payment => ({
+    id: `pay_${amountCents}_${status}`,
+    invoice_id: 1,
+    amount_cents: amountCents,
+    status,
+    transaction_id: `txn_${amountCents}`,
+    created_at: '2026-03-01T10:00:00Z',
+  });
+  const invoice = buildInvoice({ total_amount_cents: 20000, status: 'partially_paid' });
+
+  test('uses amount_paid_cents when the API provides it', () => {
+    const partial = { ...invoice, amount_paid_cents: 7500, payments: [payment(1000)] };
+    expect(getAmountPaidCents(partial)).toBe(7500);
+    expect(getBalanceCents(partial)).toBe(12500);
+  });
+
+  test('sums only the successful payment records otherwise', () => {
+    const partial = { ...invoice, payments: [payment(5000), payment(3000, 'declined'), payment(2500)] };
+    expect(getAmountPaidCents(partial)).toBe(7500);
+    expect(getBalanceCents(partial)).toBe(12500);
+  });
+
+  test('never reports a negative balance for an overpaid invoice', () => {
+    expect(getBalanceCents({ ...invoice, amount_paid_cents: 25000 })).toBe(0);
+  });
+
+  test('owes nothing on invoices that are not receivable', () => {
+    expect(getBalanceCents({ ...invoice, status: 'draft' })).toBe(0);
+    expect(getBalanceCents({ ...invoice, status: 'void', amount_paid_cents: 5000 })).toBe(0);
+  });
+
+  test('assumes a paid invoice without payment data was paid in full', () => {
+    expect(getAmountPaidCents({ ...invoice, status: 'paid' })).toBe(20000);
+    expect(getBalanceCents({ ...invoice, status: 'paid' })).toBe(0);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * @format
+ */
+
+import { Invoice } from '../src/types/invoice';
+import { Payment } from '../src/types/payment';
+import { buildPatientLedger, buildPatientStatement, resolveStatementPeriod } from '../src/utils/patientLedger';
+import { buildInvoice } from './helpers/invoices';
+
+const now = new Date(2026, 2, 31, 12, 0);
+
+const payment = (id: number, amountCents: number, createdAt: string, status: Payment['status'] = 'succeeded'): Payment => ({
+  id,
+  invoice_id: 1,
+  amount_cents: amountCents,
+  status,
+  method: 'cash',
+  transaction_id: `txn_${id}`,
+  created_at: createdAt,
+});
+
+const invoices: Invoice[] = [
+  buildInvoice({
+    id: 1,
+    status: 'partially_paid',
+    created_at: '2026-01-10',
+    payments: [payment(1, 4000, '2026-01-20T10:00:00'), payment(2, 1000, '2026-01-21T10:00:00', 'declined')],
+  }),
+  buildInvoice({ id: 2, invoice_number: 'INV-002', total_amount_cents: 2500, created_at: '2026-03-05' }),
+  buildInvoice({ id: 3, invoice_number: 'INV-003', created_at: '2026-02-01', status: 'draft' }),
+  buildInvoice({ id: 4, invoice_number: 'INV-004', created_at: '2026-02-02', patient_id: 8 }),
+  buildInvoice({ id: 5, invoice_number: 'INV-005', created_at: '2026-02-03', currency: 'EUR' }),
+];
+
+describe('buildPatientLedger', () => {
+  const ledger = buildPatientLedger(7, invoices, 'USD', now);
+
+  test('lists the patient\'s charges and successful payments oldest first', () => {
+    expect(ledger.entries.map(entry => entry.id)).toEqual(['invoice-1', 'payment-1', 'invoice-2']);
+  });
+
+  test('keeps a running balance after each entry', () => {
+    expect(ledger.entries.map(entry => entry.balance_cents)).toEqual([10000, 6000, 8500]);
+    expect(ledger.balance_cents).toBe(8500);
+  });
+
+  test('lists a same-day charge before its payment', () => {
+    const sameDay = buildPatientLedger(7, [
+      buildInvoice({ created_at: '2026-01-10', payments: [payment(1, 10000, '2026-01-10')], amount_paid_cents: 10000, status: 'paid' }),
+    ], 'USD', now);
+    expect(sameDay.entries.map(entry => entry.type)).toEqual(['invoice', 'payment']);
+    expect(sameDay.entries.map(entry => entry.balance_cents)).toEqual([10000, 0]);
+  });
+
+  test('clears the unpaid rest of a voided invoice', () => {
+    const voided = buildPatientLedger(7, [buildInvoice({ status: 'void', created_at: '2026-01-10', updated_at: '2026-01-15' })], 'USD', now);
+    expect(voided.entries.map(entry => entry.balance_cents)).toEqual([10000, 0]);
+  });
+});
+
+describe('buildPatientStatement', () => {
+  const ledger = buildPatientLedger(7, invoices, 'USD', now);
+
+  test('carries activity before the period in as the opening balance', () => {
+    const range = resolveStatementPeriod({ preset: 'custom', custom_start: '2026-02-01', custom_end: '2026-03-31' }, now);
+    const statement = buildPatientStatement(ledger, range, 'Ada Lovelace', now);
+
+    expect(statement.opening_balance_cents).toBe(6000);
+    expect(statement.entries.map(entry => entry.id)).toEqual(['invoice-2']);
+    expect(statement.closing_balance_cents).toBe(8500);
+  });
+
+  test('opens at the last balance when the period has no activity', () => {
+    const range = resolveStatementPeriod({ preset: 'custom', custom_start: '2026-02-01', custom_end: '2026-02-28' }, now);
+    const statement = buildPatientStatement(ledger, range, undefined, now);
+
+    expect(statement.entries).toEqual([]);
+    expect(statement.opening_balance_cents).toBe(6000);
+    expect(statement.closing_balance_cents).toBe(6000);
+  });
+
+  test('opens at zero for all activity', () => {
+    const statement = buildPatientStatement(ledger, null, undefined, now);
+    expect(statement.opening_balance_cents).toBe(0);
+    expect(statement.entries).toHaveLength(3);
+    expect(statement.closing_balance_cents).toBe(ledger.balance_cents);
+  });
+});
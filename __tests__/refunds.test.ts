@@ -0,0 +1,111 @@
+/**
+ * @format
+ */
+
+import { submitRefund } from '../src/api/paymentApi';
+import { NetworkError } from '../src/api/errors';
+import { createFakeGateway } from '../src/services/payments/fakeGateway';
+import { processRefund, setPaymentGateway } from '../src/services/payments/paymentService';
+import { Payment, PaymentGateway, Refund } from '../src/types/payment';
+import { buildInvoice } from './helpers/invoices';
+
+jest.mock('../src/api/paymentApi', () => ({ submitRefund: jest.fn() }));
+jest.mock('../src/api/auditApi', () => ({ recordAuditEntry: jest.fn().mockResolvedValue(undefined) }));
+
+const mockSubmitRefund = submitRefund as jest.MockedFunction<typeof submitRefund>;
+
+// Charge a test card through the gateway and return the captured transaction id
+const chargeCard = async (gateway: PaymentGateway, amountCents: number, idempotencyKey: string): Promise<string> => {
+  const token = await gateway.tokenizeCard({ number: '4242424242424242', exp_month: 12, exp_year: 2030, cvc: '123' });
+  const authorization = await gateway.authorize({
+    token: token.token,
+    amount_cents: amountCents,
+    currency: 'USD',
+    idempotency_key: idempotencyKey,
+    invoice_id: 1,
+  });
+  return (await gateway.capture(authorization.id)).id;
+};
+
+const cardPayment = (id: number, transactionId: string, amountCents: number): Payment => ({
+  id,
+  invoice_id: 1,
+  amount_cents: amountCents,
+  status: 'succeeded',
+  transaction_id: transactionId,
+  created_at: '2026-03-01T10:00:00Z',
+});
+
+const recordedRefund = (amountCents: number): Refund => ({
+  id: 'ref_1',
+  invoice_id: 1,
+  amount_cents: amountCents,
+  reason: 'patient_request',
+  allocations: [],
+  credit_note: {
+    id: 1,
+    credit_note_number: 'CN-001',
+    invoice_id: 1,
+    refund_id: 'ref_1',
+    amount_cents: amountCents,
+    reason: 'patient_request',
+    created_at: '2026-03-02T10:00:00Z',
+  },
+  created_at: '2026-03-02T10:00:00Z',
+});
+
+describe('processRefund', () => {
+  let gateway: PaymentGateway;
+
+  beforeEach(() => {
+    gateway = createFakeGateway(0);
+    setPaymentGateway(gateway);
+    mockSubmitRefund.mockReset();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('refunds each card once when retried after the refund could not be recorded', async () => {
+    const firstCharge = await chargeCard(gateway, 6000, 'pay_1');
+    const secondCharge = await chargeCard(gateway, 4000, 'pay_2');
+    const invoice = buildInvoice({
+      status: 'paid',
+      payments: [cardPayment(1, firstCharge, 6000), cardPayment(2, secondCharge, 4000)],
+    });
+    const refundSpy = jest.spyOn(gateway, 'refund');
+    mockSubmitRefund
+      .mockRejectedValueOnce(new NetworkError('Network request failed'))
+      .mockResolvedValueOnce(recordedRefund(7000));
+
+    const request = { invoice, amountCents: 7000, reason: 'patient_request' as const, idempotencyKey: 'refund_1' };
+    await expect(processRefund(request)).rejects.toThrow('but the refund could not be recorded');
+    await expect(processRefund(request)).resolves.toMatchObject({ amount_cents: 7000 });
+
+    // The retry reuses each charge's key, so the gateway returns the earlier refunds instead of refunding again
+    const keys = refundSpy.mock.calls.map(([refund]) => refund.idempotency_key);
+    expect(keys).toEqual(['refund_1_2', 'refund_1_1', 'refund_1_2', 'refund_1_1']);
+    const second = await gateway.refund({ transaction_id: secondCharge, idempotency_key: 'refund_1_2' });
+    const first = await gateway.refund({ transaction_id: firstCharge, idempotency_key: 'refund_1_1' });
+    expect(second.refunded_cents).toBe(4000);
+    expect(first.refunded_cents).toBe(3000);
+
+    // Both attempts are recorded under the refund's key, so the backend records it once
+    expect(mockSubmitRefund).toHaveBeenCalledTimes(2);
+    expect(mockSubmitRefund.mock.calls.map(([, refund]) => refund.idempotency_key)).toEqual(['refund_1', 'refund_1']);
+  });
+
+  test('refunds again under a new key', async () => {
+    const charge = await chargeCard(gateway, 6000, 'pay_1');
+    const invoice = buildInvoice({ status: 'paid', payments: [cardPayment(1, charge, 6000)] });
+    mockSubmitRefund.mockResolvedValue(recordedRefund(1000));
+
+    await processRefund({ invoice, amountCents: 1000, reason: 'patient_request', idempotencyKey: 'refund_1' });
+    await processRefund({ invoice, amountCents: 1000, reason: 'patient_request', idempotencyKey: 'refund_2' });
+
+    const transaction = await gateway.refund({ transaction_id: charge, idempotency_key: 'refund_2_1' });
+    expect(transaction.refunded_cents).toBe(2000);
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * @format
+ */
+
+import { CatalogService, ServicePrice } from '../src/types/serviceCatalog';
+import { resolveServicePrice } from '../src/utils/serviceCatalog';
+
+const price = (id: number, priceCents: number, effectiveDate: string, payerName?: string): ServicePrice => ({
+  id,
+  service_id: 1,
+  price_cents: priceCents,
+  effective_date: effectiveDate,
+  payer_name: payerName,
+});
+
+const service = (prices: ServicePrice[]): CatalogService => ({
+  id: 1,
+  service_code: '99213',
+  description: 'Office visit, established patient',
+  default_price_cents: 10000,
+  tax_category: 'exempt',
+  active: true,
+  prices,
+});
+
+describe('resolveServicePrice', () => {
+  test('uses the default price until a scheduled price takes effect', () => {
+    const resolved = resolveServicePrice(service([price(1, 12000, '2026-07-01')]), new Date(2026, 5, 30));
+    expect(resolved).toEqual({ price_cents: 10000, source: 'default' });
+  });
+
+  test('uses a scheduled price from its effective date, all day', () => {
+    const resolved = resolveServicePrice(service([price(1, 12000, '2026-07-01')]), new Date(2026, 6, 1, 0, 0, 1));
+    expect(resolved.price_cents).toBe(12000);
+    expect(resolved.source).toBe('schedule');
+  });
+
+  test('uses the latest price that has taken effect, whatever the schedule order', () => {
+    const prices = [price(1, 13000, '2026-09-01'), price(2, 11000, '2026-01-01'), price(3, 12000, '2026-06-01')];
+    expect(resolveServicePrice(service(prices), new Date(2026, 7, 15)).price_cents).toBe(12000);
+    expect(resolveServicePrice(service(prices), new Date(2026, 8, 1)).price_cents).toBe(13000);
+  });
+
+  test('prefers the price negotiated with the payer, matched loosely', () => {
+    const prices = [price(1, 12000, '2026-01-01'), price(2, 8500, '2026-01-01', 'Acme Health')];
+    const resolved = resolveServicePrice(service(prices), new Date(2026, 5, 1), '  acme health ');
+    expect(resolved.price_cents).toBe(8500);
+    expect(resolved.source).toBe('payer');
+    expect(resolved.price?.id).toBe(2);
+  });
+
+  test('falls back to the standard schedule for other payers and self-pay', () => {
+    const prices = [price(1, 12000, '2026-01-01'), price(2, 8500, '2026-01-01', 'Acme Health')];
+    expect(resolveServicePrice(service(prices), new Date(2026, 5, 1), 'Other Mutual').price_cents).toBe(12000);
+    expect(resolveServicePrice(service(prices), new Date(2026, 5, 1)).price_cents).toBe(12000);
+  });
+
+  test('falls back when the payer price has not taken effect yet', () => {
+    const prices = [price(1, 12000, '2026-01-01'), price(2, 8500, '2026-07-01', 'Acme Health')];
+    const resolved = resolveServicePrice(service(prices), new Date(2026, 5, 30), 'Acme Health');
+    expect(resolved.price_cents).toBe(12000);
+    expect(resolved.source).toBe('schedule');
+  });
+
+  test('never applies a payer price to self-pay patients', () => {
+    const resolved = resolveServicePrice(service([price(1, 8500, '2026-01-01', 'Acme Health')]), new Date(2026, 5, 1), null);
+    expect(resolved).toEqual({ price_cents: 10000, source: 'default' });
+  });
+});
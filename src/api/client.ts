@@ -0,0 +1,225 @@
+/**
+ * Shared API Client
+ *
+ * Single fetch wrapper used by every API module. Handles the base URL of the
+ * active environment profile, bearer-token injection, one-time retry after a
+ * token refresh, timeouts, cancellation and mapping HTTP failures to typed errors.
+ */
+
+import {
+  ApiError,
+  AuthError,
+  CancelledError,
+  NetworkError,
+  PaymentDeclinedError,
+  ServerError,
+  TimeoutError,
+  ValidationError,
+  getErrorDetail,
+} from './errors';
+import { getApiBaseUrl } from '../utils/apiEnvironment';
+
+const DEFAULT_TIMEOUT_MS = 15000;
+
+type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * Options accepted by individual endpoint functions
+ */
+export interface ApiCallOptions {
+  /** Abort the request (e.g. when the calling screen unmounts) */
+  signal?: AbortSignal;
+}
+
+export interface RequestOptions extends ApiCallOptions {
+  method?: HttpMethod;
+  /** JSON-serialisable request body */
+  body?: unknown;
+  /** Query string parameters; undefined values are skipped */
+  query?: Record<string, string | number | boolean | undefined>;
+  headers?: Record<string, string>;
+  /** Attach the bearer token and refresh it on 401 (default true) */
+  auth?: boolean;
+  /** Milliseconds before the request is aborted with a TimeoutError */
+  timeoutMs?: number;
+  /** Override the active environment's base URL (e.g. to health-check a candidate server) */
+  baseUrl?: string;
+}
+
+/**
+ * Hooks the auth layer registers so the client can inject and renew tokens
+ */
+export interface ApiAuthHandlers {
+  /** Current access token, or null when logged out */
+  getAccessToken: () => string | null;
+  /**
+   * Renew the session and return the new access token
+   * Should reject (and log the user out) if the refresh fails
+   */
+  refreshAccessToken: () => Promise<string>;
+}
+
+let authHandlers: ApiAuthHandlers | null = null;
+
+/**
+ * Register (or clear) the token provider used for authenticated requests
+ * Called by AuthProvider on mount
+ */
+export function configureApiAuth(handlers: ApiAuthHandlers | null): void {
+  authHandlers = handlers;
+}
+
+function buildUrl(path: string, query?: RequestOptions['query'], baseUrl?: string): string {
+  const url = `${baseUrl ?? getApiBaseUrl()}${path}`;
+  if (!query) {
+    return url;
+  }
+  const params = Object.entries(query)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`);
+  return params.length > 0 ? `${url}?${params.join('&')}` : url;
+}
+
+async function parseBody(response: Response): Promise<unknown> {
+  if (response.status === 204) {
+    return undefined;
+  }
+  const text = await response.text();
+  if (!text) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+function toHttpError(response: Response, body: unknown): ApiError {
+  const { status } = response;
+  const message = getErrorDetail(body) || response.statusText || `Request failed with status ${status}`;
+
+  if (status === 401 || status === 403) {
+    return new AuthError(message, status, body);
+  }
+  if (status === 402) {
+    return new PaymentDeclinedError(message, 'card_declined', status, body);
+  }
+  if (status === 400 || status === 422) {
+    return new ValidationError(message, status, body);
+  }
+  if (status >= 500) {
+    return new ServerError(message, status, body);
+  }
+  return new ApiError(message, status, body);
+}
+
+/**
+ * Perform a single fetch with timeout and cancellation wired to one AbortController
+ */
+async function send(url: string, init: RequestInit, options: RequestOptions): Promise<Response> {
+  const controller = new AbortController();
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  let timedOut = false;
+
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+
+  const onCallerAbort = () => controller.abort();
+  if (options.signal) {
+    if (options.signal.aborted) {
+      clearTimeout(timer);
+      throw new CancelledError('Request cancelled');
+    }
+    options.signal.addEventListener('abort', onCallerAbort);
+  }
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    if (timedOut) {
+      throw new TimeoutError(`Request timed out after ${timeoutMs}ms`);
+    }
+    if (options.signal?.aborted) {
+      throw new CancelledError('Request cancelled');
+    }
+    throw new NetworkError(error instanceof Error ? error.message : 'Network request failed');
+  } finally {
+    clearTimeout(timer);
+    options.signal?.removeEventListener('abort', onCallerAbort);
+  }
+}
+
+/**
+ * Send a request to the backend API and return the parsed response body
+ * @param path - Path relative to the API base URL (e.g. '/invoices/')
+ * @param options - Method, body, auth and timeout options
+ * @returns Parsed JSON body
+ * @throws ApiError subclass describing the failure
+ */
+export async function apiRequest<T>(path: string, options: RequestOptions = {}): Promise<T> {
+  const { method = 'GET', body, query, headers, auth = true, baseUrl } = options;
+  const url = buildUrl(path, query, baseUrl);
+
+  const buildInit = (accessToken: string | null): RequestInit => ({
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+      ...headers,
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+  const accessToken = auth ? authHandlers?.getAccessToken() ?? null : null;
+  if (auth && !accessToken) {
+    throw new AuthError('Not authenticated', 401);
+  }
+
+  let response = await send(url, buildInit(accessToken), options);
+
+  // Expired access token: renew once and retry the original request
+  if (auth && response.status === 401 && authHandlers) {
+    const latestToken = authHandlers.getAccessToken();
+    let retryToken: string;
+    if (latestToken && latestToken !== accessToken) {
+      // Another request already renewed the session while this one was in flight
+      retryToken = latestToken;
+    } else {
+      try {
+        retryToken = await authHandlers.refreshAccessToken();
+      } catch (error) {
+        // Offline or cancelled: the session wasn't rejected, so let the caller retry
+        if (error instanceof NetworkError || error instanceof CancelledError) {
+          throw error;
+        }
+        throw new AuthError('Session expired', 401);
+      }
+    }
+    response = await send(url, buildInit(retryToken), options);
+  }
+
+  const responseBody = await parseBody(response);
+  if (!response.ok) {
+    throw toHttpError(response, responseBody);
+  }
+  return responseBody as T;
+}
+
+/**
+ * Convenience wrappers for each HTTP method
+ */
+export const apiClient = {
+  get: <T>(path: string, options?: Omit<RequestOptions, 'method' | 'body'>) =>
+    apiRequest<T>(path, { ...options, method: 'GET' }),
+  post: <T>(path: string, body?: unknown, options?: Omit<RequestOptions, 'method' | 'body'>) =>
+    apiRequest<T>(path, { ...options, method: 'POST', body }),
+  put: <T>(path: string, body?: unknown, options?: Omit<RequestOptions, 'method' | 'body'>) =>
+    apiRequest<T>(path, { ...options, method: 'PUT', body }),
+  patch: <T>(path: string, body?: unknown, options?: Omit<RequestOptions, 'method' | 'body'>) =>
+    apiRequest<T>(path, { ...options, method: 'PATCH', body }),
+  delete: <T>(path: string, options?: Omit<RequestOptions, 'method' | 'body'>) =>
+    apiRequest<T>(path, { ...options, method: 'DELETE' }),
+};
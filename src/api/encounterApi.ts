@@ -0,0 +1,39 @@
+/**
+ * Encounter API Service
+ *
+ * Handles communication with the backend encounter endpoints
+ */
+
+import { apiClient, ApiCallOptions } from './client';
+import { ApiEncounter, Encounter, EncounterRequest } from '../types/encounter';
+import { normalizeInvoiceStatus } from '../utils/invoiceStatus';
+
+/**
+ * Normalize the invoice status on an encounter the same way as on invoices
+ * A missing status stays missing: the invoice has been deleted
+ */
+function normalizeEncounter(encounter: ApiEncounter): Encounter {
+  const { invoice_status: status, ...rest } = encounter;
+  return status == null ? rest : { ...rest, invoice_status: normalizeInvoiceStatus(status) };
+}
+
+/**
+ * Fetch recent encounters, newest first
+ * Doctors receive the encounters they logged; other roles receive every doctor's
+ * @returns Encounters with the number and status of their invoices
+ * @throws ApiError subclass on API failure
+ */
+export async function fetchEncounters(options?: ApiCallOptions): Promise<Encounter[]> {
+  const encounters = await apiClient.get<ApiEncounter[]>('/encounters/', options);
+  return encounters.map(normalizeEncounter);
+}
+
+/**
+ * Log a visit and create its draft invoice
+ * @param request - Patient, visit date and the performed services, priced from the catalog
+ * @returns The recorded encounter, with its draft invoice's id and number
+ * @throws ApiError subclass on API failure (ValidationError if the payload is rejected)
+ */
+export async function createEncounter(request: EncounterRequest): Promise<Encounter> {
+  return normalizeEncounter(await apiClient.post<ApiEncounter>('/encounters/', request));
+}
@@ -0,0 +1,96 @@
+/**
+ * API Error Classes
+ *
+ * Typed errors thrown by the shared API client so callers can branch with
+ * `instanceof` instead of comparing error message strings
+ */
+
+import { DeclineCode } from '../types/payment';
+
+/**
+ * Base class for every error raised by the API client
+ */
+export class ApiError extends Error {
+  /** HTTP status code, if a response was received */
+  readonly status?: number;
+  /** Parsed response body (JSON or text), if a response was received */
+  readonly body?: unknown;
+
+  constructor(message: string, status?: number, body?: unknown) {
+    super(message);
+    // Restore the prototype chain so instanceof works on transpiled subclasses of Error
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = new.target.name;
+    this.status = status;
+    this.body = body;
+  }
+}
+
+/**
+ * 401/403 - missing, expired or insufficient credentials
+ */
+export class AuthError extends ApiError {
+  /** True when the server rejected the token itself (401) rather than the permission (403) */
+  get isExpired(): boolean {
+    return this.status === 401;
+  }
+}
+
+/**
+ * 400/422 - the server rejected the request payload
+ */
+export class ValidationError extends ApiError {}
+
+/**
+ * 5xx - the server failed to handle the request
+ */
+export class ServerError extends ApiError {}
+
+/**
+ * The request never produced a response (offline, DNS, connection refused)
+ */
+export class NetworkError extends ApiError {}
+
+/**
+ * The request did not complete within its timeout
+ */
+export class TimeoutError extends NetworkError {}
+
+/**
+ * The caller aborted the request through its AbortSignal
+ */
+export class CancelledError extends ApiError {}
+
+/**
+ * The card processor declined the charge (HTTP 402 from the backend, or a gateway decline)
+ */
+export class PaymentDeclinedError extends ApiError {
+  readonly code: DeclineCode;
+
+  constructor(message: string, code: DeclineCode = 'card_declined', status: number = 402, body?: unknown) {
+    super(message, status, body);
+    this.code = code;
+  }
+}
+
+/**
+ * Extract a human-readable message from an error response body
+ * Handles FastAPI-style `{ detail: string | [{ msg }] }` payloads
+ */
+export function getErrorDetail(body: unknown): string | undefined {
+  if (typeof body === 'string') {
+    return body || undefined;
+  }
+  if (body && typeof body === 'object' && 'detail' in body) {
+    const detail = (body as { detail: unknown }).detail;
+    if (typeof detail === 'string') {
+      return detail;
+    }
+    if (Array.isArray(detail)) {
+      return detail
+        .map(item => (item && typeof item === 'object' && 'msg' in item ? String(item.msg) : String(item)))
+        .join(', ');
+    }
+  }
+  return undefined;
+}
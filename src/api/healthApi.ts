@@ -0,0 +1,43 @@
+/**
+ * Health Check API Service
+ *
+ * Verifies that a candidate backend server is reachable before it is selected
+ */
+
+import { apiClient } from './client';
+import { ApiError, NetworkError, ServerError, TimeoutError } from './errors';
+import { HealthCheckResult } from '../types/environment';
+
+const HEALTH_CHECK_TIMEOUT_MS = 5000;
+
+/**
+ * Check connectivity to a backend server
+ * A non-5xx response without a /health endpoint still counts as reachable
+ * @param baseUrl - API base URL to test (e.g. 'http://192.168.1.100:8000/api/v1')
+ * @returns Result with a user-facing message; never throws
+ */
+export async function checkServerHealth(baseUrl: string): Promise<HealthCheckResult> {
+  const startedAt = Date.now();
+  try {
+    await apiClient.get<unknown>('/health', {
+      auth: false,
+      baseUrl,
+      timeoutMs: HEALTH_CHECK_TIMEOUT_MS,
+    });
+    return { ok: true, message: 'Server is reachable', latencyMs: Date.now() - startedAt };
+  } catch (error) {
+    if (error instanceof TimeoutError) {
+      return { ok: false, message: 'Server did not respond in time' };
+    }
+    if (error instanceof NetworkError) {
+      return { ok: false, message: 'Unable to reach server' };
+    }
+    if (error instanceof ServerError) {
+      return { ok: false, message: `Server error (${error.status})` };
+    }
+    if (error instanceof ApiError && error.status !== undefined) {
+      return { ok: true, message: 'Server is reachable', latencyMs: Date.now() - startedAt };
+    }
+    return { ok: false, message: 'Connection check failed' };
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Insurance API Service
+ *
+ * Handles communication with the backend insurance policy and claim endpoints
+ */
+
+import { apiClient, ApiCallOptions } from './client';
+import { ApiInvoice, Invoice } from '../types/invoice';
+import {
+  ExplanationOfBenefits,
+  InsurancePolicy,
+  InsurancePolicyRequest,
+  SubmitClaimRequest,
+  UpdateClaimStatusRequest,
+} from '../types/insurance';
+import { normalizeInvoice } from '../utils/invoiceStatus';
+
+/**
+ * Fetch a patient's insurance policies
+ * @param patientId - Patient id
+ * @returns Policies on file, active or not
+ * @throws ApiError subclass on API failure
+ */
+export async function fetchPatientPolicies(patientId: number, options?: ApiCallOptions): Promise<InsurancePolicy[]> {
+  return apiClient.get<InsurancePolicy[]>(`/patients/${patientId}/policies`, options);
+}
+
+/**
+ * Add an insurance policy to a patient
+ * @returns The created policy
+ * @throws ApiError subclass on API failure (ValidationError if the payload is rejected)
+ */
+export async function createPolicy(patientId: number, request: InsurancePolicyRequest): Promise<InsurancePolicy> {
+  return apiClient.post<InsurancePolicy>(`/patients/${patientId}/policies`, request);
+}
+
+/**
+ * Update an insurance policy
+ * @returns The updated policy
+ * @throws ApiError subclass on API failure (ValidationError if the payload is rejected)
+ */
+export async function updatePolicy(
+  patientId: number,
+  policyId: number,
+  request: InsurancePolicyRequest,
+): Promise<InsurancePolicy> {
+  return apiClient.put<InsurancePolicy>(`/patients/${patientId}/policies/${policyId}`, request);
+}
+
+/**
+ * Remove an insurance policy
+ * @throws ApiError subclass on API failure (ValidationError if claims still reference it)
+ */
+export async function deletePolicy(patientId: number, policyId: number): Promise<void> {
+  await apiClient.delete<void>(`/patients/${patientId}/policies/${policyId}`);
+}
+
+/**
+ * Bill part or all of an invoice to an insurer
+ * @param invoiceId - Invoice id
+ * @param request - Policy to bill and amount claimed
+ * @returns The invoice with the new claim
+ * @throws ApiError subclass on API failure (ValidationError if the claim is rejected)
+ */
+export async function submitClaim(invoiceId: number, request: SubmitClaimRequest): Promise<Invoice> {
+  return normalizeInvoice(await apiClient.post<ApiInvoice>(`/invoices/${invoiceId}/claims`, request));
+}
+
+/**
+ * Move a claim to a new status (pending, denied or appealed)
+ * @param claimId - Claim id
+ * @returns The invoice with the updated claim
+ * @throws ApiError subclass on API failure (ValidationError if the move is not allowed)
+ */
+export async function updateClaimStatus(claimId: number, request: UpdateClaimStatusRequest): Promise<Invoice> {
+  return normalizeInvoice(await apiClient.patch<ApiInvoice>(`/claims/${claimId}`, request));
+}
+
+/**
+ * Post the explanation of benefits that settles a claim
+ * The backend records the insurer's payment and contractual adjustment and marks the claim paid
+ * @param claimId - Claim id
+ * @returns The invoice with insurer and patient portions updated
+ * @throws ApiError subclass on API failure (ValidationError if the amounts are rejected)
+ */
+export async function postExplanationOfBenefits(claimId: number, eob: ExplanationOfBenefits): Promise<Invoice> {
+  return normalizeInvoice(await apiClient.post<ApiInvoice>(`/claims/${claimId}/eob`, eob));
+}
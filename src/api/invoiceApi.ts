@@ -4,57 +4,69 @@
  * Handles communication with the backend invoice API endpoints
  */
 
-import { Platform } from 'react-native';
-import { Invoice } from '../types/invoice';
-
-// Platform-specific API URL
-// Android emulator uses 10.0.2.2 to access host machine's localhost
-// iOS simulator can use localhost
-// For physical devices, replace with your computer's IP address
-const getApiBaseUrl = (): string => {
-  if (Platform.OS === 'android') {
-    // For Android emulator, use 10.0.2.2 to access host machine
-    // For physical device, replace with your computer's IP (e.g., 'http://192.168.1.100:8000/api/v1')
-    return 'http://10.0.2.2:8000/api/v1';
-  }
-  // iOS simulator - localhost works
-  return 'http://localhost:8000/api/v1';
-};
-
-const API_BASE_URL = getApiBaseUrl();
+import { apiClient, ApiCallOptions } from './client';
+import { ApiInvoice, Invoice, CreateInvoiceRequest, FinalizeInvoiceRequest } from '../types/invoice';
+import { normalizeInvoice } from '../utils/invoiceStatus';
 
 /**
  * Fetch all invoices from the API
- * @param accessToken - JWT access token
+ * Statuses are normalized to the invoice lifecycle (e.g. legacy 'unpaid' becomes 'pending')
  * @returns Array of invoice objects
- * @throws Error on API failure
+ * @throws ApiError subclass on API failure
  */
-export async function fetchInvoices(accessToken: string): Promise<Invoice[]> {
-  try {
-    const response = await fetch(`${API_BASE_URL}/invoices/`, {
-      method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${accessToken}`,
-        'Content-Type': 'application/json',
-      },
-    });
+export async function fetchInvoices(options?: ApiCallOptions): Promise<Invoice[]> {
+  const invoices = await apiClient.get<ApiInvoice[]>('/invoices/', options);
+  return invoices.map(normalizeInvoice);
+}
 
-    if (!response.ok) {
-      // Detect token expiration (401/403)
-      if (response.status === 401 || response.status === 403) {
-        throw new Error('Token expired');
-      }
-      throw new Error('Failed to fetch invoices');
-    }
+/**
+ * Fetch one patient's invoices, with their payments and credit notes
+ * @param patientId - Patient id
+ * @returns The patient's invoices
+ * @throws ApiError subclass on API failure
+ */
+export async function fetchPatientInvoices(patientId: number, options?: ApiCallOptions): Promise<Invoice[]> {
+  const invoices = await apiClient.get<ApiInvoice[]>('/invoices/', { ...options, query: { patient_id: patientId } });
+  return invoices.map(normalizeInvoice);
+}
 
-    const invoices: Invoice[] = await response.json();
-    return invoices;
-  } catch (error) {
-    // Re-throw token expiration errors, otherwise generic message
-    if (error instanceof Error && error.message === 'Token expired') {
-      throw error;
-    }
-    throw new Error('Failed to fetch invoices');
-  }
+/**
+ * Fetch a single invoice by id
+ * @param invoiceId - Invoice id
+ * @returns Invoice object
+ * @throws ApiError subclass on API failure (status 404 if not found)
+ */
+export async function fetchInvoice(invoiceId: number, options?: ApiCallOptions): Promise<Invoice> {
+  return normalizeInvoice(await apiClient.get<ApiInvoice>(`/invoices/${invoiceId}`, options));
 }
 
+/**
+ * Void an invoice that has not been paid
+ * @param invoiceId - Invoice id
+ * @returns The updated invoice
+ * @throws ApiError subclass on API failure (ValidationError if the invoice cannot be voided)
+ */
+export async function voidInvoice(invoiceId: number): Promise<Invoice> {
+  return normalizeInvoice(await apiClient.post<ApiInvoice>(`/invoices/${invoiceId}/void`));
+}
+
+/**
+ * Create a new invoice
+ * @param request - Patient, line items, adjustments and due date
+ * @returns The created invoice
+ * @throws ApiError subclass on API failure (ValidationError if the payload is rejected)
+ */
+export async function createInvoice(request: CreateInvoiceRequest): Promise<Invoice> {
+  return normalizeInvoice(await apiClient.post<ApiInvoice>('/invoices/', request));
+}
+
+/**
+ * Issue a draft invoice to the patient once billing staff have reviewed it
+ * @param invoiceId - Id of an invoice in draft
+ * @param request - Due date for the issued invoice
+ * @returns The updated invoice, no longer in draft
+ * @throws ApiError subclass on API failure (ValidationError if the invoice is not a draft)
+ */
+export async function finalizeInvoice(invoiceId: number, request: FinalizeInvoiceRequest): Promise<Invoice> {
+  return normalizeInvoice(await apiClient.post<ApiInvoice>(`/invoices/${invoiceId}/finalize`, request));
+}
@@ -0,0 +1,58 @@
+/**
+ * Patient API Service
+ *
+ * Handles communication with the backend patient directory endpoints
+ */
+
+import { apiClient, ApiCallOptions } from './client';
+import { Patient, PatientRequest } from '../types/patient';
+
+/**
+ * Fetch all patients
+ * @returns Patients sorted by last name
+ * @throws ApiError subclass on API failure
+ */
+export async function fetchPatients(options?: ApiCallOptions): Promise<Patient[]> {
+  return apiClient.get<Patient[]>('/patients/', options);
+}
+
+/**
+ * Search patients by name, patient id, email or phone
+ * @param query - Search text
+ * @returns Matching patients, best match first
+ * @throws ApiError subclass on API failure
+ */
+export async function searchPatients(query: string, options?: ApiCallOptions): Promise<Patient[]> {
+  return apiClient.get<Patient[]>('/patients/', { ...options, query: { search: query.trim() } });
+}
+
+/**
+ * Fetch a single patient by id
+ * @param patientId - Patient id
+ * @returns Patient record
+ * @throws ApiError subclass on API failure (status 404 if not found)
+ */
+export async function fetchPatient(patientId: number, options?: ApiCallOptions): Promise<Patient> {
+  return apiClient.get<Patient>(`/patients/${patientId}`, options);
+}
+
+/**
+ * Create a patient record
+ * @param request - Demographics, contact details and billing address
+ * @returns The created patient
+ * @throws ApiError subclass on API failure (ValidationError if the payload is rejected)
+ */
+export async function createPatient(request: PatientRequest): Promise<Patient> {
+  return apiClient.post<Patient>('/patients/', request);
+}
+
+/**
+ * Update a patient record
+ * @param patientId - Patient id
+ * @param request - Full record; omitted optional fields are cleared
+ * @returns The updated patient
+ * @throws ApiError subclass on API failure (ValidationError if the payload is rejected)
+ */
+export async function updatePatient(patientId: number, request: PatientRequest): Promise<Patient> {
+  return apiClient.put<Patient>(`/patients/${patientId}`, request);
+}
@@ -0,0 +1,50 @@
+/**
+ * Payment API Service
+ *
+ * Handles communication with the backend payment API endpoints
+ */
+
+import { apiClient } from './client';
+import { ManualPaymentRequest, Payment, PaymentRequest, Refund, RefundRequest } from '../types/payment';
+
+/**
+ * Record a captured gateway charge against an invoice
+ * The idempotency key is also sent as a header so a retried request is recorded once
+ * @param request - Invoice, amount, gateway transaction and card summary
+ * @returns The recorded payment
+ * @throws ApiError subclass on API failure
+ */
+export async function submitPayment(request: PaymentRequest): Promise<Payment> {
+  return apiClient.post<Payment>('/payments/', request, {
+    headers: { 'Idempotency-Key': request.idempotency_key },
+    timeoutMs: 30000,
+  });
+}
+
+/**
+ * Record a cash or check payment against an invoice
+ * @param request - Invoice, amount, method and optional check number
+ * @returns The recorded payment
+ * @throws ApiError subclass on API failure (ValidationError if the amount exceeds the balance)
+ */
+export async function submitManualPayment(request: ManualPaymentRequest): Promise<Payment> {
+  return apiClient.post<Payment>('/payments/manual', request, {
+    headers: { 'Idempotency-Key': request.idempotency_key },
+    timeoutMs: 30000,
+  });
+}
+
+/**
+ * Record a refund issued at the gateway against an invoice
+ * The backend issues a credit note for it and marks the invoice refunded once fully refunded
+ * @param invoiceId - Invoice id
+ * @param request - Amount, reason and the gateway refunds making it up
+ * @returns The recorded refund with its credit note
+ * @throws ApiError subclass on API failure (ValidationError if the amount exceeds what was paid)
+ */
+export async function submitRefund(invoiceId: number, request: RefundRequest): Promise<Refund> {
+  return apiClient.post<Refund>(`/invoices/${invoiceId}/refunds`, request, {
+    headers: { 'Idempotency-Key': request.idempotency_key },
+    timeoutMs: 30000,
+  });
+}
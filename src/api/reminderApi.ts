@@ -0,0 +1,48 @@
+/**
+ * Reminder API Service
+ *
+ * Handles communication with the backend payment reminder API endpoints
+ */
+
+import { apiClient, ApiCallOptions } from './client';
+import { InvoiceReminder, ReminderSchedule, SendReminderRequest } from '../types/reminder';
+
+/**
+ * Fetch the clinic's reminder schedule
+ * @returns Schedule steps
+ * @throws ApiError subclass on API failure (status 404 if none has been saved)
+ */
+export async function fetchReminderSchedule(options?: ApiCallOptions): Promise<ReminderSchedule> {
+  return apiClient.get<ReminderSchedule>('/reminders/schedule', options);
+}
+
+/**
+ * Replace the clinic's reminder schedule
+ * @param schedule - Full list of steps
+ * @returns The saved schedule
+ * @throws ApiError subclass on API failure (ValidationError if a step is rejected)
+ */
+export async function updateReminderSchedule(schedule: ReminderSchedule): Promise<ReminderSchedule> {
+  return apiClient.put<ReminderSchedule>('/reminders/schedule', schedule);
+}
+
+/**
+ * Fetch the reminders sent for an invoice
+ * @param invoiceId - Invoice id
+ * @returns Reminders, oldest first
+ * @throws ApiError subclass on API failure
+ */
+export async function fetchInvoiceReminders(invoiceId: number, options?: ApiCallOptions): Promise<InvoiceReminder[]> {
+  return apiClient.get<InvoiceReminder[]>(`/invoices/${invoiceId}/reminders`, options);
+}
+
+/**
+ * Send a reminder for an invoice to the patient's email or phone on file
+ * @param invoiceId - Invoice id
+ * @param request - Channel, message and the schedule step it fulfils
+ * @returns The reminder as recorded by the backend
+ * @throws ApiError subclass on API failure (ValidationError if the patient has no contact for the channel)
+ */
+export async function sendInvoiceReminder(invoiceId: number, request: SendReminderRequest): Promise<InvoiceReminder> {
+  return apiClient.post<InvoiceReminder>(`/invoices/${invoiceId}/reminders`, request);
+}
@@ -0,0 +1,63 @@
+/**
+ * Service Catalog API Service
+ *
+ * Handles communication with the backend fee schedule endpoints
+ */
+
+import { apiClient, ApiCallOptions } from './client';
+import { CatalogService, ServicePriceRequest, ServiceRequest } from '../types/serviceCatalog';
+
+/**
+ * Fetch the service catalog with each service's price schedule
+ * @param includeInactive - Also return services that can no longer be billed
+ * @returns Services sorted by code
+ * @throws ApiError subclass on API failure
+ */
+export async function fetchServices(includeInactive = false, options?: ApiCallOptions): Promise<CatalogService[]> {
+  return apiClient.get<CatalogService[]>('/services/', { ...options, query: { include_inactive: includeInactive || undefined } });
+}
+
+/**
+ * Fetch a single service by id
+ * @returns Service with its price schedule
+ * @throws ApiError subclass on API failure (status 404 if not found)
+ */
+export async function fetchService(serviceId: number, options?: ApiCallOptions): Promise<CatalogService> {
+  return apiClient.get<CatalogService>(`/services/${serviceId}`, options);
+}
+
+/**
+ * Add a service to the catalog
+ * @returns The created service
+ * @throws ApiError subclass on API failure (ValidationError if the code is already in use)
+ */
+export async function createService(request: ServiceRequest): Promise<CatalogService> {
+  return apiClient.post<CatalogService>('/services/', request);
+}
+
+/**
+ * Update a service's code, description, default price, tax category or active flag
+ * @returns The updated service
+ * @throws ApiError subclass on API failure (ValidationError if the payload is rejected)
+ */
+export async function updateService(serviceId: number, request: ServiceRequest): Promise<CatalogService> {
+  return apiClient.put<CatalogService>(`/services/${serviceId}`, request);
+}
+
+/**
+ * Schedule a price change, for every payer or for one
+ * @returns The service with its updated price schedule
+ * @throws ApiError subclass on API failure (ValidationError if a price already starts that day for the payer)
+ */
+export async function addServicePrice(serviceId: number, request: ServicePriceRequest): Promise<CatalogService> {
+  return apiClient.post<CatalogService>(`/services/${serviceId}/prices`, request);
+}
+
+/**
+ * Remove a scheduled price
+ * @returns The service with its updated price schedule
+ * @throws ApiError subclass on API failure
+ */
+export async function deleteServicePrice(serviceId: number, priceId: number): Promise<CatalogService> {
+  return apiClient.delete<CatalogService>(`/services/${serviceId}/prices/${priceId}`);
+}
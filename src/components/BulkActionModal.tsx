@@ -0,0 +1,257 @@
+/**
+ * BulkActionModal Component
+ *
+ * Confirms a bulk action on the selected invoices, shows progress while it runs
+ * and a summary afterwards listing every invoice that was skipped or failed
+ */
+
+import React, { useState, useEffect } from 'react';
+import { View, Text, TextInput, TouchableOpacity, Modal, ScrollView, ActivityIndicator, useColorScheme } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import tw from '../lib/tailwind';
+import { Invoice } from '../types/invoice';
+import { ManualPaymentMethod } from '../types/payment';
+import { ReminderChannel } from '../types/reminder';
+import {
+  BulkActionProgress,
+  BulkActionResult,
+  BulkInvoiceAction,
+  getBulkActionSkipReason,
+  runBulkInvoiceAction,
+} from '../services/invoices/bulkInvoiceActions';
+import { shareInvoiceBatchPdf } from '../services/documents/invoicePdf';
+import { shareInvoiceCsv } from '../services/documents/invoiceExport';
+import { MANUAL_PAYMENT_METHOD_LABELS } from '../utils/invoiceFormatting';
+import { REMINDER_CHANNEL_LABELS } from '../utils/reminders';
+
+export type BulkActionId = BulkInvoiceAction['type'] | 'export' | 'print';
+
+interface BulkActionModalProps {
+  visible: boolean;
+  actionId: BulkActionId | null;
+  invoices: Invoice[];
+  onClose: () => void;
+  onFinished: () => void; // called when the summary is dismissed
+}
+
+type Phase = 'confirm' | 'running' | 'done';
+
+const ACTION_DETAILS: Record<BulkActionId, { title: string; verb: string }> = {
+  remind: { title: 'Send Reminders', verb: 'Send' },
+  mark_paid: { title: 'Mark as Paid', verb: 'Mark Paid' },
+  void: { title: 'Void Invoices', verb: 'Void' },
+  export: { title: 'Export Invoices', verb: 'Export' },
+  print: { title: 'Print Invoices', verb: 'Print' },
+};
+
+const CHANNELS = Object.keys(REMINDER_CHANNEL_LABELS) as ReminderChannel[];
+const PAYMENT_METHODS = Object.keys(MANUAL_PAYMENT_METHOD_LABELS) as ManualPaymentMethod[];
+
+const OUTCOME_STYLES: Record<BulkActionResult['outcome'], { icon: string; color: string }> = {
+  succeeded: { icon: 'check-circle', color: 'success' },
+  skipped: { icon: 'remove-circle-outline', color: 'amber-500' },
+  failed: { icon: 'error-outline', color: 'danger' },
+};
+
+const pluralize = (count: number) => `${count} ${count === 1 ? 'invoice' : 'invoices'}`;
+
+const BulkActionModal: React.FC<BulkActionModalProps> = ({ visible, actionId, invoices, onClose, onFinished }) => {
+  const [phase, setPhase] = useState<Phase>('confirm');
+  const [channel, setChannel] = useState<ReminderChannel>('email');
+  const [method, setMethod] = useState<ManualPaymentMethod>('cash');
+  const [reference, setReference] = useState('');
+  const [progress, setProgress] = useState<BulkActionProgress>({ completed: 0, total: 0 });
+  const [results, setResults] = useState<BulkActionResult[]>([]);
+  const [documentError, setDocumentError] = useState<string | null>(null);
+  const isDark = useColorScheme() === 'dark';
+  const placeholderTextColor = isDark ? tw.color('border-dark') : tw.color('border-light');
+
+  // Start from the confirmation step each time the modal opens
+  useEffect(() => {
+    if (visible) {
+      setPhase('confirm');
+      setChannel('email');
+      setMethod('cash');
+      setReference('');
+      setProgress({ completed: 0, total: invoices.length });
+      setResults([]);
+      setDocumentError(null);
+    }
+  }, [visible, invoices.length]);
+
+  if (!actionId) {
+    return null;
+  }
+
+  const details = ACTION_DETAILS[actionId];
+  const action: BulkInvoiceAction | null = actionId === 'remind'
+    ? { type: 'remind', channel }
+    : actionId === 'mark_paid'
+      ? { type: 'mark_paid', method, reference: method === 'check' && reference.trim() ? reference.trim() : undefined }
+      : actionId === 'void'
+        ? { type: 'void' }
+        : null;
+  const skippedCount = action ? invoices.filter(invoice => getBulkActionSkipReason(action, invoice) !== null).length : 0;
+  const eligibleCount = invoices.length - skippedCount;
+
+  const handleRun = async () => {
+    setPhase('running');
+    if (action) {
+      setResults(await runBulkInvoiceAction(action, invoices, setProgress));
+    } else {
+      try {
+        await (actionId === 'export' ? shareInvoiceCsv(invoices) : shareInvoiceBatchPdf(invoices));
+      } catch (err) {
+        console.error(`Bulk ${actionId} failed:`, err);
+        setDocumentError(actionId === 'export'
+          ? 'Unable to export the invoices. Please try again.'
+          : 'Unable to create the PDF. Please try again.');
+      }
+    }
+    setPhase('done');
+  };
+
+  const handleDone = () => {
+    onClose();
+    onFinished();
+  };
+
+  const succeeded = results.filter(result => result.outcome === 'succeeded');
+  const problems = results.filter(result => result.outcome !== 'succeeded');
+  const share = progress.total > 0 ? progress.completed / progress.total : 0;
+
+  return (
+    <Modal visible={visible} transparent={true} animationType="fade" onRequestClose={phase === 'running' ? undefined : onClose}>
+      <View style={tw`flex-1 bg-black/50 items-center justify-center p-4`}>
+        <View style={tw`bg-surface-light dark:bg-surface-dark rounded-xl p-6 w-full max-w-sm shadow-lg`}>
+          <Text style={tw`text-xl font-bold text-text-light dark:text-text-dark mb-1`}>{details.title}</Text>
+
+          {phase === 'confirm' && (
+            <>
+              <Text style={tw`mb-4 text-sm text-text-light/70 dark:text-text-dark/70`}>
+                {pluralize(invoices.length)} selected
+                {skippedCount > 0 ? ` · ${skippedCount} will be skipped` : ''}
+              </Text>
+
+              {actionId === 'remind' && (
+                <View style={tw`flex-row rounded-lg bg-primary/20 p-1 mb-4`}>
+                  {CHANNELS.map(option => (
+                    <TouchableOpacity
+                      key={option}
+                      onPress={() => setChannel(option)}
+                      style={tw`flex-1 h-9 items-center justify-center rounded-md ${channel === option ? 'bg-primary' : ''}`}
+                    >
+                      <Text style={tw`text-sm font-semibold ${channel === option ? 'text-white' : 'text-primary'}`}>
+                        {REMINDER_CHANNEL_LABELS[option]}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
+
+              {actionId === 'mark_paid' && (
+                <>
+                  <View style={tw`flex-row rounded-lg bg-primary/20 p-1 mb-4`}>
+                    {PAYMENT_METHODS.map(option => (
+                      <TouchableOpacity
+                        key={option}
+                        onPress={() => setMethod(option)}
+                        style={tw`flex-1 h-9 items-center justify-center rounded-md ${method === option ? 'bg-primary' : ''}`}
+                      >
+                        <Text style={tw`text-sm font-semibold ${method === option ? 'text-white' : 'text-primary'}`}>
+                          {MANUAL_PAYMENT_METHOD_LABELS[option]}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                  {method === 'check' && (
+                    <TextInput
+                      style={tw`h-12 mb-4 rounded-lg border border-border-light dark:border-border-dark bg-background-light dark:bg-background-dark px-4 text-text-light dark:text-text-dark`}
+                      placeholder="Check number (optional)"
+                      placeholderTextColor={placeholderTextColor}
+                      value={reference}
+                      onChangeText={setReference}
+                    />
+                  )}
+                  <Text style={tw`mb-2 text-sm text-text-light/70 dark:text-text-dark/70`}>
+                    The full remaining balance of each invoice is recorded as paid.
+                  </Text>
+                </>
+              )}
+
+              {actionId === 'void' && (
+                <Text style={tw`mb-2 text-sm text-danger`}>Voided invoices cannot be reopened.</Text>
+              )}
+
+              <TouchableOpacity
+                style={tw`mt-4 rounded-lg py-3 items-center ${actionId === 'void' ? 'bg-danger' : 'bg-primary'} ${eligibleCount > 0 ? '' : 'opacity-50'}`}
+                onPress={handleRun}
+                disabled={eligibleCount === 0}
+              >
+                <Text style={tw`text-white font-semibold`}>{details.verb} {pluralize(eligibleCount)}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={tw`mt-3 py-2 items-center`} onPress={onClose}>
+                <Text style={tw`text-text-light/70 dark:text-text-dark/70`}>Cancel</Text>
+              </TouchableOpacity>
+            </>
+          )}
+
+          {phase === 'running' && (
+            <View style={tw`py-4`}>
+              <ActivityIndicator size="large" color={tw.color('primary')} />
+              {action && (
+                <>
+                  <Text style={tw`mt-4 text-center text-sm text-text-light/70 dark:text-text-dark/70`}>
+                    {progress.completed} of {progress.total} done
+                  </Text>
+                  <View style={tw`mt-2 h-2 rounded-full bg-slate-200 dark:bg-slate-700 overflow-hidden`}>
+                    <View style={[tw`h-2 rounded-full bg-primary`, { width: `${Math.round(share * 100)}%` }]} />
+                  </View>
+                </>
+              )}
+            </View>
+          )}
+
+          {phase === 'done' && (
+            <>
+              {action ? (
+                <Text style={tw`mb-3 text-sm text-text-light/70 dark:text-text-dark/70`}>
+                  {succeeded.length} succeeded
+                  {` · ${results.filter(result => result.outcome === 'skipped').length} skipped`}
+                  {` · ${results.filter(result => result.outcome === 'failed').length} failed`}
+                </Text>
+              ) : (
+                <Text style={tw`mb-3 text-sm ${documentError ? 'text-danger' : 'text-text-light/70 dark:text-text-dark/70'}`}>
+                  {documentError ?? `${pluralize(invoices.length)} ${actionId === 'export' ? 'exported' : 'sent to print'}`}
+                </Text>
+              )}
+
+              {problems.length > 0 && (
+                <ScrollView style={tw`max-h-64`}>
+                  {problems.map(result => {
+                    const style = OUTCOME_STYLES[result.outcome];
+                    return (
+                      <View key={result.invoice.id} style={tw`flex-row items-start gap-2 py-2 border-b border-border-light/50 dark:border-border-dark/50`}>
+                        <Icon name={style.icon} size={18} color={tw.color(style.color)} />
+                        <View style={tw`flex-1`}>
+                          <Text style={tw`text-sm font-medium text-text-light dark:text-text-dark`}>#{result.invoice.invoice_number}</Text>
+                          <Text style={tw`text-xs text-text-light/70 dark:text-text-dark/70`}>{result.message}</Text>
+                        </View>
+                      </View>
+                    );
+                  })}
+                </ScrollView>
+              )}
+
+              <TouchableOpacity style={tw`mt-4 rounded-lg bg-primary py-3 items-center`} onPress={handleDone}>
+                <Text style={tw`text-white font-semibold`}>Done</Text>
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+export default BulkActionModal;
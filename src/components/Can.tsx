@@ -0,0 +1,22 @@
+/**
+ * Can Component
+ *
+ * Renders its children only when the current user has the given permission
+ */
+
+import React, { ReactNode } from 'react';
+import { Permission } from '../types/auth';
+import { usePermission } from '../hooks/usePermission';
+
+interface CanProps {
+  permission: Permission;
+  children: ReactNode;
+  fallback?: ReactNode;
+}
+
+const Can: React.FC<CanProps> = ({ permission, children, fallback = null }) => {
+  const allowed = usePermission(permission);
+  return <>{allowed ? children : fallback}</>;
+};
+
+export default Can;
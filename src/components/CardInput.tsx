@@ -0,0 +1,128 @@
+/**
+ * CardInput Component
+ *
+ * Controlled card number, expiry and CVC fields that format as the user types,
+ * show the detected brand and display inline validation errors once a field is touched
+ */
+
+import React, { useState } from 'react';
+import { View, Text, TextInput, useColorScheme } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import tw from '../lib/tailwind';
+import { CardFormErrors, CardFormValues } from '../types/payment';
+import {
+  CARD_BRAND_RULES,
+  detectCardBrand,
+  formatCardNumber,
+  formatCvc,
+  formatExpiry,
+} from '../utils/cardValidation';
+
+interface CardInputProps {
+  values: CardFormValues;
+  errors: CardFormErrors;
+  onChange: (values: CardFormValues) => void;
+  disabled?: boolean;
+}
+
+type CardField = keyof CardFormValues;
+
+const CardInput: React.FC<CardInputProps> = ({ values, errors, onChange, disabled = false }) => {
+  const [touched, setTouched] = useState<Record<CardField, boolean>>({
+    number: false,
+    expiry: false,
+    cvc: false,
+  });
+  const isDark = useColorScheme() === 'dark';
+  const placeholderTextColor = isDark ? tw.color('border-dark') : tw.color('border-light');
+  const mutedIconColor = isDark ? tw.color('border-dark') : tw.color('border-light');
+
+  const brand = detectCardBrand(values.number);
+  const brandRules = CARD_BRAND_RULES[brand];
+
+  const markTouched = (field: CardField) => setTouched(prev => ({ ...prev, [field]: true }));
+
+  // Show an error once the field was left, or as soon as it is complete but invalid
+  const visibleError = (field: CardField): string | undefined => {
+    const error = errors[field];
+    if (!error) return undefined;
+    if (touched[field]) return error;
+    if (field === 'expiry' && values.expiry.length === 5) return error;
+    if (field === 'number' && values.number.replace(/\D/g, '').length >= Math.max(...brandRules.lengths)) return error;
+    return undefined;
+  };
+
+  const handleNumberChange = (text: string) => {
+    const number = formatCardNumber(text);
+    // Re-trim the CVC if the brand (and so the CVC length) changed
+    onChange({ ...values, number, cvc: formatCvc(values.cvc, detectCardBrand(number)) });
+  };
+
+  const inputBorder = (field: CardField) =>
+    visibleError(field) ? 'border-danger' : 'border-border-light dark:border-border-dark';
+
+  const numberError = visibleError('number');
+  const expiryError = visibleError('expiry');
+  const cvcError = visibleError('cvc');
+
+  return (
+    <View style={tw`space-y-4`}>
+      <View>
+        <Text style={tw`text-base font-medium pb-2 text-text-light dark:text-text-dark`}>Card Number</Text>
+        <View style={tw`flex-row items-center w-full rounded-lg border ${inputBorder('number')} bg-background-light dark:bg-background-dark h-14 px-4`}>
+          <TextInput
+            style={tw`flex-1 text-text-light dark:text-text-dark`}
+            placeholder={brand === 'amex' ? '0000 000000 00000' : '0000 0000 0000 0000'}
+            placeholderTextColor={placeholderTextColor}
+            keyboardType="number-pad"
+            autoComplete="cc-number"
+            value={values.number}
+            onChangeText={handleNumberChange}
+            onBlur={() => markTouched('number')}
+            editable={!disabled}
+          />
+          {brand !== 'unknown' && (
+            <Text style={tw`mr-2 text-xs font-bold text-primary`}>{brandRules.label}</Text>
+          )}
+          <Icon name="credit-card" size={24} color={brand === 'unknown' ? mutedIconColor : tw.color('primary')} />
+        </View>
+        {numberError && <Text style={tw`mt-1 text-sm text-danger`}>{numberError}</Text>}
+      </View>
+      <View style={tw`flex-row gap-4`}>
+        <View style={tw`flex-1`}>
+          <Text style={tw`text-base font-medium pb-2 text-text-light dark:text-text-dark`}>Expiry Date</Text>
+          <TextInput
+            style={tw`rounded-lg border ${inputBorder('expiry')} bg-background-light dark:bg-background-dark h-14 px-4 text-text-light dark:text-text-dark`}
+            placeholder="MM/YY"
+            placeholderTextColor={placeholderTextColor}
+            keyboardType="number-pad"
+            autoComplete="cc-exp"
+            value={values.expiry}
+            onChangeText={text => onChange({ ...values, expiry: formatExpiry(text) })}
+            onBlur={() => markTouched('expiry')}
+            editable={!disabled}
+          />
+          {expiryError && <Text style={tw`mt-1 text-sm text-danger`}>{expiryError}</Text>}
+        </View>
+        <View style={tw`flex-1`}>
+          <Text style={tw`text-base font-medium pb-2 text-text-light dark:text-text-dark`}>CVC</Text>
+          <TextInput
+            style={tw`rounded-lg border ${inputBorder('cvc')} bg-background-light dark:bg-background-dark h-14 px-4 text-text-light dark:text-text-dark`}
+            placeholder={'0'.repeat(brandRules.cvcLength)}
+            placeholderTextColor={placeholderTextColor}
+            keyboardType="number-pad"
+            autoComplete="cc-csc"
+            secureTextEntry
+            value={values.cvc}
+            onChangeText={text => onChange({ ...values, cvc: formatCvc(text, brand) })}
+            onBlur={() => markTouched('cvc')}
+            editable={!disabled}
+          />
+          {cvcError && <Text style={tw`mt-1 text-sm text-danger`}>{cvcError}</Text>}
+        </View>
+      </View>
+    </View>
+  );
+};
+
+export default CardInput;
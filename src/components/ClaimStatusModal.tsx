@@ -0,0 +1,137 @@
+/**
+ * ClaimStatusModal Component
+ *
+ * Modal for moving an insurance claim to pending, denied or appealed, with the
+ * payer's claim number and the reason for a denial
+ */
+
+import React, { useState, useEffect } from 'react';
+import { View, Text, TextInput, TouchableOpacity, Modal, ActivityIndicator, useColorScheme } from 'react-native';
+import tw from '../lib/tailwind';
+import { ClaimStatus, InsuranceClaim } from '../types/insurance';
+import { getManualClaimTransitions } from '../utils/claimStatus';
+import { CLAIM_STATUS_LABELS } from '../utils/insurance';
+
+export interface ClaimStatusFormValues {
+  status: ClaimStatus;
+  claimNumber?: string;
+  denialReason?: string;
+  note?: string;
+}
+
+interface ClaimStatusModalProps {
+  visible: boolean;
+  claim: InsuranceClaim | null;
+  isSubmitting: boolean;
+  error: string | null;
+  onSubmit: (values: ClaimStatusFormValues) => void;
+  onClose: () => void;
+}
+
+const ClaimStatusModal: React.FC<ClaimStatusModalProps> = ({ visible, claim, isSubmitting, error, onSubmit, onClose }) => {
+  const [status, setStatus] = useState<ClaimStatus | null>(null);
+  const [claimNumber, setClaimNumber] = useState('');
+  const [reason, setReason] = useState('');
+  const isDark = useColorScheme() === 'dark';
+  const placeholderTextColor = isDark ? tw.color('border-dark') : tw.color('border-light');
+
+  const options = claim ? getManualClaimTransitions(claim) : [];
+
+  // Start from the first allowed move each time the modal opens
+  useEffect(() => {
+    if (visible && claim) {
+      setStatus(getManualClaimTransitions(claim)[0] ?? null);
+      setClaimNumber(claim.claim_number ?? '');
+      setReason('');
+    }
+  }, [visible, claim]);
+
+  const isDenial = status === 'denied';
+  const canSubmit = status !== null && (!isDenial || reason.trim() !== '') && !isSubmitting;
+
+  const handleSubmit = () => {
+    if (!canSubmit || !status) return;
+    onSubmit({
+      status,
+      claimNumber: claimNumber.trim() || undefined,
+      denialReason: isDenial ? reason.trim() : undefined,
+      note: !isDenial ? reason.trim() || undefined : undefined,
+    });
+  };
+
+  return (
+    <Modal visible={visible} transparent={true} animationType="fade" onRequestClose={onClose}>
+      <View style={tw`flex-1 bg-black/50 items-center justify-center p-4`}>
+        <View style={tw`bg-surface-light dark:bg-surface-dark rounded-xl p-6 w-full max-w-sm shadow-lg`}>
+          <Text style={tw`text-xl font-bold text-text-light dark:text-text-dark`}>Update Claim</Text>
+          {claim && (
+            <Text style={tw`mt-1 mb-4 text-sm text-text-light/70 dark:text-text-dark/70`}>
+              {claim.payer_name ?? 'Insurance'} · Currently {CLAIM_STATUS_LABELS[claim.status].toLowerCase()}
+            </Text>
+          )}
+
+          {options.length > 0 && (
+            <View style={tw`flex-row rounded-lg bg-primary/20 p-1 mb-4`}>
+              {options.map(option => (
+                <TouchableOpacity
+                  key={option}
+                  onPress={() => setStatus(option)}
+                  disabled={isSubmitting}
+                  style={tw`flex-1 h-9 items-center justify-center rounded-md ${status === option ? 'bg-primary' : ''}`}
+                >
+                  <Text style={tw`text-sm font-semibold ${status === option ? 'text-white' : 'text-primary'}`}>
+                    {CLAIM_STATUS_LABELS[option]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+
+          <TextInput
+            style={tw`rounded-lg border border-border-light dark:border-border-dark bg-background-light dark:bg-background-dark h-12 px-4 text-text-light dark:text-text-dark`}
+            placeholder="Payer claim number (optional)"
+            placeholderTextColor={placeholderTextColor}
+            value={claimNumber}
+            onChangeText={setClaimNumber}
+            autoCapitalize="characters"
+            editable={!isSubmitting}
+          />
+          <TextInput
+            style={tw`mt-3 rounded-lg border border-border-light dark:border-border-dark bg-background-light dark:bg-background-dark h-12 px-4 text-text-light dark:text-text-dark`}
+            placeholder={isDenial ? 'Denial reason' : status === 'appealed' ? 'Appeal reference (optional)' : 'Note (optional)'}
+            placeholderTextColor={placeholderTextColor}
+            value={reason}
+            onChangeText={setReason}
+            editable={!isSubmitting}
+          />
+          {isDenial && (
+            <Text style={tw`mt-1 text-xs text-text-light/70 dark:text-text-dark/70`}>
+              The billed amount goes back to the patient's balance until the claim is appealed
+            </Text>
+          )}
+
+          {error && <Text style={tw`mt-3 text-sm text-danger`}>{error}</Text>}
+
+          <TouchableOpacity
+            style={tw`mt-6 rounded-lg ${isDenial ? 'bg-danger' : 'bg-primary'} py-3 items-center ${canSubmit ? '' : 'opacity-50'}`}
+            onPress={handleSubmit}
+            disabled={!canSubmit}
+          >
+            {isSubmitting ? (
+              <ActivityIndicator size="small" color="#FFFFFF" />
+            ) : (
+              <Text style={tw`text-white font-semibold`}>
+                {status ? `Mark ${CLAIM_STATUS_LABELS[status]}` : 'Update'}
+              </Text>
+            )}
+          </TouchableOpacity>
+          <TouchableOpacity style={tw`mt-3 py-2 items-center`} onPress={onClose} disabled={isSubmitting}>
+            <Text style={tw`text-text-light/70 dark:text-text-dark/70`}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+export default ClaimStatusModal;
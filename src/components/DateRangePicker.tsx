@@ -0,0 +1,156 @@
+/**
+ * DateRangePicker Component
+ *
+ * Modal for choosing which invoice date to filter on and a preset or custom range
+ */
+
+import React, { useState, useEffect } from 'react';
+import { View, Text, TextInput, TouchableOpacity, Modal, useColorScheme } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import tw from '../lib/tailwind';
+import { DateRangePreset, InvoiceDateField, InvoiceDateFilter } from '../types/invoice';
+import {
+  DATE_FIELD_LABELS,
+  DATE_RANGE_PRESETS,
+  getDefaultCustomRange,
+  resolveDateRange,
+} from '../utils/invoiceDateFilter';
+
+interface DateRangePickerProps {
+  visible: boolean;
+  filter: InvoiceDateFilter;
+  onApply: (filter: InvoiceDateFilter) => void;
+  onClose: () => void;
+}
+
+const DATE_FIELDS = Object.keys(DATE_FIELD_LABELS) as InvoiceDateField[];
+
+const DateRangePicker: React.FC<DateRangePickerProps> = ({ visible, filter, onApply, onClose }) => {
+  const [pending, setPending] = useState<InvoiceDateFilter>(filter);
+  const [error, setError] = useState<string | null>(null);
+  const isDark = useColorScheme() === 'dark';
+  const iconColor = isDark ? tw.color('text-dark') : tw.color('text-light');
+  const placeholderTextColor = isDark ? tw.color('border-dark') : tw.color('border-light');
+
+  // Start from the applied filter each time the picker opens
+  useEffect(() => {
+    if (visible) {
+      setPending(filter);
+      setError(null);
+    }
+  }, [visible, filter]);
+
+  const selectPreset = (preset: DateRangePreset) => {
+    setError(null);
+    setPending(prev => ({
+      ...prev,
+      preset,
+      ...(preset === 'custom' && !prev.custom_start ? getDefaultCustomRange() : {}),
+    }));
+  };
+
+  const handleApply = () => {
+    if (pending.preset === 'custom' && !resolveDateRange(pending)) {
+      setError('Enter valid dates (YYYY-MM-DD) with the start on or before the end.');
+      return;
+    }
+    onApply(pending);
+  };
+
+  const handleClear = () => {
+    onApply({ ...pending, preset: null });
+  };
+
+  const inputStyle = tw`flex-1 rounded-lg border border-border-light dark:border-border-dark bg-background-light dark:bg-background-dark h-12 px-4 text-text-light dark:text-text-dark`;
+
+  return (
+    <Modal visible={visible} transparent={true} animationType="fade" onRequestClose={onClose}>
+      <View style={tw`flex-1 bg-black/50 items-center justify-center p-4`}>
+        <View style={tw`bg-surface-light dark:bg-surface-dark rounded-xl p-6 w-full max-w-sm shadow-lg`}>
+          <Text style={tw`text-xl font-bold text-text-light dark:text-text-dark mb-4`}>Filter by Date</Text>
+
+          <Text style={tw`text-sm font-medium pb-2 text-text-light dark:text-text-dark`}>Date</Text>
+          <View style={tw`flex-row rounded-lg bg-primary/20 p-1 mb-4`}>
+            {DATE_FIELDS.map(field => (
+              <TouchableOpacity
+                key={field}
+                onPress={() => setPending(prev => ({ ...prev, field }))}
+                style={tw`flex-1 h-9 items-center justify-center rounded-md ${pending.field === field ? 'bg-primary' : ''}`}
+              >
+                <Text style={tw`text-sm font-semibold ${pending.field === field ? 'text-white' : 'text-primary'}`}>
+                  {DATE_FIELD_LABELS[field]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {DATE_RANGE_PRESETS.map(option => {
+            const isSelected = pending.preset === option.id;
+            return (
+              <TouchableOpacity
+                key={option.id}
+                onPress={() => selectPreset(option.id)}
+                style={tw`flex-row items-center gap-3 py-3 border-b border-border-light/50 dark:border-border-dark/50`}
+              >
+                <Icon
+                  name={isSelected ? 'radio-button-checked' : 'radio-button-unchecked'}
+                  size={22}
+                  color={isSelected ? tw.color('primary') : iconColor}
+                />
+                <Text style={tw`text-base font-medium text-text-light dark:text-text-dark`}>{option.label}</Text>
+              </TouchableOpacity>
+            );
+          })}
+
+          {pending.preset === 'custom' && (
+            <View style={tw`flex-row items-center gap-2 mt-3`}>
+              <TextInput
+                style={inputStyle}
+                placeholder="From"
+                placeholderTextColor={placeholderTextColor}
+                keyboardType="numbers-and-punctuation"
+                value={pending.custom_start ?? ''}
+                onChangeText={text => {
+                  setError(null);
+                  setPending(prev => ({ ...prev, custom_start: text }));
+                }}
+              />
+              <Text style={tw`text-text-light/70 dark:text-text-dark/70`}>–</Text>
+              <TextInput
+                style={inputStyle}
+                placeholder="To"
+                placeholderTextColor={placeholderTextColor}
+                keyboardType="numbers-and-punctuation"
+                value={pending.custom_end ?? ''}
+                onChangeText={text => {
+                  setError(null);
+                  setPending(prev => ({ ...prev, custom_end: text }));
+                }}
+              />
+            </View>
+          )}
+
+          {error && <Text style={tw`mt-3 text-sm text-danger`}>{error}</Text>}
+
+          <View style={tw`flex-row gap-3 mt-6`}>
+            <TouchableOpacity style={tw`flex-1 rounded-lg bg-primary/20 py-3 items-center`} onPress={handleClear}>
+              <Text style={tw`text-primary font-semibold`}>Clear</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={tw`flex-1 rounded-lg bg-primary py-3 items-center ${pending.preset ? '' : 'opacity-50'}`}
+              onPress={handleApply}
+              disabled={!pending.preset}
+            >
+              <Text style={tw`text-white font-semibold`}>Apply</Text>
+            </TouchableOpacity>
+          </View>
+          <TouchableOpacity style={tw`mt-3 py-2 items-center`} onPress={onClose}>
+            <Text style={tw`text-text-light/70 dark:text-text-dark/70`}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+export default DateRangePicker;
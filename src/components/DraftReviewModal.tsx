@@ -0,0 +1,144 @@
+/**
+ * DraftReviewModal Component
+ *
+ * Modal for billing staff to finalize a reviewed draft invoice with its due
+ * date, or to reject its charges with a reason
+ */
+
+import React, { useState, useEffect } from 'react';
+import { View, Text, TextInput, TouchableOpacity, Modal, ActivityIndicator, useColorScheme } from 'react-native';
+import tw from '../lib/tailwind';
+import { addDays, formatDateInput, parseDateInput, startOfDay } from '../utils/dateUtils';
+import { DEFAULT_PAYMENT_TERMS_DAYS } from '../utils/invoiceDraft';
+
+export type DraftReviewAction = 'finalize' | 'reject';
+
+export interface DraftReviewValues {
+  action: DraftReviewAction;
+  dueDate: string; // YYYY-MM-DD; used when finalizing
+  reason: string; // used when rejecting
+}
+
+interface DraftReviewModalProps {
+  visible: boolean;
+  action: DraftReviewAction;
+  isSubmitting: boolean;
+  error: string | null;
+  onSubmit: (values: DraftReviewValues) => void;
+  onClose: () => void;
+}
+
+const TERMS_PRESETS = [
+  { label: 'On receipt', days: 0 },
+  { label: 'Net 15', days: 15 },
+  { label: 'Net 30', days: 30 },
+];
+
+const DraftReviewModal: React.FC<DraftReviewModalProps> = ({ visible, action, isSubmitting, error, onSubmit, onClose }) => {
+  const [dueDate, setDueDate] = useState('');
+  const [reason, setReason] = useState('');
+  const isDark = useColorScheme() === 'dark';
+  const placeholderTextColor = isDark ? tw.color('border-dark') : tw.color('border-light');
+  const isFinalize = action === 'finalize';
+
+  // Start from the default payment terms each time the modal opens
+  useEffect(() => {
+    if (visible) {
+      setDueDate(formatDateInput(addDays(new Date(), DEFAULT_PAYMENT_TERMS_DAYS)));
+      setReason('');
+    }
+  }, [visible]);
+
+  const due = parseDateInput(dueDate);
+  const dueDateError = due === null
+    ? 'Use YYYY-MM-DD.'
+    : due < startOfDay(new Date()) ? 'The due date cannot be in the past.' : null;
+  const canSubmit = !isSubmitting && (isFinalize ? dueDateError === null : reason.trim() !== '');
+
+  const handleSubmit = () => {
+    if (!canSubmit) return;
+    onSubmit({ action, dueDate, reason });
+  };
+
+  return (
+    <Modal visible={visible} transparent={true} animationType="fade" onRequestClose={onClose}>
+      <View style={tw`flex-1 bg-black/50 items-center justify-center p-4`}>
+        <View style={tw`bg-surface-light dark:bg-surface-dark rounded-xl p-6 w-full max-w-sm shadow-lg`}>
+          <Text style={tw`text-xl font-bold text-text-light dark:text-text-dark`}>
+            {isFinalize ? 'Finalize Invoice' : 'Reject Charges'}
+          </Text>
+          <Text style={tw`mt-1 mb-4 text-sm text-text-light/70 dark:text-text-dark/70`}>
+            {isFinalize
+              ? 'The invoice is issued to the patient and can be paid, reminded about and billed to insurance.'
+              : 'The draft is voided and never billed. The doctor sees the encounter as rejected.'}
+          </Text>
+
+          {isFinalize ? (
+            <>
+              <View style={tw`flex-row flex-wrap gap-2 mb-3`}>
+                {TERMS_PRESETS.map(preset => {
+                  const presetDate = formatDateInput(addDays(new Date(), preset.days));
+                  const isSelected = dueDate === presetDate;
+                  return (
+                    <TouchableOpacity
+                      key={preset.label}
+                      onPress={() => setDueDate(presetDate)}
+                      disabled={isSubmitting}
+                      style={tw`h-9 px-4 items-center justify-center rounded-full ${isSelected ? 'bg-primary' : 'bg-primary/20'}`}
+                    >
+                      <Text style={tw`text-sm font-medium ${isSelected ? 'text-white' : 'text-primary'}`}>{preset.label}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+              <Text style={tw`text-sm font-medium pb-2 text-text-light dark:text-text-dark`}>Due Date</Text>
+              <TextInput
+                style={tw`rounded-lg border ${dueDateError ? 'border-danger' : 'border-border-light dark:border-border-dark'} bg-background-light dark:bg-background-dark h-12 px-4 text-text-light dark:text-text-dark`}
+                placeholder="YYYY-MM-DD"
+                placeholderTextColor={placeholderTextColor}
+                keyboardType="numbers-and-punctuation"
+                value={dueDate}
+                onChangeText={setDueDate}
+                editable={!isSubmitting}
+              />
+              {dueDateError && <Text style={tw`mt-1 text-xs text-danger`}>{dueDateError}</Text>}
+            </>
+          ) : (
+            <>
+              <Text style={tw`text-sm font-medium pb-2 text-text-light dark:text-text-dark`}>Reason</Text>
+              <TextInput
+                style={tw`rounded-lg border border-border-light dark:border-border-dark bg-background-light dark:bg-background-dark min-h-20 px-4 py-3 text-text-light dark:text-text-dark`}
+                placeholder="e.g. Service not documented"
+                placeholderTextColor={placeholderTextColor}
+                multiline
+                textAlignVertical="top"
+                value={reason}
+                onChangeText={setReason}
+                editable={!isSubmitting}
+              />
+            </>
+          )}
+
+          {error && <Text style={tw`mt-3 text-sm text-danger`}>{error}</Text>}
+
+          <TouchableOpacity
+            style={tw`mt-6 rounded-lg ${isFinalize ? 'bg-primary' : 'bg-danger'} py-3 items-center ${canSubmit ? '' : 'opacity-50'}`}
+            onPress={handleSubmit}
+            disabled={!canSubmit}
+          >
+            {isSubmitting ? (
+              <ActivityIndicator size="small" color="#FFFFFF" />
+            ) : (
+              <Text style={tw`text-white font-semibold`}>{isFinalize ? 'Finalize Invoice' : 'Reject Charges'}</Text>
+            )}
+          </TouchableOpacity>
+          <TouchableOpacity style={tw`mt-3 py-2 items-center`} onPress={onClose} disabled={isSubmitting}>
+            <Text style={tw`text-text-light/70 dark:text-text-dark/70`}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+export default DraftReviewModal;
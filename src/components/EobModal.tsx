@@ -0,0 +1,132 @@
+/**
+ * EobModal Component
+ *
+ * Modal for posting the explanation of benefits (EOB) that settles an
+ * insurance claim: what the insurer allowed, paid and left to the patient
+ */
+
+import React, { useState, useEffect } from 'react';
+import { View, Text, TextInput, TouchableOpacity, Modal, ActivityIndicator, useColorScheme } from 'react-native';
+import tw from '../lib/tailwind';
+import { EobFormErrors, EobFormValues, ExplanationOfBenefits, InsuranceClaim } from '../types/insurance';
+import { formatCurrency, parseAmountToCents } from '../utils/financialMetrics';
+import { getCurrencySymbol, getMinorUnitDigits } from '../utils/currency';
+import { buildExplanationOfBenefits, createEobForm, validateEobForm } from '../utils/insurance';
+
+interface EobModalProps {
+  visible: boolean;
+  claim: InsuranceClaim | null;
+  currency?: string | null;
+  isSubmitting: boolean;
+  error: string | null;
+  onSubmit: (eob: ExplanationOfBenefits) => void;
+  onClose: () => void;
+}
+
+const AMOUNT_FIELDS: { key: keyof Omit<EobFormValues, 'claim_number'>; label: string }[] = [
+  { key: 'allowed', label: 'Allowed Amount' },
+  { key: 'paid', label: 'Insurer Paid' },
+  { key: 'patient_responsibility', label: 'Patient Responsibility' },
+];
+
+const EobModal: React.FC<EobModalProps> = ({ visible, claim, currency, isSubmitting, error, onSubmit, onClose }) => {
+  const [values, setValues] = useState<EobFormValues | null>(null);
+  const [isSubmitAttempted, setIsSubmitAttempted] = useState(false);
+  const isDark = useColorScheme() === 'dark';
+  const placeholderTextColor = isDark ? tw.color('border-dark') : tw.color('border-light');
+
+  // Prefill from the claim each time the modal opens
+  useEffect(() => {
+    if (visible && claim) {
+      setValues(createEobForm(claim, currency));
+      setIsSubmitAttempted(false);
+    }
+  }, [visible, claim, currency]);
+
+  const errors: EobFormErrors = values && claim ? validateEobForm(values, claim, currency) : {};
+  const isValid = Object.keys(errors).length === 0;
+  const canSubmit = values !== null && !isSubmitting;
+  const allowedCents = values ? parseAmountToCents(values.allowed, currency) : null;
+  const adjustmentCents = claim && allowedCents !== null ? claim.billed_cents - allowedCents : null;
+
+  const setField = (key: keyof EobFormValues, value: string) => {
+    setValues(prev => (prev ? { ...prev, [key]: value } : prev));
+  };
+
+  const handleSubmit = () => {
+    setIsSubmitAttempted(true);
+    if (!canSubmit || !values || !isValid) return;
+    onSubmit(buildExplanationOfBenefits(values, currency));
+  };
+
+  return (
+    <Modal visible={visible} transparent={true} animationType="fade" onRequestClose={onClose}>
+      <View style={tw`flex-1 bg-black/50 items-center justify-center p-4`}>
+        <View style={tw`bg-surface-light dark:bg-surface-dark rounded-xl p-6 w-full max-w-sm shadow-lg`}>
+          <Text style={tw`text-xl font-bold text-text-light dark:text-text-dark`}>Post EOB</Text>
+          {claim && (
+            <Text style={tw`mt-1 mb-2 text-sm text-text-light/70 dark:text-text-dark/70`}>
+              {claim.payer_name ?? 'Insurance'} · Billed {formatCurrency(claim.billed_cents, currency)}
+            </Text>
+          )}
+
+          {values && AMOUNT_FIELDS.map(field => {
+            const fieldError = isSubmitAttempted ? errors[field.key] : undefined;
+            return (
+              <View key={field.key} style={tw`pt-3`}>
+                <Text style={tw`text-sm font-medium pb-2 text-text-light dark:text-text-dark`}>{field.label}</Text>
+                <View style={tw`flex-row items-center rounded-lg border ${fieldError ? 'border-danger' : 'border-border-light dark:border-border-dark'} bg-background-light dark:bg-background-dark h-12 px-4`}>
+                  <Text style={tw`text-base text-text-light/70 dark:text-text-dark/70`}>{getCurrencySymbol(currency)}</Text>
+                  <TextInput
+                    style={tw`flex-1 pl-1 text-base text-text-light dark:text-text-dark`}
+                    keyboardType={getMinorUnitDigits(currency) === 0 ? 'number-pad' : 'decimal-pad'}
+                    value={values[field.key]}
+                    onChangeText={value => setField(field.key, value)}
+                    editable={!isSubmitting}
+                  />
+                </View>
+                {fieldError && <Text style={tw`mt-1 text-sm text-danger`}>{fieldError}</Text>}
+              </View>
+            );
+          })}
+          {adjustmentCents !== null && adjustmentCents > 0 && (
+            <Text style={tw`mt-2 text-xs text-text-light/70 dark:text-text-dark/70`}>
+              {formatCurrency(adjustmentCents, currency)} is written off as a contractual adjustment
+            </Text>
+          )}
+
+          {values && (
+            <TextInput
+              style={tw`mt-3 rounded-lg border border-border-light dark:border-border-dark bg-background-light dark:bg-background-dark h-12 px-4 text-text-light dark:text-text-dark`}
+              placeholder="Payer claim number (optional)"
+              placeholderTextColor={placeholderTextColor}
+              value={values.claim_number}
+              onChangeText={value => setField('claim_number', value)}
+              autoCapitalize="characters"
+              editable={!isSubmitting}
+            />
+          )}
+
+          {error && <Text style={tw`mt-3 text-sm text-danger`}>{error}</Text>}
+
+          <TouchableOpacity
+            style={tw`mt-6 rounded-lg bg-primary py-3 items-center ${canSubmit ? '' : 'opacity-50'}`}
+            onPress={handleSubmit}
+            disabled={!canSubmit}
+          >
+            {isSubmitting ? (
+              <ActivityIndicator size="small" color="#FFFFFF" />
+            ) : (
+              <Text style={tw`text-white font-semibold`}>Post EOB</Text>
+            )}
+          </TouchableOpacity>
+          <TouchableOpacity style={tw`mt-3 py-2 items-center`} onPress={onClose} disabled={isSubmitting}>
+            <Text style={tw`text-text-light/70 dark:text-text-dark/70`}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+export default EobModal;
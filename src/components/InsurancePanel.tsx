@@ -0,0 +1,234 @@
+/**
+ * InsurancePanel Component
+ *
+ * Shows how an invoice splits between insurers and the patient and the claims
+ * billed on it, and lets billing staff submit claims, update their status and
+ * post explanations of benefits
+ */
+
+import React, { useState, useCallback } from 'react';
+import { View, Text, TouchableOpacity } from 'react-native';
+import tw from '../lib/tailwind';
+import Can from './Can';
+import SubmitClaimModal, { ClaimFormValues } from './SubmitClaimModal';
+import ClaimStatusModal, { ClaimStatusFormValues } from './ClaimStatusModal';
+import EobModal from './EobModal';
+import { fetchPatientPolicies } from '../api/insuranceApi';
+import { ApiError, NetworkError, ValidationError } from '../api/errors';
+import { adjudicateClaim, changeClaimStatus, submitInsuranceClaim } from '../services/insurance/claimService';
+import { Invoice } from '../types/invoice';
+import { ExplanationOfBenefits, InsuranceClaim, InsurancePolicy } from '../types/insurance';
+import { formatCurrency } from '../utils/financialMetrics';
+import { formatInvoiceDate } from '../utils/invoiceFormatting';
+import { canTransitionClaim, getManualClaimTransitions } from '../utils/claimStatus';
+import { CLAIM_STATUS_LABELS, claimStatusStyles, sortPolicies } from '../utils/insurance';
+import {
+  getInsuranceAdjustmentCents,
+  getInsuranceBalanceCents,
+  getInsurancePaidCents,
+  getPatientBalanceCents,
+  getPatientPortionCents,
+} from '../utils/invoiceTotals';
+
+interface InsurancePanelProps {
+  invoice: Invoice;
+  onInvoiceUpdated: (invoice: Invoice) => void;
+}
+
+type ClaimAction = { type: 'submit' } | { type: 'status', claim: InsuranceClaim } | { type: 'eob', claim: InsuranceClaim };
+
+const getClaimErrorMessage = (err: unknown): string => {
+  if (err instanceof ValidationError) {
+    return err.message;
+  }
+  if (err instanceof NetworkError) {
+    return 'Unable to connect to server. Please check your network connection.';
+  }
+  if (err instanceof ApiError && err.message) {
+    return err.message;
+  }
+  return 'The claim could not be updated. Please try again.';
+};
+
+const SplitRow: React.FC<{ label: string; cents: number; currency?: string | null; isStrong?: boolean }> = ({ label, cents, currency, isStrong = false }) => (
+  <View style={tw`flex-row justify-between py-2 border-b border-border-light/50 dark:border-border-dark/50`}>
+    <Text style={tw`text-sm text-text-light/70 dark:text-text-dark/70`}>{label}</Text>
+    <Text style={tw`text-sm ${isStrong ? 'font-bold' : 'font-semibold'} text-text-light dark:text-text-dark`}>{formatCurrency(cents, currency)}</Text>
+  </View>
+);
+
+const InsurancePanel: React.FC<InsurancePanelProps> = ({ invoice, onInvoiceUpdated }) => {
+  const [action, setAction] = useState<ClaimAction | null>(null);
+  const [policies, setPolicies] = useState<InsurancePolicy[]>([]);
+  const [isLoadingPolicies, setIsLoadingPolicies] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const claims = invoice.claims ?? [];
+  const currency = invoice.currency;
+  const patientBalanceCents = getPatientBalanceCents(invoice);
+
+  const loadPolicies = useCallback(async () => {
+    setIsLoadingPolicies(true);
+    try {
+      setPolicies(sortPolicies(await fetchPatientPolicies(invoice.patient_id)));
+    } catch (err) {
+      console.error('Error loading insurance policies:', err);
+      setActionError('Unable to load the patient\'s insurance. Please try again.');
+    } finally {
+      setIsLoadingPolicies(false);
+    }
+  }, [invoice.patient_id]);
+
+  const openAction = (next: ClaimAction) => {
+    setActionError(null);
+    setAction(next);
+    if (next.type === 'submit') {
+      loadPolicies();
+    }
+  };
+
+  // Runs one claim update and hands the refreshed invoice back to the screen
+  const runAction = async (update: () => Promise<Invoice>) => {
+    if (isSubmitting) return;
+    setIsSubmitting(true);
+    setActionError(null);
+    try {
+      onInvoiceUpdated(await update());
+      setAction(null);
+    } catch (err) {
+      console.error('Error updating claim:', err);
+      setActionError(getClaimErrorMessage(err));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSubmitClaim = (values: ClaimFormValues) =>
+    runAction(() => submitInsuranceClaim({ invoice, policy: values.policy, amountCents: values.amountCents }));
+
+  const handleStatusChange = (values: ClaimStatusFormValues) => {
+    if (action?.type !== 'status') return;
+    const { claim } = action;
+    runAction(() => changeClaimStatus({ claim, ...values }));
+  };
+
+  const handlePostEob = (eob: ExplanationOfBenefits) => {
+    if (action?.type !== 'eob') return;
+    const { claim } = action;
+    runAction(() => adjudicateClaim(invoice, claim, eob));
+  };
+
+  const insurancePaidCents = getInsurancePaidCents(invoice);
+  const adjustmentCents = getInsuranceAdjustmentCents(invoice);
+  const insuranceBalanceCents = getInsuranceBalanceCents(invoice);
+
+  return (
+    <>
+      <View style={tw`bg-surface-light dark:bg-surface-dark rounded-xl shadow-sm px-4 mb-6 border border-border-light/50 dark:border-border-dark/50`}>
+        {claims.length > 0 && (
+          <>
+            {insurancePaidCents > 0 && <SplitRow label="Insurance Paid" cents={insurancePaidCents} currency={currency} />}
+            {adjustmentCents > 0 && <SplitRow label="Contractual Adjustment" cents={adjustmentCents} currency={currency} />}
+            <SplitRow label="Insurance Balance" cents={insuranceBalanceCents} currency={currency} />
+            <SplitRow label="Patient Portion" cents={getPatientPortionCents(invoice)} currency={currency} isStrong />
+          </>
+        )}
+
+        {claims.length === 0 && (
+          <Text style={tw`py-4 text-sm text-text-light/70 dark:text-text-dark/70`}>No claims billed for this invoice</Text>
+        )}
+        {claims.map(claim => {
+          const style = claimStatusStyles[claim.status];
+          const manualTransitions = getManualClaimTransitions(claim);
+          const canPostEob = canTransitionClaim(claim.status, 'paid');
+          return (
+            <View key={claim.id} style={tw`py-3 border-b border-border-light/50 dark:border-border-dark/50`}>
+              <View style={tw`flex-row items-center gap-3`}>
+                <View style={tw`flex-1`}>
+                  <Text style={tw`text-sm font-medium text-text-light dark:text-text-dark`}>
+                    {claim.payer_name ?? 'Insurance'}{claim.claim_number ? ` · ${claim.claim_number}` : ''}
+                  </Text>
+                  <Text style={tw`text-xs text-text-light/70 dark:text-text-dark/70`}>
+                    Billed {formatCurrency(claim.billed_cents, currency)} · {formatInvoiceDate(claim.submitted_at)}
+                    {claim.status === 'paid' && claim.paid_cents !== undefined ? ` · Paid ${formatCurrency(claim.paid_cents, currency)}` : ''}
+                  </Text>
+                  {claim.status === 'denied' && claim.denial_reason && (
+                    <Text style={tw`text-xs text-danger`}>{claim.denial_reason}</Text>
+                  )}
+                </View>
+                <View style={tw`rounded-full px-3 py-1 ${style.bg}`}>
+                  <Text style={tw`text-xs font-medium ${style.text}`}>{CLAIM_STATUS_LABELS[claim.status]}</Text>
+                </View>
+              </View>
+              {(manualTransitions.length > 0 || canPostEob) && (
+                <Can permission="claims:manage">
+                  <View style={tw`flex-row gap-2 mt-2`}>
+                    {manualTransitions.length > 0 && (
+                      <TouchableOpacity
+                        onPress={() => openAction({ type: 'status', claim })}
+                        style={tw`rounded-lg px-3 h-8 items-center justify-center bg-primary/20`}
+                      >
+                        <Text style={tw`text-sm font-medium text-primary`}>Update Status</Text>
+                      </TouchableOpacity>
+                    )}
+                    {canPostEob && (
+                      <TouchableOpacity
+                        onPress={() => openAction({ type: 'eob', claim })}
+                        style={tw`rounded-lg px-3 h-8 items-center justify-center bg-primary`}
+                      >
+                        <Text style={tw`text-sm font-medium text-white`}>Post EOB</Text>
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                </Can>
+              )}
+            </View>
+          );
+        })}
+
+        {patientBalanceCents > 0 && (
+          <Can permission="claims:manage">
+            <TouchableOpacity
+              onPress={() => openAction({ type: 'submit' })}
+              style={tw`flex-row items-center justify-center py-3`}
+            >
+              <Text style={tw`text-sm font-semibold text-primary`}>Submit Claim</Text>
+            </TouchableOpacity>
+          </Can>
+        )}
+      </View>
+
+      <SubmitClaimModal
+        visible={action?.type === 'submit'}
+        policies={policies}
+        isLoadingPolicies={isLoadingPolicies}
+        maxCents={patientBalanceCents}
+        currency={currency}
+        isSubmitting={isSubmitting}
+        error={actionError}
+        onSubmit={handleSubmitClaim}
+        onClose={() => setAction(null)}
+      />
+      <ClaimStatusModal
+        visible={action?.type === 'status'}
+        claim={action?.type === 'status' ? action.claim : null}
+        isSubmitting={isSubmitting}
+        error={actionError}
+        onSubmit={handleStatusChange}
+        onClose={() => setAction(null)}
+      />
+      <EobModal
+        visible={action?.type === 'eob'}
+        claim={action?.type === 'eob' ? action.claim : null}
+        currency={currency}
+        isSubmitting={isSubmitting}
+        error={actionError}
+        onSubmit={handlePostEob}
+        onClose={() => setAction(null)}
+      />
+    </>
+  );
+};
+
+export default InsurancePanel;
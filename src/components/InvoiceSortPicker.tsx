@@ -0,0 +1,79 @@
+/**
+ * InvoiceSortPicker Component
+ *
+ * Modal for choosing the invoice list sort field and direction
+ */
+
+import React from 'react';
+import { View, Text, TouchableOpacity, Modal, useColorScheme } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import tw from '../lib/tailwind';
+import { InvoiceSort, SortDirection } from '../types/invoice';
+import { SORT_OPTIONS } from '../utils/invoiceSearch';
+
+interface InvoiceSortPickerProps {
+  visible: boolean;
+  sort: InvoiceSort;
+  onChange: (sort: InvoiceSort) => void;
+  onClose: () => void;
+}
+
+const DIRECTIONS: { id: SortDirection; label: string; icon: string }[] = [
+  { id: 'asc', label: 'Ascending', icon: 'arrow-upward' },
+  { id: 'desc', label: 'Descending', icon: 'arrow-downward' },
+];
+
+const InvoiceSortPicker: React.FC<InvoiceSortPickerProps> = ({ visible, sort, onChange, onClose }) => {
+  const isDark = useColorScheme() === 'dark';
+  const iconColor = isDark ? tw.color('text-dark') : tw.color('text-light');
+
+  return (
+    <Modal visible={visible} transparent={true} animationType="fade" onRequestClose={onClose}>
+      <View style={tw`flex-1 bg-black/50 items-center justify-center p-4`}>
+        <View style={tw`bg-surface-light dark:bg-surface-dark rounded-xl p-6 w-full max-w-sm shadow-lg`}>
+          <Text style={tw`text-xl font-bold text-text-light dark:text-text-dark mb-4`}>Sort Invoices</Text>
+
+          {SORT_OPTIONS.map(option => {
+            const isSelected = sort.key === option.key;
+            return (
+              <TouchableOpacity
+                key={option.key}
+                onPress={() => onChange({ ...sort, key: option.key })}
+                style={tw`flex-row items-center gap-3 py-3 border-b border-border-light/50 dark:border-border-dark/50`}
+              >
+                <Icon
+                  name={isSelected ? 'radio-button-checked' : 'radio-button-unchecked'}
+                  size={22}
+                  color={isSelected ? tw.color('primary') : iconColor}
+                />
+                <Text style={tw`text-base font-medium text-text-light dark:text-text-dark`}>{option.label}</Text>
+              </TouchableOpacity>
+            );
+          })}
+
+          <View style={tw`flex-row rounded-lg bg-primary/20 p-1 mt-4`}>
+            {DIRECTIONS.map(direction => {
+              const isSelected = sort.direction === direction.id;
+              return (
+                <TouchableOpacity
+                  key={direction.id}
+                  onPress={() => onChange({ ...sort, direction: direction.id })}
+                  style={tw`flex-1 flex-row h-9 items-center justify-center gap-1 rounded-md ${isSelected ? 'bg-primary' : ''}`}
+                >
+                  <Icon name={direction.icon} size={16} color={isSelected ? '#FFFFFF' : tw.color('primary')} />
+                  <Text style={tw`text-sm font-semibold ${isSelected ? 'text-white' : 'text-primary'}`}>{direction.label}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <TouchableOpacity style={tw`mt-4 rounded-lg bg-primary py-3 items-center`} onPress={onClose}>
+            <Text style={tw`text-white font-semibold`}>Done</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+export default InvoiceSortPicker;
@@ -0,0 +1,77 @@
+/**
+ * LineItemList Component
+ *
+ * Itemized list of billed services with subtotal, discount, tax and total rows,
+ * flagging line items that don't add up to the invoice total
+ */
+
+import React from 'react';
+import { View, Text } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import tw from '../lib/tailwind';
+import { CreateInvoiceLineItem } from '../types/invoice';
+import { formatCurrency } from '../utils/financialMetrics';
+import { checkLineItemTotals } from '../utils/invoiceTotals';
+
+interface LineItemListProps {
+  items: CreateInvoiceLineItem[];
+  totalAmountCents: number; // invoice total the items should add up to
+  currency?: string | null; // ISO 4217 code of the amounts, defaults to USD
+}
+
+const TotalRow: React.FC<{ label: string; value: string; isTotal?: boolean }> = ({ label, value, isTotal = false }) => (
+  <View style={tw`flex-row justify-between py-1`}>
+    <Text style={tw`${isTotal ? 'text-base font-bold text-text-light dark:text-text-dark' : 'text-sm text-text-light/70 dark:text-text-dark/70'}`}>{label}</Text>
+    <Text style={tw`${isTotal ? 'text-base font-bold text-primary' : 'text-sm font-semibold text-text-light dark:text-text-dark'}`}>{value}</Text>
+  </View>
+);
+
+const LineItemList: React.FC<LineItemListProps> = ({ items, totalAmountCents, currency }) => {
+  const check = checkLineItemTotals(items, totalAmountCents);
+  const { totals } = check;
+
+  return (
+    <View>
+      {items.map((item, index) => {
+        const adjustments = [
+          item.discount_cents > 0 ? `-${formatCurrency(item.discount_cents, currency)} discount` : null,
+          item.tax_cents > 0 ? `+${formatCurrency(item.tax_cents, currency)} tax` : null,
+        ].filter(Boolean);
+        return (
+          <View key={`${item.description}-${index}`} style={tw`flex-row justify-between py-2 border-b border-border-light/50 dark:border-border-dark/50`}>
+            <View style={tw`flex-1 pr-2`}>
+              <Text style={tw`text-sm font-medium text-text-light dark:text-text-dark`}>{item.description}</Text>
+              <Text style={tw`text-xs text-text-light/70 dark:text-text-dark/70`}>
+                {item.service_code ? `${item.service_code} · ` : ''}{item.quantity} × {formatCurrency(item.unit_price_cents, currency)}
+              </Text>
+              {adjustments.length > 0 && (
+                <Text style={tw`text-xs text-text-light/70 dark:text-text-dark/70`}>{adjustments.join(' · ')}</Text>
+              )}
+            </View>
+            <Text style={tw`text-sm font-semibold ${check.mismatched_lines.includes(index) ? 'text-danger' : 'text-text-light dark:text-text-dark'}`}>
+              {formatCurrency(item.line_total_cents, currency)}
+            </Text>
+          </View>
+        );
+      })}
+      <View style={tw`pt-2`}>
+        <TotalRow label="Subtotal" value={formatCurrency(totals.subtotal_cents, currency)} />
+        {totals.discount_cents > 0 && <TotalRow label="Discount" value={`-${formatCurrency(totals.discount_cents, currency)}`} />}
+        {totals.tax_cents > 0 && <TotalRow label="Tax" value={formatCurrency(totals.tax_cents, currency)} />}
+        <TotalRow label="Total" value={formatCurrency(totalAmountCents, currency)} isTotal />
+      </View>
+      {!check.matches && (
+        <View style={tw`mt-2 flex-row items-start gap-2 rounded-lg bg-amber-100 dark:bg-amber-900/50 p-3`}>
+          <Icon name="warning" size={18} color={tw.color('amber-800')} />
+          <Text style={tw`flex-1 text-xs text-amber-800 dark:text-amber-300`}>
+            {check.difference_cents !== 0
+              ? `Line items add up to ${formatCurrency(totals.total_cents, currency)}, which differs from the invoice total by ${formatCurrency(check.difference_cents, currency)}.`
+              : 'Some line totals do not match their quantity, price, discount and tax.'}
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+};
+
+export default LineItemList;
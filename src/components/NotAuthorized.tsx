@@ -0,0 +1,59 @@
+/**
+ * NotAuthorized Component
+ *
+ * Full-screen state shown when the current user's role may not access a screen,
+ * plus a screen wrapper that guards a component behind a permission
+ */
+
+import React from 'react';
+import { View, Text, TouchableOpacity } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { useNavigation } from '@react-navigation/native';
+import tw from '../lib/tailwind';
+import { Permission } from '../types/auth';
+import { usePermission } from '../hooks/usePermission';
+
+const NotAuthorized: React.FC = () => {
+  const navigation = useNavigation();
+
+  return (
+    <SafeAreaView style={tw`flex-1 items-center justify-center p-8 bg-background-light dark:bg-background-dark`}>
+      <View style={tw`flex size-16 items-center justify-center rounded-full bg-danger/10 mb-4`}>
+        <Icon name="lock" size={32} color={tw.color('danger')} />
+      </View>
+      <Text style={tw`text-xl font-bold text-text-light dark:text-text-dark`}>Not Authorized</Text>
+      <Text style={tw`mt-2 text-center text-base text-text-light/70 dark:text-text-dark/70`}>
+        Your role does not have access to this screen. Contact an administrator if you need access.
+      </Text>
+      {navigation.canGoBack() && (
+        <TouchableOpacity
+          style={tw`mt-6 px-6 py-3 bg-primary rounded-lg`}
+          onPress={() => navigation.goBack()}
+        >
+          <Text style={tw`text-white font-medium`}>Go Back</Text>
+        </TouchableOpacity>
+      )}
+    </SafeAreaView>
+  );
+};
+
+/**
+ * Wrap a screen so it renders NotAuthorized unless the user has the permission
+ * @param Screen - Screen component to guard
+ * @param permission - Permission required to view the screen
+ * @returns Guarded screen component
+ */
+export function withPermission<P extends object>(
+  Screen: React.ComponentType<P>,
+  permission: Permission,
+): React.FC<P> {
+  const GuardedScreen: React.FC<P> = props => {
+    const allowed = usePermission(permission);
+    return allowed ? <Screen {...props} /> : <NotAuthorized />;
+  };
+  GuardedScreen.displayName = `withPermission(${Screen.displayName || Screen.name || 'Screen'})`;
+  return GuardedScreen;
+}
+
+export default NotAuthorized;
@@ -0,0 +1,152 @@
+/**
+ * PolicyModal Component
+ *
+ * Modal for adding, editing or removing one of a patient's insurance policies
+ */
+
+import React, { useState, useEffect } from 'react';
+import { View, Text, TextInput, TouchableOpacity, Modal, ScrollView, ActivityIndicator, useColorScheme } from 'react-native';
+import tw from '../lib/tailwind';
+import { InsurancePolicy, PolicyFormValues, PolicyPriority, PolicyRelationship } from '../types/insurance';
+import {
+  EMPTY_POLICY_FORM,
+  POLICY_PRIORITY_LABELS,
+  POLICY_RELATIONSHIP_LABELS,
+  toPolicyForm,
+  validatePolicyForm,
+} from '../utils/insurance';
+
+interface PolicyModalProps {
+  visible: boolean;
+  policy: InsurancePolicy | null; // null to add a policy
+  isSubmitting: boolean;
+  error: string | null;
+  onSubmit: (values: PolicyFormValues) => void;
+  onDelete: (policy: InsurancePolicy) => void;
+  onClose: () => void;
+}
+
+const PRIORITIES = Object.keys(POLICY_PRIORITY_LABELS) as PolicyPriority[];
+const RELATIONSHIPS = Object.keys(POLICY_RELATIONSHIP_LABELS) as PolicyRelationship[];
+
+const TEXT_FIELDS: { key: keyof Omit<PolicyFormValues, 'priority' | 'relationship'>; label: string; placeholder?: string }[] = [
+  { key: 'payer_name', label: 'Insurer' },
+  { key: 'plan_name', label: 'Plan', placeholder: 'Optional' },
+  { key: 'member_id', label: 'Member ID' },
+  { key: 'group_number', label: 'Group Number', placeholder: 'Optional' },
+  { key: 'payer_id', label: 'Payer ID', placeholder: 'Optional' },
+  { key: 'effective_date', label: 'Coverage Starts', placeholder: 'YYYY-MM-DD (optional)' },
+  { key: 'termination_date', label: 'Coverage Ends', placeholder: 'YYYY-MM-DD (optional)' },
+];
+
+const PolicyModal: React.FC<PolicyModalProps> = ({ visible, policy, isSubmitting, error, onSubmit, onDelete, onClose }) => {
+  const [values, setValues] = useState<PolicyFormValues>(EMPTY_POLICY_FORM);
+  const [isSubmitAttempted, setIsSubmitAttempted] = useState(false);
+  const isDark = useColorScheme() === 'dark';
+  const placeholderTextColor = isDark ? tw.color('border-dark') : tw.color('border-light');
+
+  // Start from the policy being edited, or a blank form, each time the modal opens
+  useEffect(() => {
+    if (visible) {
+      setValues(policy ? toPolicyForm(policy) : EMPTY_POLICY_FORM);
+      setIsSubmitAttempted(false);
+    }
+  }, [visible, policy]);
+
+  const errors = validatePolicyForm(values);
+  const canSubmit = !isSubmitting;
+
+  const handleSubmit = () => {
+    setIsSubmitAttempted(true);
+    if (!canSubmit || Object.keys(errors).length > 0) return;
+    onSubmit(values);
+  };
+
+  return (
+    <Modal visible={visible} transparent={true} animationType="fade" onRequestClose={onClose}>
+      <View style={tw`flex-1 bg-black/50 items-center justify-center p-4`}>
+        <View style={tw`bg-surface-light dark:bg-surface-dark rounded-xl p-6 w-full max-w-sm max-h-full shadow-lg`}>
+          <Text style={tw`text-xl font-bold text-text-light dark:text-text-dark mb-4`}>
+            {policy ? 'Edit Insurance' : 'Add Insurance'}
+          </Text>
+
+          <ScrollView keyboardShouldPersistTaps="handled">
+            <View style={tw`flex-row rounded-lg bg-primary/20 p-1 mb-4`}>
+              {PRIORITIES.map(option => (
+                <TouchableOpacity
+                  key={option}
+                  onPress={() => setValues(prev => ({ ...prev, priority: option }))}
+                  disabled={isSubmitting}
+                  style={tw`flex-1 h-9 items-center justify-center rounded-md ${values.priority === option ? 'bg-primary' : ''}`}
+                >
+                  <Text style={tw`text-sm font-semibold ${values.priority === option ? 'text-white' : 'text-primary'}`}>
+                    {POLICY_PRIORITY_LABELS[option]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {TEXT_FIELDS.map(field => {
+              const fieldError = isSubmitAttempted ? errors[field.key] : undefined;
+              return (
+                <View key={field.key} style={tw`mb-3`}>
+                  <Text style={tw`text-sm font-medium pb-2 text-text-light dark:text-text-dark`}>{field.label}</Text>
+                  <TextInput
+                    style={tw`rounded-lg border ${fieldError ? 'border-danger' : 'border-border-light dark:border-border-dark'} bg-background-light dark:bg-background-dark h-12 px-4 text-text-light dark:text-text-dark`}
+                    placeholder={field.placeholder}
+                    placeholderTextColor={placeholderTextColor}
+                    value={values[field.key]}
+                    onChangeText={text => setValues(prev => ({ ...prev, [field.key]: text }))}
+                    autoCapitalize={field.key === 'payer_name' || field.key === 'plan_name' ? 'words' : 'characters'}
+                    editable={!isSubmitting}
+                  />
+                  {fieldError && <Text style={tw`mt-1 text-xs text-danger`}>{fieldError}</Text>}
+                </View>
+              );
+            })}
+
+            <Text style={tw`text-sm font-medium pb-2 text-text-light dark:text-text-dark`}>Patient is the policy holder's</Text>
+            <View style={tw`flex-row rounded-lg bg-primary/20 p-1`}>
+              {RELATIONSHIPS.map(option => (
+                <TouchableOpacity
+                  key={option}
+                  onPress={() => setValues(prev => ({ ...prev, relationship: option }))}
+                  disabled={isSubmitting}
+                  style={tw`flex-1 h-9 items-center justify-center rounded-md ${values.relationship === option ? 'bg-primary' : ''}`}
+                >
+                  <Text style={tw`text-sm font-semibold ${values.relationship === option ? 'text-white' : 'text-primary'}`}>
+                    {POLICY_RELATIONSHIP_LABELS[option]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </ScrollView>
+
+          {error && <Text style={tw`mt-3 text-sm text-danger`}>{error}</Text>}
+
+          <TouchableOpacity
+            style={tw`mt-6 rounded-lg bg-primary py-3 items-center ${canSubmit ? '' : 'opacity-50'}`}
+            onPress={handleSubmit}
+            disabled={!canSubmit}
+          >
+            {isSubmitting ? (
+              <ActivityIndicator size="small" color="#FFFFFF" />
+            ) : (
+              <Text style={tw`text-white font-semibold`}>{policy ? 'Save Policy' : 'Add Policy'}</Text>
+            )}
+          </TouchableOpacity>
+          {policy && (
+            <TouchableOpacity style={tw`mt-3 py-2 items-center`} onPress={() => onDelete(policy)} disabled={isSubmitting}>
+              <Text style={tw`text-danger font-semibold`}>Remove Policy</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity style={tw`mt-1 py-2 items-center`} onPress={onClose} disabled={isSubmitting}>
+            <Text style={tw`text-text-light/70 dark:text-text-dark/70`}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+export default PolicyModal;
@@ -0,0 +1,103 @@
+/**
+ * PriceModal Component
+ *
+ * Modal for scheduling a service's price change, either the standard price or
+ * one negotiated with a single payer
+ */
+
+import React, { useState, useEffect } from 'react';
+import { View, Text, TextInput, TouchableOpacity, Modal, ActivityIndicator, useColorScheme } from 'react-native';
+import tw from '../lib/tailwind';
+import { CatalogService, PriceFormValues } from '../types/serviceCatalog';
+import { createPriceForm, validatePriceForm } from '../utils/serviceCatalog';
+
+interface PriceModalProps {
+  visible: boolean;
+  service: CatalogService | null;
+  isSubmitting: boolean;
+  error: string | null;
+  onSubmit: (values: PriceFormValues) => void;
+  onClose: () => void;
+}
+
+const FIELDS: { key: keyof PriceFormValues; label: string; placeholder?: string }[] = [
+  { key: 'price', label: 'Price', placeholder: '0.00' },
+  { key: 'effective_date', label: 'Effective From', placeholder: 'YYYY-MM-DD' },
+  { key: 'payer_name', label: 'Payer', placeholder: 'Blank for the standard price' },
+];
+
+const PriceModal: React.FC<PriceModalProps> = ({ visible, service, isSubmitting, error, onSubmit, onClose }) => {
+  const [values, setValues] = useState<PriceFormValues>(createPriceForm());
+  const [isSubmitAttempted, setIsSubmitAttempted] = useState(false);
+  const isDark = useColorScheme() === 'dark';
+  const placeholderTextColor = isDark ? tw.color('border-dark') : tw.color('border-light');
+
+  // Start a blank price effective today each time the modal opens
+  useEffect(() => {
+    if (visible) {
+      setValues(createPriceForm());
+      setIsSubmitAttempted(false);
+    }
+  }, [visible]);
+
+  const errors = service ? validatePriceForm(values, service) : {};
+  const canSubmit = service !== null && !isSubmitting;
+
+  const handleSubmit = () => {
+    setIsSubmitAttempted(true);
+    if (!canSubmit || Object.keys(errors).length > 0) return;
+    onSubmit(values);
+  };
+
+  return (
+    <Modal visible={visible} transparent={true} animationType="fade" onRequestClose={onClose}>
+      <View style={tw`flex-1 bg-black/50 items-center justify-center p-4`}>
+        <View style={tw`bg-surface-light dark:bg-surface-dark rounded-xl p-6 w-full max-w-sm shadow-lg`}>
+          <Text style={tw`text-xl font-bold text-text-light dark:text-text-dark`}>Schedule Price</Text>
+          <Text style={tw`mt-1 mb-4 text-sm text-text-light/70 dark:text-text-dark/70`}>
+            Invoices dated on or after the effective day use the new price. Existing invoices keep theirs.
+          </Text>
+
+          {FIELDS.map(field => {
+            const fieldError = isSubmitAttempted ? errors[field.key] : undefined;
+            return (
+              <View key={field.key} style={tw`mb-3`}>
+                <Text style={tw`text-sm font-medium pb-2 text-text-light dark:text-text-dark`}>{field.label}</Text>
+                <TextInput
+                  style={tw`rounded-lg border ${fieldError ? 'border-danger' : 'border-border-light dark:border-border-dark'} bg-background-light dark:bg-background-dark h-12 px-4 text-text-light dark:text-text-dark`}
+                  placeholder={field.placeholder}
+                  placeholderTextColor={placeholderTextColor}
+                  value={values[field.key]}
+                  onChangeText={text => setValues(prev => ({ ...prev, [field.key]: text }))}
+                  keyboardType={field.key === 'price' ? 'decimal-pad' : field.key === 'effective_date' ? 'numbers-and-punctuation' : 'default'}
+                  autoCapitalize={field.key === 'payer_name' ? 'words' : 'none'}
+                  editable={!isSubmitting}
+                />
+                {fieldError && <Text style={tw`mt-1 text-xs text-danger`}>{fieldError}</Text>}
+              </View>
+            );
+          })}
+
+          {error && <Text style={tw`mt-3 text-sm text-danger`}>{error}</Text>}
+
+          <TouchableOpacity
+            style={tw`mt-6 rounded-lg bg-primary py-3 items-center ${canSubmit ? '' : 'opacity-50'}`}
+            onPress={handleSubmit}
+            disabled={!canSubmit}
+          >
+            {isSubmitting ? (
+              <ActivityIndicator size="small" color="#FFFFFF" />
+            ) : (
+              <Text style={tw`text-white font-semibold`}>Schedule Price</Text>
+            )}
+          </TouchableOpacity>
+          <TouchableOpacity style={tw`mt-3 py-2 items-center`} onPress={onClose} disabled={isSubmitting}>
+            <Text style={tw`text-text-light/70 dark:text-text-dark/70`}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+export default PriceModal;
@@ -0,0 +1,152 @@
+/**
+ * RefundModal Component
+ *
+ * Modal for refunding part or all of what was paid on an invoice, with a reason
+ */
+
+import React, { useState, useEffect } from 'react';
+import { View, Text, TextInput, TouchableOpacity, Modal, ActivityIndicator, useColorScheme } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import tw from '../lib/tailwind';
+import { RefundReason } from '../types/payment';
+import { formatCurrency, parseAmountToCents } from '../utils/financialMetrics';
+import { formatAmountInput, getCurrencySymbol, getMinorUnitDigits } from '../utils/currency';
+import { REFUND_REASON_LABELS } from '../utils/invoiceFormatting';
+
+export interface RefundFormValues {
+  amountCents: number;
+  reason: RefundReason;
+  note?: string;
+}
+
+interface RefundModalProps {
+  visible: boolean;
+  refundableCents: number;
+  currency?: string | null;
+  isSubmitting: boolean;
+  error: string | null;
+  onSubmit: (values: RefundFormValues) => void;
+  onClose: () => void;
+}
+
+const REFUND_REASONS = Object.keys(REFUND_REASON_LABELS) as RefundReason[];
+
+const RefundModal: React.FC<RefundModalProps> = ({ visible, refundableCents, currency, isSubmitting, error, onSubmit, onClose }) => {
+  const [amountText, setAmountText] = useState('');
+  const [reason, setReason] = useState<RefundReason | null>(null);
+  const [note, setNote] = useState('');
+  const isDark = useColorScheme() === 'dark';
+  const iconColor = isDark ? tw.color('text-dark') : tw.color('text-light');
+  const placeholderTextColor = isDark ? tw.color('border-dark') : tw.color('border-light');
+
+  // Start from a full refund each time the modal opens
+  useEffect(() => {
+    if (visible) {
+      setAmountText(formatAmountInput(refundableCents, currency));
+      setReason(null);
+      setNote('');
+    }
+  }, [visible, refundableCents, currency]);
+
+  const amountCents = parseAmountToCents(amountText, currency);
+  const amountError = amountCents === null || amountCents <= 0
+    ? 'Enter an amount greater than zero.'
+    : amountCents > refundableCents
+      ? `Amount cannot exceed the refundable ${formatCurrency(refundableCents, currency)}.`
+      : null;
+  const noteRequired = reason === 'other';
+  const canSubmit = amountError === null && reason !== null && (!noteRequired || note.trim() !== '') && !isSubmitting;
+
+  const handleSubmit = () => {
+    if (!canSubmit || amountCents === null || !reason) return;
+    onSubmit({ amountCents, reason, note: note.trim() || undefined });
+  };
+
+  return (
+    <Modal visible={visible} transparent={true} animationType="fade" onRequestClose={onClose}>
+      <View style={tw`flex-1 bg-black/50 items-center justify-center p-4`}>
+        <View style={tw`bg-surface-light dark:bg-surface-dark rounded-xl p-6 w-full max-w-sm shadow-lg`}>
+          <Text style={tw`text-xl font-bold text-text-light dark:text-text-dark mb-4`}>Refund Payment</Text>
+
+          <Text style={tw`text-sm font-medium pb-2 text-text-light dark:text-text-dark`}>Amount</Text>
+          <View style={tw`flex-row items-center gap-3`}>
+            <View style={tw`flex-1 flex-row items-center rounded-lg border ${amountError ? 'border-danger' : 'border-border-light dark:border-border-dark'} bg-background-light dark:bg-background-dark h-12 px-4`}>
+              <Text style={tw`text-base text-text-light/70 dark:text-text-dark/70`}>{getCurrencySymbol(currency)}</Text>
+              <TextInput
+                style={tw`flex-1 pl-1 text-base text-text-light dark:text-text-dark`}
+                keyboardType={getMinorUnitDigits(currency) === 0 ? 'number-pad' : 'decimal-pad'}
+                value={amountText}
+                onChangeText={setAmountText}
+                editable={!isSubmitting}
+              />
+            </View>
+            {amountCents !== refundableCents && (
+              <TouchableOpacity
+                onPress={() => setAmountText(formatAmountInput(refundableCents, currency))}
+                disabled={isSubmitting}
+                style={tw`h-12 px-4 items-center justify-center rounded-lg bg-primary/20`}
+              >
+                <Text style={tw`text-primary font-semibold`}>Full</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+          {amountError ? (
+            <Text style={tw`mt-1 text-sm text-danger`}>{amountError}</Text>
+          ) : amountCents !== null && amountCents < refundableCents ? (
+            <Text style={tw`mt-1 text-sm text-text-light/70 dark:text-text-dark/70`}>
+              Partial refund · {formatCurrency(refundableCents - amountCents, currency)} stays collected
+            </Text>
+          ) : null}
+
+          <Text style={tw`text-sm font-medium pt-4 text-text-light dark:text-text-dark`}>Reason</Text>
+          {REFUND_REASONS.map(option => {
+            const isSelected = reason === option;
+            return (
+              <TouchableOpacity
+                key={option}
+                onPress={() => setReason(option)}
+                disabled={isSubmitting}
+                style={tw`flex-row items-center gap-3 py-2 border-b border-border-light/50 dark:border-border-dark/50`}
+              >
+                <Icon
+                  name={isSelected ? 'radio-button-checked' : 'radio-button-unchecked'}
+                  size={22}
+                  color={isSelected ? tw.color('primary') : iconColor}
+                />
+                <Text style={tw`text-base font-medium text-text-light dark:text-text-dark`}>{REFUND_REASON_LABELS[option]}</Text>
+              </TouchableOpacity>
+            );
+          })}
+
+          <TextInput
+            style={tw`mt-3 rounded-lg border border-border-light dark:border-border-dark bg-background-light dark:bg-background-dark h-12 px-4 text-text-light dark:text-text-dark`}
+            placeholder={noteRequired ? 'Describe the reason' : 'Note (optional)'}
+            placeholderTextColor={placeholderTextColor}
+            value={note}
+            onChangeText={setNote}
+            editable={!isSubmitting}
+          />
+
+          {error && <Text style={tw`mt-3 text-sm text-danger`}>{error}</Text>}
+
+          <TouchableOpacity
+            style={tw`mt-6 rounded-lg bg-danger py-3 items-center ${canSubmit ? '' : 'opacity-50'}`}
+            onPress={handleSubmit}
+            disabled={!canSubmit}
+          >
+            {isSubmitting ? (
+              <ActivityIndicator size="small" color="#FFFFFF" />
+            ) : (
+              <Text style={tw`text-white font-semibold`}>Refund {formatCurrency(amountCents ?? 0, currency)}</Text>
+            )}
+          </TouchableOpacity>
+          <TouchableOpacity style={tw`mt-3 py-2 items-center`} onPress={onClose} disabled={isSubmitting}>
+            <Text style={tw`text-text-light/70 dark:text-text-dark/70`}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+export default RefundModal;
@@ -0,0 +1,194 @@
+/**
+ * ReminderPanel Component
+ *
+ * Shows an invoice's reminder schedule and sent reminders, and lets staff send
+ * a scheduled step early or a one-off reminder
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, Text, TouchableOpacity, ActivityIndicator, useColorScheme } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import tw from '../lib/tailwind';
+import Can from './Can';
+import SendReminderModal from './SendReminderModal';
+import { fetchInvoiceReminders } from '../api/reminderApi';
+import { ApiError, CancelledError, NetworkError, ValidationError } from '../api/errors';
+import { getReminderSchedule, sendReminder } from '../services/reminders/reminderService';
+import { Invoice } from '../types/invoice';
+import { InvoiceReminder, ReminderChannel, ReminderPlanStatus, ReminderSchedule, ReminderStep } from '../types/reminder';
+import { formatInvoiceDate, formatInvoiceDateTime } from '../utils/invoiceFormatting';
+import {
+  buildReminderPlan,
+  DEFAULT_REMINDER_SCHEDULE,
+  describeReminderOffset,
+  REMINDER_CHANNEL_LABELS,
+} from '../utils/reminders';
+
+interface ReminderPanelProps {
+  invoice: Invoice;
+  onReminderSent?: (reminder: InvoiceReminder) => void;
+}
+
+const PLAN_STATUS_STYLES: Record<ReminderPlanStatus, { label: string; text: string }> = {
+  sent: { label: 'Sent', text: 'text-success' },
+  due: { label: 'Due', text: 'text-danger' },
+  upcoming: { label: 'Upcoming', text: 'text-text-light/70 dark:text-text-dark/70' },
+};
+
+const getReminderErrorMessage = (err: unknown): string => {
+  if (err instanceof ValidationError) {
+    return err.message;
+  }
+  if (err instanceof NetworkError) {
+    return 'Unable to connect to server. Please check your network connection.';
+  }
+  if (err instanceof ApiError && err.message) {
+    return err.message;
+  }
+  return 'Reminder could not be sent. Please try again.';
+};
+
+const ReminderPanel: React.FC<ReminderPanelProps> = ({ invoice, onReminderSent }) => {
+  const [schedule, setSchedule] = useState<ReminderSchedule>(DEFAULT_REMINDER_SCHEDULE);
+  const [reminders, setReminders] = useState<InvoiceReminder[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isModalVisible, setIsModalVisible] = useState(false);
+  const [selectedStep, setSelectedStep] = useState<ReminderStep | undefined>(undefined);
+  const [isSending, setIsSending] = useState(false);
+  const [sendError, setSendError] = useState<string | null>(null);
+  const isDark = useColorScheme() === 'dark';
+  const iconColor = isDark ? tw.color('text-dark') : tw.color('text-light');
+
+  const loadReminders = useCallback(async (signal?: AbortSignal) => {
+    setIsLoading(true);
+    try {
+      const [loadedSchedule, sent] = await Promise.all([
+        getReminderSchedule({ signal }),
+        fetchInvoiceReminders(invoice.id, { signal }),
+      ]);
+      setSchedule(loadedSchedule);
+      setReminders(sent);
+    } catch (err) {
+      if (err instanceof CancelledError) return;
+      console.error('Error loading reminders:', err);
+    } finally {
+      if (!signal?.aborted) {
+        setIsLoading(false);
+      }
+    }
+  }, [invoice.id]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    loadReminders(controller.signal);
+    return () => controller.abort();
+  }, [loadReminders]);
+
+  const openModal = (step?: ReminderStep) => {
+    setSelectedStep(step);
+    setSendError(null);
+    setIsModalVisible(true);
+  };
+
+  const handleSend = async (channel: ReminderChannel, message: string) => {
+    if (isSending) return;
+    setIsSending(true);
+    setSendError(null);
+    try {
+      const reminder = await sendReminder({ invoice, channel, message, step: selectedStep });
+      setReminders(prev => [...prev, reminder]);
+      setIsModalVisible(false);
+      onReminderSent?.(reminder);
+    } catch (err) {
+      console.error('Error sending reminder:', err);
+      setSendError(getReminderErrorMessage(err));
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const plan = buildReminderPlan(invoice, schedule, reminders);
+
+  return (
+    <>
+      <View style={tw`bg-surface-light dark:bg-surface-dark rounded-xl shadow-sm px-4 mb-6 border border-border-light/50 dark:border-border-dark/50`}>
+        {isLoading ? (
+          <ActivityIndicator style={tw`py-4`} size="small" color={tw.color('primary')} />
+        ) : (
+          <>
+            {plan.length === 0 && (
+              <Text style={tw`py-4 text-sm text-text-light/70 dark:text-text-dark/70`}>No scheduled reminders for this invoice</Text>
+            )}
+            {plan.map(item => {
+              const statusStyle = PLAN_STATUS_STYLES[item.status];
+              return (
+                <View key={item.step.id} style={tw`flex-row items-center gap-3 py-3 border-b border-border-light/50 dark:border-border-dark/50`}>
+                  <Icon name={item.step.channel === 'sms' ? 'sms' : 'email'} size={20} color={iconColor} />
+                  <View style={tw`flex-1`}>
+                    <Text style={tw`text-sm font-medium text-text-light dark:text-text-dark`}>
+                      {describeReminderOffset(item.step.offset_days)}
+                    </Text>
+                    <Text style={tw`text-xs text-text-light/70 dark:text-text-dark/70`}>
+                      {item.sentReminder
+                        ? `Sent ${formatInvoiceDateTime(item.sentReminder.created_at)}`
+                        : `${REMINDER_CHANNEL_LABELS[item.step.channel]} · ${formatInvoiceDate(item.scheduledFor.toISOString())}`}
+                    </Text>
+                  </View>
+                  {item.status === 'sent' ? (
+                    <Text style={tw`text-xs font-semibold ${statusStyle.text}`}>{statusStyle.label}</Text>
+                  ) : (
+                    <Can
+                      permission="reminders:send"
+                      fallback={<Text style={tw`text-xs font-semibold ${statusStyle.text}`}>{statusStyle.label}</Text>}
+                    >
+                      <TouchableOpacity
+                        onPress={() => openModal(item.step)}
+                        style={tw`rounded-lg px-3 h-8 items-center justify-center ${item.status === 'due' ? 'bg-primary' : 'bg-primary/20'}`}
+                      >
+                        <Text style={tw`text-sm font-medium ${item.status === 'due' ? 'text-white' : 'text-primary'}`}>
+                          {item.status === 'due' ? 'Send' : 'Send Now'}
+                        </Text>
+                      </TouchableOpacity>
+                    </Can>
+                  )}
+                </View>
+              );
+            })}
+
+            {reminders.filter(reminder => !reminder.step_id).map(reminder => (
+              <View key={reminder.id} style={tw`flex-row items-center gap-3 py-3 border-b border-border-light/50 dark:border-border-dark/50`}>
+                <Icon name={reminder.channel === 'sms' ? 'sms' : 'email'} size={20} color={iconColor} />
+                <View style={tw`flex-1`}>
+                  <Text style={tw`text-sm font-medium text-text-light dark:text-text-dark`}>One-off reminder</Text>
+                  <Text style={tw`text-xs text-text-light/70 dark:text-text-dark/70`}>
+                    {`Sent ${formatInvoiceDateTime(reminder.created_at)}`}
+                    {reminder.status === 'failed' ? ' · failed' : ''}
+                  </Text>
+                </View>
+              </View>
+            ))}
+
+            <Can permission="reminders:send">
+              <TouchableOpacity onPress={() => openModal()} style={tw`flex-row items-center justify-center gap-2 py-3`}>
+                <Icon name="notifications-active" size={20} color={tw.color('primary')} />
+                <Text style={tw`text-sm font-semibold text-primary`}>Send Reminder</Text>
+              </TouchableOpacity>
+            </Can>
+          </>
+        )}
+      </View>
+
+      <SendReminderModal
+        visible={isModalVisible}
+        invoice={invoice}
+        step={selectedStep}
+        isSubmitting={isSending}
+        error={sendError}
+        onSubmit={handleSend}
+        onClose={() => setIsModalVisible(false)}
+      />
+    </>
+  );
+};
+
+export default ReminderPanel;
@@ -0,0 +1,107 @@
+/**
+ * SendReminderModal Component
+ *
+ * Modal for previewing, editing and sending a payment reminder for an invoice
+ */
+
+import React, { useState, useEffect } from 'react';
+import { View, Text, TextInput, TouchableOpacity, Modal, ActivityIndicator } from 'react-native';
+import tw from '../lib/tailwind';
+import { Invoice } from '../types/invoice';
+import { ReminderChannel, ReminderStep } from '../types/reminder';
+import {
+  describeReminderOffset,
+  ONE_OFF_REMINDER_TEMPLATE,
+  REMINDER_CHANNEL_LABELS,
+  renderReminderTemplate,
+  SMS_MAX_LENGTH,
+} from '../utils/reminders';
+
+interface SendReminderModalProps {
+  visible: boolean;
+  invoice: Invoice;
+  step?: ReminderStep; // omit for a one-off reminder
+  isSubmitting: boolean;
+  error: string | null;
+  onSubmit: (channel: ReminderChannel, message: string) => void;
+  onClose: () => void;
+}
+
+const CHANNELS = Object.keys(REMINDER_CHANNEL_LABELS) as ReminderChannel[];
+
+const SendReminderModal: React.FC<SendReminderModalProps> = ({ visible, invoice, step, isSubmitting, error, onSubmit, onClose }) => {
+  const [channel, setChannel] = useState<ReminderChannel>('email');
+  const [message, setMessage] = useState('');
+
+  // Prefill from the step's template each time the modal opens
+  useEffect(() => {
+    if (visible) {
+      setChannel(step?.channel ?? 'email');
+      setMessage(renderReminderTemplate(step?.template ?? ONE_OFF_REMINDER_TEMPLATE, invoice));
+    }
+  }, [visible, step, invoice]);
+
+  const isTooLong = channel === 'sms' && message.length > SMS_MAX_LENGTH;
+  const canSubmit = message.trim() !== '' && !isTooLong && !isSubmitting;
+
+  return (
+    <Modal visible={visible} transparent={true} animationType="fade" onRequestClose={onClose}>
+      <View style={tw`flex-1 bg-black/50 items-center justify-center p-4`}>
+        <View style={tw`bg-surface-light dark:bg-surface-dark rounded-xl p-6 w-full max-w-sm shadow-lg`}>
+          <Text style={tw`text-xl font-bold text-text-light dark:text-text-dark`}>Send Reminder</Text>
+          <Text style={tw`mt-1 mb-4 text-sm text-text-light/70 dark:text-text-dark/70`}>
+            {step ? describeReminderOffset(step.offset_days) : 'One-off reminder'} · Invoice #{invoice.invoice_number}
+          </Text>
+
+          <View style={tw`flex-row rounded-lg bg-primary/20 p-1 mb-4`}>
+            {CHANNELS.map(option => (
+              <TouchableOpacity
+                key={option}
+                onPress={() => setChannel(option)}
+                disabled={isSubmitting}
+                style={tw`flex-1 h-9 items-center justify-center rounded-md ${channel === option ? 'bg-primary' : ''}`}
+              >
+                <Text style={tw`text-sm font-semibold ${channel === option ? 'text-white' : 'text-primary'}`}>
+                  {REMINDER_CHANNEL_LABELS[option]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <TextInput
+            style={tw`min-h-32 rounded-lg border ${isTooLong ? 'border-danger' : 'border-border-light dark:border-border-dark'} bg-background-light dark:bg-background-dark p-3 text-text-light dark:text-text-dark`}
+            multiline
+            textAlignVertical="top"
+            value={message}
+            onChangeText={setMessage}
+            editable={!isSubmitting}
+          />
+          {channel === 'sms' && (
+            <Text style={tw`mt-1 text-xs text-right ${isTooLong ? 'text-danger' : 'text-text-light/70 dark:text-text-dark/70'}`}>
+              {message.length}/{SMS_MAX_LENGTH}
+            </Text>
+          )}
+
+          {error && <Text style={tw`mt-3 text-sm text-danger`}>{error}</Text>}
+
+          <TouchableOpacity
+            style={tw`mt-6 rounded-lg bg-primary py-3 items-center ${canSubmit ? '' : 'opacity-50'}`}
+            onPress={() => onSubmit(channel, message.trim())}
+            disabled={!canSubmit}
+          >
+            {isSubmitting ? (
+              <ActivityIndicator size="small" color="#FFFFFF" />
+            ) : (
+              <Text style={tw`text-white font-semibold`}>Send {REMINDER_CHANNEL_LABELS[channel]}</Text>
+            )}
+          </TouchableOpacity>
+          <TouchableOpacity style={tw`mt-3 py-2 items-center`} onPress={onClose} disabled={isSubmitting}>
+            <Text style={tw`text-text-light/70 dark:text-text-dark/70`}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+export default SendReminderModal;
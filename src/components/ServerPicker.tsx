@@ -0,0 +1,218 @@
+/**
+ * ServerPicker Component
+ *
+ * Shows the active backend environment on the login screen and opens a modal
+ * to choose a preset or enter a custom server URL, with a connectivity check
+ */
+
+import React, { useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, Modal, ActivityIndicator, Alert, useColorScheme } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import tw from '../lib/tailwind';
+import { useEnvironment } from '../context/EnvironmentContext';
+import { checkServerHealth } from '../api/healthApi';
+import { createCustomEnvironment, isValidBaseUrl } from '../utils/apiEnvironment';
+import { EnvironmentId, EnvironmentProfile, HealthCheckResult } from '../types/environment';
+
+interface ServerPickerProps {
+  disabled?: boolean;
+}
+
+const ServerPicker: React.FC<ServerPickerProps> = ({ disabled = false }) => {
+  const { environment, presets, selectEnvironment } = useEnvironment();
+  const [modalVisible, setModalVisible] = useState(false);
+  const [selectedId, setSelectedId] = useState<EnvironmentId>(environment.id);
+  const [customUrl, setCustomUrl] = useState(environment.id === 'custom' ? environment.baseUrl : '');
+  const [isChecking, setIsChecking] = useState(false);
+  const [healthResult, setHealthResult] = useState<HealthCheckResult | null>(null);
+  const isDark = useColorScheme() === 'dark';
+
+  const iconColor = isDark ? tw.color('text-dark') : tw.color('text-light');
+  const mutedIconColor = isDark ? tw.color('border-dark') : tw.color('border-light');
+
+  const openPicker = () => {
+    setSelectedId(environment.id);
+    setCustomUrl(environment.id === 'custom' ? environment.baseUrl : '');
+    setHealthResult(null);
+    setModalVisible(true);
+  };
+
+  // Resolve the profile currently chosen in the modal, or null if the custom URL is invalid
+  const getSelectedProfile = (): EnvironmentProfile | null => {
+    if (selectedId === 'custom') {
+      return isValidBaseUrl(customUrl) ? createCustomEnvironment(customUrl) : null;
+    }
+    return presets.find(preset => preset.id === selectedId) ?? null;
+  };
+
+  const runHealthCheck = async (profile: EnvironmentProfile): Promise<HealthCheckResult> => {
+    setIsChecking(true);
+    setHealthResult(null);
+    try {
+      const result = await checkServerHealth(profile.baseUrl);
+      setHealthResult(result);
+      return result;
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleTest = async () => {
+    const profile = getSelectedProfile();
+    if (!profile) {
+      setHealthResult({ ok: false, message: 'Enter a valid http(s) URL' });
+      return;
+    }
+    await runHealthCheck(profile);
+  };
+
+  const applyProfile = async (profile: EnvironmentProfile) => {
+    try {
+      await selectEnvironment(profile);
+      setModalVisible(false);
+    } catch (error) {
+      console.error('Error saving server selection:', error);
+      Alert.alert('Server', 'Unable to save server selection. Please try again.');
+    }
+  };
+
+  const handleSave = async () => {
+    const profile = getSelectedProfile();
+    if (!profile) {
+      setHealthResult({ ok: false, message: 'Enter a valid http(s) URL' });
+      return;
+    }
+
+    const result = await runHealthCheck(profile);
+    if (result.ok) {
+      await applyProfile(profile);
+      return;
+    }
+
+    Alert.alert('Server Unreachable', `${result.message}. Use this server anyway?`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Use Anyway', onPress: () => applyProfile(profile) },
+    ]);
+  };
+
+  return (
+    <>
+      <TouchableOpacity
+        onPress={openPicker}
+        disabled={disabled}
+        style={tw`flex-row items-center justify-between rounded-lg bg-surface-light dark:bg-surface-dark p-4`}
+      >
+        <View style={tw`flex-row items-center gap-3 flex-1`}>
+          <Icon name="dns" size={24} color={mutedIconColor} />
+          <View style={tw`flex-1`}>
+            <Text style={tw`font-medium text-text-light dark:text-text-dark`}>Server: {environment.label}</Text>
+            <Text style={tw`text-sm text-text-light/70 dark:text-text-dark/70`} numberOfLines={1}>
+              {environment.baseUrl}
+            </Text>
+          </View>
+        </View>
+        <Icon name="arrow-drop-down" size={24} color={mutedIconColor} />
+      </TouchableOpacity>
+
+      <Modal
+        visible={modalVisible}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setModalVisible(false)}
+      >
+        <View style={tw`flex-1 bg-black/50 items-center justify-center p-4`}>
+          <View style={tw`bg-surface-light dark:bg-surface-dark rounded-xl p-6 w-full max-w-sm shadow-lg`}>
+            <Text style={tw`text-xl font-bold text-text-light dark:text-text-dark mb-4`}>Select Server</Text>
+
+            {[...presets, createCustomEnvironment(customUrl)].map(profile => {
+              const isSelected = selectedId === profile.id;
+              return (
+                <TouchableOpacity
+                  key={profile.id}
+                  onPress={() => {
+                    setSelectedId(profile.id);
+                    setHealthResult(null);
+                  }}
+                  style={tw`flex-row items-center gap-3 py-3 border-b border-border-light/50 dark:border-border-dark/50`}
+                >
+                  <Icon
+                    name={isSelected ? 'radio-button-checked' : 'radio-button-unchecked'}
+                    size={22}
+                    color={isSelected ? tw.color('primary') : iconColor}
+                  />
+                  <View style={tw`flex-1`}>
+                    <Text style={tw`text-base font-medium text-text-light dark:text-text-dark`}>{profile.label}</Text>
+                    {profile.id !== 'custom' && (
+                      <Text style={tw`text-xs text-text-light/70 dark:text-text-dark/70`} numberOfLines={1}>
+                        {profile.baseUrl}
+                      </Text>
+                    )}
+                  </View>
+                </TouchableOpacity>
+              );
+            })}
+
+            {selectedId === 'custom' && (
+              <TextInput
+                style={tw`mt-3 rounded-lg border border-border-light dark:border-border-dark bg-background-light dark:bg-background-dark h-12 px-4 text-text-light dark:text-text-dark`}
+                placeholder="http://192.168.1.100:8000/api/v1"
+                placeholderTextColor={mutedIconColor}
+                autoCapitalize="none"
+                autoCorrect={false}
+                keyboardType="url"
+                value={customUrl}
+                onChangeText={text => {
+                  setCustomUrl(text);
+                  setHealthResult(null);
+                }}
+              />
+            )}
+
+            <View style={tw`flex-row items-center gap-2 mt-4 min-h-6`}>
+              {isChecking ? (
+                <>
+                  <ActivityIndicator size="small" color={tw.color('primary')} />
+                  <Text style={tw`text-sm text-text-light/70 dark:text-text-dark/70`}>Checking connection...</Text>
+                </>
+              ) : healthResult ? (
+                <>
+                  <Icon
+                    name={healthResult.ok ? 'check-circle' : 'error-outline'}
+                    size={18}
+                    color={healthResult.ok ? tw.color('success') : tw.color('danger')}
+                  />
+                  <Text style={tw`text-sm ${healthResult.ok ? 'text-success' : 'text-danger'}`}>
+                    {healthResult.message}
+                    {healthResult.latencyMs !== undefined ? ` (${healthResult.latencyMs} ms)` : ''}
+                  </Text>
+                </>
+              ) : null}
+            </View>
+
+            <View style={tw`flex-row gap-3 mt-4`}>
+              <TouchableOpacity
+                style={tw`flex-1 rounded-lg bg-primary/20 py-3 items-center`}
+                onPress={handleTest}
+                disabled={isChecking}
+              >
+                <Text style={tw`text-primary font-semibold`}>Test</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={tw`flex-1 rounded-lg bg-primary py-3 items-center ${isChecking ? 'opacity-50' : ''}`}
+                onPress={handleSave}
+                disabled={isChecking}
+              >
+                <Text style={tw`text-white font-semibold`}>Save</Text>
+              </TouchableOpacity>
+            </View>
+            <TouchableOpacity style={tw`mt-3 py-2 items-center`} onPress={() => setModalVisible(false)}>
+              <Text style={tw`text-text-light/70 dark:text-text-dark/70`}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+    </>
+  );
+};
+
+export default ServerPicker;
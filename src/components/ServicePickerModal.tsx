@@ -0,0 +1,114 @@
+/**
+ * ServicePickerModal Component
+ *
+ * Modal for picking a service from the catalog when adding invoice line items,
+ * showing each service at the price that applies to the patient's payer
+ */
+
+import React, { useState, useEffect } from 'react';
+import { View, Text, TextInput, TouchableOpacity, Modal, FlatList, ActivityIndicator, useColorScheme } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import tw from '../lib/tailwind';
+import { CatalogService } from '../types/serviceCatalog';
+import { formatCurrency } from '../utils/financialMetrics';
+import { filterServices, resolveServicePrice, TAX_CATEGORY_LABELS } from '../utils/serviceCatalog';
+
+interface ServicePickerModalProps {
+  visible: boolean;
+  services: CatalogService[]; // active services only
+  isLoading: boolean;
+  error: string | null;
+  payerName?: string; // the patient's primary insurer, for negotiated prices
+  onRetry: () => void;
+  onSelect: (service: CatalogService) => void;
+  onClose: () => void;
+}
+
+const ServicePickerModal: React.FC<ServicePickerModalProps> = ({ visible, services, isLoading, error, payerName, onRetry, onSelect, onClose }) => {
+  const [query, setQuery] = useState('');
+  const isDark = useColorScheme() === 'dark';
+  const iconColor = isDark ? tw.color('text-dark') : tw.color('text-light');
+  const placeholderTextColor = isDark ? tw.color('border-dark') : tw.color('border-light');
+
+  // Start a fresh search each time the modal opens
+  useEffect(() => {
+    if (visible) {
+      setQuery('');
+    }
+  }, [visible]);
+
+  const matches = filterServices(services, query);
+
+  return (
+    <Modal visible={visible} transparent={true} animationType="fade" onRequestClose={onClose}>
+      <View style={tw`flex-1 bg-black/50 items-center justify-center p-4`}>
+        <View style={tw`bg-surface-light dark:bg-surface-dark rounded-xl p-6 w-full max-w-sm h-3/4 shadow-lg`}>
+          <Text style={tw`text-xl font-bold text-text-light dark:text-text-dark`}>Add from Catalog</Text>
+          <Text style={tw`mt-1 mb-4 text-sm text-text-light/70 dark:text-text-dark/70`}>
+            {payerName ? `Prices for ${payerName}` : 'Standard prices'}
+          </Text>
+
+          <View style={tw`flex-row items-center rounded-lg border border-border-light dark:border-border-dark bg-background-light dark:bg-background-dark h-12 px-3 mb-2`}>
+            <Icon name="search" size={20} color={iconColor} />
+            <TextInput
+              style={tw`flex-1 pl-2 text-text-light dark:text-text-dark`}
+              placeholder="Search by code or description"
+              placeholderTextColor={placeholderTextColor}
+              value={query}
+              onChangeText={setQuery}
+              autoCorrect={false}
+            />
+          </View>
+
+          {isLoading ? (
+            <ActivityIndicator style={tw`py-6`} size="small" color={tw.color('primary')} />
+          ) : error ? (
+            <View style={tw`items-center py-6`}>
+              <Text style={tw`text-center text-sm text-text-light/70 dark:text-text-dark/70`}>{error}</Text>
+              <TouchableOpacity style={tw`mt-3 px-4 py-2 bg-primary rounded-lg`} onPress={onRetry}>
+                <Text style={tw`text-white font-medium`}>Retry</Text>
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <FlatList
+              data={matches}
+              keyExtractor={item => String(item.id)}
+              keyboardShouldPersistTaps="handled"
+              ListEmptyComponent={
+                <Text style={tw`py-6 text-center text-sm text-text-light/70 dark:text-text-dark/70`}>
+                  {services.length === 0 ? 'The service catalog is empty' : 'No matching services'}
+                </Text>
+              }
+              renderItem={({ item }) => {
+                const resolved = resolveServicePrice(item, new Date(), payerName);
+                return (
+                  <TouchableOpacity
+                    onPress={() => onSelect(item)}
+                    style={tw`flex-row items-center gap-3 py-3 border-b border-border-light/50 dark:border-border-dark/50`}
+                  >
+                    <View style={tw`flex-1`}>
+                      <Text style={tw`text-sm font-medium text-text-light dark:text-text-dark`} numberOfLines={1}>{item.description}</Text>
+                      <Text style={tw`text-xs text-text-light/70 dark:text-text-dark/70`}>
+                        {item.service_code} · {TAX_CATEGORY_LABELS[item.tax_category]}
+                      </Text>
+                    </View>
+                    <View style={tw`items-end`}>
+                      <Text style={tw`text-sm font-semibold text-text-light dark:text-text-dark`}>{formatCurrency(resolved.price_cents)}</Text>
+                      {resolved.source === 'payer' && <Text style={tw`text-xs text-primary`}>Payer price</Text>}
+                    </View>
+                  </TouchableOpacity>
+                );
+              }}
+            />
+          )}
+
+          <TouchableOpacity style={tw`mt-3 py-2 items-center`} onPress={onClose}>
+            <Text style={tw`text-text-light/70 dark:text-text-dark/70`}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+export default ServicePickerModal;
@@ -0,0 +1,157 @@
+/**
+ * StatementModal Component
+ *
+ * Modal for choosing a statement period and sharing the patient's statement
+ * for it as a PDF
+ */
+
+import React, { useState, useEffect } from 'react';
+import { View, Text, TextInput, TouchableOpacity, Modal, ActivityIndicator, useColorScheme } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import tw from '../lib/tailwind';
+import { PatientLedger, StatementPeriod, StatementPeriodPreset } from '../types/ledger';
+import { Patient } from '../types/patient';
+import { sharePatientStatementPdf } from '../services/documents/invoicePdf';
+import { getDefaultCustomRange } from '../utils/invoiceDateFilter';
+import {
+  buildPatientStatement,
+  describeStatementPeriod,
+  resolveStatementPeriod,
+  STATEMENT_PERIOD_PRESETS,
+  validateStatementPeriod,
+} from '../utils/patientLedger';
+
+interface StatementModalProps {
+  visible: boolean;
+  ledger: PatientLedger;
+  patient?: Patient; // printed with the billing address when loaded
+  patientName?: string;
+  onClose: () => void;
+}
+
+const StatementModal: React.FC<StatementModalProps> = ({ visible, ledger, patient, patientName, onClose }) => {
+  const [period, setPeriod] = useState<StatementPeriod>({ preset: 'last_30_days' });
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const isDark = useColorScheme() === 'dark';
+  const iconColor = isDark ? tw.color('text-dark') : tw.color('text-light');
+  const placeholderTextColor = isDark ? tw.color('border-dark') : tw.color('border-light');
+
+  useEffect(() => {
+    if (visible) {
+      setError(null);
+    }
+  }, [visible]);
+
+  const selectPreset = (preset: StatementPeriodPreset) => {
+    setError(null);
+    setPeriod(prev => ({
+      ...prev,
+      preset,
+      ...(preset === 'custom' && !prev.custom_start ? getDefaultCustomRange() : {}),
+    }));
+  };
+
+  const handleGenerate = async () => {
+    const periodError = validateStatementPeriod(period);
+    if (periodError) {
+      setError(periodError);
+      return;
+    }
+
+    setIsGenerating(true);
+    setError(null);
+    try {
+      const statement = buildPatientStatement(ledger, resolveStatementPeriod(period), patientName);
+      await sharePatientStatementPdf(statement, patient);
+      onClose();
+    } catch (err) {
+      console.error('Error generating statement:', err);
+      setError('Unable to create the statement. Please try again.');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const range = validateStatementPeriod(period) ? null : resolveStatementPeriod(period);
+  const inputStyle = tw`flex-1 rounded-lg border border-border-light dark:border-border-dark bg-background-light dark:bg-background-dark h-12 px-4 text-text-light dark:text-text-dark`;
+
+  return (
+    <Modal visible={visible} transparent={true} animationType="fade" onRequestClose={isGenerating ? undefined : onClose}>
+      <View style={tw`flex-1 bg-black/50 items-center justify-center p-4`}>
+        <View style={tw`bg-surface-light dark:bg-surface-dark rounded-xl p-6 w-full max-w-sm shadow-lg`}>
+          <Text style={tw`text-xl font-bold text-text-light dark:text-text-dark mb-1`}>Generate Statement</Text>
+          <Text style={tw`mb-4 text-sm text-text-light/70 dark:text-text-dark/70`}>
+            {ledger.currency} · {period.preset === 'all' || range ? describeStatementPeriod(range) : 'Choose a period'}
+          </Text>
+
+          {STATEMENT_PERIOD_PRESETS.map(option => {
+            const isSelected = period.preset === option.id;
+            return (
+              <TouchableOpacity
+                key={option.id}
+                onPress={() => selectPreset(option.id)}
+                disabled={isGenerating}
+                style={tw`flex-row items-center gap-3 py-3 border-b border-border-light/50 dark:border-border-dark/50`}
+              >
+                <Icon
+                  name={isSelected ? 'radio-button-checked' : 'radio-button-unchecked'}
+                  size={22}
+                  color={isSelected ? tw.color('primary') : iconColor}
+                />
+                <Text style={tw`text-base font-medium text-text-light dark:text-text-dark`}>{option.label}</Text>
+              </TouchableOpacity>
+            );
+          })}
+
+          {period.preset === 'custom' && (
+            <View style={tw`flex-row items-center gap-2 mt-3`}>
+              <TextInput
+                style={inputStyle}
+                placeholder="From"
+                placeholderTextColor={placeholderTextColor}
+                keyboardType="numbers-and-punctuation"
+                value={period.custom_start ?? ''}
+                onChangeText={text => {
+                  setError(null);
+                  setPeriod(prev => ({ ...prev, custom_start: text }));
+                }}
+              />
+              <Text style={tw`text-text-light/70 dark:text-text-dark/70`}>–</Text>
+              <TextInput
+                style={inputStyle}
+                placeholder="To"
+                placeholderTextColor={placeholderTextColor}
+                keyboardType="numbers-and-punctuation"
+                value={period.custom_end ?? ''}
+                onChangeText={text => {
+                  setError(null);
+                  setPeriod(prev => ({ ...prev, custom_end: text }));
+                }}
+              />
+            </View>
+          )}
+
+          {error && <Text style={tw`mt-3 text-sm text-danger`}>{error}</Text>}
+
+          <TouchableOpacity
+            style={tw`mt-6 rounded-lg bg-primary py-3 items-center ${isGenerating ? 'opacity-50' : ''}`}
+            onPress={handleGenerate}
+            disabled={isGenerating}
+          >
+            {isGenerating ? (
+              <ActivityIndicator size="small" color="#FFFFFF" />
+            ) : (
+              <Text style={tw`text-white font-semibold`}>Generate & Share</Text>
+            )}
+          </TouchableOpacity>
+          <TouchableOpacity style={tw`mt-3 py-2 items-center`} onPress={onClose} disabled={isGenerating}>
+            <Text style={tw`text-text-light/70 dark:text-text-dark/70`}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+export default StatementModal;
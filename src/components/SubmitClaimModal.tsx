@@ -0,0 +1,153 @@
+/**
+ * SubmitClaimModal Component
+ *
+ * Modal for billing part or all of an invoice's patient balance to one of the
+ * patient's insurance policies
+ */
+
+import React, { useState, useEffect } from 'react';
+import { View, Text, TextInput, TouchableOpacity, Modal, ActivityIndicator, useColorScheme } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import tw from '../lib/tailwind';
+import { InsurancePolicy } from '../types/insurance';
+import { formatCurrency, parseAmountToCents } from '../utils/financialMetrics';
+import { formatAmountInput, getCurrencySymbol, getMinorUnitDigits } from '../utils/currency';
+import { formatPolicyLabel, isPolicyActive } from '../utils/insurance';
+
+export interface ClaimFormValues {
+  policy: InsurancePolicy;
+  amountCents: number;
+}
+
+interface SubmitClaimModalProps {
+  visible: boolean;
+  policies: InsurancePolicy[]; // sorted primary first
+  isLoadingPolicies: boolean;
+  maxCents: number; // the patient balance still unclaimed
+  currency?: string | null;
+  isSubmitting: boolean;
+  error: string | null;
+  onSubmit: (values: ClaimFormValues) => void;
+  onClose: () => void;
+}
+
+const SubmitClaimModal: React.FC<SubmitClaimModalProps> = ({
+  visible,
+  policies,
+  isLoadingPolicies,
+  maxCents,
+  currency,
+  isSubmitting,
+  error,
+  onSubmit,
+  onClose,
+}) => {
+  const [amountText, setAmountText] = useState('');
+  const [policyId, setPolicyId] = useState<number | null>(null);
+  const isDark = useColorScheme() === 'dark';
+  const iconColor = isDark ? tw.color('text-dark') : tw.color('text-light');
+
+  // Start from the whole balance and the first active policy each time the modal opens
+  useEffect(() => {
+    if (visible) {
+      setAmountText(formatAmountInput(maxCents, currency));
+      setPolicyId(policies.find(policy => isPolicyActive(policy))?.id ?? null);
+    }
+  }, [visible, maxCents, currency, policies]);
+
+  const policy = policies.find(item => item.id === policyId);
+  const amountCents = parseAmountToCents(amountText, currency);
+  const amountError = amountCents === null || amountCents <= 0
+    ? 'Enter an amount greater than zero.'
+    : amountCents > maxCents
+      ? `Amount cannot exceed the patient balance of ${formatCurrency(maxCents, currency)}.`
+      : null;
+  const canSubmit = amountError === null && policy !== undefined && !isSubmitting;
+
+  const handleSubmit = () => {
+    if (!canSubmit || amountCents === null || !policy) return;
+    onSubmit({ policy, amountCents });
+  };
+
+  return (
+    <Modal visible={visible} transparent={true} animationType="fade" onRequestClose={onClose}>
+      <View style={tw`flex-1 bg-black/50 items-center justify-center p-4`}>
+        <View style={tw`bg-surface-light dark:bg-surface-dark rounded-xl p-6 w-full max-w-sm shadow-lg`}>
+          <Text style={tw`text-xl font-bold text-text-light dark:text-text-dark mb-4`}>Submit Claim</Text>
+
+          <Text style={tw`text-sm font-medium pb-2 text-text-light dark:text-text-dark`}>Policy</Text>
+          {isLoadingPolicies ? (
+            <ActivityIndicator style={tw`py-4`} size="small" color={tw.color('primary')} />
+          ) : policies.length === 0 ? (
+            <Text style={tw`py-2 text-sm text-text-light/70 dark:text-text-dark/70`}>
+              No insurance on file. Add a policy to the patient first.
+            </Text>
+          ) : (
+            policies.map(option => {
+              const isSelected = policyId === option.id;
+              const isActive = isPolicyActive(option);
+              return (
+                <TouchableOpacity
+                  key={option.id}
+                  onPress={() => setPolicyId(option.id)}
+                  disabled={isSubmitting || !isActive}
+                  style={tw`flex-row items-center gap-3 py-2 border-b border-border-light/50 dark:border-border-dark/50 ${isActive ? '' : 'opacity-50'}`}
+                >
+                  <Icon
+                    name={isSelected ? 'radio-button-checked' : 'radio-button-unchecked'}
+                    size={22}
+                    color={isSelected ? tw.color('primary') : iconColor}
+                  />
+                  <View style={tw`flex-1`}>
+                    <Text style={tw`text-base font-medium text-text-light dark:text-text-dark`}>{formatPolicyLabel(option)}</Text>
+                    <Text style={tw`text-xs text-text-light/70 dark:text-text-dark/70`}>
+                      Member {option.member_id}{isActive ? '' : ' · Coverage not active'}
+                    </Text>
+                  </View>
+                </TouchableOpacity>
+              );
+            })
+          )}
+
+          <Text style={tw`text-sm font-medium pt-4 pb-2 text-text-light dark:text-text-dark`}>Amount Billed</Text>
+          <View style={tw`flex-row items-center rounded-lg border ${amountError ? 'border-danger' : 'border-border-light dark:border-border-dark'} bg-background-light dark:bg-background-dark h-12 px-4`}>
+            <Text style={tw`text-base text-text-light/70 dark:text-text-dark/70`}>{getCurrencySymbol(currency)}</Text>
+            <TextInput
+              style={tw`flex-1 pl-1 text-base text-text-light dark:text-text-dark`}
+              keyboardType={getMinorUnitDigits(currency) === 0 ? 'number-pad' : 'decimal-pad'}
+              value={amountText}
+              onChangeText={setAmountText}
+              editable={!isSubmitting}
+            />
+          </View>
+          {amountError ? (
+            <Text style={tw`mt-1 text-sm text-danger`}>{amountError}</Text>
+          ) : amountCents !== null && amountCents < maxCents ? (
+            <Text style={tw`mt-1 text-sm text-text-light/70 dark:text-text-dark/70`}>
+              {formatCurrency(maxCents - amountCents, currency)} stays with the patient
+            </Text>
+          ) : null}
+
+          {error && <Text style={tw`mt-3 text-sm text-danger`}>{error}</Text>}
+
+          <TouchableOpacity
+            style={tw`mt-6 rounded-lg bg-primary py-3 items-center ${canSubmit ? '' : 'opacity-50'}`}
+            onPress={handleSubmit}
+            disabled={!canSubmit}
+          >
+            {isSubmitting ? (
+              <ActivityIndicator size="small" color="#FFFFFF" />
+            ) : (
+              <Text style={tw`text-white font-semibold`}>Bill {formatCurrency(amountCents ?? 0, currency)}</Text>
+            )}
+          </TouchableOpacity>
+          <TouchableOpacity style={tw`mt-3 py-2 items-center`} onPress={onClose} disabled={isSubmitting}>
+            <Text style={tw`text-text-light/70 dark:text-text-dark/70`}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+export default SubmitClaimModal;
@@ -8,8 +8,12 @@
 import React, { useState } from 'react';
 import { View, Text, TouchableOpacity, Modal, useColorScheme } from 'react-native';
 import Icon from 'react-native-vector-icons/MaterialIcons';
+import { useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import type { RootStackParamList } from '../types';
 import tw from '../lib/tailwind';
 import { useAuth } from '../context/AuthContext';
+import Can from './Can';
 
 interface UserProfileIconProps {
   iconSize?: number;
@@ -22,6 +26,7 @@ const UserProfileIcon: React.FC<UserProfileIconProps> = ({
 }) => {
   const [modalVisible, setModalVisible] = useState(false);
   const { user, logout } = useAuth();
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
   const isDark = useColorScheme() === 'dark';
 
   const handleLogout = async () => {
@@ -33,6 +38,11 @@ const UserProfileIcon: React.FC<UserProfileIconProps> = ({
     }
   };
 
+  const openSettings = (screen: 'ReminderSettings' | 'ServiceCatalog') => {
+    setModalVisible(false);
+    navigation.navigate(screen);
+  };
+
   const formatRole = (role: string) => {
     return role.replace('_', ' ');
   };
@@ -78,6 +88,28 @@ const UserProfileIcon: React.FC<UserProfileIconProps> = ({
               </Text>
             </View>
 
+            <Can permission="reminders:manage">
+              <TouchableOpacity
+                style={tw`flex-row items-center gap-3 py-3 border-b border-border-light/50 dark:border-border-dark/50`}
+                onPress={() => openSettings('ReminderSettings')}
+              >
+                <Icon name="notifications" size={22} color="#4A90E2" />
+                <Text style={tw`flex-1 text-base text-text-light dark:text-text-dark`}>Reminder Schedule</Text>
+                <Icon name="chevron-right" size={22} color="#4A90E2" />
+              </TouchableOpacity>
+            </Can>
+
+            <Can permission="catalog:manage">
+              <TouchableOpacity
+                style={tw`flex-row items-center gap-3 py-3 border-b border-border-light/50 dark:border-border-dark/50`}
+                onPress={() => openSettings('ServiceCatalog')}
+              >
+                <Icon name="medical-services" size={22} color="#4A90E2" />
+                <Text style={tw`flex-1 text-base text-text-light dark:text-text-dark`}>Service Catalog</Text>
+                <Icon name="chevron-right" size={22} color="#4A90E2" />
+              </TouchableOpacity>
+            </Can>
+
             <TouchableOpacity
               style={tw`bg-primary rounded-lg py-3 px-4 items-center mt-4`}
               onPress={handleLogout}
@@ -1,14 +1,20 @@
 /**
  * Authentication Context
- * 
+ *
  * Provides global authentication state management using React Context API
  * Handles login, logout, session persistence, and token management
  */
 
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useRef, useCallback, ReactNode } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { AuthContextValue, User, AuthTokens } from '../types/auth';
-import { login as loginApi, fetchUser as fetchUserApi } from '../api/authApi';
+import {
+  login as loginApi,
+  fetchUser as fetchUserApi,
+  refreshAccessToken as refreshAccessTokenApi,
+} from '../api/authApi';
+import { configureApiAuth } from '../api/client';
+import { AuthError, NetworkError } from '../api/errors';
 
 const AuthContext = createContext<AuthContextValue | undefined>(undefined);
 
@@ -26,9 +32,19 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [tokens, setTokens] = useState<AuthTokens | null>(null);
   const [loading, setLoading] = useState<boolean>(false);
 
+  // Latest tokens for API calls made from stale closures (e.g. screen effects)
+  const tokensRef = useRef<AuthTokens | null>(null);
+  // In-flight refresh shared by every request that hits an expired token
+  const refreshPromiseRef = useRef<Promise<AuthTokens> | null>(null);
+
   // Computed: isAuthenticated
   const isAuthenticated = user !== null && tokens !== null;
 
+  const applyTokens = useCallback((nextTokens: AuthTokens | null) => {
+    tokensRef.current = nextTokens;
+    setTokens(nextTokens);
+  }, []);
+
   /**
    * Login function
    * Authenticates user, stores tokens and user data, persists to AsyncStorage
@@ -40,21 +56,21 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       // Call login API
       const authTokens = await loginApi(username, password);
 
-      // Fetch user profile using access token
-      const userData = await fetchUserApi(authTokens.access_token);
+      // Fetch user profile using the new access token
+      applyTokens(authTokens);
+      const userData = await fetchUserApi();
 
       // Update state
-      setTokens(authTokens);
       setUser(userData);
 
       // Persist to AsyncStorage
       await AsyncStorage.setItem(STORAGE_KEYS.TOKENS, JSON.stringify(authTokens));
       await AsyncStorage.setItem(STORAGE_KEYS.USER, JSON.stringify(userData));
       console.log('userData', userData);
-      
+
     } catch (error) {
       // Clear state on error
-      setTokens(null);
+      applyTokens(null);
       setUser(null);
       throw error;
     } finally {
@@ -69,7 +85,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const logout = async (): Promise<void> => {
     try {
       // Clear state
-      setTokens(null);
+      applyTokens(null);
       setUser(null);
 
       // Remove from AsyncStorage
@@ -81,6 +97,77 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  /**
+   * Handle token expiration during active session
+   * Called once refreshing the session has failed; clears authentication state
+   */
+  const handleTokenExpiration = useCallback(async (): Promise<void> => {
+    try {
+      // Clear state
+      applyTokens(null);
+      setUser(null);
+
+      // Remove from AsyncStorage
+      await AsyncStorage.removeItem(STORAGE_KEYS.TOKENS);
+      await AsyncStorage.removeItem(STORAGE_KEYS.USER);
+    } catch (error) {
+      console.error('Error handling token expiration:', error);
+    }
+  }, [applyTokens]);
+
+  /**
+   * Trade the stored refresh token for a new access token
+   * Concurrent callers share a single refresh request
+   * @throws Error if there is no refresh token or the server rejects it
+   */
+  const refreshTokens = useCallback((): Promise<AuthTokens> => {
+    if (!refreshPromiseRef.current) {
+      refreshPromiseRef.current = (async () => {
+        const currentTokens = tokensRef.current;
+        if (!currentTokens?.refresh_token) {
+          throw new Error('No refresh token available');
+        }
+
+        const newTokens = await refreshAccessTokenApi(currentTokens.refresh_token);
+        applyTokens(newTokens);
+        await AsyncStorage.setItem(STORAGE_KEYS.TOKENS, JSON.stringify(newTokens));
+        return newTokens;
+      })().finally(() => {
+        refreshPromiseRef.current = null;
+      });
+    }
+    return refreshPromiseRef.current;
+  }, [applyTokens]);
+
+  /**
+   * Renew the session for the API client after a 401
+   * Logs the user out only when the refresh itself is rejected; a connection failure keeps the session for a retry
+   */
+  const refreshSession = useCallback(async (): Promise<string> => {
+    try {
+      const newTokens = await refreshTokens();
+      return newTokens.access_token;
+    } catch (error) {
+      console.error('Session refresh failed:', error);
+      if (!(error instanceof NetworkError)) {
+        await handleTokenExpiration();
+      }
+      throw error;
+    }
+  }, [refreshTokens, handleTokenExpiration]);
+
+  /**
+   * Let the shared API client inject the bearer token and refresh it on expiration
+   * Registered before session restoration so the validation request is authenticated
+   */
+  useEffect(() => {
+    configureApiAuth({
+      getAccessToken: () => tokensRef.current?.access_token ?? null,
+      refreshAccessToken: refreshSession,
+    });
+    return () => configureApiAuth(null);
+  }, [refreshSession]);
+
   /**
    * Session restoration on app initialization
    * Checks AsyncStorage for stored tokens and validates them
@@ -99,28 +186,30 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
           const parsedUser: User = JSON.parse(storedUser);
 
           // Temporarily set state to authenticated
-          setTokens(parsedTokens);
+          applyTokens(parsedTokens);
           setUser(parsedUser);
 
-          // Validate tokens by fetching user profile
+          // Validate tokens by fetching user profile (the client refreshes an expired access token)
           try {
-            const userData = await fetchUserApi(parsedTokens.access_token);
+            const userData = await fetchUserApi();
             // Success: keep tokens and updated user data
             setUser(userData);
             // Update stored user data
             await AsyncStorage.setItem(STORAGE_KEYS.USER, JSON.stringify(userData));
           } catch (error) {
-            // Validation failed: clear everything
-            setTokens(null);
-            setUser(null);
-            await AsyncStorage.removeItem(STORAGE_KEYS.TOKENS);
-            await AsyncStorage.removeItem(STORAGE_KEYS.USER);
+            if (error instanceof AuthError) {
+              // The server rejected the session: clear everything
+              await handleTokenExpiration();
+            } else {
+              // Offline, timed out or server trouble: keep the stored session so requests can be retried
+              console.error('Session validation failed:', error);
+            }
           }
         }
       } catch (error) {
         // Error reading storage: clear state
         console.error('Error restoring session:', error);
-        setTokens(null);
+        applyTokens(null);
         setUser(null);
       } finally {
         setLoading(false);
@@ -128,28 +217,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     };
 
     restoreSession();
-  }, []);
-
-  /**
-   * Handle token expiration during active session
-   * Detects 401/403 errors and clears authentication state
-   */
-  const handleTokenExpiration = async (): Promise<void> => {
-    try {
-      // Clear state
-      setTokens(null);
-      setUser(null);
-
-      // Remove from AsyncStorage
-      await AsyncStorage.removeItem(STORAGE_KEYS.TOKENS);
-      await AsyncStorage.removeItem(STORAGE_KEYS.USER);
-    } catch (error) {
-      console.error('Error handling token expiration:', error);
-    }
-  };
-
-  // Expose token expiration handler (will be used by API interceptor in future)
-  // For now, authApi handles it and throws, we catch it in login/context usage
+  }, [applyTokens, handleTokenExpiration]);
 
   const value: AuthContextValue = {
     user,
@@ -174,4 +242,3 @@ export const useAuth = (): AuthContextValue => {
   }
   return context;
 };
-
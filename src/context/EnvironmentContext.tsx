@@ -0,0 +1,77 @@
+/**
+ * Environment Context
+ *
+ * Provides the active backend environment profile and lets the login screen switch it
+ * Children mount only after the saved profile is restored, so session restoration
+ * in AuthProvider talks to the right server
+ */
+
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { View, ActivityIndicator } from 'react-native';
+import tw from '../lib/tailwind';
+import { EnvironmentProfile } from '../types/environment';
+import {
+  ENVIRONMENT_PRESETS,
+  getActiveEnvironment,
+  loadActiveEnvironment,
+  saveActiveEnvironment,
+} from '../utils/apiEnvironment';
+
+interface EnvironmentContextValue {
+  environment: EnvironmentProfile;
+  presets: EnvironmentProfile[];
+  selectEnvironment: (profile: EnvironmentProfile) => Promise<void>;
+}
+
+const EnvironmentContext = createContext<EnvironmentContextValue | undefined>(undefined);
+
+interface EnvironmentProviderProps {
+  children: ReactNode;
+}
+
+export const EnvironmentProvider: React.FC<EnvironmentProviderProps> = ({ children }) => {
+  const [environment, setEnvironment] = useState<EnvironmentProfile>(getActiveEnvironment());
+  const [ready, setReady] = useState(false);
+
+  useEffect(() => {
+    loadActiveEnvironment()
+      .then(setEnvironment)
+      .finally(() => setReady(true));
+  }, []);
+
+  /**
+   * Persist a new profile; subsequent API requests use its base URL
+   */
+  const selectEnvironment = async (profile: EnvironmentProfile): Promise<void> => {
+    await saveActiveEnvironment(profile);
+    setEnvironment(getActiveEnvironment());
+  };
+
+  if (!ready) {
+    return (
+      <View style={tw`flex-1 items-center justify-center bg-background-light dark:bg-background-dark`}>
+        <ActivityIndicator size="large" color="#4A90E2" />
+      </View>
+    );
+  }
+
+  const value: EnvironmentContextValue = {
+    environment,
+    presets: ENVIRONMENT_PRESETS,
+    selectEnvironment,
+  };
+
+  return <EnvironmentContext.Provider value={value}>{children}</EnvironmentContext.Provider>;
+};
+
+/**
+ * Custom hook to use environment context
+ * @throws Error if used outside EnvironmentProvider
+ */
+export const useEnvironment = (): EnvironmentContextValue => {
+  const context = useContext(EnvironmentContext);
+  if (context === undefined) {
+    throw new Error('useEnvironment must be used within an EnvironmentProvider');
+  }
+  return context;
+};
@@ -0,0 +1,24 @@
+/**
+ * Debounced Value Hook
+ *
+ * Delays propagating a fast-changing value (e.g. search text) until it settles
+ */
+
+import { useEffect, useState } from 'react';
+
+/**
+ * Return a copy of the value that only updates after it stops changing
+ * @param value - Value to debounce
+ * @param delayMs - Time the value must stay unchanged before it is returned
+ * @returns The last settled value
+ */
+export function useDebouncedValue<T>(value: T, delayMs: number): T {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delayMs);
+    return () => clearTimeout(timer);
+  }, [value, delayMs]);
+
+  return debounced;
+}
@@ -0,0 +1,55 @@
+/**
+ * Patient Names Hook
+ *
+ * Resolves patient ids to names from the patient directory, for invoices the
+ * API returned without a patient name
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { fetchPatients } from '../api/patientApi';
+import { Patient } from '../types/patient';
+import { loadPatientCache, onPatientsChanged, savePatientCache } from '../utils/patientCache';
+import { getPatientName } from '../utils/patients';
+import { usePermission } from './usePermission';
+
+const toNameMap = (patients: Patient[]): Map<number, string> =>
+  new Map(patients.map(patient => [patient.id, getPatientName(patient)]));
+
+/**
+ * Load patient names, showing cached names first
+ * @returns Names keyed by patient id; empty if the user can't view patients
+ */
+export function usePatientNames(): Map<number, string> {
+  const canViewPatients = usePermission('patients:view');
+  const [names, setNames] = useState<Map<number, string>>(() => new Map());
+
+  const loadNames = useCallback(async () => {
+    if (!canViewPatients) return;
+
+    const cachedPatients = await loadPatientCache();
+    if (cachedPatients) {
+      setNames(toNameMap(cachedPatients));
+    }
+    try {
+      const patients = await fetchPatients();
+      await savePatientCache(patients);
+      setNames(toNameMap(patients));
+    } catch (error) {
+      console.error('Error loading patient names:', error);
+    }
+  }, [canViewPatients]);
+
+  useEffect(() => {
+    loadNames();
+  }, [loadNames]);
+
+  // Pick up names added or corrected on the patient screens
+  useEffect(() => onPatientsChanged(async () => {
+    const cachedPatients = await loadPatientCache();
+    if (cachedPatients) {
+      setNames(toNameMap(cachedPatients));
+    }
+  }), []);
+
+  return names;
+}
@@ -0,0 +1,36 @@
+/**
+ * Patient Payer Hook
+ *
+ * Looks up the insurer billed first for a patient, so catalog services can be
+ * priced at the rates negotiated with it
+ */
+
+import { useEffect, useState } from 'react';
+import { fetchPatientPolicies } from '../api/insuranceApi';
+import { CancelledError } from '../api/errors';
+import { isPolicyActive, sortPolicies } from '../utils/insurance';
+
+/**
+ * Payer name of the patient's primary active policy
+ * @param patientId - Patient id, or null while none is selected
+ * @returns Payer name; undefined for self-pay patients or if policies can't be loaded
+ */
+export function usePatientPayer(patientId: number | null): string | undefined {
+  const [payerName, setPayerName] = useState<string | undefined>(undefined);
+
+  useEffect(() => {
+    setPayerName(undefined);
+    if (patientId === null) return;
+
+    const controller = new AbortController();
+    fetchPatientPolicies(patientId, { signal: controller.signal })
+      .then(policies => setPayerName(sortPolicies(policies).find(policy => isPolicyActive(policy))?.payer_name))
+      .catch(error => {
+        if (error instanceof CancelledError) return;
+        console.error('Error loading insurance policies:', error);
+      });
+    return () => controller.abort();
+  }, [patientId]);
+
+  return payerName;
+}
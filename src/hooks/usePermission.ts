@@ -0,0 +1,19 @@
+/**
+ * Permission Hook
+ *
+ * Resolves permissions for the currently authenticated user
+ */
+
+import { useAuth } from '../context/AuthContext';
+import { Permission } from '../types/auth';
+import { hasPermission } from '../utils/permissions';
+
+/**
+ * Check whether the current user has a permission
+ * @param permission - Permission to check
+ * @returns True if the logged-in user's role grants the permission
+ */
+export function usePermission(permission: Permission): boolean {
+  const { user } = useAuth();
+  return hasPermission(user?.role, permission);
+}
@@ -0,0 +1,227 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, ActivityIndicator, useColorScheme } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import type { RootStackParamList } from '../types';
+import tw from '../lib/tailwind';
+import { useAuth } from '../context/AuthContext';
+import { fetchInvoices } from '../api/invoiceApi';
+import { AgingBucket, AgingBucketId, Invoice, PatientAging } from '../types/invoice';
+import { loadInvoiceCache, saveInvoiceCache, onInvoicesChanged } from '../utils/invoiceCache';
+import { formatCurrency } from '../utils/financialMetrics';
+import { buildAgingReport, getAgingBucket, getAgingBucketLabel } from '../utils/agingReport';
+import { DEFAULT_CURRENCY, listCurrencies } from '../utils/currency';
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList, 'AgingReport'>;
+
+// Older buckets get stronger warning colors
+const BUCKET_COLORS: Record<AgingBucketId, string> = {
+    current: 'bg-success',
+    days_1_30: 'bg-amber-400',
+    days_31_60: 'bg-orange-500',
+    days_61_90: 'bg-danger/70',
+    days_over_90: 'bg-danger',
+};
+
+const BucketRow: React.FC<{ bucket: AgingBucket; totalCents: number; currency: string; onPress: () => void }> = ({ bucket, totalCents, currency, onPress }) => {
+    const isDark = useColorScheme() === 'dark';
+    const mutedIconColor = isDark ? tw.color('border-dark') : tw.color('border-light');
+    const share = totalCents > 0 ? bucket.balanceCents / totalCents : 0;
+
+    return (
+        <TouchableOpacity
+            onPress={onPress}
+            disabled={bucket.invoiceCount === 0}
+            style={tw`py-3 border-b border-border-light/50 dark:border-border-dark/50`}
+        >
+            <View style={tw`flex-row items-center justify-between`}>
+                <View style={tw`flex-1`}>
+                    <Text style={tw`text-base font-medium text-text-light dark:text-text-dark`}>{bucket.label}</Text>
+                    <Text style={tw`text-xs text-text-light/70 dark:text-text-dark/70`}>
+                        {bucket.invoiceCount} {bucket.invoiceCount === 1 ? 'invoice' : 'invoices'}
+                    </Text>
+                </View>
+                <Text style={tw`text-base font-semibold text-text-light dark:text-text-dark`}>{formatCurrency(bucket.balanceCents, currency)}</Text>
+                <Icon name="chevron-right" size={22} color={bucket.invoiceCount === 0 ? 'transparent' : mutedIconColor} />
+            </View>
+            <View style={tw`mt-2 h-2 rounded-full bg-slate-200 dark:bg-slate-700 overflow-hidden`}>
+                <View style={[tw`h-2 rounded-full ${BUCKET_COLORS[bucket.id]}`, { width: `${Math.round(share * 100)}%` }]} />
+            </View>
+        </TouchableOpacity>
+    );
+};
+
+const PatientRow: React.FC<{ patient: PatientAging; currency: string; isLast: boolean; onPress: () => void }> = ({ patient, currency, isLast, onPress }) => {
+    const breakdown = (Object.keys(patient.buckets) as AgingBucketId[])
+        .filter(id => patient.buckets[id] > 0)
+        .map(id => `${getAgingBucketLabel(id)}: ${formatCurrency(patient.buckets[id], currency)}`)
+        .join(' · ');
+
+    return (
+        <TouchableOpacity onPress={onPress} style={tw`py-3 ${isLast ? '' : 'border-b border-border-light/50 dark:border-border-dark/50'}`}>
+            <View style={tw`flex-row items-start justify-between`}>
+                <View style={tw`flex-1 pr-2`}>
+                    <Text style={tw`text-sm font-medium text-text-light dark:text-text-dark`}>
+                        {patient.patientName ? `${patient.patientName} (P-${patient.patientId})` : `P-${patient.patientId}`}
+                    </Text>
+                    <Text style={tw`text-xs text-text-light/70 dark:text-text-dark/70`}>
+                        {patient.invoiceCount} {patient.invoiceCount === 1 ? 'invoice' : 'invoices'}
+                    </Text>
+                </View>
+                <Text style={tw`text-sm font-semibold text-text-light dark:text-text-dark`}>{formatCurrency(patient.totalCents, currency)}</Text>
+            </View>
+            <Text style={tw`mt-1 text-xs text-text-light/70 dark:text-text-dark/70`}>{breakdown}</Text>
+        </TouchableOpacity>
+    );
+};
+
+const AgingReportScreen = () => {
+    const navigation = useNavigation<NavigationProp>();
+    const [invoices, setInvoices] = useState<Invoice[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [selectedCurrency, setSelectedCurrency] = useState<string | null>(null);
+    const { isAuthenticated } = useAuth();
+    const isDark = useColorScheme() === 'dark';
+    const iconColor = isDark ? tw.color('text-dark') : tw.color('text-light');
+
+    const loadInvoiceData = useCallback(async () => {
+        if (!isAuthenticated) return;
+
+        setIsLoading(true);
+        setError(null);
+
+        try {
+            // Show cached balances while the fresh list loads
+            const cachedInvoices = await loadInvoiceCache();
+            if (cachedInvoices) {
+                setInvoices(cachedInvoices);
+            }
+
+            const apiInvoices = await fetchInvoices();
+            await saveInvoiceCache(apiInvoices);
+            setInvoices(apiInvoices);
+        } catch (err) {
+            console.error('Error loading invoices for aging report:', err);
+
+            const cachedInvoices = await loadInvoiceCache();
+            if (cachedInvoices) {
+                setInvoices(cachedInvoices);
+            } else {
+                setError('Unable to load invoices');
+            }
+        } finally {
+            setIsLoading(false);
+        }
+    }, [isAuthenticated]);
+
+    useEffect(() => {
+        loadInvoiceData();
+    }, [loadInvoiceData]);
+
+    // Re-age after payments, refunds or voids made on other screens
+    useEffect(() => onInvoicesChanged(loadInvoiceData), [loadInvoiceData]);
+
+    // Balances in different currencies are aged separately rather than added together
+    const currencies = useMemo(
+        () => listCurrencies(invoices.filter(invoice => getAgingBucket(invoice) !== null)),
+        [invoices],
+    );
+    const currency = selectedCurrency && currencies.includes(selectedCurrency)
+        ? selectedCurrency
+        : currencies[0] ?? DEFAULT_CURRENCY;
+    const report = useMemo(() => buildAgingReport(invoices, new Date(), currency), [invoices, currency]);
+
+    const openBucket = (agingBucket: AgingBucketId) => {
+        navigation.navigate('Main', {
+            screen: 'Invoices',
+            params: { agingBucket, currency: currencies.length > 1 ? currency : undefined },
+        });
+    };
+
+    return (
+        <SafeAreaView style={tw`flex-1 bg-background-light dark:bg-background-dark`}>
+            <View style={tw`flex-row items-center p-4 border-b border-border-light/50 dark:border-border-dark/50`}>
+                <TouchableOpacity onPress={() => navigation.goBack()}>
+                    <Icon name="arrow-back" size={24} color={iconColor} />
+                </TouchableOpacity>
+                <Text style={tw`flex-1 text-center text-lg font-bold text-text-light dark:text-text-dark`}>Receivables Aging</Text>
+                <View style={tw`w-6`} />
+            </View>
+
+            {isLoading && invoices.length === 0 ? (
+                <View style={tw`flex-1 items-center justify-center p-8`}>
+                    <ActivityIndicator size="large" color={tw.color('primary')} />
+                    <Text style={tw`mt-4 text-text-light dark:text-text-dark`}>Loading invoices...</Text>
+                </View>
+            ) : error ? (
+                <View style={tw`flex-1 items-center justify-center p-8`}>
+                    <Icon name="error-outline" size={48} color={tw.color('danger')} />
+                    <Text style={tw`mt-4 text-center text-text-light dark:text-text-dark`}>{error}</Text>
+                    <TouchableOpacity style={tw`mt-4 px-6 py-3 bg-primary rounded-lg`} onPress={loadInvoiceData}>
+                        <Text style={tw`text-white font-medium`}>Retry</Text>
+                    </TouchableOpacity>
+                </View>
+            ) : (
+                <ScrollView style={tw`flex-1 px-4 pt-6`} contentContainerStyle={tw`pb-8`}>
+                    {currencies.length > 1 && (
+                        <View style={tw`flex-row flex-wrap justify-center gap-2 mb-4`}>
+                            {currencies.map(code => (
+                                <TouchableOpacity
+                                    key={code}
+                                    onPress={() => setSelectedCurrency(code)}
+                                    style={tw`h-8 items-center justify-center rounded-lg px-4 ${currency === code ? 'bg-primary/20' : 'bg-slate-200 dark:bg-slate-700'}`}
+                                >
+                                    <Text style={tw`text-sm font-medium ${currency === code ? 'text-primary' : 'text-text-light/80 dark:text-text-dark/80'}`}>
+                                        {code}
+                                    </Text>
+                                </TouchableOpacity>
+                            ))}
+                        </View>
+                    )}
+                    <View style={tw`items-center mb-6`}>
+                        <Text style={tw`text-sm text-text-light/70 dark:text-text-dark/70`}>Total Outstanding</Text>
+                        <Text style={tw`text-4xl font-bold text-text-light dark:text-text-dark`}>{formatCurrency(report.totalCents, report.currency)}</Text>
+                        <Text style={tw`mt-1 text-sm text-text-light/70 dark:text-text-dark/70`}>
+                            {report.invoiceCount} open {report.invoiceCount === 1 ? 'invoice' : 'invoices'}
+                        </Text>
+                    </View>
+
+                    <Text style={tw`text-lg font-bold pb-2 text-text-light dark:text-text-dark`}>Days Past Due</Text>
+                    <View style={tw`bg-surface-light dark:bg-surface-dark rounded-xl shadow-sm px-4 mb-6 border border-border-light/50 dark:border-border-dark/50`}>
+                        {report.buckets.map(bucket => (
+                            <BucketRow
+                                key={bucket.id}
+                                bucket={bucket}
+                                totalCents={report.totalCents}
+                                currency={report.currency}
+                                onPress={() => openBucket(bucket.id)}
+                            />
+                        ))}
+                    </View>
+
+                    <Text style={tw`text-lg font-bold pb-2 text-text-light dark:text-text-dark`}>By Patient</Text>
+                    <View style={tw`bg-surface-light dark:bg-surface-dark rounded-xl shadow-sm px-4 mb-6 border border-border-light/50 dark:border-border-dark/50`}>
+                        {report.patients.length === 0 ? (
+                            <Text style={tw`py-4 text-sm text-text-light/70 dark:text-text-dark/70`}>No outstanding balances</Text>
+                        ) : (
+                            report.patients.map((patient, index) => (
+                                <PatientRow
+                                    key={patient.patientId}
+                                    patient={patient}
+                                    currency={report.currency}
+                                    isLast={index === report.patients.length - 1}
+                                    onPress={() => navigation.navigate('PatientLedger', { patientId: patient.patientId })}
+                                />
+                            ))
+                        )}
+                    </View>
+                </ScrollView>
+            )}
+        </SafeAreaView>
+    );
+};
+
+export default AgingReportScreen;
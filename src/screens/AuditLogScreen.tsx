@@ -1,10 +1,11 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { View, Text, TextInput, TouchableOpacity, FlatList, useColorScheme, ActivityIndicator } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import Icon from 'react-native-vector-icons/MaterialIcons';
 import tw from '../lib/tailwind';
 import { useAuth } from '../context/AuthContext';
 import { fetchAuditLogs } from '../api/auditApi';
+import { AuthError, CancelledError, NetworkError, ServerError } from '../api/errors';
 import { AuditLogEntry, DisplayAuditEntry } from '../types/audit';
 import { transformAuditEntries } from '../utils/auditTransform';
 
@@ -36,73 +37,33 @@ const LogItem: React.FC<LogItemProps> = ({ title, user, target, time, icon, type
     );
 };
 
+// Map API client errors to user-facing messages
+const getAuditErrorMessage = (err: unknown): string => {
+    if (err instanceof AuthError) {
+        return err.isExpired
+            ? 'Authentication expired. Please log in again.'
+            : 'You do not have permission to view audit logs.';
+    }
+    if (err instanceof NetworkError) {
+        return 'Unable to connect to server. Please check your network connection.';
+    }
+    if (err instanceof ServerError) {
+        return 'Server error occurred. Please try again later.';
+    }
+    return 'Unable to load audit logs. Please try again.';
+};
+
 const AuditLogScreen = () => {
     const [entries, setEntries] = useState<AuditLogEntry[]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
-    const { tokens } = useAuth();
+    const { isAuthenticated } = useAuth();
     const isDark = useColorScheme() === 'dark';
     const iconColor = isDark ? tw.color('text-dark') : tw.color('text-light');
     const placeholderColor = isDark ? tw.color('border-dark') : tw.color('border-light');
 
-    useEffect(() => {
-        let isMounted = true;
-
-        const loadData = async () => {
-            if (!tokens?.access_token) {
-                if (isMounted) {
-                    setError('Authentication required');
-                    setIsLoading(false);
-                }
-                return;
-            }
-
-            if (isMounted) {
-                setIsLoading(true);
-                setError(null);
-            }
-
-            try {
-                const apiEntries = await fetchAuditLogs(tokens.access_token);
-                if (isMounted) {
-                    setEntries(apiEntries);
-                }
-            } catch (err) {
-                if (!isMounted) return;
-                
-                console.error('Error loading audit logs:', err);
-                
-                if (err instanceof Error) {
-                    if (err.message === 'Token expired') {
-                        setError('Authentication expired. Please log in again.');
-                    } else if (err.message === 'Network error') {
-                        setError('Unable to connect to server. Please check your network connection.');
-                    } else if (err.message === 'Server error') {
-                        setError('Server error occurred. Please try again later.');
-                    } else if (err.message.includes('401') || err.message.includes('403')) {
-                        setError('You do not have permission to view audit logs.');
-                    } else {
-                        setError('Unable to load audit logs. Please try again.');
-                    }
-                } else {
-                    setError('Unable to load audit logs. Please try again.');
-                }
-            } finally {
-                if (isMounted) {
-                    setIsLoading(false);
-                }
-            }
-        };
-
-        loadData();
-
-        return () => {
-            isMounted = false;
-        };
-    }, [tokens]);
-
-    const loadAuditLogs = async () => {
-        if (!tokens?.access_token) {
+    const loadAuditLogs = useCallback(async (signal?: AbortSignal) => {
+        if (!isAuthenticated) {
             setError('Authentication required');
             setIsLoading(false);
             return;
@@ -112,30 +73,29 @@ const AuditLogScreen = () => {
         setError(null);
 
         try {
-            const apiEntries = await fetchAuditLogs(tokens.access_token);
+            const apiEntries = await fetchAuditLogs({ signal });
             setEntries(apiEntries);
         } catch (err) {
+            // Screen unmounted or reloaded: ignore the aborted request
+            if (err instanceof CancelledError) return;
+
             console.error('Error loading audit logs:', err);
-            
-            if (err instanceof Error) {
-                if (err.message === 'Token expired') {
-                    setError('Authentication expired. Please log in again.');
-                } else if (err.message === 'Network error') {
-                    setError('Unable to connect to server. Please check your network connection.');
-                } else if (err.message === 'Server error') {
-                    setError('Server error occurred. Please try again later.');
-                } else if (err.message.includes('401') || err.message.includes('403')) {
-                    setError('You do not have permission to view audit logs.');
-                } else {
-                    setError('Unable to load audit logs. Please try again.');
-                }
-            } else {
-                setError('Unable to load audit logs. Please try again.');
-            }
+            setError(getAuditErrorMessage(err));
         } finally {
-            setIsLoading(false);
+            if (!signal?.aborted) {
+                setIsLoading(false);
+            }
         }
-    };
+    }, [isAuthenticated]);
+
+    useEffect(() => {
+        const controller = new AbortController();
+        loadAuditLogs(controller.signal);
+
+        return () => {
+            controller.abort();
+        };
+    }, [loadAuditLogs]);
 
     const displayEntries = transformAuditEntries(entries);
 
@@ -160,7 +120,7 @@ const AuditLogScreen = () => {
                     {!error.includes('Authentication expired') && !error.includes('permission') && (
                         <TouchableOpacity 
                             style={tw`mt-4 px-6 py-3 bg-primary rounded-lg`}
-                            onPress={loadAuditLogs}
+                            onPress={() => loadAuditLogs()}
                         >
                             <Text style={tw`text-white font-medium`}>Retry</Text>
                         </TouchableOpacity>
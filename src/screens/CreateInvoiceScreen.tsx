@@ -0,0 +1,559 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { View, Text, TextInput, TouchableOpacity, ScrollView, ActivityIndicator, Alert, useColorScheme } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import type { RootStackParamList } from '../types';
+import tw from '../lib/tailwind';
+import { createInvoice } from '../api/invoiceApi';
+import { fetchServices } from '../api/serviceCatalogApi';
+import { ApiError, AuthError, NetworkError, ValidationError } from '../api/errors';
+import { InvoiceDraft, InvoiceDraftLineItem } from '../types/invoice';
+import { CatalogService } from '../types/serviceCatalog';
+import { loadInvoiceCache, notifyInvoicesChanged, updateCachedInvoice } from '../utils/invoiceCache';
+import { formatCurrency, parseAmountToCents } from '../utils/financialMetrics';
+import { formatInvoiceDate } from '../utils/invoiceFormatting';
+import { addDays, formatDateInput, parseDateInput } from '../utils/dateUtils';
+import { formatPatientLabel } from '../utils/patients';
+import { resolveServicePrice, sortServices, TAX_CATEGORY_LABELS } from '../utils/serviceCatalog';
+import {
+    INVOICE_WIZARD_STEPS,
+    buildCreateInvoiceRequest,
+    buildDraftLineItems,
+    calculateDraftTotals,
+    clearInvoiceDraft,
+    createDraftLineItem,
+    createDraftLineItemFromService,
+    createEmptyDraft,
+    isDraftStarted,
+    loadInvoiceDraft,
+    parseQuantity,
+    saveInvoiceDraft,
+    validateDraftStep,
+} from '../utils/invoiceDraft';
+import LineItemList from '../components/LineItemList';
+import ServicePickerModal from '../components/ServicePickerModal';
+import { usePatientNames } from '../hooks/usePatientNames';
+import { usePatientPayer } from '../hooks/usePatientPayer';
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList, 'CreateInvoice'>;
+
+const DUE_DATE_PRESETS = [
+    { label: 'On receipt', days: 0 },
+    { label: 'Net 15', days: 15 },
+    { label: 'Net 30', days: 30 },
+    { label: 'Net 60', days: 60 },
+];
+
+const getCreateErrorMessage = (err: unknown): string => {
+    if (err instanceof ValidationError) {
+        return err.message || 'The invoice was rejected. Please check the details.';
+    }
+    if (err instanceof AuthError) {
+        return err.isExpired
+            ? 'Authentication expired. Please log in again.'
+            : 'You do not have permission to create invoices.';
+    }
+    if (err instanceof NetworkError) {
+        return 'Unable to connect to server. Your draft has been saved.';
+    }
+    if (err instanceof ApiError && err.message) {
+        return err.message;
+    }
+    return 'Unable to create invoice. Please try again.';
+};
+
+const FieldLabel: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+    <Text style={tw`text-sm font-medium pb-2 text-text-light dark:text-text-dark`}>{children}</Text>
+);
+
+const SummaryRow: React.FC<{ label: string; value: string; isTotal?: boolean }> = ({ label, value, isTotal = false }) => (
+    <View style={tw`flex-row justify-between py-1.5`}>
+        <Text style={tw`${isTotal ? 'text-base font-bold text-text-light dark:text-text-dark' : 'text-sm text-text-light/70 dark:text-text-dark/70'}`}>{label}</Text>
+        <Text style={tw`${isTotal ? 'text-base font-bold text-primary' : 'text-sm font-semibold text-text-light dark:text-text-dark'}`}>{value}</Text>
+    </View>
+);
+
+const CreateInvoiceScreen = () => {
+    const navigation = useNavigation<NavigationProp>();
+    const [draft, setDraft] = useState<InvoiceDraft | null>(null);
+    const [stepIndex, setStepIndex] = useState(0);
+    const [stepError, setStepError] = useState<string | null>(null);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [recentPatientIds, setRecentPatientIds] = useState<number[]>([]);
+    const [catalogServices, setCatalogServices] = useState<CatalogService[] | null>(null); // loaded when the picker first opens
+    const [isCatalogLoading, setIsCatalogLoading] = useState(false);
+    const [catalogError, setCatalogError] = useState<string | null>(null);
+    const [isPickerVisible, setIsPickerVisible] = useState(false);
+    const patientNames = usePatientNames();
+    // Catalog prices depend on who pays; without an insurer standard prices apply
+    const payerName = usePatientPayer(draft ? parseQuantity(draft.patient_id) : null);
+    const submittingRef = useRef(false);
+    const isDark = useColorScheme() === 'dark';
+    const iconColor = isDark ? tw.color('text-dark') : tw.color('text-light');
+    const placeholderTextColor = isDark ? tw.color('border-dark') : tw.color('border-light');
+    const inputStyle = tw`rounded-lg border border-border-light dark:border-border-dark bg-background-light dark:bg-background-dark h-12 px-4 text-text-light dark:text-text-dark`;
+
+    const step = INVOICE_WIZARD_STEPS[stepIndex];
+    const isReviewStep = stepIndex === INVOICE_WIZARD_STEPS.length - 1;
+
+    // Offer to resume an interrupted draft
+    useEffect(() => {
+        const restoreDraft = async () => {
+            const savedDraft = await loadInvoiceDraft();
+            if (!savedDraft || !isDraftStarted(savedDraft)) {
+                setDraft(createEmptyDraft());
+                return;
+            }
+            Alert.alert('Resume Draft?', `You have an unfinished invoice from ${formatInvoiceDate(savedDraft.updated_at)}.`, [
+                {
+                    text: 'Start Over',
+                    style: 'destructive',
+                    onPress: () => {
+                        clearInvoiceDraft().catch(error => console.error('Error clearing invoice draft:', error));
+                        setDraft(createEmptyDraft());
+                    },
+                },
+                { text: 'Resume', onPress: () => setDraft(savedDraft) },
+            ], { cancelable: false });
+        };
+
+        restoreDraft();
+    }, []);
+
+    // Patients seen on cached invoices, for quick selection
+    useEffect(() => {
+        loadInvoiceCache().then(cachedInvoices => {
+            if (!cachedInvoices) return;
+            const patientIds = Array.from(new Set(cachedInvoices.map(inv => inv.patient_id)));
+            setRecentPatientIds(patientIds.slice(0, 12));
+        });
+    }, []);
+
+    const loadCatalog = useCallback(async () => {
+        setIsCatalogLoading(true);
+        setCatalogError(null);
+        try {
+            setCatalogServices(sortServices(await fetchServices()));
+        } catch (err) {
+            console.error('Error loading service catalog:', err);
+            setCatalogError('Unable to load the service catalog. You can still enter items by hand.');
+        } finally {
+            setIsCatalogLoading(false);
+        }
+    }, []);
+
+    // Persist every change so an interrupted entry isn't lost
+    useEffect(() => {
+        if (!draft || !isDraftStarted(draft)) return;
+        saveInvoiceDraft(draft).catch(error => console.error('Error saving invoice draft:', error));
+    }, [draft]);
+
+    const updateDraft = (changes: Partial<InvoiceDraft>) => {
+        setStepError(null);
+        setDraft(prev => (prev ? { ...prev, ...changes, updated_at: new Date().toISOString() } : prev));
+    };
+
+    const updateLineItem = (key: string, changes: Partial<InvoiceDraftLineItem>) => {
+        if (!draft) return;
+        updateDraft({
+            line_items: draft.line_items.map(item => (item.key === key ? { ...item, ...changes } : item)),
+        });
+    };
+
+    const openCatalogPicker = () => {
+        setIsPickerVisible(true);
+        if (!catalogServices && !isCatalogLoading) {
+            loadCatalog();
+        }
+    };
+
+    // A picked service fills the first blank item, or is added after the others
+    const handlePickService = (service: CatalogService) => {
+        if (!draft) return;
+        const { price_cents } = resolveServicePrice(service, new Date(), payerName);
+        const lineItem = createDraftLineItemFromService(service, price_cents);
+        const blankIndex = draft.line_items.findIndex(item => !item.description.trim() && !item.unit_price.trim());
+        updateDraft({
+            line_items: blankIndex === -1
+                ? [...draft.line_items, lineItem]
+                : draft.line_items.map((item, index) => (index === blankIndex ? lineItem : item)),
+        });
+        setIsPickerVisible(false);
+    };
+
+    const handleBack = () => {
+        setStepError(null);
+        if (stepIndex > 0) {
+            setStepIndex(stepIndex - 1);
+        } else {
+            navigation.goBack();
+        }
+    };
+
+    const handleNext = () => {
+        if (!draft) return;
+        const error = validateDraftStep(step, draft);
+        if (error) {
+            setStepError(error);
+            return;
+        }
+        setStepError(null);
+        setStepIndex(stepIndex + 1);
+    };
+
+    const handleDiscard = () => {
+        Alert.alert('Discard Draft', 'Discard this invoice? Everything entered so far will be lost.', [
+            { text: 'Cancel', style: 'cancel' },
+            {
+                text: 'Discard',
+                style: 'destructive',
+                onPress: async () => {
+                    try {
+                        await clearInvoiceDraft();
+                    } catch (error) {
+                        console.error('Error clearing invoice draft:', error);
+                    }
+                    navigation.goBack();
+                },
+            },
+        ]);
+    };
+
+    const handleSubmit = async () => {
+        if (!draft || submittingRef.current) return;
+
+        let request;
+        try {
+            request = buildCreateInvoiceRequest(draft);
+        } catch (error) {
+            setStepError(error instanceof Error ? error.message : 'Please complete every step.');
+            return;
+        }
+
+        submittingRef.current = true;
+        setIsSubmitting(true);
+        setStepError(null);
+
+        try {
+            const invoice = await createInvoice(request);
+            await updateCachedInvoice(invoice);
+            await clearInvoiceDraft();
+            notifyInvoicesChanged();
+            navigation.replace('InvoiceDetail', { invoiceId: invoice.id });
+        } catch (err) {
+            console.error('Error creating invoice:', err);
+            setStepError(getCreateErrorMessage(err));
+        } finally {
+            submittingRef.current = false;
+            setIsSubmitting(false);
+        }
+    };
+
+    const renderPatientStep = (current: InvoiceDraft) => (
+        <View>
+            <FieldLabel>Patient ID</FieldLabel>
+            <TextInput
+                style={inputStyle}
+                placeholder="e.g. 1024"
+                placeholderTextColor={placeholderTextColor}
+                keyboardType="number-pad"
+                value={current.patient_id}
+                onChangeText={text => updateDraft({ patient_id: text.replace(/\D/g, '') })}
+            />
+            {recentPatientIds.length > 0 && (
+                <>
+                    <Text style={tw`text-sm font-medium pt-6 pb-2 text-text-light dark:text-text-dark`}>Recent Patients</Text>
+                    <View style={tw`flex-row flex-wrap gap-2`}>
+                        {recentPatientIds.map(patientId => {
+                            const isSelected = current.patient_id === String(patientId);
+                            return (
+                                <TouchableOpacity
+                                    key={patientId}
+                                    onPress={() => updateDraft({ patient_id: String(patientId) })}
+                                    style={tw`h-9 px-4 items-center justify-center rounded-full ${isSelected ? 'bg-primary' : 'bg-primary/20'}`}
+                                >
+                                    <Text style={tw`text-sm font-medium ${isSelected ? 'text-white' : 'text-primary'}`}>
+                                        {patientNames.get(patientId) ?? `P-${patientId}`}
+                                    </Text>
+                                </TouchableOpacity>
+                            );
+                        })}
+                    </View>
+                </>
+            )}
+        </View>
+    );
+
+    const renderItemsStep = (current: InvoiceDraft) => (
+        <View>
+            {current.line_items.map((item, index) => {
+                const quantity = parseQuantity(item.quantity) ?? 0;
+                const unitPriceCents = parseAmountToCents(item.unit_price) ?? 0;
+                return (
+                    <View key={item.key} style={tw`bg-surface-light dark:bg-surface-dark rounded-xl p-4 mb-4 border border-border-light/50 dark:border-border-dark/50`}>
+                        <View style={tw`flex-row items-center justify-between mb-3`}>
+                            <Text style={tw`font-bold text-text-light dark:text-text-dark`}>Item {index + 1}</Text>
+                            {current.line_items.length > 1 && (
+                                <TouchableOpacity onPress={() => updateDraft({ line_items: current.line_items.filter(other => other.key !== item.key) })}>
+                                    <Icon name="delete-outline" size={22} color={tw.color('danger')} />
+                                </TouchableOpacity>
+                            )}
+                        </View>
+                        <View style={tw`flex-row gap-4`}>
+                            <View style={tw`flex-1`}>
+                                <FieldLabel>Service</FieldLabel>
+                                <TextInput
+                                    style={inputStyle}
+                                    placeholder="e.g. Consultation"
+                                    placeholderTextColor={placeholderTextColor}
+                                    value={item.description}
+                                    onChangeText={text => updateLineItem(item.key, { description: text })}
+                                />
+                            </View>
+                            <View style={tw`w-28`}>
+                                <FieldLabel>Code</FieldLabel>
+                                <TextInput
+                                    style={inputStyle}
+                                    placeholder="Optional"
+                                    placeholderTextColor={placeholderTextColor}
+                                    autoCapitalize="characters"
+                                    value={item.service_code ?? ''}
+                                    onChangeText={text => updateLineItem(item.key, { service_code: text, service_id: undefined, tax_category: undefined })}
+                                />
+                            </View>
+                        </View>
+                        <View style={tw`flex-row gap-4 mt-3`}>
+                            <View style={tw`w-24`}>
+                                <FieldLabel>Qty</FieldLabel>
+                                <TextInput
+                                    style={inputStyle}
+                                    keyboardType="number-pad"
+                                    value={item.quantity}
+                                    onChangeText={text => updateLineItem(item.key, { quantity: text.replace(/\D/g, '') })}
+                                />
+                            </View>
+                            <View style={tw`flex-1`}>
+                                <FieldLabel>Unit Price</FieldLabel>
+                                <TextInput
+                                    style={inputStyle}
+                                    placeholder="0.00"
+                                    placeholderTextColor={placeholderTextColor}
+                                    keyboardType="decimal-pad"
+                                    value={item.unit_price}
+                                    onChangeText={text => updateLineItem(item.key, { unit_price: text })}
+                                />
+                            </View>
+                        </View>
+                        <View style={tw`flex-row items-center justify-between mt-3`}>
+                            <Text style={tw`text-sm text-text-light/70 dark:text-text-dark/70`}>
+                                {item.service_id !== undefined && item.tax_category ? `Catalog · ${TAX_CATEGORY_LABELS[item.tax_category]}` : ''}
+                            </Text>
+                            <Text style={tw`text-sm text-text-light/70 dark:text-text-dark/70`}>
+                                Line total: {formatCurrency(quantity * unitPriceCents)}
+                            </Text>
+                        </View>
+                    </View>
+                );
+            })}
+            <View style={tw`flex-row gap-3`}>
+                <TouchableOpacity
+                    onPress={openCatalogPicker}
+                    style={tw`flex-1 flex-row items-center justify-center gap-2 rounded-lg bg-primary/20 h-12`}
+                >
+                    <Icon name="medical-services" size={20} color={tw.color('primary')} />
+                    <Text style={tw`text-primary font-semibold`}>From Catalog</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                    onPress={() => updateDraft({ line_items: [...current.line_items, createDraftLineItem()] })}
+                    style={tw`flex-1 flex-row items-center justify-center gap-2 rounded-lg border border-dashed border-primary h-12`}
+                >
+                    <Icon name="add" size={20} color={tw.color('primary')} />
+                    <Text style={tw`text-primary font-semibold`}>Add Item</Text>
+                </TouchableOpacity>
+            </View>
+            <View style={tw`mt-4`}>
+                <SummaryRow label="Subtotal" value={formatCurrency(calculateDraftTotals(current).subtotal_cents)} isTotal />
+            </View>
+        </View>
+    );
+
+    const renderAdjustmentsStep = (current: InvoiceDraft) => {
+        const totals = calculateDraftTotals(current);
+        return (
+            <View>
+                <FieldLabel>Discount</FieldLabel>
+                <View style={tw`flex-row gap-3`}>
+                    <View style={tw`flex-row rounded-lg bg-primary/20 p-1`}>
+                        {(['percent', 'amount'] as const).map(type => (
+                            <TouchableOpacity
+                                key={type}
+                                onPress={() => updateDraft({ discount_type: type })}
+                                style={tw`h-10 w-12 items-center justify-center rounded-md ${current.discount_type === type ? 'bg-primary' : ''}`}
+                            >
+                                <Text style={tw`font-bold ${current.discount_type === type ? 'text-white' : 'text-primary'}`}>
+                                    {type === 'percent' ? '%' : '$'}
+                                </Text>
+                            </TouchableOpacity>
+                        ))}
+                    </View>
+                    <TextInput
+                        style={[inputStyle, tw`flex-1`]}
+                        placeholder={current.discount_type === 'percent' ? '0' : '0.00'}
+                        placeholderTextColor={placeholderTextColor}
+                        keyboardType="decimal-pad"
+                        value={current.discount_value}
+                        onChangeText={text => updateDraft({ discount_value: text })}
+                    />
+                </View>
+                <View style={tw`mt-4`}>
+                    <FieldLabel>Tax Rate (%)</FieldLabel>
+                    <TextInput
+                        style={inputStyle}
+                        placeholder="0"
+                        placeholderTextColor={placeholderTextColor}
+                        keyboardType="decimal-pad"
+                        value={current.tax_rate_percent}
+                        onChangeText={text => updateDraft({ tax_rate_percent: text })}
+                    />
+                </View>
+                <View style={tw`mt-6 bg-surface-light dark:bg-surface-dark rounded-xl p-4 border border-border-light/50 dark:border-border-dark/50`}>
+                    <SummaryRow label="Subtotal" value={formatCurrency(totals.subtotal_cents)} />
+                    <SummaryRow label="Discount" value={`-${formatCurrency(totals.discount_cents)}`} />
+                    <SummaryRow label="Tax" value={formatCurrency(totals.tax_cents)} />
+                    <SummaryRow label="Total" value={formatCurrency(totals.total_cents)} isTotal />
+                </View>
+            </View>
+        );
+    };
+
+    const renderDueDateStep = (current: InvoiceDraft) => (
+        <View>
+            <FieldLabel>Payment Terms</FieldLabel>
+            <View style={tw`flex-row flex-wrap gap-2 mb-4`}>
+                {DUE_DATE_PRESETS.map(preset => {
+                    const presetDate = formatDateInput(addDays(new Date(), preset.days));
+                    const isSelected = current.due_date === presetDate;
+                    return (
+                        <TouchableOpacity
+                            key={preset.label}
+                            onPress={() => updateDraft({ due_date: presetDate })}
+                            style={tw`h-9 px-4 items-center justify-center rounded-full ${isSelected ? 'bg-primary' : 'bg-primary/20'}`}
+                        >
+                            <Text style={tw`text-sm font-medium ${isSelected ? 'text-white' : 'text-primary'}`}>{preset.label}</Text>
+                        </TouchableOpacity>
+                    );
+                })}
+            </View>
+            <FieldLabel>Due Date</FieldLabel>
+            <TextInput
+                style={inputStyle}
+                placeholder="YYYY-MM-DD"
+                placeholderTextColor={placeholderTextColor}
+                keyboardType="numbers-and-punctuation"
+                value={current.due_date}
+                onChangeText={text => updateDraft({ due_date: text })}
+            />
+        </View>
+    );
+
+    const renderReviewStep = (current: InvoiceDraft) => (
+        <View>
+            <View style={tw`bg-surface-light dark:bg-surface-dark rounded-xl p-4 mb-4 border border-border-light/50 dark:border-border-dark/50`}>
+                <SummaryRow label="Patient" value={formatPatientLabel(Number(current.patient_id), patientNames.get(Number(current.patient_id)))} />
+                <SummaryRow label="Due Date" value={formatInvoiceDate(parseDateInput(current.due_date)?.toISOString())} />
+            </View>
+            <Text style={tw`text-lg font-bold pb-2 text-text-light dark:text-text-dark`}>Line Items</Text>
+            <View style={tw`bg-surface-light dark:bg-surface-dark rounded-xl p-4 mb-4 border border-border-light/50 dark:border-border-dark/50`}>
+                <LineItemList items={buildDraftLineItems(current)} totalAmountCents={calculateDraftTotals(current).total_cents} />
+            </View>
+        </View>
+    );
+
+    const renderStep = (current: InvoiceDraft) => {
+        switch (step) {
+            case 'Patient':
+                return renderPatientStep(current);
+            case 'Items':
+                return renderItemsStep(current);
+            case 'Adjustments':
+                return renderAdjustmentsStep(current);
+            case 'Due Date':
+                return renderDueDateStep(current);
+            case 'Review':
+                return renderReviewStep(current);
+        }
+    };
+
+    return (
+        <SafeAreaView style={tw`flex-1 bg-background-light dark:bg-background-dark`}>
+            <View style={tw`flex-row items-center p-4 border-b border-border-light/50 dark:border-border-dark/50`}>
+                <TouchableOpacity onPress={handleBack} disabled={isSubmitting}>
+                    <Icon name="arrow-back" size={24} color={iconColor} />
+                </TouchableOpacity>
+                <Text style={tw`flex-1 text-center text-lg font-bold text-text-light dark:text-text-dark`}>New Invoice</Text>
+                <TouchableOpacity onPress={handleDiscard} disabled={isSubmitting || !draft}>
+                    <Icon name="delete-outline" size={24} color={iconColor} />
+                </TouchableOpacity>
+            </View>
+            {!draft ? (
+                <View style={tw`flex-1 items-center justify-center p-8`}>
+                    <ActivityIndicator size="large" color={tw.color('primary')} />
+                </View>
+            ) : (
+                <>
+                    <View style={tw`px-4 pt-4`}>
+                        <View style={tw`flex-row gap-1.5`}>
+                            {INVOICE_WIZARD_STEPS.map((name, index) => (
+                                <View key={name} style={tw`flex-1 h-1.5 rounded-full ${index <= stepIndex ? 'bg-primary' : 'bg-primary/20'}`} />
+                            ))}
+                        </View>
+                        <Text style={tw`mt-2 text-sm text-text-light/70 dark:text-text-dark/70`}>
+                            Step {stepIndex + 1} of {INVOICE_WIZARD_STEPS.length} · {step}
+                        </Text>
+                    </View>
+                    <ScrollView style={tw`flex-1 px-4 pt-4`} contentContainerStyle={tw`pb-32`} keyboardShouldPersistTaps="handled">
+                        {stepError && (
+                            <View style={tw`mb-4 flex-row items-start gap-2 rounded-lg bg-red-50 dark:bg-red-900/20 p-4`}>
+                                <Icon name="error-outline" size={20} color={tw.color('danger')} />
+                                <Text style={tw`flex-1 text-red-800 dark:text-red-300`}>{stepError}</Text>
+                            </View>
+                        )}
+                        {renderStep(draft)}
+                    </ScrollView>
+                    <View style={tw`absolute bottom-0 left-0 right-0 flex-row gap-3 p-4 bg-background-light dark:bg-background-dark border-t border-border-light/50 dark:border-border-dark/50`}>
+                        {stepIndex > 0 && (
+                            <TouchableOpacity onPress={handleBack} disabled={isSubmitting} style={tw`flex-1 items-center justify-center rounded-xl h-14 bg-primary/20`}>
+                                <Text style={tw`text-primary text-base font-bold`}>Back</Text>
+                            </TouchableOpacity>
+                        )}
+                        <TouchableOpacity
+                            onPress={isReviewStep ? handleSubmit : handleNext}
+                            disabled={isSubmitting}
+                            style={tw`flex-1 items-center justify-center rounded-xl h-14 bg-primary shadow-lg ${isSubmitting ? 'opacity-50' : ''}`}
+                        >
+                            {isSubmitting ? (
+                                <ActivityIndicator size="small" color="#FFFFFF" />
+                            ) : (
+                                <Text style={tw`text-white text-base font-bold`}>{isReviewStep ? 'Create Invoice' : 'Next'}</Text>
+                            )}
+                        </TouchableOpacity>
+                    </View>
+                </>
+            )}
+            <ServicePickerModal
+                visible={isPickerVisible}
+                services={catalogServices ?? []}
+                isLoading={isCatalogLoading}
+                error={catalogError}
+                payerName={payerName}
+                onRetry={loadCatalog}
+                onSelect={handlePickService}
+                onClose={() => setIsPickerVisible(false)}
+            />
+        </SafeAreaView>
+    );
+};
+
+export default CreateInvoiceScreen;
@@ -1,29 +1,42 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { View, Text, TouchableOpacity, ScrollView, useColorScheme } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import Icon from 'react-native-vector-icons/MaterialIcons';
 import Svg, { Path, Defs, LinearGradient, Stop } from 'react-native-svg';
+import { useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import type { RootStackParamList } from '../types';
 import tw from '../lib/tailwind';
 import { useAuth } from '../context/AuthContext';
 import UserProfileIcon from '../components/UserProfileIcon';
+import Can from '../components/Can';
 import { fetchInvoices } from '../api/invoiceApi';
 import { calculateFinancialMetrics, formatFinancialMetrics } from '../utils/financialMetrics';
-import { saveInvoiceCache, loadInvoiceCache } from '../utils/invoiceCache';
+import { saveInvoiceCache, loadInvoiceCache, onInvoicesChanged } from '../utils/invoiceCache';
 import { Invoice, FinancialMetricsDisplay } from '../types/invoice';
 
 const timeRanges = ['7D', '30D', '90D', '1Y'];
 
+const EMPTY_METRICS: FinancialMetricsDisplay = {
+  outstandingRevenue: '$0.00',
+  insuranceReceivables: '$0.00',
+  patientReceivables: '$0.00',
+  grossRevenue: '$0.00',
+  refundedRevenue: '$0.00',
+  netRevenue: '$0.00',
+  totalRevenue: '$0.00',
+};
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList, 'Main'>;
+
 const DashboardScreen = () => {
   const [selectedTimeRange, setSelectedTimeRange] = useState('30D');
-  const [metrics, setMetrics] = useState<FinancialMetricsDisplay>({
-    outstandingRevenue: '$0.00',
-    paidRevenue: '$0.00',
-    totalRevenue: '$0.00',
-  });
+  const [metrics, setMetrics] = useState<FinancialMetricsDisplay>(EMPTY_METRICS);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const { user, tokens } = useAuth();
+  const { user, isAuthenticated } = useAuth();
+  const navigation = useNavigation<NavigationProp>();
   const isDark = useColorScheme() === 'dark';
 
   // Format user role for display
@@ -31,12 +44,14 @@ const DashboardScreen = () => {
     return role.replace('_', ' ');
   };
 
-  useEffect(() => {
-    loadInvoiceData();
-  }, [tokens]);
+  const updateMetrics = useCallback((invoices: Invoice[]) => {
+    const calculated = calculateFinancialMetrics(invoices);
+    const formatted = formatFinancialMetrics(calculated);
+    setMetrics(formatted);
+  }, []);
 
-  const loadInvoiceData = async () => {
-    if (!tokens?.access_token) return;
+  const loadInvoiceData = useCallback(async () => {
+    if (!isAuthenticated) return;
 
     setIsLoading(true);
     setError(null);
@@ -49,7 +64,7 @@ const DashboardScreen = () => {
       }
 
       // Fetch fresh data
-      const invoices = await fetchInvoices(tokens.access_token);
+      const invoices = await fetchInvoices();
       await saveInvoiceCache(invoices);
       updateMetrics(invoices);
     } catch (err) {
@@ -62,39 +77,68 @@ const DashboardScreen = () => {
       } else {
         setError('Unable to load financial data');
         // Set zero values as fallback
-        setMetrics({
-          outstandingRevenue: '$0.00',
-          paidRevenue: '$0.00',
-          totalRevenue: '$0.00',
-        });
+        setMetrics(EMPTY_METRICS);
       }
     } finally {
       setIsLoading(false);
     }
-  };
+  }, [isAuthenticated, updateMetrics]);
 
-  const updateMetrics = (invoices: Invoice[]) => {
-    const calculated = calculateFinancialMetrics(invoices);
-    const formatted = formatFinancialMetrics(calculated);
-    setMetrics(formatted);
-  };
+  useEffect(() => {
+    loadInvoiceData();
+  }, [loadInvoiceData]);
+
+  // Recalculate after payments or voids made on other screens
+  useEffect(() => onInvoicesChanged(loadInvoiceData), [loadInvoiceData]);
 
   // Update kpiData to use real metrics
-  const kpiData = [
+  const kpiData: {
+    title: string;
+    value: string;
+    trend?: string;
+    trendColor: 'danger' | 'success';
+    icon: string;
+    onPress?: () => void;
+  }[] = [
     { 
       title: 'Outstanding', 
       value: metrics.outstandingRevenue, 
       trend: '+2.5%', // TODO: Calculate actual trend
       trendColor: 'danger' as const, 
-      icon: 'hourglass-top' 
+      icon: 'hourglass-top',
+      onPress: () => navigation.navigate('AgingReport'),
+    },
+    {
+      title: 'Insurance A/R',
+      value: metrics.insuranceReceivables,
+      trendColor: 'danger' as const,
+      icon: 'health-and-safety'
+    },
+    {
+      title: 'Patient A/R',
+      value: metrics.patientReceivables,
+      trendColor: 'danger' as const,
+      icon: 'person-outline'
     },
     { 
-      title: 'Paid (Last 30 Days)', 
-      value: metrics.paidRevenue, 
+      title: 'Gross Revenue', 
+      value: metrics.grossRevenue, 
       trend: '+15.1%', // TODO: Calculate actual trend
       trendColor: 'success' as const, 
       icon: 'task-alt' 
     },
+    {
+      title: 'Refunded',
+      value: metrics.refundedRevenue,
+      trendColor: 'danger' as const,
+      icon: 'undo'
+    },
+    {
+      title: 'Net Revenue',
+      value: metrics.netRevenue,
+      trendColor: 'success' as const,
+      icon: 'account-balance-wallet'
+    },
     { 
       title: 'Total Revenue', 
       value: metrics.totalRevenue, 
@@ -128,19 +172,27 @@ const DashboardScreen = () => {
                 const iconColor = tw.color(item.trendColor as 'danger' | 'success');
 
                 return (
-                    <View key={index} style={tw`flex-1 flex-col gap-2 rounded-xl border border-border-light/50 bg-surface-light dark:border-border-dark/50 dark:bg-surface-dark p-6 shadow-sm`}>
+                    <TouchableOpacity
+                        key={index}
+                        onPress={item.onPress}
+                        disabled={!item.onPress}
+                        style={tw`flex-1 flex-col gap-2 rounded-xl border border-border-light/50 bg-surface-light dark:border-border-dark/50 dark:bg-surface-dark p-6 shadow-sm`}
+                    >
                         <View style={tw`flex-row items-center gap-3`}>
                             <View style={tw`flex size-10 items-center justify-center rounded-full bg-${item.trendColor}/10`}>
                                 <Icon name={item.icon} size={24} color={iconColor} />
                             </View>
-                            <Text style={tw`text-base font-medium text-text-light/80 dark:text-text-dark/80`}>{item.title}</Text>
+                            <Text style={tw`flex-1 text-base font-medium text-text-light/80 dark:text-text-dark/80`}>{item.title}</Text>
+                            {item.onPress && <Icon name="chevron-right" size={24} color={tw.color('primary')} />}
                         </View>
                         <Text style={tw`text-3xl font-bold tracking-tight text-text-light dark:text-text-dark`}>{item.value}</Text>
-                        <View style={tw`flex-row items-center gap-1`}>
-                            <Icon name="arrow-upward" size={14} color={iconColor} />
-                            <Text style={tw`text-sm font-medium text-${item.trendColor}`}>{item.trend}</Text>
-                        </View>
-                    </View>
+                        {item.trend && (
+                            <View style={tw`flex-row items-center gap-1`}>
+                                <Icon name="arrow-upward" size={14} color={iconColor} />
+                                <Text style={tw`text-sm font-medium text-${item.trendColor}`}>{item.trend}</Text>
+                            </View>
+                        )}
+                    </TouchableOpacity>
                 )
             })}
             </View>
@@ -184,13 +236,17 @@ const DashboardScreen = () => {
         </View>
       </ScrollView>
       <View style={tw`absolute bottom-6 right-6 z-10 flex flex-col items-end gap-4`}>
-        <TouchableOpacity style={tw`flex h-14 items-center flex-row gap-3 rounded-2xl bg-primary px-4 shadow-lg`}>
-            <Icon name="add" size={24} color="#FFFFFF"/>
-            <Text style={tw`text-sm font-medium text-white`}>New Invoice</Text>
-        </TouchableOpacity>
-         <TouchableOpacity style={tw`flex h-14 w-14 items-center justify-center rounded-2xl bg-surface-light dark:bg-surface-dark shadow-lg`}>
-            <Icon name="person-add" size={24} color={isDark ? tw.color('text-dark') : tw.color('text-light')}/>
-        </TouchableOpacity>
+        <Can permission="invoices:create">
+            <TouchableOpacity onPress={() => navigation.navigate('CreateInvoice')} style={tw`flex h-14 items-center flex-row gap-3 rounded-2xl bg-primary px-4 shadow-lg`}>
+                <Icon name="add" size={24} color="#FFFFFF"/>
+                <Text style={tw`text-sm font-medium text-white`}>New Invoice</Text>
+            </TouchableOpacity>
+        </Can>
+        <Can permission="patients:manage">
+            <TouchableOpacity onPress={() => navigation.navigate('PatientForm')} style={tw`flex h-14 w-14 items-center justify-center rounded-2xl bg-surface-light dark:bg-surface-dark shadow-lg`}>
+                <Icon name="person-add" size={24} color={isDark ? tw.color('text-dark') : tw.color('text-light')}/>
+            </TouchableOpacity>
+        </Can>
       </View>
     </SafeAreaView>
   );
@@ -0,0 +1,249 @@
+import React, { useState, useCallback, useMemo, useRef } from 'react';
+import { View, Text, TextInput, TouchableOpacity, ScrollView, ActivityIndicator, Alert, useColorScheme } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import type { RootStackParamList } from '../types';
+import tw from '../lib/tailwind';
+import { fetchServices } from '../api/serviceCatalogApi';
+import { ApiError, NetworkError, ValidationError } from '../api/errors';
+import { logEncounter } from '../services/encounters/encounterService';
+import { EncounterFormValues } from '../types/encounter';
+import { CatalogService } from '../types/serviceCatalog';
+import ServicePickerModal from '../components/ServicePickerModal';
+import { addEncounterService, createEncounterForm, notifyEncountersChanged, validateEncounterForm } from '../utils/encounters';
+import { notifyInvoicesChanged } from '../utils/invoiceCache';
+import { parseQuantity } from '../utils/invoiceDraft';
+import { sortServices } from '../utils/serviceCatalog';
+import { usePatientNames } from '../hooks/usePatientNames';
+import { usePatientPayer } from '../hooks/usePatientPayer';
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList, 'EncounterForm'>;
+
+const getEncounterErrorMessage = (err: unknown): string => {
+    if (err instanceof NetworkError) {
+        return 'Unable to connect to server. Please check your connection.';
+    }
+    if (err instanceof ValidationError || (err instanceof ApiError && err.status && err.status < 500)) {
+        return err.message;
+    }
+    return 'Unable to log the encounter. Please try again.';
+};
+
+const SectionTitle: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+    <Text style={tw`text-lg font-bold pt-2 pb-3 text-text-light dark:text-text-dark`}>{children}</Text>
+);
+
+const FieldLabel: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+    <Text style={tw`text-sm font-medium pb-2 text-text-light dark:text-text-dark`}>{children}</Text>
+);
+
+const EncounterFormScreen = () => {
+    const navigation = useNavigation<NavigationProp>();
+    const [values, setValues] = useState<EncounterFormValues>(() => createEncounterForm());
+    const [submitAttempted, setSubmitAttempted] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const savingRef = useRef(false);
+    const [saveError, setSaveError] = useState<string | null>(null);
+    const [catalogServices, setCatalogServices] = useState<CatalogService[] | null>(null); // loaded when the picker first opens
+    const [isCatalogLoading, setIsCatalogLoading] = useState(false);
+    const [catalogError, setCatalogError] = useState<string | null>(null);
+    const [isPickerVisible, setIsPickerVisible] = useState(false);
+    const patientNames = usePatientNames();
+    const patientId = parseQuantity(values.patient_id);
+    // Services are priced for the patient's insurer when the draft invoice is created
+    const payerName = usePatientPayer(patientId);
+    const isDark = useColorScheme() === 'dark';
+    const iconColor = isDark ? tw.color('text-dark') : tw.color('text-light');
+    const placeholderTextColor = isDark ? tw.color('border-dark') : tw.color('border-light');
+
+    const errors = useMemo(() => validateEncounterForm(values), [values]);
+    const visibleError = (field: keyof EncounterFormValues) => (submitAttempted ? errors[field] : undefined);
+    const inputStyle = (field: keyof EncounterFormValues) =>
+        tw`rounded-lg border ${visibleError(field) ? 'border-danger' : 'border-border-light dark:border-border-dark'} bg-background-light dark:bg-background-dark h-12 px-4 text-text-light dark:text-text-dark`;
+
+    const updateValues = (changes: Partial<EncounterFormValues>) => {
+        setSaveError(null);
+        setValues(prev => ({ ...prev, ...changes }));
+    };
+
+    const loadCatalog = useCallback(async () => {
+        setIsCatalogLoading(true);
+        setCatalogError(null);
+        try {
+            setCatalogServices(sortServices(await fetchServices()));
+        } catch (err) {
+            console.error('Error loading service catalog:', err);
+            setCatalogError('Unable to load the service catalog. Please try again.');
+        } finally {
+            setIsCatalogLoading(false);
+        }
+    }, []);
+
+    const openCatalogPicker = () => {
+        setIsPickerVisible(true);
+        if (!catalogServices && !isCatalogLoading) {
+            loadCatalog();
+        }
+    };
+
+    const handlePickService = (service: CatalogService) => {
+        setSaveError(null);
+        setValues(prev => addEncounterService(prev, service));
+        setIsPickerVisible(false);
+    };
+
+    const handleSave = async () => {
+        if (savingRef.current) return;
+        setSubmitAttempted(true);
+        if (Object.keys(errors).length > 0) {
+            setSaveError('Please correct the highlighted fields.');
+            return;
+        }
+
+        savingRef.current = true;
+        setIsSaving(true);
+        setSaveError(null);
+        try {
+            const encounter = await logEncounter(values, payerName);
+            notifyEncountersChanged();
+            notifyInvoicesChanged();
+            Alert.alert(
+                'Encounter Logged',
+                encounter.invoice_number
+                    ? `Draft invoice #${encounter.invoice_number} was sent to billing for review.`
+                    : 'A draft invoice was sent to billing for review.',
+            );
+            navigation.goBack();
+        } catch (err) {
+            console.error('Error logging encounter:', err);
+            setSaveError(getEncounterErrorMessage(err));
+        } finally {
+            savingRef.current = false;
+            setIsSaving(false);
+        }
+    };
+
+    const patientName = patientId !== null ? patientNames.get(patientId) : undefined;
+
+    return (
+        <SafeAreaView style={tw`flex-1 bg-background-light dark:bg-background-dark`}>
+            <View style={tw`flex-row items-center p-4 border-b border-border-light/50 dark:border-border-dark/50`}>
+                <TouchableOpacity onPress={() => navigation.goBack()} disabled={isSaving}>
+                    <Icon name="arrow-back" size={24} color={iconColor} />
+                </TouchableOpacity>
+                <Text style={tw`flex-1 text-center text-lg font-bold text-text-light dark:text-text-dark`}>Log Encounter</Text>
+                <TouchableOpacity onPress={handleSave} disabled={isSaving}>
+                    {isSaving ? (
+                        <ActivityIndicator size="small" color={tw.color('primary')} />
+                    ) : (
+                        <Text style={tw`text-base font-semibold text-primary`}>Save</Text>
+                    )}
+                </TouchableOpacity>
+            </View>
+
+            <ScrollView style={tw`flex-1 px-4 pt-4`} contentContainerStyle={tw`pb-8`} keyboardShouldPersistTaps="handled">
+                {saveError && (
+                    <View style={tw`mb-4 flex-row items-start gap-2 rounded-lg bg-red-50 dark:bg-red-900/20 p-4`}>
+                        <Icon name="error-outline" size={20} color={tw.color('danger')} />
+                        <Text style={tw`flex-1 text-red-800 dark:text-red-300`}>{saveError}</Text>
+                    </View>
+                )}
+
+                <SectionTitle>Visit</SectionTitle>
+                <View style={tw`mb-4`}>
+                    <FieldLabel>Patient ID</FieldLabel>
+                    <TextInput
+                        style={inputStyle('patient_id')}
+                        placeholder="e.g. 1024"
+                        placeholderTextColor={placeholderTextColor}
+                        keyboardType="number-pad"
+                        value={values.patient_id}
+                        onChangeText={text => updateValues({ patient_id: text.replace(/\D/g, '') })}
+                        editable={!isSaving}
+                    />
+                    {visibleError('patient_id') ? (
+                        <Text style={tw`mt-1 text-xs text-danger`}>{visibleError('patient_id')}</Text>
+                    ) : patientName ? (
+                        <Text style={tw`mt-1 text-xs text-text-light/70 dark:text-text-dark/70`}>
+                            {patientName}{payerName ? ` · ${payerName}` : ''}
+                        </Text>
+                    ) : null}
+                </View>
+                <View style={tw`mb-4`}>
+                    <FieldLabel>Visit Date</FieldLabel>
+                    <TextInput
+                        style={inputStyle('visit_date')}
+                        placeholder="YYYY-MM-DD"
+                        placeholderTextColor={placeholderTextColor}
+                        keyboardType="numbers-and-punctuation"
+                        value={values.visit_date}
+                        onChangeText={text => updateValues({ visit_date: text })}
+                        editable={!isSaving}
+                    />
+                    {visibleError('visit_date') && <Text style={tw`mt-1 text-xs text-danger`}>{visibleError('visit_date')}</Text>}
+                </View>
+
+                <SectionTitle>Services Performed</SectionTitle>
+                <View style={tw`bg-surface-light dark:bg-surface-dark rounded-xl shadow-sm px-4 mb-4 border ${visibleError('services') ? 'border-danger' : 'border-border-light/50 dark:border-border-dark/50'}`}>
+                    {values.services.length === 0 && (
+                        <Text style={tw`py-4 text-sm text-text-light/70 dark:text-text-dark/70`}>Add each service performed during the visit from the catalog.</Text>
+                    )}
+                    {values.services.map(item => (
+                        <View key={item.key} style={tw`flex-row items-center gap-3 py-3 border-b border-border-light/50 dark:border-border-dark/50`}>
+                            <View style={tw`flex-1`}>
+                                <Text style={tw`text-sm font-medium text-text-light dark:text-text-dark`} numberOfLines={1}>{item.service.description}</Text>
+                                <Text style={tw`text-xs text-text-light/70 dark:text-text-dark/70`}>{item.service.service_code}</Text>
+                            </View>
+                            <TextInput
+                                style={tw`w-14 rounded-lg border border-border-light dark:border-border-dark bg-background-light dark:bg-background-dark h-10 text-center text-text-light dark:text-text-dark`}
+                                keyboardType="number-pad"
+                                value={item.quantity}
+                                onChangeText={text => updateValues({
+                                    services: values.services.map(other => (other.key === item.key ? { ...other, quantity: text.replace(/\D/g, '') } : other)),
+                                })}
+                                editable={!isSaving}
+                            />
+                            <TouchableOpacity
+                                onPress={() => updateValues({ services: values.services.filter(other => other.key !== item.key) })}
+                                disabled={isSaving}
+                            >
+                                <Icon name="delete-outline" size={22} color={tw.color('danger')} />
+                            </TouchableOpacity>
+                        </View>
+                    ))}
+                    <TouchableOpacity onPress={openCatalogPicker} disabled={isSaving} style={tw`flex-row items-center justify-center gap-1 py-3`}>
+                        <Icon name="add" size={20} color={tw.color('primary')} />
+                        <Text style={tw`text-sm font-semibold text-primary`}>Add Service</Text>
+                    </TouchableOpacity>
+                </View>
+                {visibleError('services') && <Text style={tw`-mt-2 mb-4 text-xs text-danger`}>{visibleError('services')}</Text>}
+
+                <SectionTitle>Notes</SectionTitle>
+                <TextInput
+                    style={tw`min-h-24 rounded-lg border border-border-light dark:border-border-dark bg-background-light dark:bg-background-dark p-3 text-text-light dark:text-text-dark`}
+                    placeholder="Optional notes for billing"
+                    placeholderTextColor={placeholderTextColor}
+                    multiline
+                    textAlignVertical="top"
+                    value={values.notes}
+                    onChangeText={text => updateValues({ notes: text })}
+                    editable={!isSaving}
+                />
+            </ScrollView>
+            <ServicePickerModal
+                visible={isPickerVisible}
+                services={catalogServices ?? []}
+                isLoading={isCatalogLoading}
+                error={catalogError}
+                payerName={payerName}
+                onRetry={loadCatalog}
+                onSelect={handlePickService}
+                onClose={() => setIsPickerVisible(false)}
+            />
+        </SafeAreaView>
+    );
+};
+
+export default EncounterFormScreen;
@@ -0,0 +1,176 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, Text, TouchableOpacity, FlatList, useColorScheme, ActivityIndicator } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import type { RootStackParamList } from '../types';
+import tw from '../lib/tailwind';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { fetchEncounters } from '../api/encounterApi';
+import { CancelledError } from '../api/errors';
+import { Encounter } from '../types/encounter';
+import { formatInvoiceDate } from '../utils/invoiceFormatting';
+import { formatPatientLabel } from '../utils/patients';
+import {
+    ENCOUNTER_REVIEW_STATUS_LABELS,
+    encounterReviewStyles,
+    formatEncounterServices,
+    getEncounterReviewStatus,
+    onEncountersChanged,
+} from '../utils/encounters';
+import { usePatientNames } from '../hooks/usePatientNames';
+import { usePermission } from '../hooks/usePermission';
+import Can from '../components/Can';
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList, 'Main'>;
+
+interface EncounterRowProps {
+    encounter: Encounter;
+    patientName?: string;
+    onPress?: (encounter: Encounter) => void; // omitted when the encounter has no invoice to open
+}
+
+const EncounterRow = React.memo(({ encounter, patientName, onPress }: EncounterRowProps) => {
+    const isDark = useColorScheme() === 'dark';
+    const mutedIconColor = isDark ? tw.color('border-dark') : tw.color('border-light');
+    const reviewStatus = getEncounterReviewStatus(encounter);
+    const style = encounterReviewStyles[reviewStatus];
+
+    return (
+        <TouchableOpacity
+            onPress={() => onPress?.(encounter)}
+            disabled={!onPress}
+            activeOpacity={0.7}
+            style={tw`flex-row items-center gap-4 rounded-xl bg-surface-light dark:bg-surface-dark p-4 shadow-sm border border-border-light/50 dark:border-border-dark/50`}
+        >
+            <View style={tw`flex-1`}>
+                <Text style={tw`text-base font-bold text-text-light dark:text-text-dark`} numberOfLines={1}>
+                    {formatPatientLabel(encounter.patient_id, encounter.patient_name ?? patientName)}
+                </Text>
+                <Text style={tw`text-sm text-text-light/70 dark:text-text-dark/70`}>
+                    {formatInvoiceDate(encounter.visit_date)}{encounter.provider_name ? ` · ${encounter.provider_name}` : ''}
+                </Text>
+                <Text style={tw`text-sm text-text-light/70 dark:text-text-dark/70`} numberOfLines={1}>{formatEncounterServices(encounter)}</Text>
+            </View>
+            <View style={tw`items-end gap-1`}>
+                <View style={tw`rounded-full px-3 py-1 ${style.bg}`}>
+                    <Text style={tw`text-xs font-medium ${style.text}`}>{ENCOUNTER_REVIEW_STATUS_LABELS[reviewStatus]}</Text>
+                </View>
+                {encounter.invoice_number && (
+                    <Text style={tw`text-xs text-text-light/70 dark:text-text-dark/70`}>#{encounter.invoice_number}</Text>
+                )}
+            </View>
+            {onPress && <Icon name="chevron-right" size={24} color={mutedIconColor} />}
+        </TouchableOpacity>
+    );
+});
+
+const RowSeparator = () => <View style={tw`h-3`} />;
+
+const EncountersScreen = () => {
+    const [encounters, setEncounters] = useState<Encounter[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isRefreshing, setIsRefreshing] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const patientNames = usePatientNames();
+    const canViewInvoices = usePermission('invoices:view');
+    const navigation = useNavigation<NavigationProp>();
+    const isDark = useColorScheme() === 'dark';
+    const iconColor = isDark ? tw.color('text-dark') : tw.color('text-light');
+    const mutedIconColor = isDark ? tw.color('border-dark') : tw.color('border-light');
+
+    const loadEncounters = useCallback(async (isRefresh = false, signal?: AbortSignal) => {
+        if (isRefresh) {
+            setIsRefreshing(true);
+        } else {
+            setIsLoading(true);
+        }
+        setError(null);
+
+        try {
+            setEncounters(await fetchEncounters({ signal }));
+        } catch (err) {
+            if (err instanceof CancelledError) return;
+            console.error('Error loading encounters:', err);
+            setError('Unable to load encounters');
+        } finally {
+            if (!signal?.aborted) {
+                setIsLoading(false);
+                setIsRefreshing(false);
+            }
+        }
+    }, []);
+
+    useEffect(() => {
+        const controller = new AbortController();
+        loadEncounters(false, controller.signal);
+        return () => controller.abort();
+    }, [loadEncounters]);
+
+    // Reload after an encounter is logged
+    useEffect(() => onEncountersChanged(() => {
+        loadEncounters(true);
+    }), [loadEncounters]);
+
+    const openEncounter = useCallback((encounter: Encounter) => {
+        if (encounter.invoice_id !== undefined) {
+            navigation.navigate('InvoiceDetail', { invoiceId: encounter.invoice_id });
+        }
+    }, [navigation]);
+
+    return (
+        <SafeAreaView style={tw`flex-1 bg-background-light dark:bg-background-dark`}>
+            <View style={tw`sticky top-0 z-10 flex-row items-center justify-between p-4 bg-background-light dark:bg-background-dark`}>
+                <Icon name="menu" size={24} color={iconColor} />
+                <Text style={tw`flex-1 text-center text-lg font-bold text-text-light dark:text-text-dark`}>Encounters</Text>
+                <View style={tw`w-6`} />
+            </View>
+            <FlatList
+                ListHeaderComponent={
+                    <>
+                        {isLoading && (
+                            <View style={tw`items-center justify-center py-8`}>
+                                <ActivityIndicator size="large" color={tw.color('primary')} />
+                                <Text style={tw`mt-4 text-text-light/70 dark:text-text-dark/70`}>Loading encounters...</Text>
+                            </View>
+                        )}
+                        {error && !isLoading && (
+                            <View style={tw`mb-4 items-center rounded-lg bg-red-50 dark:bg-red-900/20 p-4`}>
+                                <Text style={tw`text-red-800 dark:text-red-300`}>{error}</Text>
+                                <TouchableOpacity style={tw`mt-3 px-6 py-2 bg-primary rounded-lg`} onPress={() => loadEncounters()}>
+                                    <Text style={tw`text-white font-medium`}>Retry</Text>
+                                </TouchableOpacity>
+                            </View>
+                        )}
+                        {!isLoading && !error && encounters.length === 0 && (
+                            <View style={tw`items-center justify-center py-8`}>
+                                <Icon name="assignment" size={48} color={mutedIconColor} />
+                                <Text style={tw`mt-4 text-base text-text-light/70 dark:text-text-dark/70`}>No encounters logged yet</Text>
+                            </View>
+                        )}
+                    </>
+                }
+                data={isLoading ? [] : encounters}
+                renderItem={({ item }) => (
+                    <EncounterRow
+                        encounter={item}
+                        patientName={patientNames.get(item.patient_id)}
+                        onPress={canViewInvoices && item.invoice_id !== undefined && item.invoice_status !== undefined ? openEncounter : undefined}
+                    />
+                )}
+                keyExtractor={item => String(item.id)}
+                contentContainerStyle={tw`px-4 pb-24`}
+                ItemSeparatorComponent={RowSeparator}
+                refreshing={isRefreshing}
+                onRefresh={() => loadEncounters(true)}
+            />
+            <Can permission="encounters:create">
+                <TouchableOpacity onPress={() => navigation.navigate('EncounterForm')} style={tw`absolute bottom-6 right-6 flex h-14 w-14 items-center justify-center rounded-2xl bg-primary shadow-lg`}>
+                    <Icon name="post-add" size={28} color="#FFFFFF" />
+                </TouchableOpacity>
+            </Can>
+        </SafeAreaView>
+    );
+};
+
+export default EncountersScreen;
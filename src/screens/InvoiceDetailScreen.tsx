@@ -0,0 +1,640 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, ActivityIndicator, Alert, Share, useColorScheme } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import type { RootStackParamList } from '../types';
+import tw from '../lib/tailwind';
+import Can from '../components/Can';
+import LineItemList from '../components/LineItemList';
+import RefundModal, { RefundFormValues } from '../components/RefundModal';
+import ReminderPanel from '../components/ReminderPanel';
+import InsurancePanel from '../components/InsurancePanel';
+import DraftReviewModal, { DraftReviewAction, DraftReviewValues } from '../components/DraftReviewModal';
+import { usePermission } from '../hooks/usePermission';
+import { usePatientNames } from '../hooks/usePatientNames';
+import { fetchInvoice, voidInvoice } from '../api/invoiceApi';
+import { fetchAuditLogs } from '../api/auditApi';
+import { ApiError, AuthError, CancelledError, NetworkError, ValidationError } from '../api/errors';
+import { processRefund } from '../services/payments/paymentService';
+import { shareInvoicePdf } from '../services/documents/invoicePdf';
+import { finalizeDraftInvoice, rejectDraftInvoice } from '../services/invoices/draftReviewService';
+import { Invoice } from '../types/invoice';
+import { RefundReason } from '../types/payment';
+import { DisplayAuditEntry } from '../types/audit';
+import { loadInvoiceCache, notifyInvoicesChanged, onInvoicesChanged, updateCachedInvoice } from '../utils/invoiceCache';
+import { formatCurrency } from '../utils/financialMetrics';
+import { normalizeCurrency } from '../utils/currency';
+import {
+    formatInvoiceDate,
+    formatInvoiceDateTime,
+    MANUAL_PAYMENT_METHOD_LABELS,
+    mapApiStatusToDisplay,
+    REFUND_REASON_LABELS,
+    statusStyles,
+} from '../utils/invoiceFormatting';
+import { filterAuditEntriesForInvoice, transformAuditEntries } from '../utils/auditTransform';
+import { canTransition } from '../utils/invoiceStatus';
+import {
+    getAmountPaidCents,
+    getAmountRefundedCents,
+    getBalanceCents,
+    getPatientBalanceCents,
+    getRefundableCents,
+} from '../utils/invoiceTotals';
+import { generateIdempotencyKey } from '../utils/idempotency';
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList, 'InvoiceDetail'>;
+type DetailRouteProp = RouteProp<RootStackParamList, 'InvoiceDetail'>;
+
+const getInvoiceErrorMessage = (err: unknown): string => {
+    if (err instanceof ApiError && err.status === 404) {
+        return 'Invoice not found.';
+    }
+    if (err instanceof AuthError) {
+        return err.isExpired
+            ? 'Authentication expired. Please log in again.'
+            : 'You do not have permission to view this invoice.';
+    }
+    if (err instanceof NetworkError) {
+        return 'Unable to connect to server. Please check your network connection.';
+    }
+    return 'Unable to load invoice. Please try again.';
+};
+
+const getRefundErrorMessage = (err: unknown): string => {
+    if (err instanceof ValidationError) {
+        return err.message;
+    }
+    if (err instanceof NetworkError) {
+        return 'Unable to connect to server. Please check your network connection.';
+    }
+    if (err instanceof ApiError && err.message) {
+        return err.message;
+    }
+    return 'Refund could not be processed. Please try again.';
+};
+
+const getReviewErrorMessage = (err: unknown): string => {
+    if (err instanceof ValidationError) {
+        return err.message;
+    }
+    if (err instanceof NetworkError) {
+        return 'Unable to connect to server. Please check your network connection.';
+    }
+    if (err instanceof ApiError && err.message) {
+        return err.message;
+    }
+    return 'The draft could not be updated. Please try again.';
+};
+
+const buildShareMessage = (invoice: Invoice): string => {
+    const lines = [
+        `Invoice #${invoice.invoice_number}`,
+        `Amount: ${formatCurrency(invoice.total_amount_cents, invoice.currency)}`,
+        `Balance Due: ${formatCurrency(getPatientBalanceCents(invoice), invoice.currency)}`,
+        `Status: ${mapApiStatusToDisplay(invoice.status, invoice.due_date)}`,
+        `Due Date: ${formatInvoiceDate(invoice.due_date)}`,
+    ];
+    if (invoice.paid_at) {
+        lines.push(`Paid: ${formatInvoiceDate(invoice.paid_at)}`);
+    }
+    return lines.join('\n');
+};
+
+const DetailRow: React.FC<{ label: string; value: string; isLast?: boolean }> = ({ label, value, isLast = false }) => (
+    <View style={tw`flex-row justify-between py-2 ${isLast ? '' : 'border-b border-border-light/50 dark:border-border-dark/50'}`}>
+        <Text style={tw`text-sm text-text-light/70 dark:text-text-dark/70`}>{label}</Text>
+        <Text style={tw`text-sm font-semibold text-text-light dark:text-text-dark`}>{value}</Text>
+    </View>
+);
+
+const HistoryItem: React.FC<DisplayAuditEntry> = ({ title, user, time, icon, type, details }) => {
+    const isDark = useColorScheme() === 'dark';
+    const isDanger = type === 'danger';
+    const iconColor = isDanger ? tw.color('danger') : (isDark ? tw.color('text-dark') : tw.color('text-light'));
+
+    return (
+        <View style={tw`flex-row items-start gap-3 py-3 border-b border-border-light/50 dark:border-border-dark/50`}>
+            <View style={tw`items-center justify-center rounded-full size-8 ${isDanger ? 'bg-danger/10' : 'bg-primary/20'}`}>
+                <Icon name={icon} size={18} color={iconColor} />
+            </View>
+            <View style={tw`flex-1`}>
+                <Text style={tw`text-sm font-medium text-text-light dark:text-text-dark`}>{title}</Text>
+                <Text style={tw`text-xs text-text-light/70 dark:text-text-dark/70`}>by {user} · {time}</Text>
+                {details && (
+                    <Text style={tw`text-xs text-text-light/70 dark:text-text-dark/70 mt-1`}>{details}</Text>
+                )}
+            </View>
+        </View>
+    );
+};
+
+const InvoiceDetailScreen = () => {
+    const navigation = useNavigation<NavigationProp>();
+    const patientNames = usePatientNames();
+    const { invoiceId } = useRoute<DetailRouteProp>().params;
+    const [invoice, setInvoice] = useState<Invoice | null>(null);
+    const [history, setHistory] = useState<DisplayAuditEntry[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isHistoryLoading, setIsHistoryLoading] = useState(false);
+    const [isVoiding, setIsVoiding] = useState(false);
+    const [isSharingPdf, setIsSharingPdf] = useState(false);
+    const [isRefundVisible, setIsRefundVisible] = useState(false);
+    const [isRefunding, setIsRefunding] = useState(false);
+    const [refundError, setRefundError] = useState<string | null>(null);
+    const refundingRef = useRef(false);
+    // One key per refund attempt, reused on retries so the gateway refunds the card at most once
+    const refundAttemptRef = useRef<{ idempotencyKey: string; amountCents: number; reason: RefundReason } | null>(null);
+    const [reviewAction, setReviewAction] = useState<DraftReviewAction>('finalize');
+    const [isReviewVisible, setIsReviewVisible] = useState(false);
+    const [isReviewing, setIsReviewing] = useState(false);
+    const [reviewError, setReviewError] = useState<string | null>(null);
+    const reviewingRef = useRef(false);
+    const [error, setError] = useState<string | null>(null);
+    const canViewAudit = usePermission('audit:view');
+    const isDark = useColorScheme() === 'dark';
+    const iconColor = isDark ? tw.color('text-dark') : tw.color('text-light');
+
+    const loadInvoice = useCallback(async (signal?: AbortSignal, showSpinner = true) => {
+        if (showSpinner) {
+            setIsLoading(true);
+        }
+        setError(null);
+
+        try {
+            const apiInvoice = await fetchInvoice(invoiceId, { signal });
+            setInvoice(apiInvoice);
+            await updateCachedInvoice(apiInvoice);
+        } catch (err) {
+            if (err instanceof CancelledError) return;
+            console.error('Error loading invoice:', err);
+
+            // Fall back to the cached list for offline viewing
+            const cachedInvoices = await loadInvoiceCache();
+            const cachedInvoice = cachedInvoices?.find(inv => inv.id === invoiceId);
+            if (cachedInvoice) {
+                setInvoice(cachedInvoice);
+            } else {
+                setError(getInvoiceErrorMessage(err));
+            }
+        } finally {
+            if (!signal?.aborted) {
+                setIsLoading(false);
+            }
+        }
+    }, [invoiceId]);
+
+    const loadHistory = useCallback(async (invoiceNumber: string, signal?: AbortSignal) => {
+        setIsHistoryLoading(true);
+        try {
+            const entries = await fetchAuditLogs({ signal });
+            setHistory(transformAuditEntries(filterAuditEntriesForInvoice(entries, invoiceId, invoiceNumber)));
+        } catch (err) {
+            if (err instanceof CancelledError) return;
+            console.error('Error loading invoice history:', err);
+            setHistory([]);
+        } finally {
+            if (!signal?.aborted) {
+                setIsHistoryLoading(false);
+            }
+        }
+    }, [invoiceId]);
+
+    useEffect(() => {
+        const controller = new AbortController();
+        loadInvoice(controller.signal);
+        return () => controller.abort();
+    }, [loadInvoice]);
+
+    const invoiceNumber = invoice?.invoice_number;
+
+    // Refresh in place after a payment or void made from this screen
+    useEffect(() => onInvoicesChanged(() => {
+        loadInvoice(undefined, false);
+        if (invoiceNumber && canViewAudit) {
+            loadHistory(invoiceNumber);
+        }
+    }), [loadInvoice, loadHistory, invoiceNumber, canViewAudit]);
+
+    useEffect(() => {
+        if (!invoiceNumber || !canViewAudit) return;
+        const controller = new AbortController();
+        loadHistory(invoiceNumber, controller.signal);
+        return () => controller.abort();
+    }, [invoiceNumber, canViewAudit, loadHistory]);
+
+    const handleShare = async () => {
+        if (!invoice) return;
+        try {
+            await Share.share({
+                title: `Invoice #${invoice.invoice_number}`,
+                message: buildShareMessage(invoice),
+            });
+        } catch (err) {
+            console.error('Error sharing invoice:', err);
+        }
+    };
+
+    // The reminder's audit entry belongs in this invoice's history
+    const handleReminderSent = () => {
+        if (invoiceNumber && canViewAudit) {
+            loadHistory(invoiceNumber);
+        }
+    };
+
+    const handleSharePdf = async () => {
+        if (!invoice || isSharingPdf) return;
+        setIsSharingPdf(true);
+        try {
+            await shareInvoicePdf(invoice);
+        } catch (err) {
+            console.error('Error sharing invoice PDF:', err);
+            Alert.alert('PDF Failed', 'Unable to create the invoice PDF. Please try again.');
+        } finally {
+            setIsSharingPdf(false);
+        }
+    };
+
+    const performVoid = async () => {
+        if (!invoice) return;
+        setIsVoiding(true);
+        try {
+            const updated = await voidInvoice(invoice.id);
+            setInvoice(updated);
+            await updateCachedInvoice(updated);
+            notifyInvoicesChanged();
+        } catch (err) {
+            console.error('Error voiding invoice:', err);
+            Alert.alert('Void Failed', err instanceof ApiError && err.status && err.status < 500
+                ? err.message
+                : 'Unable to void invoice. Please try again.');
+        } finally {
+            setIsVoiding(false);
+        }
+    };
+
+    const handleVoid = () => {
+        if (!invoice) return;
+        Alert.alert(
+            'Void Invoice',
+            `Void invoice #${invoice.invoice_number}? This cannot be undone.`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                { text: 'Void', style: 'destructive', onPress: performVoid },
+            ],
+        );
+    };
+
+    const openRefund = () => {
+        setRefundError(null);
+        setIsRefundVisible(true);
+    };
+
+    const handleRefund = async (values: RefundFormValues) => {
+        if (!invoice || refundingRef.current) return;
+        refundingRef.current = true;
+        setIsRefunding(true);
+        setRefundError(null);
+
+        // A different amount or reason is a new refund with its own idempotency key
+        let attempt = refundAttemptRef.current;
+        if (!attempt || attempt.amountCents !== values.amountCents || attempt.reason !== values.reason) {
+            attempt = { idempotencyKey: generateIdempotencyKey('refund'), amountCents: values.amountCents, reason: values.reason };
+            refundAttemptRef.current = attempt;
+        }
+
+        try {
+            const refund = await processRefund({
+                invoice,
+                amountCents: values.amountCents,
+                reason: values.reason,
+                note: values.note,
+                idempotencyKey: attempt.idempotencyKey,
+            });
+            refundAttemptRef.current = null;
+            setIsRefundVisible(false);
+            Alert.alert(
+                'Refund Issued',
+                `${formatCurrency(refund.amount_cents, invoice.currency)} refunded. Credit note ${refund.credit_note.credit_note_number} was created.`,
+            );
+        } catch (err) {
+            console.error('Refund error:', err);
+            setRefundError(getRefundErrorMessage(err));
+        } finally {
+            // Some charges may have been refunded even on failure, so always refresh
+            notifyInvoicesChanged();
+            refundingRef.current = false;
+            setIsRefunding(false);
+        }
+    };
+
+    const openReview = (action: DraftReviewAction) => {
+        setReviewError(null);
+        setReviewAction(action);
+        setIsReviewVisible(true);
+    };
+
+    // Billing staff issue a reviewed draft to the patient, or reject its charges
+    const handleReview = async (values: DraftReviewValues) => {
+        if (!invoice || reviewingRef.current) return;
+        reviewingRef.current = true;
+        setIsReviewing(true);
+        setReviewError(null);
+        try {
+            const updated = values.action === 'finalize'
+                ? await finalizeDraftInvoice(invoice, values.dueDate)
+                : await rejectDraftInvoice(invoice, values.reason);
+            setInvoice(updated);
+            await updateCachedInvoice(updated);
+            setIsReviewVisible(false);
+            notifyInvoicesChanged();
+        } catch (err) {
+            console.error('Error reviewing draft invoice:', err);
+            setReviewError(getReviewErrorMessage(err));
+        } finally {
+            reviewingRef.current = false;
+            setIsReviewing(false);
+        }
+    };
+
+    // Claim updates come back with the invoice's new insurer and patient portions
+    const handleClaimUpdated = async (updated: Invoice) => {
+        setInvoice(updated);
+        await updateCachedInvoice(updated);
+        notifyInvoicesChanged();
+    };
+
+    const displayStatus = invoice ? mapApiStatusToDisplay(invoice.status, invoice.due_date) : null;
+    const balanceCents = invoice ? getBalanceCents(invoice) : 0;
+    // Only the patient's portion is paid or reminded about here; insurers settle theirs through claims
+    const patientBalanceCents = invoice ? getPatientBalanceCents(invoice) : 0;
+    const amountPaidCents = invoice ? getAmountPaidCents(invoice) : 0;
+    const refundedCents = invoice ? getAmountRefundedCents(invoice) : 0;
+    const refundableCents = invoice ? getRefundableCents(invoice) : 0;
+    const creditNotes = invoice?.credit_notes ?? [];
+    const patientName = invoice ? invoice.patient_name ?? patientNames.get(invoice.patient_id) : undefined;
+    const canBePaid = patientBalanceCents > 0;
+    const isDraft = invoice?.status === 'draft';
+    // Drafts are rejected through review rather than voided directly
+    const canBeVoided = invoice && !isDraft ? canTransition(invoice.status, 'void') : false;
+    const canBeRefunded = refundableCents > 0;
+
+    return (
+        <SafeAreaView style={tw`flex-1 bg-background-light dark:bg-background-dark`}>
+            <View style={tw`flex-row items-center p-4 border-b border-border-light/50 dark:border-border-dark/50`}>
+                <TouchableOpacity onPress={() => navigation.goBack()}>
+                    <Icon name="arrow-back" size={24} color={iconColor} />
+                </TouchableOpacity>
+                <Text style={tw`flex-1 text-center text-lg font-bold text-text-light dark:text-text-dark`}>
+                    {invoice ? `Invoice #${invoice.invoice_number}` : 'Invoice'}
+                </Text>
+                <View style={tw`flex-row items-center gap-4`}>
+                    <TouchableOpacity onPress={handleSharePdf} disabled={!invoice || isSharingPdf}>
+                        {isSharingPdf ? (
+                            <ActivityIndicator size="small" color={tw.color('primary')} />
+                        ) : (
+                            <Icon name="picture-as-pdf" size={24} color={iconColor} />
+                        )}
+                    </TouchableOpacity>
+                    <TouchableOpacity onPress={handleShare} disabled={!invoice}>
+                        <Icon name="share" size={24} color={iconColor} />
+                    </TouchableOpacity>
+                </View>
+            </View>
+
+            {isLoading ? (
+                <View style={tw`flex-1 items-center justify-center p-8`}>
+                    <ActivityIndicator size="large" color={tw.color('primary')} />
+                    <Text style={tw`mt-4 text-text-light dark:text-text-dark`}>Loading invoice...</Text>
+                </View>
+            ) : error || !invoice || !displayStatus ? (
+                <View style={tw`flex-1 items-center justify-center p-8`}>
+                    <Icon name="error-outline" size={48} color={tw.color('danger')} />
+                    <Text style={tw`mt-4 text-center text-text-light dark:text-text-dark`}>{error ?? 'Invoice not found.'}</Text>
+                    <TouchableOpacity style={tw`mt-4 px-6 py-3 bg-primary rounded-lg`} onPress={() => loadInvoice()}>
+                        <Text style={tw`text-white font-medium`}>Retry</Text>
+                    </TouchableOpacity>
+                </View>
+            ) : (
+                <>
+                    <ScrollView style={tw`flex-1 px-4 pt-6`} contentContainerStyle={tw`pb-32`}>
+                        <View style={tw`items-center mb-6`}>
+                            <Text style={tw`text-4xl font-bold text-text-light dark:text-text-dark`}>
+                                {formatCurrency(invoice.total_amount_cents, invoice.currency)}
+                            </Text>
+                            <View style={tw`mt-2 items-center rounded-full px-3 py-1 ${statusStyles[displayStatus].bg}`}>
+                                <Text style={tw`text-xs font-medium ${statusStyles[displayStatus].text}`}>{displayStatus}</Text>
+                            </View>
+                            {balanceCents > 0 && balanceCents < invoice.total_amount_cents && (
+                                <Text style={tw`mt-2 text-sm text-text-light/70 dark:text-text-dark/70`}>
+                                    {formatCurrency(balanceCents, invoice.currency)} remaining
+                                </Text>
+                            )}
+                        </View>
+
+                        {isDraft && (
+                            <View style={tw`mb-6 flex-row items-start gap-2 rounded-lg bg-amber-100 dark:bg-amber-900/50 p-4`}>
+                                <Icon name="pending-actions" size={20} color={tw.color('amber-500')} />
+                                <Text style={tw`flex-1 text-sm text-amber-800 dark:text-amber-300`}>
+                                    {invoice.encounter_id !== undefined
+                                        ? 'Drafted from a doctor\'s encounter. Review the services, then finalize to bill the patient or reject the charges.'
+                                        : 'This invoice is a draft and has not been issued to the patient.'}
+                                </Text>
+                            </View>
+                        )}
+
+                        <Text style={tw`text-lg font-bold pb-2 text-text-light dark:text-text-dark`}>Patient</Text>
+                        <View style={tw`bg-surface-light dark:bg-surface-dark rounded-xl shadow-sm p-4 mb-6 border border-border-light/50 dark:border-border-dark/50`}>
+                            {patientName && <DetailRow label="Name" value={patientName} />}
+                            <DetailRow label="Patient ID" value={`P-${invoice.patient_id}`} />
+                            <TouchableOpacity
+                                onPress={() => navigation.navigate('PatientLedger', { patientId: invoice.patient_id })}
+                                style={tw`flex-row items-center justify-between pt-3`}
+                            >
+                                <Text style={tw`text-sm font-semibold text-primary`}>View Account & Statements</Text>
+                                <Icon name="chevron-right" size={20} color={tw.color('primary')} />
+                            </TouchableOpacity>
+                        </View>
+
+                        {invoice.line_items && invoice.line_items.length > 0 && (
+                            <>
+                                <Text style={tw`text-lg font-bold pb-2 text-text-light dark:text-text-dark`}>Line Items</Text>
+                                <View style={tw`bg-surface-light dark:bg-surface-dark rounded-xl shadow-sm p-4 mb-6 border border-border-light/50 dark:border-border-dark/50`}>
+                                    <LineItemList items={invoice.line_items} totalAmountCents={invoice.total_amount_cents} currency={invoice.currency} />
+                                </View>
+                            </>
+                        )}
+
+                        <Text style={tw`text-lg font-bold pb-2 text-text-light dark:text-text-dark`}>Payments</Text>
+                        <View style={tw`bg-surface-light dark:bg-surface-dark rounded-xl shadow-sm p-4 mb-6 border border-border-light/50 dark:border-border-dark/50`}>
+                            {invoice.payments?.map(payment => (
+                                <View key={payment.id} style={tw`flex-row justify-between py-2 border-b border-border-light/50 dark:border-border-dark/50`}>
+                                    <View style={tw`flex-1 pr-2`}>
+                                        <Text style={tw`text-sm font-medium text-text-light dark:text-text-dark`}>
+                                            {payment.card_last4
+                                                ? `Card •••• ${payment.card_last4}`
+                                                : payment.method && payment.method !== 'card' ? MANUAL_PAYMENT_METHOD_LABELS[payment.method] : 'Payment'}
+                                        </Text>
+                                        <Text style={tw`text-xs text-text-light/70 dark:text-text-dark/70`}>
+                                            {formatInvoiceDateTime(payment.created_at)}
+                                            {payment.status !== 'succeeded' ? ` · ${payment.status}` : ''}
+                                        </Text>
+                                    </View>
+                                    <Text style={tw`text-sm font-semibold ${payment.status === 'succeeded' ? 'text-text-light dark:text-text-dark' : 'text-danger line-through'}`}>
+                                        {formatCurrency(payment.amount_cents, invoice.currency)}
+                                    </Text>
+                                </View>
+                            ))}
+                            <DetailRow label="Amount Paid" value={formatCurrency(amountPaidCents, invoice.currency)} />
+                            {refundedCents > 0 && (
+                                <DetailRow label="Refunded" value={formatCurrency(-refundedCents, invoice.currency)} />
+                            )}
+                            <DetailRow label="Balance Due" value={formatCurrency(patientBalanceCents, invoice.currency)} isLast />
+                        </View>
+
+                        {((invoice.claims?.length ?? 0) > 0 || patientBalanceCents > 0) && (
+                            <>
+                                <Text style={tw`text-lg font-bold pb-2 text-text-light dark:text-text-dark`}>Insurance</Text>
+                                <InsurancePanel invoice={invoice} onInvoiceUpdated={handleClaimUpdated} />
+                            </>
+                        )}
+
+                        {creditNotes.length > 0 && (
+                            <>
+                                <Text style={tw`text-lg font-bold pb-2 text-text-light dark:text-text-dark`}>Credit Notes</Text>
+                                <View style={tw`bg-surface-light dark:bg-surface-dark rounded-xl shadow-sm px-4 mb-6 border border-border-light/50 dark:border-border-dark/50`}>
+                                    {creditNotes.map((note, index) => (
+                                        <View
+                                            key={note.id}
+                                            style={tw`flex-row justify-between py-3 ${index === creditNotes.length - 1 ? '' : 'border-b border-border-light/50 dark:border-border-dark/50'}`}
+                                        >
+                                            <View style={tw`flex-1 pr-2`}>
+                                                <Text style={tw`text-sm font-medium text-text-light dark:text-text-dark`}>
+                                                    {note.credit_note_number}
+                                                </Text>
+                                                <Text style={tw`text-xs text-text-light/70 dark:text-text-dark/70`}>
+                                                    {REFUND_REASON_LABELS[note.reason as RefundReason] ?? note.reason} · {formatInvoiceDateTime(note.created_at)}
+                                                </Text>
+                                            </View>
+                                            <Text style={tw`text-sm font-semibold text-danger`}>
+                                                {formatCurrency(-note.amount_cents, invoice.currency)}
+                                            </Text>
+                                        </View>
+                                    ))}
+                                </View>
+                            </>
+                        )}
+
+                        {patientBalanceCents > 0 && (
+                            <>
+                                <Text style={tw`text-lg font-bold pb-2 text-text-light dark:text-text-dark`}>Reminders</Text>
+                                <ReminderPanel invoice={invoice} onReminderSent={handleReminderSent} />
+                            </>
+                        )}
+
+                        <Text style={tw`text-lg font-bold pb-2 text-text-light dark:text-text-dark`}>Details</Text>
+                        <View style={tw`bg-surface-light dark:bg-surface-dark rounded-xl shadow-sm p-4 mb-6 border border-border-light/50 dark:border-border-dark/50`}>
+                            <DetailRow label="Invoice #" value={invoice.invoice_number} />
+                            <DetailRow label="Currency" value={normalizeCurrency(invoice.currency)} />
+                            <DetailRow label="Due Date" value={formatInvoiceDate(invoice.due_date)} />
+                            <DetailRow label="Paid At" value={formatInvoiceDateTime(invoice.paid_at)} />
+                            <DetailRow label="Created" value={formatInvoiceDateTime(invoice.created_at)} />
+                            <DetailRow label="Last Updated" value={formatInvoiceDateTime(invoice.updated_at)} isLast />
+                        </View>
+
+                        <Can permission="audit:view">
+                            <Text style={tw`text-lg font-bold pb-2 text-text-light dark:text-text-dark`}>History</Text>
+                            <View style={tw`bg-surface-light dark:bg-surface-dark rounded-xl shadow-sm px-4 mb-6 border border-border-light/50 dark:border-border-dark/50`}>
+                                {isHistoryLoading ? (
+                                    <ActivityIndicator style={tw`py-4`} size="small" color={tw.color('primary')} />
+                                ) : history.length === 0 ? (
+                                    <Text style={tw`py-4 text-sm text-text-light/70 dark:text-text-dark/70`}>No history for this invoice</Text>
+                                ) : (
+                                    history.map(entry => <HistoryItem key={entry.id} {...entry} />)
+                                )}
+                            </View>
+                        </Can>
+                    </ScrollView>
+
+                    {(canBePaid || canBeVoided || canBeRefunded || isDraft) && (
+                        <View style={tw`absolute bottom-0 left-0 right-0 flex-row gap-3 p-4 bg-background-light dark:bg-background-dark border-t border-border-light/50 dark:border-border-dark/50`}>
+                            {isDraft && (
+                                <Can permission="invoices:create">
+                                    <TouchableOpacity
+                                        onPress={() => openReview('reject')}
+                                        style={tw`flex-1 items-center justify-center rounded-xl h-14 px-6 bg-danger/10`}
+                                    >
+                                        <Text style={tw`text-danger text-base font-bold`}>Reject</Text>
+                                    </TouchableOpacity>
+                                    <TouchableOpacity
+                                        onPress={() => openReview('finalize')}
+                                        style={tw`flex-1 items-center justify-center rounded-xl h-14 px-6 bg-primary shadow-lg`}
+                                    >
+                                        <Text style={tw`text-white text-base font-bold tracking-wide`}>Finalize</Text>
+                                    </TouchableOpacity>
+                                </Can>
+                            )}
+                            {canBeVoided && (
+                                <Can permission="invoices:void">
+                                    <TouchableOpacity
+                                        onPress={handleVoid}
+                                        disabled={isVoiding}
+                                        style={tw`flex-1 items-center justify-center rounded-xl h-14 px-6 bg-danger/10 ${isVoiding ? 'opacity-50' : ''}`}
+                                    >
+                                        {isVoiding ? (
+                                            <ActivityIndicator size="small" color={tw.color('danger')} />
+                                        ) : (
+                                            <Text style={tw`text-danger text-base font-bold`}>Void</Text>
+                                        )}
+                                    </TouchableOpacity>
+                                </Can>
+                            )}
+                            {canBeRefunded && (
+                                <Can permission="payments:refund">
+                                    <TouchableOpacity
+                                        onPress={openRefund}
+                                        style={tw`flex-1 items-center justify-center rounded-xl h-14 px-6 bg-danger/10`}
+                                    >
+                                        <Text style={tw`text-danger text-base font-bold`}>Refund</Text>
+                                    </TouchableOpacity>
+                                </Can>
+                            )}
+                            {canBePaid && (
+                                <Can permission="payments:process">
+                                    <TouchableOpacity
+                                        onPress={() => navigation.navigate('Payment', { invoiceId: invoice.id })}
+                                        style={tw`flex-1 items-center justify-center rounded-xl h-14 px-6 bg-primary shadow-lg`}
+                                    >
+                                        <Text style={tw`text-white text-base font-bold tracking-wide`}>Pay</Text>
+                                    </TouchableOpacity>
+                                </Can>
+                            )}
+                        </View>
+                    )}
+
+                    <DraftReviewModal
+                        visible={isReviewVisible}
+                        action={reviewAction}
+                        isSubmitting={isReviewing}
+                        error={reviewError}
+                        onSubmit={handleReview}
+                        onClose={() => setIsReviewVisible(false)}
+                    />
+                    <RefundModal
+                        visible={isRefundVisible}
+                        refundableCents={refundableCents}
+                        currency={invoice.currency}
+                        isSubmitting={isRefunding}
+                        error={refundError}
+                        onSubmit={handleRefund}
+                        onClose={() => setIsRefundVisible(false)}
+                    />
+                </>
+            )}
+        </SafeAreaView>
+    );
+};
+
+export default InvoiceDetailScreen;
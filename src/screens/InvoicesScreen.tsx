@@ -1,147 +1,178 @@
 
-import React, { useState, useEffect } from 'react';
-import { View, Text, TouchableOpacity, ScrollView, FlatList, useColorScheme, ActivityIndicator } from 'react-native';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { View, Text, TextInput, TouchableOpacity, ScrollView, FlatList, useColorScheme, ActivityIndicator } from 'react-native';
 import Icon from 'react-native-vector-icons/MaterialIcons';
-import { useNavigation } from '@react-navigation/native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
-import type { RootStackParamList } from '../types';
+import type { MainTabParamList, RootStackParamList } from '../types';
 import tw from '../lib/tailwind';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useAuth } from '../context/AuthContext';
 import { fetchInvoices } from '../api/invoiceApi';
-import { Invoice } from '../types/invoice';
-import { loadInvoiceCache, saveInvoiceCache } from '../utils/invoiceCache';
+import { AgingBucketId, Invoice, InvoiceDateFilter, InvoiceSort } from '../types/invoice';
+import { Permission } from '../types/auth';
+import { loadInvoiceCache, saveInvoiceCache, onInvoicesChanged } from '../utils/invoiceCache';
+import { formatCurrency } from '../utils/financialMetrics';
+import { normalizeCurrency } from '../utils/currency';
+import { DISPLAY_STATUSES, formatInvoiceDate, mapApiStatusToDisplay, statusStyles } from '../utils/invoiceFormatting';
+import { parseDateValue } from '../utils/dateUtils';
+import { getAmountPaidCents, getBalanceCents } from '../utils/invoiceTotals';
+import { getAgingBucket, getAgingBucketLabel } from '../utils/agingReport';
+import {
+    DEFAULT_DATE_FILTER,
+    describeDateFilter,
+    isInDateRange,
+    loadDateFilter,
+    resolveDateRange,
+    saveDateFilter,
+} from '../utils/invoiceDateFilter';
+import {
+    DEFAULT_INVOICE_SORT,
+    SORT_OPTIONS,
+    SearchableInvoice,
+    buildInvoiceSearchText,
+    searchInvoices,
+    sortInvoices,
+} from '../utils/invoiceSearch';
+import { useDebouncedValue } from '../hooks/useDebouncedValue';
+import { usePatientNames } from '../hooks/usePatientNames';
+import Can from '../components/Can';
+import BulkActionModal, { BulkActionId } from '../components/BulkActionModal';
+import DateRangePicker from '../components/DateRangePicker';
+import InvoiceSortPicker from '../components/InvoiceSortPicker';
 
-const filters = ['All', 'Paid', 'Pending', 'Overdue'];
+const filters = ['All', ...DISPLAY_STATUSES];
 
-// FIX: Define a strict type for invoice statuses to ensure type safety.
-type InvoiceStatus = 'Paid' | 'Pending' | 'Overdue';
+const SEARCH_DEBOUNCE_MS = 200;
 
-// Display invoice data structure
-interface DisplayInvoice {
+// Actions offered for the selected invoices while multi-selecting
+const BULK_ACTIONS: { id: BulkActionId; label: string; icon: string; permission: Permission }[] = [
+    { id: 'remind', label: 'Remind', icon: 'notifications-active', permission: 'reminders:send' },
+    { id: 'mark_paid', label: 'Mark Paid', icon: 'payments', permission: 'payments:process' },
+    { id: 'void', label: 'Void', icon: 'block', permission: 'invoices:void' },
+    { id: 'export', label: 'Export', icon: 'file-download', permission: 'invoices:view' },
+    { id: 'print', label: 'Print', icon: 'print', permission: 'invoices:view' },
+];
+
+// Display invoice data structure; search text and sort values are precomputed per row
+interface DisplayInvoice extends SearchableInvoice {
     id: string;
     number: string;
     amount: string;
     patientId: string;
+    patientName?: string;
     dueDate: string;
-    status: InvoiceStatus;
+    balance: string | null; // set when part of the invoice has been paid
+    agingBucket: AgingBucketId | null; // null when nothing is owed
+    currency: string;
+    invoice: Invoice; // source record, for bulk actions
 }
 
-// Map API status to display status
-const mapApiStatusToDisplay = (status: string, dueDate?: string): InvoiceStatus => {
-    const now = new Date();
-    const due = dueDate ? new Date(dueDate) : null;
-    
-    if (status === 'paid') {
-        return 'Paid';
-    }
-    
-    // Check if overdue (unpaid/pending and past due date)
-    if ((status === 'unpaid' || status === 'pending') && due && due < now) {
-        return 'Overdue';
-    }
-    
-    if (status === 'pending') {
-        return 'Pending';
-    }
-    
-    // Default for unpaid (if not overdue)
-    return 'Pending';
-};
-
-// Format date from ISO string to readable format
-const formatDate = (dateString?: string): string => {
-    if (!dateString) return 'N/A';
-    try {
-        const date = new Date(dateString);
-        return date.toLocaleDateString('en-US', { 
-            day: 'numeric', 
-            month: 'short', 
-            year: 'numeric' 
-        });
-    } catch {
-        return 'Invalid Date';
-    }
-};
-
-// Format amount from cents to dollars
-const formatAmount = (cents: number): string => {
-    const dollars = cents / 100;
-    return new Intl.NumberFormat('en-US', {
-        style: 'currency',
-        currency: 'USD',
-        minimumFractionDigits: 2,
-        maximumFractionDigits: 2,
-    }).format(dollars);
-};
+const toTimestamp = (value?: string): number | null => parseDateValue(value)?.getTime() ?? null;
 
 // Convert API invoice to display format
 const convertInvoiceToDisplay = (invoice: Invoice): DisplayInvoice => {
+    const balanceCents = getBalanceCents(invoice);
+    const isPartiallyPaid = balanceCents > 0 && getAmountPaidCents(invoice) > 0;
     return {
         id: invoice.id.toString(),
         number: `#${invoice.invoice_number}`,
-        amount: formatAmount(invoice.total_amount_cents),
+        amount: formatCurrency(invoice.total_amount_cents, invoice.currency),
         patientId: `P-${invoice.patient_id}`,
-        dueDate: formatDate(invoice.due_date),
+        patientName: invoice.patient_name,
+        dueDate: formatInvoiceDate(invoice.due_date),
         status: mapApiStatusToDisplay(invoice.status, invoice.due_date),
+        searchText: buildInvoiceSearchText(invoice),
+        amountCents: invoice.total_amount_cents,
+        balance: isPartiallyPaid ? formatCurrency(balanceCents, invoice.currency) : null,
+        agingBucket: getAgingBucket(invoice),
+        currency: normalizeCurrency(invoice.currency),
+        invoice,
+        dateValues: {
+            created_at: toTimestamp(invoice.created_at),
+            due_date: toTimestamp(invoice.due_date),
+            paid_at: toTimestamp(invoice.paid_at),
+        },
     };
 };
 
-// FIX: Use the `InvoiceStatus` type to ensure the `statusStyles` record covers all possible statuses.
-const statusStyles: Record<InvoiceStatus, { bg: string, text: string }> = {
-    Paid: { bg: 'bg-green-100 dark:bg-green-900/50', text: 'text-green-800 dark:text-green-300' },
-    Overdue: { bg: 'bg-red-100 dark:bg-red-900/50', text: 'text-red-800 dark:text-red-300' },
-    Pending: { bg: 'bg-amber-100 dark:bg-amber-900/50', text: 'text-amber-800 dark:text-amber-300' },
-};
-
-type InvoiceCardProps = DisplayInvoice;
+interface InvoiceCardProps extends DisplayInvoice {
+    isSelecting: boolean;
+    isSelected: boolean;
+    onToggleSelect: (id: string) => void;
+}
 type NavigationProp = NativeStackNavigationProp<RootStackParamList, 'Main'>;
+type InvoicesRouteProp = RouteProp<MainTabParamList, 'Invoices'>;
 
-const InvoiceCard: React.FC<InvoiceCardProps> = ({ number, amount, patientId, dueDate, status }) => {
+const InvoiceCard: React.FC<InvoiceCardProps> = React.memo(({ id, number, amount, patientId, patientName, dueDate, balance, status, isSelecting, isSelected, onToggleSelect }) => {
     const navigation = useNavigation<NavigationProp>();
     // FIX: Accessing statusStyles with a typed `status` guarantees a result, removing the need for a fallback object `|| {}`.
     // This resolves the error where `styles.bg` or `styles.text` could be accessed on an empty object.
     const styles = statusStyles[status];
     
+    // Long press starts multi-select; while selecting, a tap toggles the card
     return (
-        <View style={tw`flex-col rounded-xl shadow-sm bg-surface-light dark:bg-surface-dark p-4 space-y-2`}>
+        <TouchableOpacity
+            activeOpacity={isSelecting ? 0.7 : 1}
+            onPress={isSelecting ? () => onToggleSelect(id) : undefined}
+            onLongPress={() => onToggleSelect(id)}
+            style={tw`flex-col rounded-xl shadow-sm bg-surface-light dark:bg-surface-dark p-4 space-y-2 border-2 ${isSelected ? 'border-primary' : 'border-transparent'}`}
+        >
             <View style={tw`flex-row items-start justify-between`}>
                 <Text style={tw`text-lg font-bold text-text-light dark:text-text-dark`}>{number}</Text>
                 <Text style={tw`text-base font-bold text-text-light dark:text-text-dark`}>{amount}</Text>
             </View>
             <View style={tw`flex-col gap-1`}>
-                <Text style={tw`text-sm text-text-light/70 dark:text-text-dark/70`}>Patient ID: {patientId}</Text>
+                <Text style={tw`text-sm text-text-light/70 dark:text-text-dark/70`}>
+                    {patientName ? `Patient: ${patientName} (${patientId})` : `Patient ID: ${patientId}`}
+                </Text>
                 <Text style={tw`text-sm text-text-light/70 dark:text-text-dark/70`}>Due Date: {dueDate}</Text>
+                {balance && (
+                    <Text style={tw`text-sm font-medium text-text-light dark:text-text-dark`}>Balance: {balance}</Text>
+                )}
             </View>
             <View style={tw`mt-2 flex-row items-center justify-between`}>
                 <View style={tw`items-center rounded-full px-3 py-1 ${styles.bg}`}>
                     <Text style={tw`text-xs font-medium ${styles.text}`}>{status}</Text>
                 </View>
-                <TouchableOpacity onPress={() => navigation.navigate('Payment')} style={tw`min-w-[84px] items-center justify-center rounded-lg h-8 px-4 bg-primary`}>
-                    <Text style={tw`text-white text-sm font-medium`}>View</Text>
-                </TouchableOpacity>
+                {isSelecting ? (
+                    <Icon name={isSelected ? 'check-box' : 'check-box-outline-blank'} size={26} color={tw.color('primary')} />
+                ) : (
+                    <TouchableOpacity onPress={() => navigation.navigate('InvoiceDetail', { invoiceId: Number(id) })} style={tw`min-w-[84px] items-center justify-center rounded-lg h-8 px-4 bg-primary`}>
+                        <Text style={tw`text-white text-sm font-medium`}>View</Text>
+                    </TouchableOpacity>
+                )}
             </View>
-        </View>
+        </TouchableOpacity>
     );
-}
+});
 
 const InvoicesScreen = () => {
     const [activeFilter, setActiveFilter] = useState('All');
-    const [invoices, setInvoices] = useState<DisplayInvoice[]>([]);
+    const [apiInvoices, setApiInvoices] = useState<Invoice[]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const [isRefreshing, setIsRefreshing] = useState(false);
     const [error, setError] = useState<string | null>(null);
-    const { tokens } = useAuth();
+    const [dateFilter, setDateFilter] = useState<InvoiceDateFilter>(DEFAULT_DATE_FILTER);
+    const [isDatePickerVisible, setIsDatePickerVisible] = useState(false);
+    const [searchQuery, setSearchQuery] = useState('');
+    const [sort, setSort] = useState<InvoiceSort>(DEFAULT_INVOICE_SORT);
+    const [isSortPickerVisible, setIsSortPickerVisible] = useState(false);
+    const [agingFilter, setAgingFilter] = useState<{ bucket: AgingBucketId; currency?: string } | null>(null);
+    const isDateFilterOverriddenRef = useRef(false); // set once the aging report has replaced the restored date range
+    const [selectedIds, setSelectedIds] = useState<Set<string> | null>(null); // null outside multi-select
+    const [bulkAction, setBulkAction] = useState<BulkActionId | null>(null);
+    const { params } = useRoute<InvoicesRouteProp>();
+    const debouncedQuery = useDebouncedValue(searchQuery, SEARCH_DEBOUNCE_MS);
+    const patientNames = usePatientNames();
+    const { isAuthenticated } = useAuth();
+    const navigation = useNavigation<NavigationProp>();
     const isDark = useColorScheme() === 'dark';
     const iconColor = isDark ? tw.color('text-dark') : tw.color('text-light');
     const mutedIconColor = isDark ? tw.color('border-dark') : tw.color('border-light');
 
-    useEffect(() => {
-        loadInvoices();
-    }, [tokens]);
-
-    const loadInvoices = async (isRefresh = false) => {
-        if (!tokens?.access_token) {
+    const loadInvoices = useCallback(async (isRefresh = false) => {
+        if (!isAuthenticated) {
             setIsLoading(false);
             return;
         }
@@ -158,46 +189,167 @@ const InvoicesScreen = () => {
             if (!isRefresh) {
                 const cachedInvoices = await loadInvoiceCache();
                 if (cachedInvoices) {
-                    const displayInvoices = cachedInvoices.map(convertInvoiceToDisplay);
-                    setInvoices(displayInvoices);
+                    setApiInvoices(cachedInvoices);
                 }
             }
 
             // Fetch fresh data
-            const apiInvoices = await fetchInvoices(tokens.access_token);
-            await saveInvoiceCache(apiInvoices);
-            const displayInvoices = apiInvoices.map(convertInvoiceToDisplay);
-            setInvoices(displayInvoices);
+            const freshInvoices = await fetchInvoices();
+            await saveInvoiceCache(freshInvoices);
+            setApiInvoices(freshInvoices);
         } catch (err) {
             console.error('Error loading invoices:', err);
             
             // Try to use cache if fetch failed
             const cachedInvoices = await loadInvoiceCache();
             if (cachedInvoices) {
-                const displayInvoices = cachedInvoices.map(convertInvoiceToDisplay);
-                setInvoices(displayInvoices);
+                setApiInvoices(cachedInvoices);
             } else {
                 setError('Unable to load invoices');
-                setInvoices([]);
+                setApiInvoices([]);
             }
         } finally {
             setIsLoading(false);
             setIsRefreshing(false);
         }
+    }, [isAuthenticated]);
+
+    useEffect(() => {
+        loadInvoices();
+    }, [loadInvoices]);
+
+    // Reload after invoices are created, paid or voided on other screens
+    // The cache already holds the change, so show it before the server round trip
+    useEffect(() => onInvoicesChanged(async () => {
+        const cachedInvoices = await loadInvoiceCache();
+        if (cachedInvoices) {
+            setApiInvoices(cachedInvoices);
+        }
+        loadInvoices(true);
+    }), [loadInvoices]);
+
+    // Names from the patient directory fill in invoices the API returned without one
+    const invoices = useMemo(() => apiInvoices.map(invoice => convertInvoiceToDisplay(
+        invoice.patient_name || !patientNames.has(invoice.patient_id)
+            ? invoice
+            : { ...invoice, patient_name: patientNames.get(invoice.patient_id) },
+    )), [apiInvoices, patientNames]);
+
+    // Restore the date range chosen in a previous session
+    useEffect(() => {
+        loadDateFilter().then(filter => {
+            if (!isDateFilterOverriddenRef.current) {
+                setDateFilter(filter);
+            }
+        });
+    }, []);
+
+    // Opening the list from the aging report shows all of that bucket's invoices
+    // The saved date range is cleared for this visit only, so it isn't persisted
+    useEffect(() => {
+        if (params?.agingBucket) {
+            isDateFilterOverriddenRef.current = true;
+            setAgingFilter({ bucket: params.agingBucket, currency: params.currency });
+            setActiveFilter('All');
+            setDateFilter(DEFAULT_DATE_FILTER);
+            setSearchQuery('');
+        }
+    }, [params]);
+
+    const applyDateFilter = (filter: InvoiceDateFilter) => {
+        setDateFilter(filter);
+        setIsDatePickerVisible(false);
+        saveDateFilter(filter).catch(err => console.error('Error saving invoice date filter:', err));
     };
 
-    // Filter invoices based on active filter
-    const filteredInvoices = invoices.filter(invoice => {
-        if (activeFilter === 'All') return true;
-        return invoice.status === activeFilter;
-    });
+    // Filter invoices by status chip, aging bucket and date range
+    const filteredInvoices = useMemo(() => {
+        const dateRange = resolveDateRange(dateFilter);
+        return invoices.filter(invoice => {
+            if (activeFilter !== 'All' && invoice.status !== activeFilter) return false;
+            if (agingFilter && invoice.agingBucket !== agingFilter.bucket) return false;
+            if (agingFilter?.currency && invoice.currency !== agingFilter.currency) return false;
+            return !dateRange || isInDateRange(invoice.dateValues[dateFilter.field], dateRange);
+        });
+    }, [invoices, activeFilter, agingFilter, dateFilter]);
+
+    // Search and sort separately so changing the sort doesn't re-run the search
+    const searchedInvoices = useMemo(
+        () => searchInvoices(filteredInvoices, debouncedQuery),
+        [filteredInvoices, debouncedQuery],
+    );
+    const visibleInvoices = useMemo(() => sortInvoices(searchedInvoices, sort), [searchedInvoices, sort]);
+
+    const toggleSelected = useCallback((id: string) => {
+        setSelectedIds(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) {
+                next.delete(id);
+            } else {
+                next.add(id);
+            }
+            return next;
+        });
+    }, []);
+
+    // Select all selects what the current filters and search show
+    const isAllVisibleSelected = selectedIds !== null && visibleInvoices.length > 0
+        && visibleInvoices.every(invoice => selectedIds.has(invoice.id));
+    const toggleSelectAll = () => {
+        setSelectedIds(isAllVisibleSelected ? new Set() : new Set(visibleInvoices.map(invoice => invoice.id)));
+    };
+
+    const selectedInvoices = useMemo(
+        () => (selectedIds ? invoices.filter(invoice => selectedIds.has(invoice.id)).map(invoice => invoice.invoice) : []),
+        [invoices, selectedIds],
+    );
+
+    const dateFilterLabel = describeDateFilter(dateFilter);
+    const sortLabel = SORT_OPTIONS.find(option => option.key === sort.key)?.label ?? '';
+    const resultCountLabel = visibleInvoices.length === invoices.length
+        ? `${invoices.length.toLocaleString('en-US')} invoices`
+        : `${visibleInvoices.length.toLocaleString('en-US')} of ${invoices.length.toLocaleString('en-US')} invoices`;
 
     return (
         <SafeAreaView style={tw`flex-1 bg-background-light dark:bg-background-dark`}>
-            <View style={tw`sticky top-0 z-10 flex-row items-center justify-between p-4 bg-background-light dark:bg-background-dark`}>
-                <Icon name="menu" size={24} color={iconColor} />
-                <Text style={tw`flex-1 text-center text-lg font-bold text-text-light dark:text-text-dark`}>Invoices</Text>
-                <Icon name="search" size={24} color={iconColor} />
+            {selectedIds ? (
+                <View style={tw`sticky top-0 z-10 flex-row items-center justify-between p-4 bg-background-light dark:bg-background-dark`}>
+                    <TouchableOpacity onPress={() => setSelectedIds(null)}>
+                        <Icon name="close" size={24} color={iconColor} />
+                    </TouchableOpacity>
+                    <Text style={tw`flex-1 text-center text-lg font-bold text-text-light dark:text-text-dark`}>{selectedIds.size} selected</Text>
+                    <TouchableOpacity onPress={toggleSelectAll} disabled={visibleInvoices.length === 0}>
+                        <Text style={tw`text-base font-semibold text-primary`}>{isAllVisibleSelected ? 'Deselect All' : 'Select All'}</Text>
+                    </TouchableOpacity>
+                </View>
+            ) : (
+                <View style={tw`sticky top-0 z-10 flex-row items-center justify-between p-4 bg-background-light dark:bg-background-dark`}>
+                    <Icon name="menu" size={24} color={iconColor} />
+                    <Text style={tw`flex-1 text-center text-lg font-bold text-text-light dark:text-text-dark`}>Invoices</Text>
+                    <TouchableOpacity onPress={() => setIsSortPickerVisible(true)}>
+                        <Icon name="sort" size={24} color={iconColor} />
+                    </TouchableOpacity>
+                </View>
+            )}
+            <View style={tw`px-4 pb-4`}>
+                <View style={tw`flex-row items-center rounded-lg bg-slate-100 dark:bg-slate-800 px-3 h-12`}>
+                    <Icon name="search" size={22} color={mutedIconColor} />
+                    <TextInput
+                        style={tw`flex-1 px-2 text-text-light dark:text-text-dark`}
+                        placeholder="Search number, patient or amount"
+                        placeholderTextColor={mutedIconColor}
+                        autoCapitalize="none"
+                        autoCorrect={false}
+                        returnKeyType="search"
+                        value={searchQuery}
+                        onChangeText={setSearchQuery}
+                    />
+                    {searchQuery.length > 0 && (
+                        <TouchableOpacity onPress={() => setSearchQuery('')}>
+                            <Icon name="close" size={20} color={mutedIconColor} />
+                        </TouchableOpacity>
+                    )}
+                </View>
             </View>
             <FlatList
                 ListHeaderComponent={
@@ -216,13 +368,38 @@ const InvoicesScreen = () => {
                                     </TouchableOpacity>
                                 ))}
                             </ScrollView>
-                            <TouchableOpacity style={tw`mt-4 flex-row items-center justify-between rounded-lg bg-slate-100 dark:bg-slate-800 px-4 py-3 min-h-14`}>
-                                <View style={tw`flex-row items-center gap-4`}>
-                                    <Icon name="calendar-today" size={24} color={iconColor} />
-                                    <Text style={tw`text-base text-text-light/70 dark:text-text-dark/70`}>Filter by Date Range</Text>
+                            <TouchableOpacity
+                                onPress={() => setIsDatePickerVisible(true)}
+                                style={tw`mt-4 flex-row items-center justify-between rounded-lg px-4 py-3 min-h-14 ${dateFilterLabel ? 'bg-primary/20' : 'bg-slate-100 dark:bg-slate-800'}`}
+                            >
+                                <View style={tw`flex-row items-center gap-4 flex-1`}>
+                                    <Icon name="calendar-today" size={24} color={dateFilterLabel ? tw.color('primary') : iconColor} />
+                                    <Text style={tw`text-base ${dateFilterLabel ? 'text-primary font-medium' : 'text-text-light/70 dark:text-text-dark/70'}`} numberOfLines={1}>
+                                        {dateFilterLabel ?? 'Filter by Date Range'}
+                                    </Text>
                                 </View>
-                                <Icon name="arrow-drop-down" size={24} color={mutedIconColor} />
+                                {dateFilterLabel ? (
+                                    <TouchableOpacity onPress={() => applyDateFilter({ ...dateFilter, preset: null })}>
+                                        <Icon name="close" size={22} color={tw.color('primary')} />
+                                    </TouchableOpacity>
+                                ) : (
+                                    <Icon name="arrow-drop-down" size={24} color={mutedIconColor} />
+                                )}
                             </TouchableOpacity>
+                            {agingFilter && (
+                                <View style={tw`mt-2 flex-row items-center justify-between rounded-lg px-4 py-3 min-h-14 bg-primary/20`}>
+                                    <View style={tw`flex-row items-center gap-4 flex-1`}>
+                                        <Icon name="schedule" size={24} color={tw.color('primary')} />
+                                        <Text style={tw`text-base text-primary font-medium`} numberOfLines={1}>
+                                            Aging · {getAgingBucketLabel(agingFilter.bucket)}
+                                            {agingFilter.currency ? ` · ${agingFilter.currency}` : ''}
+                                        </Text>
+                                    </View>
+                                    <TouchableOpacity onPress={() => setAgingFilter(null)}>
+                                        <Icon name="close" size={22} color={tw.color('primary')} />
+                                    </TouchableOpacity>
+                                </View>
+                            )}
                         </View>
                         {isLoading && (
                             <View style={tw`items-center justify-center py-8`}>
@@ -235,7 +412,16 @@ const InvoicesScreen = () => {
                                 <Text style={tw`text-red-800 dark:text-red-300`}>{error}</Text>
                             </View>
                         )}
-                        {!isLoading && !error && filteredInvoices.length === 0 && (
+                        {!isLoading && !error && invoices.length > 0 && (
+                            <View style={tw`mb-3 flex-row items-center justify-between`}>
+                                <Text style={tw`text-sm font-medium text-text-light/70 dark:text-text-dark/70`}>{resultCountLabel}</Text>
+                                <TouchableOpacity onPress={() => setIsSortPickerVisible(true)} style={tw`flex-row items-center gap-1`}>
+                                    <Text style={tw`text-sm font-medium text-primary`}>{sortLabel}</Text>
+                                    <Icon name={sort.direction === 'asc' ? 'arrow-upward' : 'arrow-downward'} size={16} color={tw.color('primary')} />
+                                </TouchableOpacity>
+                            </View>
+                        )}
+                        {!isLoading && !error && visibleInvoices.length === 0 && (
                             <View style={tw`mx-4 mb-4 items-center justify-center py-8`}>
                                 <Icon name="inbox" size={48} color={mutedIconColor} />
                                 <Text style={tw`mt-4 text-base text-text-light/70 dark:text-text-dark/70`}>
@@ -245,17 +431,67 @@ const InvoicesScreen = () => {
                         )}
                     </>
                 }
-                data={filteredInvoices}
-                renderItem={({ item }) => <InvoiceCard {...item} />}
+                data={visibleInvoices}
+                renderItem={({ item }) => (
+                    <InvoiceCard
+                        {...item}
+                        isSelecting={selectedIds !== null}
+                        isSelected={selectedIds?.has(item.id) ?? false}
+                        onToggleSelect={toggleSelected}
+                    />
+                )}
+                extraData={selectedIds}
                 keyExtractor={item => item.id}
                 contentContainerStyle={{ paddingHorizontal: 16, paddingBottom: 100 }}
                 ItemSeparatorComponent={() => <View style={tw`h-4`} />}
                 refreshing={isRefreshing}
                 onRefresh={() => loadInvoices(true)}
+                initialNumToRender={10}
+                maxToRenderPerBatch={10}
+                windowSize={7}
+                removeClippedSubviews
+            />
+            <InvoiceSortPicker
+                visible={isSortPickerVisible}
+                sort={sort}
+                onChange={setSort}
+                onClose={() => setIsSortPickerVisible(false)}
+            />
+            <DateRangePicker
+                visible={isDatePickerVisible}
+                filter={dateFilter}
+                onApply={applyDateFilter}
+                onClose={() => setIsDatePickerVisible(false)}
             />
-            <TouchableOpacity style={tw`absolute bottom-6 right-6 flex h-14 w-14 items-center justify-center rounded-2xl bg-primary shadow-lg`}>
-                <Icon name="add" size={30} color="#FFFFFF" />
-            </TouchableOpacity>
+            <BulkActionModal
+                visible={bulkAction !== null}
+                actionId={bulkAction}
+                invoices={selectedInvoices}
+                onClose={() => setBulkAction(null)}
+                onFinished={() => setSelectedIds(null)}
+            />
+            {selectedIds ? (
+                <View style={tw`absolute bottom-0 left-0 right-0 flex-row justify-around border-t border-border-light/50 dark:border-border-dark/50 bg-surface-light dark:bg-surface-dark px-2 py-3`}>
+                    {BULK_ACTIONS.map(action => (
+                        <Can key={action.id} permission={action.permission}>
+                            <TouchableOpacity
+                                onPress={() => setBulkAction(action.id)}
+                                disabled={selectedInvoices.length === 0}
+                                style={tw`items-center px-2 ${selectedInvoices.length === 0 ? 'opacity-50' : ''}`}
+                            >
+                                <Icon name={action.icon} size={24} color={action.id === 'void' ? tw.color('danger') : tw.color('primary')} />
+                                <Text style={tw`mt-1 text-xs font-medium ${action.id === 'void' ? 'text-danger' : 'text-primary'}`}>{action.label}</Text>
+                            </TouchableOpacity>
+                        </Can>
+                    ))}
+                </View>
+            ) : (
+                <Can permission="invoices:create">
+                    <TouchableOpacity onPress={() => navigation.navigate('CreateInvoice')} style={tw`absolute bottom-6 right-6 flex h-14 w-14 items-center justify-center rounded-2xl bg-primary shadow-lg`}>
+                        <Icon name="add" size={30} color="#FFFFFF" />
+                    </TouchableOpacity>
+                </Can>
+            )}
         </SafeAreaView>
     );
 };
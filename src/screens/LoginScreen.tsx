@@ -5,6 +5,7 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import Icon from 'react-native-vector-icons/MaterialIcons';
 import tw from '../lib/tailwind';
 import { useAuth } from '../context/AuthContext';
+import ServerPicker from '../components/ServerPicker';
 
 type Props = { onLogin?: () => void };
 
@@ -85,6 +86,7 @@ const LoginScreen: React.FC<Props> = ({ onLogin }) => {
               </TouchableOpacity>
             </View>
           </View>
+          <ServerPicker disabled={loading} />
           <View style={tw`flex-row items-center justify-between rounded-lg bg-surface-light dark:bg-surface-dark p-4`}>
             <View>
               <Text style={tw`font-medium text-text-light dark:text-text-dark`}>Enable Biometric Login</Text>
@@ -0,0 +1,378 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { View, Text, TextInput, TextInputProps, TouchableOpacity, ScrollView, ActivityIndicator, Alert, useColorScheme } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import type { RootStackParamList } from '../types';
+import tw from '../lib/tailwind';
+import { createPatient, fetchPatient, updatePatient } from '../api/patientApi';
+import { createPolicy, deletePolicy, fetchPatientPolicies, updatePolicy } from '../api/insuranceApi';
+import { ApiError, CancelledError, NetworkError, ValidationError } from '../api/errors';
+import { InsurancePolicy, PolicyFormValues } from '../types/insurance';
+import { PatientFormValues, PatientSex } from '../types/patient';
+import PolicyModal from '../components/PolicyModal';
+import { buildPolicyRequest, formatPolicyLabel, isPolicyActive, sortPolicies } from '../utils/insurance';
+import { loadPatientCache, notifyPatientsChanged, updateCachedPatient } from '../utils/patientCache';
+import {
+    buildPatientRequest,
+    EMPTY_PATIENT_FORM,
+    isPatientFormValid,
+    PATIENT_SEX_LABELS,
+    toPatientForm,
+    validatePatientForm,
+} from '../utils/patients';
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList, 'PatientForm'>;
+type PatientFormRouteProp = RouteProp<RootStackParamList, 'PatientForm'>;
+
+const SEX_OPTIONS = Object.keys(PATIENT_SEX_LABELS) as PatientSex[];
+
+const getPolicyErrorMessage = (err: unknown): string => {
+    if (err instanceof NetworkError) {
+        return 'Unable to connect to server. Please check your connection.';
+    }
+    if (err instanceof ValidationError || (err instanceof ApiError && err.status && err.status < 500)) {
+        return err.message;
+    }
+    return 'Unable to save the policy. Please try again.';
+};
+
+const SectionTitle: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+    <Text style={tw`text-lg font-bold pt-2 pb-3 text-text-light dark:text-text-dark`}>{children}</Text>
+);
+
+interface FormFieldProps extends Omit<TextInputProps, 'value' | 'onChangeText'> {
+    label: string;
+    value: string;
+    error?: string; // shown only once the field is touched or a save was attempted
+    onChangeText: (text: string) => void;
+}
+
+const FormField: React.FC<FormFieldProps> = ({ label, value, error, onChangeText, style, ...inputProps }) => {
+    const isDark = useColorScheme() === 'dark';
+    const placeholderTextColor = isDark ? tw.color('border-dark') : tw.color('border-light');
+    return (
+        <View style={[tw`mb-4`, style]}>
+            <Text style={tw`text-sm font-medium pb-2 text-text-light dark:text-text-dark`}>{label}</Text>
+            <TextInput
+                style={tw`rounded-lg border ${error ? 'border-danger' : 'border-border-light dark:border-border-dark'} bg-background-light dark:bg-background-dark h-12 px-4 text-text-light dark:text-text-dark`}
+                placeholderTextColor={placeholderTextColor}
+                value={value}
+                onChangeText={onChangeText}
+                {...inputProps}
+            />
+            {error && <Text style={tw`mt-1 text-xs text-danger`}>{error}</Text>}
+        </View>
+    );
+};
+
+const PatientFormScreen = () => {
+    const navigation = useNavigation<NavigationProp>();
+    const { params } = useRoute<PatientFormRouteProp>();
+    const patientId = params?.patientId;
+    const [values, setValues] = useState<PatientFormValues>(EMPTY_PATIENT_FORM);
+    const [touched, setTouched] = useState<Partial<Record<keyof PatientFormValues, boolean>>>({});
+    const [submitAttempted, setSubmitAttempted] = useState(false);
+    const [isLoading, setIsLoading] = useState(patientId !== undefined);
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const [saveError, setSaveError] = useState<string | null>(null);
+    const [policies, setPolicies] = useState<InsurancePolicy[]>([]);
+    const [isPoliciesLoading, setIsPoliciesLoading] = useState(false);
+    const [isPolicyModalVisible, setIsPolicyModalVisible] = useState(false);
+    const [editingPolicy, setEditingPolicy] = useState<InsurancePolicy | null>(null);
+    const [isPolicySaving, setIsPolicySaving] = useState(false);
+    const [policyError, setPolicyError] = useState<string | null>(null);
+    const isDark = useColorScheme() === 'dark';
+    const iconColor = isDark ? tw.color('text-dark') : tw.color('text-light');
+
+    const errors = useMemo(() => validatePatientForm(values), [values]);
+
+    const loadPatient = useCallback(async (signal?: AbortSignal) => {
+        if (patientId === undefined) return;
+
+        setIsLoading(true);
+        setLoadError(null);
+        try {
+            setValues(toPatientForm(await fetchPatient(patientId, { signal })));
+        } catch (err) {
+            if (err instanceof CancelledError) return;
+            console.error('Error loading patient:', err);
+
+            // Offline, the cached directory still has the record to edit
+            const cachedPatient = (await loadPatientCache())?.find(patient => patient.id === patientId);
+            if (cachedPatient && !(err instanceof ApiError && err.status === 404)) {
+                setValues(toPatientForm(cachedPatient));
+            } else {
+                setLoadError(err instanceof ApiError && err.status === 404
+                    ? 'This patient no longer exists.'
+                    : 'Unable to load the patient. Please try again.');
+            }
+        } finally {
+            if (!signal?.aborted) {
+                setIsLoading(false);
+            }
+        }
+    }, [patientId]);
+
+    // Policies belong to a saved patient, so they are only managed when editing
+    const loadPolicies = useCallback(async (signal?: AbortSignal) => {
+        if (patientId === undefined) return;
+
+        setIsPoliciesLoading(true);
+        try {
+            setPolicies(sortPolicies(await fetchPatientPolicies(patientId, { signal })));
+        } catch (err) {
+            if (err instanceof CancelledError) return;
+            console.error('Error loading insurance policies:', err);
+        } finally {
+            if (!signal?.aborted) {
+                setIsPoliciesLoading(false);
+            }
+        }
+    }, [patientId]);
+
+    useEffect(() => {
+        const controller = new AbortController();
+        loadPatient(controller.signal);
+        loadPolicies(controller.signal);
+        return () => controller.abort();
+    }, [loadPatient, loadPolicies]);
+
+    const updateField = (field: keyof PatientFormValues) => (text: string) => {
+        setSaveError(null);
+        setValues(prev => ({ ...prev, [field]: text }));
+    };
+
+    const markTouched = (field: keyof PatientFormValues) => () => setTouched(prev => ({ ...prev, [field]: true }));
+
+    const visibleError = (field: keyof PatientFormValues) =>
+        (submitAttempted || touched[field] ? errors[field] : undefined);
+
+    const fieldProps = (field: keyof PatientFormValues) => ({
+        value: values[field],
+        error: visibleError(field),
+        onChangeText: updateField(field),
+        onBlur: markTouched(field),
+    });
+
+    const handleSave = async () => {
+        setSubmitAttempted(true);
+        if (!isPatientFormValid(errors)) {
+            setSaveError('Please correct the highlighted fields.');
+            return;
+        }
+
+        setIsSaving(true);
+        setSaveError(null);
+        try {
+            const request = buildPatientRequest(values);
+            const saved = patientId === undefined
+                ? await createPatient(request)
+                : await updatePatient(patientId, request);
+            await updateCachedPatient(saved);
+            notifyPatientsChanged();
+            navigation.goBack();
+        } catch (err) {
+            console.error('Error saving patient:', err);
+            if (err instanceof NetworkError) {
+                setSaveError('Unable to connect to server. Please check your connection.');
+            } else if (err instanceof ValidationError || (err instanceof ApiError && err.status && err.status < 500)) {
+                setSaveError(err.message);
+            } else {
+                setSaveError('Unable to save the patient. Please try again.');
+            }
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const openPolicy = (policy: InsurancePolicy | null) => {
+        setEditingPolicy(policy);
+        setPolicyError(null);
+        setIsPolicyModalVisible(true);
+    };
+
+    // Policies are saved as soon as they are added or edited, separately from the patient's details
+    const handleSavePolicy = async (policyValues: PolicyFormValues) => {
+        if (patientId === undefined || isPolicySaving) return;
+        setIsPolicySaving(true);
+        setPolicyError(null);
+        try {
+            const request = buildPolicyRequest(policyValues);
+            const saved = editingPolicy
+                ? await updatePolicy(patientId, editingPolicy.id, request)
+                : await createPolicy(patientId, request);
+            setPolicies(prev => sortPolicies([...prev.filter(item => item.id !== saved.id), saved]));
+            setIsPolicyModalVisible(false);
+        } catch (err) {
+            console.error('Error saving insurance policy:', err);
+            setPolicyError(getPolicyErrorMessage(err));
+        } finally {
+            setIsPolicySaving(false);
+        }
+    };
+
+    const performDeletePolicy = async (policy: InsurancePolicy) => {
+        if (patientId === undefined) return;
+        setIsPolicySaving(true);
+        setPolicyError(null);
+        try {
+            await deletePolicy(patientId, policy.id);
+            setPolicies(prev => prev.filter(item => item.id !== policy.id));
+            setIsPolicyModalVisible(false);
+        } catch (err) {
+            console.error('Error removing insurance policy:', err);
+            setPolicyError(getPolicyErrorMessage(err));
+        } finally {
+            setIsPolicySaving(false);
+        }
+    };
+
+    const handleDeletePolicy = (policy: InsurancePolicy) => {
+        Alert.alert(
+            'Remove Insurance',
+            `Remove ${formatPolicyLabel(policy)} from this patient? Claims already billed to it are kept.`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                { text: 'Remove', style: 'destructive', onPress: () => performDeletePolicy(policy) },
+            ],
+        );
+    };
+
+    return (
+        <SafeAreaView style={tw`flex-1 bg-background-light dark:bg-background-dark`}>
+            <View style={tw`flex-row items-center p-4 border-b border-border-light/50 dark:border-border-dark/50`}>
+                <TouchableOpacity onPress={() => navigation.goBack()} disabled={isSaving}>
+                    <Icon name="arrow-back" size={24} color={iconColor} />
+                </TouchableOpacity>
+                <Text style={tw`flex-1 text-center text-lg font-bold text-text-light dark:text-text-dark`}>
+                    {patientId === undefined ? 'New Patient' : 'Edit Patient'}
+                </Text>
+                <TouchableOpacity onPress={handleSave} disabled={isLoading || isSaving || loadError !== null}>
+                    {isSaving ? (
+                        <ActivityIndicator size="small" color={tw.color('primary')} />
+                    ) : (
+                        <Text style={tw`text-base font-semibold text-primary`}>Save</Text>
+                    )}
+                </TouchableOpacity>
+            </View>
+
+            {isLoading ? (
+                <View style={tw`flex-1 items-center justify-center p-8`}>
+                    <ActivityIndicator size="large" color={tw.color('primary')} />
+                    <Text style={tw`mt-4 text-text-light dark:text-text-dark`}>Loading patient...</Text>
+                </View>
+            ) : loadError ? (
+                <View style={tw`flex-1 items-center justify-center p-8`}>
+                    <Icon name="error-outline" size={48} color={tw.color('danger')} />
+                    <Text style={tw`mt-4 text-center text-text-light dark:text-text-dark`}>{loadError}</Text>
+                    <TouchableOpacity style={tw`mt-4 px-6 py-3 bg-primary rounded-lg`} onPress={() => loadPatient()}>
+                        <Text style={tw`text-white font-medium`}>Retry</Text>
+                    </TouchableOpacity>
+                </View>
+            ) : (
+                <ScrollView style={tw`flex-1 px-4 pt-4`} contentContainerStyle={tw`pb-8`} keyboardShouldPersistTaps="handled">
+                    {saveError && (
+                        <View style={tw`mb-4 flex-row items-start gap-2 rounded-lg bg-red-50 dark:bg-red-900/20 p-4`}>
+                            <Icon name="error-outline" size={20} color={tw.color('danger')} />
+                            <Text style={tw`flex-1 text-red-800 dark:text-red-300`}>{saveError}</Text>
+                        </View>
+                    )}
+
+                    <SectionTitle>Demographics</SectionTitle>
+                    <View style={tw`flex-row gap-4`}>
+                        <FormField style={tw`flex-1`} label="First Name" autoCapitalize="words" textContentType="givenName" {...fieldProps('first_name')} />
+                        <FormField style={tw`flex-1`} label="Last Name" autoCapitalize="words" textContentType="familyName" {...fieldProps('last_name')} />
+                    </View>
+                    <FormField label="Date of Birth" placeholder="YYYY-MM-DD" keyboardType="numbers-and-punctuation" {...fieldProps('date_of_birth')} />
+                    <Text style={tw`text-sm font-medium pb-2 text-text-light dark:text-text-dark`}>Sex</Text>
+                    <View style={tw`flex-row rounded-lg bg-primary/20 p-1 mb-4`}>
+                        {SEX_OPTIONS.map(option => (
+                            <TouchableOpacity
+                                key={option}
+                                onPress={() => setValues(prev => ({ ...prev, sex: option }))}
+                                style={tw`flex-1 h-9 items-center justify-center rounded-md ${values.sex === option ? 'bg-primary' : ''}`}
+                            >
+                                <Text style={tw`text-sm font-semibold ${values.sex === option ? 'text-white' : 'text-primary'}`}>
+                                    {PATIENT_SEX_LABELS[option]}
+                                </Text>
+                            </TouchableOpacity>
+                        ))}
+                    </View>
+
+                    <SectionTitle>Contact</SectionTitle>
+                    <FormField label="Phone" placeholder="Optional" keyboardType="phone-pad" textContentType="telephoneNumber" {...fieldProps('phone')} />
+                    <FormField
+                        label="Email"
+                        placeholder="Optional"
+                        keyboardType="email-address"
+                        autoCapitalize="none"
+                        autoCorrect={false}
+                        textContentType="emailAddress"
+                        {...fieldProps('email')}
+                    />
+
+                    <SectionTitle>Billing Address</SectionTitle>
+                    <FormField label="Street Address" placeholder="Optional" textContentType="streetAddressLine1" {...fieldProps('address_line1')} />
+                    <FormField label="Apartment, Suite, etc." placeholder="Optional" textContentType="streetAddressLine2" {...fieldProps('address_line2')} />
+                    <View style={tw`flex-row gap-4`}>
+                        <FormField style={tw`flex-1`} label="City" textContentType="addressCity" {...fieldProps('city')} />
+                        <FormField style={tw`w-24`} label="State" autoCapitalize="characters" textContentType="addressState" {...fieldProps('state')} />
+                    </View>
+                    <View style={tw`flex-row gap-4`}>
+                        <FormField style={tw`flex-1`} label="Postal Code" autoCapitalize="characters" textContentType="postalCode" {...fieldProps('postal_code')} />
+                        <FormField style={tw`w-24`} label="Country" autoCapitalize="characters" maxLength={2} {...fieldProps('country')} />
+                    </View>
+
+                    {patientId !== undefined && (
+                        <>
+                            <SectionTitle>Insurance</SectionTitle>
+                            <View style={tw`bg-surface-light dark:bg-surface-dark rounded-xl shadow-sm px-4 mb-4 border border-border-light/50 dark:border-border-dark/50`}>
+                                {isPoliciesLoading ? (
+                                    <ActivityIndicator style={tw`py-4`} size="small" color={tw.color('primary')} />
+                                ) : policies.length === 0 ? (
+                                    <Text style={tw`py-4 text-sm text-text-light/70 dark:text-text-dark/70`}>No insurance on file. The patient pays the full amount.</Text>
+                                ) : (
+                                    policies.map(policy => (
+                                        <TouchableOpacity
+                                            key={policy.id}
+                                            onPress={() => openPolicy(policy)}
+                                            style={tw`flex-row items-center gap-3 py-3 border-b border-border-light/50 dark:border-border-dark/50`}
+                                        >
+                                            <Icon name="health-and-safety" size={22} color={iconColor} />
+                                            <View style={tw`flex-1`}>
+                                                <Text style={tw`text-sm font-medium text-text-light dark:text-text-dark`}>{formatPolicyLabel(policy)}</Text>
+                                                <Text style={tw`text-xs text-text-light/70 dark:text-text-dark/70`}>
+                                                    Member {policy.member_id}{policy.plan_name ? ` · ${policy.plan_name}` : ''}
+                                                    {isPolicyActive(policy) ? '' : ' · Coverage not active'}
+                                                </Text>
+                                            </View>
+                                            <Icon name="chevron-right" size={20} color={iconColor} />
+                                        </TouchableOpacity>
+                                    ))
+                                )}
+                                <TouchableOpacity onPress={() => openPolicy(null)} style={tw`flex-row items-center justify-center gap-1 py-3`}>
+                                    <Icon name="add" size={20} color={tw.color('primary')} />
+                                    <Text style={tw`text-sm font-semibold text-primary`}>Add Insurance</Text>
+                                </TouchableOpacity>
+                            </View>
+                        </>
+                    )}
+                </ScrollView>
+            )}
+            <PolicyModal
+                visible={isPolicyModalVisible}
+                policy={editingPolicy}
+                isSubmitting={isPolicySaving}
+                error={policyError}
+                onSubmit={handleSavePolicy}
+                onDelete={handleDeletePolicy}
+                onClose={() => setIsPolicyModalVisible(false)}
+            />
+        </SafeAreaView>
+    );
+};
+
+export default PatientFormScreen;
@@ -0,0 +1,248 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { View, Text, TouchableOpacity, FlatList, ActivityIndicator, useColorScheme } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import type { RootStackParamList } from '../types';
+import tw from '../lib/tailwind';
+import { fetchPatientInvoices } from '../api/invoiceApi';
+import { fetchPatient } from '../api/patientApi';
+import { CancelledError } from '../api/errors';
+import { Invoice } from '../types/invoice';
+import { LedgerEntry, LedgerEntryType } from '../types/ledger';
+import { Patient } from '../types/patient';
+import { loadInvoiceCache, onInvoicesChanged } from '../utils/invoiceCache';
+import { loadPatientCache, onPatientsChanged } from '../utils/patientCache';
+import { formatCurrency } from '../utils/financialMetrics';
+import { formatInvoiceDate } from '../utils/invoiceFormatting';
+import { DEFAULT_CURRENCY, listCurrencies } from '../utils/currency';
+import { buildPatientLedger, LEDGER_ENTRY_LABELS } from '../utils/patientLedger';
+import { formatPatientLabel, getPatientName } from '../utils/patients';
+import { usePermission } from '../hooks/usePermission';
+import Can from '../components/Can';
+import StatementModal from '../components/StatementModal';
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList, 'PatientLedger'>;
+type PatientLedgerRouteProp = RouteProp<RootStackParamList, 'PatientLedger'>;
+
+const ENTRY_ICONS: Record<LedgerEntryType, string> = {
+    invoice: 'receipt-long',
+    payment: 'payments',
+    refund: 'undo',
+    adjustment: 'tune',
+};
+
+const EntryRow: React.FC<{ entry: LedgerEntry; currency: string; onPress: (invoiceId: number) => void }> = ({ entry, currency, onPress }) => {
+    const isDark = useColorScheme() === 'dark';
+    const iconColor = isDark ? tw.color('text-dark') : tw.color('text-light');
+    const isCredit = entry.amount_cents < 0;
+
+    return (
+        <TouchableOpacity
+            onPress={() => onPress(entry.invoice_id)}
+            style={tw`flex-row items-center gap-3 py-3 border-b border-border-light/50 dark:border-border-dark/50`}
+        >
+            <Icon name={ENTRY_ICONS[entry.type]} size={22} color={iconColor} />
+            <View style={tw`flex-1`}>
+                <Text style={tw`text-sm font-medium text-text-light dark:text-text-dark`} numberOfLines={1}>{entry.description}</Text>
+                <Text style={tw`text-xs text-text-light/70 dark:text-text-dark/70`}>
+                    {entry.date ? formatInvoiceDate(entry.date) : 'No date'} · {LEDGER_ENTRY_LABELS[entry.type]} · #{entry.invoice_number}
+                </Text>
+            </View>
+            <View style={tw`items-end`}>
+                <Text style={tw`text-sm font-semibold ${isCredit ? 'text-success' : 'text-text-light dark:text-text-dark'}`}>
+                    {isCredit ? '−' : '+'}{formatCurrency(Math.abs(entry.amount_cents), currency)}
+                </Text>
+                <Text style={tw`text-xs text-text-light/70 dark:text-text-dark/70`}>Bal. {formatCurrency(entry.balance_cents, currency)}</Text>
+            </View>
+        </TouchableOpacity>
+    );
+};
+
+const PatientLedgerScreen = () => {
+    const navigation = useNavigation<NavigationProp>();
+    const { params } = useRoute<PatientLedgerRouteProp>();
+    const { patientId } = params;
+    const [invoices, setInvoices] = useState<Invoice[]>([]);
+    const [patient, setPatient] = useState<Patient | undefined>(undefined);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [selectedCurrency, setSelectedCurrency] = useState<string | null>(null);
+    const [isStatementVisible, setIsStatementVisible] = useState(false);
+    const canViewPatients = usePermission('patients:view');
+    const isDark = useColorScheme() === 'dark';
+    const iconColor = isDark ? tw.color('text-dark') : tw.color('text-light');
+
+    const loadLedger = useCallback(async (signal?: AbortSignal) => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            setInvoices(await fetchPatientInvoices(patientId, { signal }));
+        } catch (err) {
+            if (err instanceof CancelledError) return;
+            console.error('Error loading patient invoices:', err);
+
+            // Cached invoices may lack payment details, but still give the balances
+            const cachedInvoices = await loadInvoiceCache();
+            if (cachedInvoices) {
+                setInvoices(cachedInvoices.filter(invoice => invoice.patient_id === patientId));
+            } else {
+                setError('Unable to load the patient\'s account. Please try again.');
+            }
+        } finally {
+            if (!signal?.aborted) {
+                setIsLoading(false);
+            }
+        }
+    }, [patientId]);
+
+    // The patient record adds the name and billing address; the ledger works without it
+    const loadPatient = useCallback(async (signal?: AbortSignal) => {
+        if (!canViewPatients) return;
+
+        const cachedPatient = (await loadPatientCache())?.find(item => item.id === patientId);
+        if (cachedPatient) {
+            setPatient(cachedPatient);
+        }
+        try {
+            setPatient(await fetchPatient(patientId, { signal }));
+        } catch (err) {
+            if (err instanceof CancelledError) return;
+            console.error('Error loading patient:', err);
+        }
+    }, [patientId, canViewPatients]);
+
+    useEffect(() => {
+        const controller = new AbortController();
+        loadLedger(controller.signal);
+        loadPatient(controller.signal);
+        return () => controller.abort();
+    }, [loadLedger, loadPatient]);
+
+    // Payments, refunds and voids made from here change the ledger
+    useEffect(() => onInvoicesChanged(() => loadLedger()), [loadLedger]);
+    useEffect(() => onPatientsChanged(() => loadPatient()), [loadPatient]);
+
+    // Each currency has its own ledger rather than one mixed balance
+    const currencies = useMemo(() => listCurrencies(invoices), [invoices]);
+    const currency = selectedCurrency && currencies.includes(selectedCurrency)
+        ? selectedCurrency
+        : currencies[0] ?? DEFAULT_CURRENCY;
+    const ledger = useMemo(() => buildPatientLedger(patientId, invoices, currency), [patientId, invoices, currency]);
+    const newestFirst = useMemo(() => [...ledger.entries].reverse(), [ledger]);
+
+    const patientName = patient ? getPatientName(patient) : invoices.find(invoice => invoice.patient_name)?.patient_name;
+
+    const openInvoice = useCallback((invoiceId: number) => {
+        navigation.navigate('InvoiceDetail', { invoiceId });
+    }, [navigation]);
+
+    return (
+        <SafeAreaView style={tw`flex-1 bg-background-light dark:bg-background-dark`}>
+            <View style={tw`flex-row items-center p-4 border-b border-border-light/50 dark:border-border-dark/50`}>
+                <TouchableOpacity onPress={() => navigation.goBack()}>
+                    <Icon name="arrow-back" size={24} color={iconColor} />
+                </TouchableOpacity>
+                <Text style={tw`flex-1 text-center text-lg font-bold text-text-light dark:text-text-dark`} numberOfLines={1}>
+                    {formatPatientLabel(patientId, patientName)}
+                </Text>
+                <Can permission="patients:manage" fallback={<View style={tw`w-6`} />}>
+                    <TouchableOpacity onPress={() => navigation.navigate('PatientForm', { patientId })}>
+                        <Icon name="edit" size={24} color={iconColor} />
+                    </TouchableOpacity>
+                </Can>
+            </View>
+
+            {isLoading && invoices.length === 0 ? (
+                <View style={tw`flex-1 items-center justify-center p-8`}>
+                    <ActivityIndicator size="large" color={tw.color('primary')} />
+                    <Text style={tw`mt-4 text-text-light dark:text-text-dark`}>Loading account...</Text>
+                </View>
+            ) : error ? (
+                <View style={tw`flex-1 items-center justify-center p-8`}>
+                    <Icon name="error-outline" size={48} color={tw.color('danger')} />
+                    <Text style={tw`mt-4 text-center text-text-light dark:text-text-dark`}>{error}</Text>
+                    <TouchableOpacity style={tw`mt-4 px-6 py-3 bg-primary rounded-lg`} onPress={() => loadLedger()}>
+                        <Text style={tw`text-white font-medium`}>Retry</Text>
+                    </TouchableOpacity>
+                </View>
+            ) : (
+                <>
+                    <FlatList
+                        ListHeaderComponent={
+                            <View style={tw`pt-6`}>
+                                {currencies.length > 1 && (
+                                    <View style={tw`flex-row flex-wrap justify-center gap-2 mb-4`}>
+                                        {currencies.map(code => (
+                                            <TouchableOpacity
+                                                key={code}
+                                                onPress={() => setSelectedCurrency(code)}
+                                                style={tw`h-8 items-center justify-center rounded-lg px-4 ${currency === code ? 'bg-primary/20' : 'bg-slate-200 dark:bg-slate-700'}`}
+                                            >
+                                                <Text style={tw`text-sm font-medium ${currency === code ? 'text-primary' : 'text-text-light/80 dark:text-text-dark/80'}`}>
+                                                    {code}
+                                                </Text>
+                                            </TouchableOpacity>
+                                        ))}
+                                    </View>
+                                )}
+                                <View style={tw`items-center mb-6`}>
+                                    <Text style={tw`text-sm text-text-light/70 dark:text-text-dark/70`}>Account Balance</Text>
+                                    <Text style={tw`text-4xl font-bold text-text-light dark:text-text-dark`}>{formatCurrency(ledger.balance_cents, ledger.currency)}</Text>
+                                    {ledger.insurance_balance_cents > 0 && (
+                                        <Text style={tw`text-sm text-text-light/70 dark:text-text-dark/70`}>
+                                            Includes {formatCurrency(ledger.insurance_balance_cents, ledger.currency)} pending insurance
+                                        </Text>
+                                    )}
+                                </View>
+
+                                <Text style={tw`text-lg font-bold pb-2 text-text-light dark:text-text-dark`}>Aging</Text>
+                                <View style={tw`flex-row flex-wrap bg-surface-light dark:bg-surface-dark rounded-xl shadow-sm p-2 mb-6 border border-border-light/50 dark:border-border-dark/50`}>
+                                    {ledger.aging.map(bucket => (
+                                        <View key={bucket.id} style={tw`w-1/3 p-2`}>
+                                            <Text style={tw`text-xs text-text-light/70 dark:text-text-dark/70`}>{bucket.label}</Text>
+                                            <Text style={tw`text-sm font-semibold ${bucket.balanceCents > 0 && bucket.id !== 'current' ? 'text-danger' : 'text-text-light dark:text-text-dark'}`}>
+                                                {formatCurrency(bucket.balanceCents, ledger.currency)}
+                                            </Text>
+                                        </View>
+                                    ))}
+                                </View>
+
+                                <Text style={tw`text-lg font-bold pb-2 text-text-light dark:text-text-dark`}>Activity</Text>
+                                {newestFirst.length === 0 && (
+                                    <Text style={tw`py-4 text-sm text-text-light/70 dark:text-text-dark/70`}>No invoices for this patient</Text>
+                                )}
+                            </View>
+                        }
+                        data={newestFirst}
+                        renderItem={({ item }) => <EntryRow entry={item} currency={ledger.currency} onPress={openInvoice} />}
+                        keyExtractor={item => item.id}
+                        contentContainerStyle={tw`px-4 pb-32`}
+                        refreshing={isLoading && invoices.length > 0}
+                        onRefresh={() => loadLedger()}
+                    />
+                    <View style={tw`absolute bottom-0 left-0 right-0 p-4 bg-background-light dark:bg-background-dark border-t border-border-light/50 dark:border-border-dark/50`}>
+                        <TouchableOpacity
+                            onPress={() => setIsStatementVisible(true)}
+                            disabled={ledger.entries.length === 0}
+                            style={tw`flex-row items-center justify-center gap-2 rounded-xl h-14 bg-primary shadow-lg ${ledger.entries.length === 0 ? 'opacity-50' : ''}`}
+                        >
+                            <Icon name="description" size={22} color="#FFFFFF" />
+                            <Text style={tw`text-white text-base font-bold`}>Generate Statement</Text>
+                        </TouchableOpacity>
+                    </View>
+                    <StatementModal
+                        visible={isStatementVisible}
+                        ledger={ledger}
+                        patient={patient}
+                        patientName={patientName}
+                        onClose={() => setIsStatementVisible(false)}
+                    />
+                </>
+            )}
+        </SafeAreaView>
+    );
+};
+
+export default PatientLedgerScreen;
@@ -0,0 +1,242 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { View, Text, TextInput, TouchableOpacity, FlatList, useColorScheme, ActivityIndicator } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import type { RootStackParamList } from '../types';
+import tw from '../lib/tailwind';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { fetchPatients, searchPatients } from '../api/patientApi';
+import { CancelledError } from '../api/errors';
+import { Patient } from '../types/patient';
+import { loadPatientCache, savePatientCache, onPatientsChanged } from '../utils/patientCache';
+import { filterPatients, formatDateOfBirth, getPatientName, sortPatients } from '../utils/patients';
+import { useDebouncedValue } from '../hooks/useDebouncedValue';
+import { usePermission } from '../hooks/usePermission';
+import Can from '../components/Can';
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList, 'Main'>;
+
+interface PatientRowProps {
+    patient: Patient;
+    onPress?: (patient: Patient) => void; // omitted when the user can open neither the account nor the form
+}
+
+const PatientRow = React.memo(({ patient, onPress }: PatientRowProps) => {
+    const isDark = useColorScheme() === 'dark';
+    const mutedIconColor = isDark ? tw.color('border-dark') : tw.color('border-light');
+    const dateOfBirth = formatDateOfBirth(patient.date_of_birth);
+    const contact = [patient.phone, patient.email].filter(Boolean).join(' · ');
+
+    return (
+        <TouchableOpacity
+            onPress={() => onPress?.(patient)}
+            disabled={!onPress}
+            activeOpacity={0.7}
+            style={tw`flex-row items-center gap-4 rounded-xl bg-surface-light dark:bg-surface-dark p-4 shadow-sm border border-border-light/50 dark:border-border-dark/50`}
+        >
+            <View style={tw`h-10 w-10 items-center justify-center rounded-full bg-primary/20`}>
+                <Text style={tw`text-base font-bold text-primary`}>
+                    {`${patient.first_name.charAt(0)}${patient.last_name.charAt(0)}`.toUpperCase()}
+                </Text>
+            </View>
+            <View style={tw`flex-1`}>
+                <Text style={tw`text-base font-bold text-text-light dark:text-text-dark`} numberOfLines={1}>{getPatientName(patient)}</Text>
+                <Text style={tw`text-sm text-text-light/70 dark:text-text-dark/70`}>
+                    P-{patient.id}{dateOfBirth ? ` · Born ${dateOfBirth}` : ''}
+                </Text>
+                {contact.length > 0 && (
+                    <Text style={tw`text-sm text-text-light/70 dark:text-text-dark/70`} numberOfLines={1}>{contact}</Text>
+                )}
+            </View>
+            {onPress && <Icon name="chevron-right" size={24} color={mutedIconColor} />}
+        </TouchableOpacity>
+    );
+});
+
+const RowSeparator = () => <View style={tw`h-3`} />;
+
+const PatientsScreen = () => {
+    const [patients, setPatients] = useState<Patient[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isRefreshing, setIsRefreshing] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [searchQuery, setSearchQuery] = useState('');
+    const [searchResults, setSearchResults] = useState<Patient[] | null>(null); // server matches for the current query
+    const [isSearching, setIsSearching] = useState(false);
+    const debouncedQuery = useDebouncedValue(searchQuery.trim(), SEARCH_DEBOUNCE_MS);
+    const canManagePatients = usePermission('patients:manage');
+    const canViewInvoices = usePermission('invoices:view');
+    const navigation = useNavigation<NavigationProp>();
+    const isDark = useColorScheme() === 'dark';
+    const iconColor = isDark ? tw.color('text-dark') : tw.color('text-light');
+    const mutedIconColor = isDark ? tw.color('border-dark') : tw.color('border-light');
+
+    const loadPatients = useCallback(async (isRefresh = false) => {
+        if (isRefresh) {
+            setIsRefreshing(true);
+        } else {
+            setIsLoading(true);
+        }
+        setError(null);
+
+        try {
+            // Show the cached directory while the fresh copy loads (skip on refresh)
+            if (!isRefresh) {
+                const cachedPatients = await loadPatientCache();
+                if (cachedPatients) {
+                    setPatients(cachedPatients);
+                }
+            }
+
+            const freshPatients = await fetchPatients();
+            await savePatientCache(freshPatients);
+            setPatients(freshPatients);
+        } catch (err) {
+            console.error('Error loading patients:', err);
+
+            const cachedPatients = await loadPatientCache();
+            if (cachedPatients) {
+                setPatients(cachedPatients);
+            } else {
+                setError('Unable to load patients');
+                setPatients([]);
+            }
+        } finally {
+            setIsLoading(false);
+            setIsRefreshing(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadPatients();
+    }, [loadPatients]);
+
+    // Reload after a patient is created or edited
+    useEffect(() => onPatientsChanged(async () => {
+        const cachedPatients = await loadPatientCache();
+        if (cachedPatients) {
+            setPatients(cachedPatients);
+        }
+        loadPatients(true);
+    }), [loadPatients]);
+
+    // The server also searches patients not yet in the local directory;
+    // until it answers, or if it can't, local matches are shown
+    useEffect(() => {
+        setSearchResults(null);
+        if (!debouncedQuery) {
+            setIsSearching(false);
+            return;
+        }
+
+        const controller = new AbortController();
+        setIsSearching(true);
+        searchPatients(debouncedQuery, { signal: controller.signal })
+            .then(results => setSearchResults(sortPatients(results)))
+            .catch(err => {
+                if (err instanceof CancelledError) return;
+                console.error('Error searching patients:', err);
+            })
+            .finally(() => {
+                if (!controller.signal.aborted) {
+                    setIsSearching(false);
+                }
+            });
+        return () => controller.abort();
+    }, [debouncedQuery]);
+
+    const visiblePatients = useMemo(
+        () => searchResults ?? sortPatients(filterPatients(patients, debouncedQuery)),
+        [searchResults, patients, debouncedQuery],
+    );
+
+    // Billing staff land on the patient's account; the form is reachable from there
+    const openPatient = useCallback((patient: Patient) => {
+        if (canViewInvoices) {
+            navigation.navigate('PatientLedger', { patientId: patient.id });
+        } else {
+            navigation.navigate('PatientForm', { patientId: patient.id });
+        }
+    }, [navigation, canViewInvoices]);
+
+    return (
+        <SafeAreaView style={tw`flex-1 bg-background-light dark:bg-background-dark`}>
+            <View style={tw`sticky top-0 z-10 flex-row items-center justify-between p-4 bg-background-light dark:bg-background-dark`}>
+                <Icon name="menu" size={24} color={iconColor} />
+                <Text style={tw`flex-1 text-center text-lg font-bold text-text-light dark:text-text-dark`}>Patients</Text>
+                <View style={tw`w-6`} />
+            </View>
+            <View style={tw`px-4 pb-4`}>
+                <View style={tw`flex-row items-center rounded-lg bg-slate-100 dark:bg-slate-800 px-3 h-12`}>
+                    <Icon name="search" size={22} color={mutedIconColor} />
+                    <TextInput
+                        style={tw`flex-1 px-2 text-text-light dark:text-text-dark`}
+                        placeholder="Search name, patient ID, email or phone"
+                        placeholderTextColor={mutedIconColor}
+                        autoCapitalize="none"
+                        autoCorrect={false}
+                        returnKeyType="search"
+                        value={searchQuery}
+                        onChangeText={setSearchQuery}
+                    />
+                    {isSearching && <ActivityIndicator size="small" color={tw.color('primary')} />}
+                    {searchQuery.length > 0 && (
+                        <TouchableOpacity onPress={() => setSearchQuery('')}>
+                            <Icon name="close" size={20} color={mutedIconColor} />
+                        </TouchableOpacity>
+                    )}
+                </View>
+            </View>
+            <FlatList
+                ListHeaderComponent={
+                    <>
+                        {isLoading && (
+                            <View style={tw`items-center justify-center py-8`}>
+                                <ActivityIndicator size="large" color={tw.color('primary')} />
+                                <Text style={tw`mt-4 text-text-light/70 dark:text-text-dark/70`}>Loading patients...</Text>
+                            </View>
+                        )}
+                        {error && !isLoading && (
+                            <View style={tw`mb-4 items-center rounded-lg bg-red-50 dark:bg-red-900/20 p-4`}>
+                                <Text style={tw`text-red-800 dark:text-red-300`}>{error}</Text>
+                                <TouchableOpacity style={tw`mt-3 px-6 py-2 bg-primary rounded-lg`} onPress={() => loadPatients()}>
+                                    <Text style={tw`text-white font-medium`}>Retry</Text>
+                                </TouchableOpacity>
+                            </View>
+                        )}
+                        {!isLoading && !error && visiblePatients.length === 0 && (
+                            <View style={tw`items-center justify-center py-8`}>
+                                <Icon name="people-outline" size={48} color={mutedIconColor} />
+                                <Text style={tw`mt-4 text-base text-text-light/70 dark:text-text-dark/70`}>
+                                    {debouncedQuery ? 'No matching patients' : 'No patients yet'}
+                                </Text>
+                            </View>
+                        )}
+                    </>
+                }
+                data={isLoading && patients.length === 0 ? [] : visiblePatients}
+                renderItem={({ item }) => <PatientRow patient={item} onPress={canViewInvoices || canManagePatients ? openPatient : undefined} />}
+                keyExtractor={item => String(item.id)}
+                contentContainerStyle={tw`px-4 pb-24`}
+                ItemSeparatorComponent={RowSeparator}
+                keyboardShouldPersistTaps="handled"
+                refreshing={isRefreshing}
+                onRefresh={() => loadPatients(true)}
+                initialNumToRender={12}
+                maxToRenderPerBatch={12}
+                windowSize={7}
+                removeClippedSubviews
+            />
+            <Can permission="patients:manage">
+                <TouchableOpacity onPress={() => navigation.navigate('PatientForm')} style={tw`absolute bottom-6 right-6 flex h-14 w-14 items-center justify-center rounded-2xl bg-primary shadow-lg`}>
+                    <Icon name="person-add" size={28} color="#FFFFFF" />
+                </TouchableOpacity>
+            </Can>
+        </SafeAreaView>
+    );
+};
+
+export default PatientsScreen;
@@ -1,32 +1,204 @@
-
-import React, { useState } from 'react';
-import { View, Text, TextInput, TouchableOpacity, ScrollView, Modal, useColorScheme } from 'react-native';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { View, Text, TextInput, TouchableOpacity, ScrollView, Modal, ActivityIndicator, Alert, useColorScheme } from 'react-native';
 import Icon from 'react-native-vector-icons/MaterialIcons';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import CheckBox from '@react-native-community/checkbox';
-import { useNavigation } from '@react-navigation/native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import type { RootStackParamList } from '../types';
 import tw from '../lib/tailwind';
+import { fetchInvoice } from '../api/invoiceApi';
+import { ApiError, CancelledError, NetworkError, PaymentDeclinedError, TimeoutError, ValidationError } from '../api/errors';
+import { Invoice } from '../types/invoice';
+import { CardFormValues, Payment } from '../types/payment';
+import { loadInvoiceCache, notifyInvoicesChanged, updateCachedInvoice } from '../utils/invoiceCache';
+import { formatCurrency, parseAmountToCents } from '../utils/financialMetrics';
+import { formatAmountInput, getCurrencySymbol, getMinorUnitDigits, normalizeCurrency } from '../utils/currency';
+import { formatInvoiceDateTime } from '../utils/invoiceFormatting';
+import { isCardFormValid, toCardDetails, validateCardForm } from '../utils/cardValidation';
+import { generateIdempotencyKey } from '../utils/idempotency';
+import { getAmountPaidCents, getPatientBalanceCents, getPatientPortionCents } from '../utils/invoiceTotals';
+import { formatPatientLabel } from '../utils/patients';
+import { processCardPayment } from '../services/payments/paymentService';
+import { shareInvoicePdf } from '../services/documents/invoicePdf';
+import CardInput from '../components/CardInput';
+import LineItemList from '../components/LineItemList';
+import { usePatientNames } from '../hooks/usePatientNames';
+
+type PaymentRouteProp = RouteProp<RootStackParamList, 'Payment'>;
+
+// Map payment failures to user-facing messages
+const getPaymentErrorMessage = (err: unknown): string => {
+    if (err instanceof PaymentDeclinedError) {
+        return `Card declined: ${err.message}`;
+    }
+    if (err instanceof ValidationError) {
+        return err.message;
+    }
+    if (err instanceof TimeoutError) {
+        return 'The payment timed out. Check the invoice status before trying again.';
+    }
+    if (err instanceof NetworkError) {
+        return 'Unable to connect to server. Please check your network connection.';
+    }
+    if (err instanceof ApiError && err.message) {
+        return err.message;
+    }
+    return 'Payment could not be processed. Please try again.';
+};
 
 const PaymentScreen = () => {
+    const { invoiceId } = useRoute<PaymentRouteProp>().params;
+    const [invoice, setInvoice] = useState<Invoice | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const [card, setCard] = useState<CardFormValues>({ number: '', expiry: '', cvc: '' });
+    const [amountText, setAmountText] = useState('');
     const [saveCard, setSaveCard] = useState(false);
-    const [isSuccessModalVisible, setSuccessModalVisible] = useState(false);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [paymentError, setPaymentError] = useState<string | null>(null);
+    const [payment, setPayment] = useState<Payment | null>(null);
+    const [remainingBalanceCents, setRemainingBalanceCents] = useState(0);
+    const [isSharingReceipt, setIsSharingReceipt] = useState(false);
+    // One key per payment attempt: retries and double taps reuse it so the card is charged once
+    const idempotencyKeyRef = useRef<string | null>(null);
+    // Synchronous guard against a second tap before the submitting state re-renders
+    const submittingRef = useRef(false);
     const navigation = useNavigation();
+    const patientNames = usePatientNames();
     const isDark = useColorScheme() === 'dark';
     
     const iconColor = isDark ? tw.color('text-dark') : tw.color('text-light');
-    const placeholderTextColor = isDark ? tw.color('border-dark') : tw.color('border-light');
-    const mutedIconColor = isDark ? tw.color('border-dark') : tw.color('border-light');
     const checkboxTintColor = isDark ? tw.color('text-dark') : tw.color('text-light');
 
-    const handlePayment = () => {
-        setSuccessModalVisible(true);
+    const loadInvoice = useCallback(async (signal?: AbortSignal) => {
+        setIsLoading(true);
+        setLoadError(null);
+
+        try {
+            setInvoice(await fetchInvoice(invoiceId, { signal }));
+        } catch (err) {
+            if (err instanceof CancelledError) return;
+            console.error('Error loading invoice for payment:', err);
+
+            // Show the cached balance when offline; submitting will still need the server
+            const cachedInvoices = await loadInvoiceCache();
+            const cachedInvoice = cachedInvoices?.find(inv => inv.id === invoiceId);
+            if (cachedInvoice) {
+                setInvoice(cachedInvoice);
+            } else {
+                setLoadError('Unable to load invoice. Please try again.');
+            }
+        } finally {
+            if (!signal?.aborted) {
+                setIsLoading(false);
+            }
+        }
+    }, [invoiceId]);
+
+    useEffect(() => {
+        const controller = new AbortController();
+        loadInvoice(controller.signal);
+        return () => controller.abort();
+    }, [loadInvoice]);
+
+    // Patients pay only their portion; what insurers owe is settled through claims
+    const balanceCents = invoice ? getPatientBalanceCents(invoice) : 0;
+    const insuranceCents = invoice ? invoice.total_amount_cents - getPatientPortionCents(invoice) : 0;
+    const amountPaidCents = invoice ? getAmountPaidCents(invoice) : 0;
+    const currency = invoice?.currency;
+    const canPay = balanceCents > 0;
+
+    // Default to paying the full balance whenever it changes (e.g. after a partial payment)
+    useEffect(() => {
+        setAmountText(balanceCents > 0 ? formatAmountInput(balanceCents, currency) : '');
+    }, [balanceCents, currency]);
+
+    const amountCents = parseAmountToCents(amountText, currency);
+    const amountError = amountCents === null || amountCents <= 0
+        ? 'Enter an amount greater than zero.'
+        : amountCents > balanceCents
+            ? `Amount cannot exceed the balance of ${formatCurrency(balanceCents, currency)}.`
+            : null;
+    const cardErrors = validateCardForm(card);
+    const isCardValid = isCardFormValid(cardErrors);
+    const isPayDisabled = !canPay || amountError !== null || !isCardValid || isSubmitting;
+
+    const handlePayment = async () => {
+        if (!invoice || !canPay || amountCents === null || amountError || !isCardValid || submittingRef.current) return;
+
+        submittingRef.current = true;
+        setIsSubmitting(true);
+        setPaymentError(null);
+
+        if (!idempotencyKeyRef.current) {
+            idempotencyKeyRef.current = generateIdempotencyKey('pay');
+        }
+
+        try {
+            const result = await processCardPayment({
+                invoiceId: invoice.id,
+                amountCents,
+                currency: normalizeCurrency(invoice.currency),
+                card: toCardDetails(card),
+                idempotencyKey: idempotencyKeyRef.current,
+                saveCard,
+            });
+
+            // Refresh the invoice so lists and metrics pick up the new status and balance
+            let remaining = Math.max(balanceCents - result.amount_cents, 0);
+            try {
+                const updatedInvoice = await fetchInvoice(invoice.id);
+                setInvoice(updatedInvoice);
+                remaining = getPatientBalanceCents(updatedInvoice);
+                await updateCachedInvoice(updatedInvoice);
+            } catch (refreshError) {
+                console.error('Error refreshing invoice after payment:', refreshError);
+            }
+            setRemainingBalanceCents(remaining);
+            setPayment(result);
+            notifyInvoicesChanged();
+        } catch (err) {
+            console.error('Payment error:', err);
+            setPaymentError(getPaymentErrorMessage(err));
+        } finally {
+            submittingRef.current = false;
+            setIsSubmitting(false);
+        }
+    };
+
+    // A different card or amount is a new payment attempt with its own idempotency key
+    const handleCardChange = (values: CardFormValues) => {
+        idempotencyKeyRef.current = null;
+        setCard(values);
+    };
+
+    const handleAmountChange = (text: string) => {
+        idempotencyKeyRef.current = null;
+        setAmountText(text);
+    };
+
+    const handleShareReceipt = async () => {
+        if (!invoice || !payment || isSharingReceipt) return;
+        setIsSharingReceipt(true);
+        try {
+            await shareInvoicePdf(invoice, payment);
+        } catch (err) {
+            console.error('Error sharing receipt:', err);
+            Alert.alert('Receipt Failed', 'Unable to create the receipt PDF. Please try again.');
+        } finally {
+            setIsSharingReceipt(false);
+        }
     };
 
     const closeModal = () => {
-        setSuccessModalVisible(false);
+        setPayment(null);
         navigation.goBack();
     };
 
+    const patientLabel = invoice
+        ? formatPatientLabel(invoice.patient_id, invoice.patient_name ?? patientNames.get(invoice.patient_id))
+        : '';
+
     return (
         <SafeAreaView style={tw`flex-1 bg-background-light dark:bg-background-dark`}>
             <View style={tw`flex-row items-center p-4 border-b border-border-light/50 dark:border-border-dark/50`}>
@@ -38,76 +210,166 @@ const PaymentScreen = () => {
                     <Icon name="cloud-done" size={24} color="#00BFA5" />
                 </TouchableOpacity>
             </View>
-            <ScrollView style={tw`flex-1 px-4 pt-6`} contentContainerStyle={{ paddingBottom: 120 }}>
-                <View style={tw`bg-surface-light dark:bg-surface-dark rounded-xl shadow-sm p-4 mb-6 border border-border-light/50 dark:border-border-dark/50`}>
-                    <View style={tw`flex-row justify-between py-2 border-b border-border-light/50 dark:border-border-dark/50`}>
-                        <Text style={tw`text-sm text-text-light/70 dark:text-text-dark/70`}>Patient Name</Text>
-                        <Text style={tw`text-sm font-semibold text-text-light dark:text-text-dark`}>Jessica Smith</Text>
-                    </View>
-                    <View style={tw`flex-row justify-between py-2 border-b border-border-light/50 dark:border-border-dark/50`}>
-                        <Text style={tw`text-sm text-text-light/70 dark:text-text-dark/70`}>Invoice #</Text>
-                        <Text style={tw`text-sm font-semibold text-text-light dark:text-text-dark`}>INV-2024-00123</Text>
-                    </View>
-                    <View style={tw`flex-row justify-between py-2`}>
-                        <Text style={tw`text-sm text-text-light/70 dark:text-text-dark/70`}>Amount Due</Text>
-                        <Text style={tw`text-sm font-bold text-primary`}>$150.00</Text>
-                    </View>
+            {isLoading ? (
+                <View style={tw`flex-1 items-center justify-center p-8`}>
+                    <ActivityIndicator size="large" color={tw.color('primary')} />
+                    <Text style={tw`mt-4 text-text-light dark:text-text-dark`}>Loading invoice...</Text>
                 </View>
-                <Text style={tw`text-lg font-bold pb-2 pt-4 text-text-light dark:text-text-dark`}>Payment Details</Text>
-                <View style={tw`space-y-4`}>
-                    <View>
-                        <Text style={tw`text-base font-medium pb-2 text-text-light dark:text-text-dark`}>Card Number</Text>
-                        <View style={tw`flex-row items-center w-full rounded-lg border border-border-light dark:border-border-dark bg-background-light dark:bg-background-dark h-14 px-4`}>
-                            <TextInput style={tw`flex-1 text-text-light dark:text-text-dark`} placeholder="0000 0000 0000 0000" placeholderTextColor={placeholderTextColor} keyboardType="numeric" />
-                            <Icon name="credit-card" size={24} color={mutedIconColor} />
+            ) : loadError || !invoice ? (
+                <View style={tw`flex-1 items-center justify-center p-8`}>
+                    <Icon name="error-outline" size={48} color={tw.color('danger')} />
+                    <Text style={tw`mt-4 text-center text-text-light dark:text-text-dark`}>{loadError ?? 'Invoice not found.'}</Text>
+                    <TouchableOpacity style={tw`mt-4 px-6 py-3 bg-primary rounded-lg`} onPress={() => loadInvoice()}>
+                        <Text style={tw`text-white font-medium`}>Retry</Text>
+                    </TouchableOpacity>
+                </View>
+            ) : (
+                <ScrollView style={tw`flex-1 px-4 pt-6`} contentContainerStyle={tw`pb-32`}>
+                    <View style={tw`bg-surface-light dark:bg-surface-dark rounded-xl shadow-sm p-4 mb-6 border border-border-light/50 dark:border-border-dark/50`}>
+                        <View style={tw`flex-row justify-between py-2 border-b border-border-light/50 dark:border-border-dark/50`}>
+                            <Text style={tw`text-sm text-text-light/70 dark:text-text-dark/70`}>Patient</Text>
+                            <Text style={tw`text-sm font-semibold text-text-light dark:text-text-dark`}>{patientLabel}</Text>
+                        </View>
+                        <View style={tw`flex-row justify-between py-2 border-b border-border-light/50 dark:border-border-dark/50`}>
+                            <Text style={tw`text-sm text-text-light/70 dark:text-text-dark/70`}>Invoice #</Text>
+                            <Text style={tw`text-sm font-semibold text-text-light dark:text-text-dark`}>{invoice.invoice_number}</Text>
+                        </View>
+                        <View style={tw`flex-row justify-between py-2 border-b border-border-light/50 dark:border-border-dark/50`}>
+                            <Text style={tw`text-sm text-text-light/70 dark:text-text-dark/70`}>Invoice Total</Text>
+                            <Text style={tw`text-sm font-semibold text-text-light dark:text-text-dark`}>{formatCurrency(invoice.total_amount_cents, currency)}</Text>
+                        </View>
+                        {insuranceCents > 0 && (
+                            <View style={tw`flex-row justify-between py-2 border-b border-border-light/50 dark:border-border-dark/50`}>
+                                <Text style={tw`text-sm text-text-light/70 dark:text-text-dark/70`}>Insurance Portion</Text>
+                                <Text style={tw`text-sm font-semibold text-text-light dark:text-text-dark`}>−{formatCurrency(insuranceCents, currency)}</Text>
+                            </View>
+                        )}
+                        {amountPaidCents > 0 && (
+                            <View style={tw`flex-row justify-between py-2 border-b border-border-light/50 dark:border-border-dark/50`}>
+                                <Text style={tw`text-sm text-text-light/70 dark:text-text-dark/70`}>Already Paid</Text>
+                                <Text style={tw`text-sm font-semibold text-text-light dark:text-text-dark`}>{formatCurrency(amountPaidCents, currency)}</Text>
+                            </View>
+                        )}
+                        <View style={tw`flex-row justify-between py-2`}>
+                            <Text style={tw`text-sm text-text-light/70 dark:text-text-dark/70`}>Balance Due</Text>
+                            <Text style={tw`text-sm font-bold text-primary`}>{formatCurrency(balanceCents, currency)}</Text>
                         </View>
                     </View>
-                    <View style={tw`flex-row gap-4`}>
-                        <View style={tw`flex-1`}>
-                            <Text style={tw`text-base font-medium pb-2 text-text-light dark:text-text-dark`}>Expiry Date</Text>
-                            <TextInput style={tw`rounded-lg border border-border-light dark:border-border-dark bg-background-light dark:bg-background-dark h-14 px-4 text-text-light dark:text-text-dark`} placeholder="MM/YY" placeholderTextColor={placeholderTextColor} keyboardType="numeric" />
+                    {invoice.line_items && invoice.line_items.length > 0 && (
+                        <>
+                            <Text style={tw`text-lg font-bold pb-2 text-text-light dark:text-text-dark`}>Billed Services</Text>
+                            <View style={tw`bg-surface-light dark:bg-surface-dark rounded-xl shadow-sm p-4 mb-6 border border-border-light/50 dark:border-border-dark/50`}>
+                                <LineItemList items={invoice.line_items} totalAmountCents={invoice.total_amount_cents} currency={invoice.currency} />
+                            </View>
+                        </>
+                    )}
+                    {!canPay && (
+                        <View style={tw`mb-4 rounded-lg bg-slate-100 dark:bg-slate-800 p-4`}>
+                            <Text style={tw`text-text-light dark:text-text-dark`}>This invoice has no balance to pay.</Text>
                         </View>
-                        <View style={tw`flex-1`}>
-                            <Text style={tw`text-base font-medium pb-2 text-text-light dark:text-text-dark`}>CVC</Text>
-                            <TextInput style={tw`rounded-lg border border-border-light dark:border-border-dark bg-background-light dark:bg-background-dark h-14 px-4 text-text-light dark:text-text-dark`} placeholder="123" placeholderTextColor={placeholderTextColor} keyboardType="numeric" secureTextEntry />
+                    )}
+                    {paymentError && (
+                        <View style={tw`mb-4 flex-row items-start gap-2 rounded-lg bg-red-50 dark:bg-red-900/20 p-4`}>
+                            <Icon name="error-outline" size={20} color={tw.color('danger')} />
+                            <Text style={tw`flex-1 text-red-800 dark:text-red-300`}>{paymentError}</Text>
                         </View>
+                    )}
+                    {canPay && (
+                        <>
+                            <Text style={tw`text-lg font-bold pb-2 pt-4 text-text-light dark:text-text-dark`}>Amount</Text>
+                            <View style={tw`flex-row items-center gap-3`}>
+                                <View style={tw`flex-1 flex-row items-center rounded-lg border ${amountError ? 'border-danger' : 'border-border-light dark:border-border-dark'} bg-background-light dark:bg-background-dark h-14 px-4`}>
+                                    <Text style={tw`text-base text-text-light/70 dark:text-text-dark/70`}>{getCurrencySymbol(currency)}</Text>
+                                    <TextInput
+                                        style={tw`flex-1 pl-1 text-base text-text-light dark:text-text-dark`}
+                                        keyboardType={getMinorUnitDigits(currency) === 0 ? 'number-pad' : 'decimal-pad'}
+                                        value={amountText}
+                                        onChangeText={handleAmountChange}
+                                        editable={!isSubmitting}
+                                    />
+                                </View>
+                                {amountCents !== balanceCents && (
+                                    <TouchableOpacity
+                                        onPress={() => handleAmountChange(formatAmountInput(balanceCents, currency))}
+                                        disabled={isSubmitting}
+                                        style={tw`h-14 px-4 items-center justify-center rounded-lg bg-primary/20`}
+                                    >
+                                        <Text style={tw`text-primary font-semibold`}>Full Balance</Text>
+                                    </TouchableOpacity>
+                                )}
+                            </View>
+                            {amountError ? (
+                                <Text style={tw`mt-1 text-sm text-danger`}>{amountError}</Text>
+                            ) : amountCents !== null && amountCents < balanceCents ? (
+                                <Text style={tw`mt-1 text-sm text-text-light/70 dark:text-text-dark/70`}>
+                                    Partial payment · {formatCurrency(balanceCents - amountCents, currency)} will remain due
+                                </Text>
+                            ) : null}
+                        </>
+                    )}
+                    <Text style={tw`text-lg font-bold pb-2 pt-4 text-text-light dark:text-text-dark`}>Payment Details</Text>
+                    <CardInput values={card} errors={cardErrors} onChange={handleCardChange} disabled={isSubmitting} />
+                    <View style={tw`flex-row items-center gap-2 mt-6`}>
+                        <CheckBox value={saveCard} onValueChange={setSaveCard} tintColors={{ true: tw.color('primary'), false: checkboxTintColor }} />
+                        <Text style={tw`text-sm text-text-light dark:text-text-dark`}>Save card for future payments</Text>
                     </View>
-                </View>
-                <View style={tw`flex-row items-center gap-2 mt-6`}>
-                    <CheckBox value={saveCard} onValueChange={setSaveCard} tintColors={{ true: tw.color('primary'), false: checkboxTintColor }} />
-                    <Text style={tw`text-sm text-text-light dark:text-text-dark`}>Save card for future payments</Text>
-                </View>
-            </ScrollView>
+                </ScrollView>
+            )}
 
-            <View style={tw`absolute bottom-0 left-0 right-0 p-4 bg-background-light dark:bg-background-dark border-t border-border-light/50 dark:border-border-dark/50`}>
-                <TouchableOpacity onPress={handlePayment} style={tw`w-full items-center justify-center rounded-xl h-14 px-6 bg-primary shadow-lg`}>
-                    <Text style={tw`text-white text-base font-bold tracking-wide`}>Pay $150.00</Text>
-                </TouchableOpacity>
-            </View>
+            {invoice && !isLoading && (
+                <View style={tw`absolute bottom-0 left-0 right-0 p-4 bg-background-light dark:bg-background-dark border-t border-border-light/50 dark:border-border-dark/50`}>
+                    <TouchableOpacity onPress={handlePayment} disabled={isPayDisabled} style={tw`w-full items-center justify-center rounded-xl h-14 px-6 bg-primary shadow-lg ${isPayDisabled ? 'opacity-50' : ''}`}>
+                        {isSubmitting ? (
+                            <ActivityIndicator size="small" color="#FFFFFF" />
+                        ) : (
+                            <Text style={tw`text-white text-base font-bold tracking-wide`}>Pay {formatCurrency(amountCents ?? 0, currency)}</Text>
+                        )}
+                    </TouchableOpacity>
+                </View>
+            )}
             
-            <Modal transparent={true} visible={isSuccessModalVisible} animationType="fade">
-                <View style={tw`flex-1 bg-black/40 items-center justify-center p-4`}>
-                    <View style={tw`bg-background-light dark:bg-surface-dark rounded-xl shadow-2xl w-full max-w-sm p-6 items-center`}>
-                        <View style={tw`flex h-16 w-16 items-center justify-center rounded-full bg-success/20 mb-4`}>
-                            <Icon name="check-circle" size={40} color="#00BFA5" />
+            <Modal transparent={true} visible={payment !== null} animationType="fade">
+                {payment && (
+                    <View style={tw`flex-1 bg-black/40 items-center justify-center p-4`}>
+                        <View style={tw`bg-background-light dark:bg-surface-dark rounded-xl shadow-2xl w-full max-w-sm p-6 items-center`}>
+                            <View style={tw`flex h-16 w-16 items-center justify-center rounded-full bg-success/20 mb-4`}>
+                                <Icon name="check-circle" size={40} color="#00BFA5" />
+                            </View>
+                            <Text style={tw`text-xl font-bold text-text-light dark:text-text-dark`}>Payment Successful</Text>
+                            <Text style={tw`text-4xl font-bold text-text-light dark:text-text-dark mt-4 mb-2`}>{formatCurrency(payment.amount_cents, currency)}</Text>
+                            <Text style={tw`text-sm text-text-light/70 dark:text-text-dark/70 mb-6`}>Paid by {patientLabel}</Text>
+                            <View style={tw`w-full text-left space-y-3 bg-background-light dark:bg-background-dark p-4 rounded-lg`}>
+                                <View style={tw`flex-row justify-between`}><Text style={tw`text-text-light/70 dark:text-text-dark/70`}>Status</Text><Text style={tw`font-semibold text-success`}>{remainingBalanceCents > 0 ? 'Partially Paid' : 'Paid'}</Text></View>
+                                {remainingBalanceCents > 0 && (
+                                    <View style={tw`flex-row justify-between`}><Text style={tw`text-text-light/70 dark:text-text-dark/70`}>Remaining Balance</Text><Text style={tw`font-semibold text-text-light dark:text-text-dark`}>{formatCurrency(remainingBalanceCents, currency)}</Text></View>
+                                )}
+                                <View style={tw`flex-row justify-between`}><Text style={tw`text-text-light/70 dark:text-text-dark/70`}>Transaction ID</Text><Text style={tw`font-semibold text-text-light dark:text-text-dark`}>{payment.transaction_id}</Text></View>
+                                <View style={tw`flex-row justify-between`}><Text style={tw`text-text-light/70 dark:text-text-dark/70`}>Date & Time</Text><Text style={tw`font-semibold text-text-light dark:text-text-dark`}>{formatInvoiceDateTime(payment.created_at)}</Text></View>
+                                <View style={tw`flex-row justify-between`}><Text style={tw`text-text-light/70 dark:text-text-dark/70`}>Card</Text><Text style={tw`font-semibold text-text-light dark:text-text-dark`}>•••• {payment.card_last4 ?? '----'}</Text></View>
+                            </View>
+                            <TouchableOpacity
+                                onPress={handleShareReceipt}
+                                disabled={isSharingReceipt}
+                                style={tw`mt-6 w-full flex-row gap-2 rounded-lg bg-primary h-12 justify-center items-center`}
+                            >
+                                {isSharingReceipt ? (
+                                    <ActivityIndicator size="small" color="#FFFFFF" />
+                                ) : (
+                                    <>
+                                        <Icon name="picture-as-pdf" size={20} color="#FFFFFF" />
+                                        <Text style={tw`text-white font-bold`}>Share Receipt</Text>
+                                    </>
+                                )}
+                            </TouchableOpacity>
+                            <TouchableOpacity onPress={closeModal} style={tw`mt-3 w-full rounded-lg bg-primary/20 h-12 justify-center items-center`}>
+                                <Text style={tw`text-primary font-bold`}>Close</Text>
+                            </TouchableOpacity>
                         </View>
-                        <Text style={tw`text-xl font-bold text-text-light dark:text-text-dark`}>Payment Successful</Text>
-                        <Text style={tw`text-4xl font-bold text-text-light dark:text-text-dark mt-4 mb-2`}>$150.00</Text>
-                        <Text style={tw`text-sm text-text-light/70 dark:text-text-dark/70 mb-6`}>Paid by Jessica Smith</Text>
-                        <View style={tw`w-full text-left space-y-3 bg-background-light dark:bg-background-dark p-4 rounded-lg`}>
-                            <View style={tw`flex-row justify-between`}><Text style={tw`text-text-light/70 dark:text-text-dark/70`}>Status</Text><Text style={tw`font-semibold text-success`}>Paid</Text></View>
-                            <View style={tw`flex-row justify-between`}><Text style={tw`text-text-light/70 dark:text-text-dark/70`}>Transaction ID</Text><Text style={tw`font-semibold text-text-light dark:text-text-dark`}>ch_3Pq...aXg</Text></View>
-                            <View style={tw`flex-row justify-between`}><Text style={tw`text-text-light/70 dark:text-text-dark/70`}>Date & Time</Text><Text style={tw`font-semibold text-text-light dark:text-text-dark`}>Oct 26, 2023, 10:30 AM</Text></View>
-                            <View style={tw`flex-row justify-between`}><Text style={tw`text-text-light/70 dark:text-text-dark/70`}>Card</Text><Text style={tw`font-semibold text-text-light dark:text-text-dark`}>•••• 4242</Text></View>
-                        </View>
-                        <TouchableOpacity onPress={closeModal} style={tw`mt-6 w-full rounded-lg bg-primary/20 h-12 justify-center items-center`}>
-                            <Text style={tw`text-primary font-bold`}>Close</Text>
-                        </TouchableOpacity>
                     </View>
-                </View>
+                )}
             </Modal>
         </SafeAreaView>
     );
 };
 
-export default PaymentScreen;
\ No newline at end of file
+export default PaymentScreen;
@@ -0,0 +1,242 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, Text, TextInput, TouchableOpacity, ScrollView, ActivityIndicator, Alert, Switch, useColorScheme } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import type { RootStackParamList } from '../types';
+import tw from '../lib/tailwind';
+import { updateReminderSchedule } from '../api/reminderApi';
+import { ApiError, CancelledError, ValidationError } from '../api/errors';
+import { getReminderSchedule } from '../services/reminders/reminderService';
+import { ReminderChannel, ReminderStep } from '../types/reminder';
+import {
+    createReminderStep,
+    describeReminderOffset,
+    REMINDER_CHANNEL_LABELS,
+    REMINDER_TEMPLATE_FIELDS,
+    validateReminderSchedule,
+} from '../utils/reminders';
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList, 'ReminderSettings'>;
+
+type StepTiming = 'before' | 'on' | 'after';
+
+// Steps as edited: the offset is split into a timing and a typed day count
+interface StepForm extends ReminderStep {
+    timing: StepTiming;
+    daysText: string;
+}
+
+const TIMINGS: { id: StepTiming; label: string }[] = [
+    { id: 'before', label: 'Before due' },
+    { id: 'on', label: 'On due date' },
+    { id: 'after', label: 'Overdue' },
+];
+
+const CHANNELS = Object.keys(REMINDER_CHANNEL_LABELS) as ReminderChannel[];
+
+const toStepForm = (step: ReminderStep): StepForm => ({
+    ...step,
+    timing: step.offset_days < 0 ? 'before' : step.offset_days === 0 ? 'on' : 'after',
+    daysText: step.offset_days === 0 ? '' : String(Math.abs(step.offset_days)),
+});
+
+const toReminderStep = ({ timing, daysText, ...step }: StepForm): ReminderStep => {
+    const days = timing === 'on' ? 0 : Number(daysText.trim() || NaN);
+    return { ...step, offset_days: timing === 'before' ? -days : days };
+};
+
+const ReminderSettingsScreen = () => {
+    const navigation = useNavigation<NavigationProp>();
+    const [steps, setSteps] = useState<StepForm[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const [saveError, setSaveError] = useState<string | null>(null);
+    const isDark = useColorScheme() === 'dark';
+    const iconColor = isDark ? tw.color('text-dark') : tw.color('text-light');
+
+    const loadSchedule = useCallback(async (signal?: AbortSignal) => {
+        setIsLoading(true);
+        setLoadError(null);
+        try {
+            const schedule = await getReminderSchedule({ signal });
+            setSteps([...schedule.steps].sort((a, b) => a.offset_days - b.offset_days).map(toStepForm));
+        } catch (err) {
+            if (err instanceof CancelledError) return;
+            console.error('Error loading reminder schedule:', err);
+            setLoadError('Unable to load the reminder schedule. Please try again.');
+        } finally {
+            if (!signal?.aborted) {
+                setIsLoading(false);
+            }
+        }
+    }, []);
+
+    useEffect(() => {
+        const controller = new AbortController();
+        loadSchedule(controller.signal);
+        return () => controller.abort();
+    }, [loadSchedule]);
+
+    const updateStep = (id: string, changes: Partial<StepForm>) => {
+        setSaveError(null);
+        setSteps(prev => prev.map(step => (step.id === id ? { ...step, ...changes } : step)));
+    };
+
+    const removeStep = (id: string) => {
+        setSaveError(null);
+        setSteps(prev => prev.filter(step => step.id !== id));
+    };
+
+    const addStep = () => {
+        setSaveError(null);
+        setSteps(prev => [...prev, toStepForm(createReminderStep())]);
+    };
+
+    const handleSave = async () => {
+        const schedule = { steps: steps.map(toReminderStep) };
+        const validationError = validateReminderSchedule(schedule);
+        if (validationError) {
+            setSaveError(validationError);
+            return;
+        }
+
+        setIsSaving(true);
+        setSaveError(null);
+        try {
+            const saved = await updateReminderSchedule(schedule);
+            setSteps([...saved.steps].sort((a, b) => a.offset_days - b.offset_days).map(toStepForm));
+            Alert.alert('Schedule Saved', 'New reminders will follow this schedule.');
+        } catch (err) {
+            console.error('Error saving reminder schedule:', err);
+            setSaveError(err instanceof ValidationError || (err instanceof ApiError && err.status && err.status < 500)
+                ? err.message
+                : 'Unable to save the schedule. Please try again.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const inputStyle = tw`rounded-lg border border-border-light dark:border-border-dark bg-background-light dark:bg-background-dark px-3 text-text-light dark:text-text-dark`;
+
+    return (
+        <SafeAreaView style={tw`flex-1 bg-background-light dark:bg-background-dark`}>
+            <View style={tw`flex-row items-center p-4 border-b border-border-light/50 dark:border-border-dark/50`}>
+                <TouchableOpacity onPress={() => navigation.goBack()}>
+                    <Icon name="arrow-back" size={24} color={iconColor} />
+                </TouchableOpacity>
+                <Text style={tw`flex-1 text-center text-lg font-bold text-text-light dark:text-text-dark`}>Reminder Schedule</Text>
+                <TouchableOpacity onPress={handleSave} disabled={isLoading || isSaving || loadError !== null}>
+                    {isSaving ? (
+                        <ActivityIndicator size="small" color={tw.color('primary')} />
+                    ) : (
+                        <Text style={tw`text-base font-semibold text-primary`}>Save</Text>
+                    )}
+                </TouchableOpacity>
+            </View>
+
+            {isLoading ? (
+                <View style={tw`flex-1 items-center justify-center p-8`}>
+                    <ActivityIndicator size="large" color={tw.color('primary')} />
+                    <Text style={tw`mt-4 text-text-light dark:text-text-dark`}>Loading schedule...</Text>
+                </View>
+            ) : loadError ? (
+                <View style={tw`flex-1 items-center justify-center p-8`}>
+                    <Icon name="error-outline" size={48} color={tw.color('danger')} />
+                    <Text style={tw`mt-4 text-center text-text-light dark:text-text-dark`}>{loadError}</Text>
+                    <TouchableOpacity style={tw`mt-4 px-6 py-3 bg-primary rounded-lg`} onPress={() => loadSchedule()}>
+                        <Text style={tw`text-white font-medium`}>Retry</Text>
+                    </TouchableOpacity>
+                </View>
+            ) : (
+                <ScrollView style={tw`flex-1 px-4 pt-6`} contentContainerStyle={tw`pb-8`} keyboardShouldPersistTaps="handled">
+                    <Text style={tw`mb-4 text-sm text-text-light/70 dark:text-text-dark/70`}>
+                        Reminders are sent automatically for unpaid invoices. Messages can use{' '}
+                        {REMINDER_TEMPLATE_FIELDS.map(field => `{{${field.key}}}`).join(', ')}.
+                    </Text>
+
+                    {saveError && (
+                        <View style={tw`mb-4 rounded-lg bg-red-50 dark:bg-red-900/20 p-4`}>
+                            <Text style={tw`text-red-800 dark:text-red-300`}>{saveError}</Text>
+                        </View>
+                    )}
+
+                    {steps.map(step => {
+                        const preview = toReminderStep(step);
+                        return (
+                            <View key={step.id} style={tw`bg-surface-light dark:bg-surface-dark rounded-xl shadow-sm p-4 mb-4 border border-border-light/50 dark:border-border-dark/50`}>
+                                <View style={tw`flex-row items-center justify-between mb-3`}>
+                                    <Text style={tw`flex-1 text-base font-bold text-text-light dark:text-text-dark`}>
+                                        {Number.isFinite(preview.offset_days) ? describeReminderOffset(preview.offset_days) : 'New reminder'}
+                                    </Text>
+                                    <Switch value={step.enabled} onValueChange={enabled => updateStep(step.id, { enabled })} />
+                                    <TouchableOpacity onPress={() => removeStep(step.id)} style={tw`ml-3`}>
+                                        <Icon name="delete-outline" size={24} color={tw.color('danger')} />
+                                    </TouchableOpacity>
+                                </View>
+
+                                <View style={tw`flex-row rounded-lg bg-primary/20 p-1 mb-3`}>
+                                    {TIMINGS.map(timing => (
+                                        <TouchableOpacity
+                                            key={timing.id}
+                                            onPress={() => updateStep(step.id, { timing: timing.id })}
+                                            style={tw`flex-1 h-9 items-center justify-center rounded-md ${step.timing === timing.id ? 'bg-primary' : ''}`}
+                                        >
+                                            <Text style={tw`text-sm font-semibold ${step.timing === timing.id ? 'text-white' : 'text-primary'}`}>
+                                                {timing.label}
+                                            </Text>
+                                        </TouchableOpacity>
+                                    ))}
+                                </View>
+
+                                <View style={tw`flex-row items-center gap-3 mb-3`}>
+                                    {step.timing !== 'on' && (
+                                        <View style={tw`flex-row items-center gap-2`}>
+                                            <TextInput
+                                                style={[inputStyle, tw`h-10 w-16 text-center`]}
+                                                keyboardType="number-pad"
+                                                value={step.daysText}
+                                                onChangeText={daysText => updateStep(step.id, { daysText })}
+                                            />
+                                            <Text style={tw`text-sm text-text-light/70 dark:text-text-dark/70`}>days</Text>
+                                        </View>
+                                    )}
+                                    <View style={tw`flex-1 flex-row rounded-lg bg-primary/20 p-1`}>
+                                        {CHANNELS.map(channel => (
+                                            <TouchableOpacity
+                                                key={channel}
+                                                onPress={() => updateStep(step.id, { channel })}
+                                                style={tw`flex-1 h-8 items-center justify-center rounded-md ${step.channel === channel ? 'bg-primary' : ''}`}
+                                            >
+                                                <Text style={tw`text-sm font-semibold ${step.channel === channel ? 'text-white' : 'text-primary'}`}>
+                                                    {REMINDER_CHANNEL_LABELS[channel]}
+                                                </Text>
+                                            </TouchableOpacity>
+                                        ))}
+                                    </View>
+                                </View>
+
+                                <TextInput
+                                    style={[inputStyle, tw`min-h-24 py-2`]}
+                                    multiline
+                                    textAlignVertical="top"
+                                    value={step.template}
+                                    onChangeText={template => updateStep(step.id, { template })}
+                                />
+                            </View>
+                        );
+                    })}
+
+                    <TouchableOpacity onPress={addStep} style={tw`flex-row items-center justify-center gap-2 rounded-lg bg-primary/20 h-12`}>
+                        <Icon name="add" size={20} color={tw.color('primary')} />
+                        <Text style={tw`text-primary font-semibold`}>Add Reminder</Text>
+                    </TouchableOpacity>
+                </ScrollView>
+            )}
+        </SafeAreaView>
+    );
+};
+
+export default ReminderSettingsScreen;
@@ -0,0 +1,184 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { View, Text, TextInput, TouchableOpacity, FlatList, useColorScheme, ActivityIndicator } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import type { RootStackParamList } from '../types';
+import tw from '../lib/tailwind';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { fetchServices } from '../api/serviceCatalogApi';
+import { CancelledError } from '../api/errors';
+import { CatalogService } from '../types/serviceCatalog';
+import { formatCurrency } from '../utils/financialMetrics';
+import { filterServices, onServicesChanged, resolveServicePrice, sortServices, TAX_CATEGORY_LABELS } from '../utils/serviceCatalog';
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList, 'ServiceCatalog'>;
+
+interface ServiceRowProps {
+    service: CatalogService;
+    onPress: (service: CatalogService) => void;
+}
+
+const ServiceRow = React.memo(({ service, onPress }: ServiceRowProps) => {
+    const isDark = useColorScheme() === 'dark';
+    const mutedIconColor = isDark ? tw.color('border-dark') : tw.color('border-light');
+    const standardPrice = resolveServicePrice(service);
+    const payerCount = new Set(service.prices.map(price => price.payer_name?.trim().toLowerCase()).filter(Boolean)).size;
+
+    return (
+        <TouchableOpacity
+            onPress={() => onPress(service)}
+            activeOpacity={0.7}
+            style={tw`flex-row items-center gap-4 rounded-xl bg-surface-light dark:bg-surface-dark p-4 shadow-sm border border-border-light/50 dark:border-border-dark/50 ${service.active ? '' : 'opacity-60'}`}
+        >
+            <View style={tw`flex-1`}>
+                <Text style={tw`text-base font-bold text-text-light dark:text-text-dark`} numberOfLines={1}>{service.description}</Text>
+                <Text style={tw`text-sm text-text-light/70 dark:text-text-dark/70`}>
+                    {service.service_code} · {TAX_CATEGORY_LABELS[service.tax_category]}{service.active ? '' : ' · Inactive'}
+                </Text>
+                {payerCount > 0 && (
+                    <Text style={tw`text-sm text-text-light/70 dark:text-text-dark/70`}>
+                        {payerCount === 1 ? '1 payer price' : `${payerCount} payer prices`}
+                    </Text>
+                )}
+            </View>
+            <Text style={tw`text-base font-semibold text-text-light dark:text-text-dark`}>{formatCurrency(standardPrice.price_cents)}</Text>
+            <Icon name="chevron-right" size={24} color={mutedIconColor} />
+        </TouchableOpacity>
+    );
+});
+
+const RowSeparator = () => <View style={tw`h-3`} />;
+
+const ServiceCatalogScreen = () => {
+    const [services, setServices] = useState<CatalogService[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isRefreshing, setIsRefreshing] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [searchQuery, setSearchQuery] = useState('');
+    const [showInactive, setShowInactive] = useState(false);
+    const navigation = useNavigation<NavigationProp>();
+    const isDark = useColorScheme() === 'dark';
+    const iconColor = isDark ? tw.color('text-dark') : tw.color('text-light');
+    const mutedIconColor = isDark ? tw.color('border-dark') : tw.color('border-light');
+
+    const loadServices = useCallback(async (isRefresh = false, signal?: AbortSignal) => {
+        if (isRefresh) {
+            setIsRefreshing(true);
+        } else {
+            setIsLoading(true);
+        }
+        setError(null);
+
+        try {
+            // Inactive services are always fetched so the toggle doesn't need a round trip
+            setServices(sortServices(await fetchServices(true, { signal })));
+        } catch (err) {
+            if (err instanceof CancelledError) return;
+            console.error('Error loading service catalog:', err);
+            setError('Unable to load the service catalog');
+        } finally {
+            if (!signal?.aborted) {
+                setIsLoading(false);
+                setIsRefreshing(false);
+            }
+        }
+    }, []);
+
+    useEffect(() => {
+        const controller = new AbortController();
+        loadServices(false, controller.signal);
+        return () => controller.abort();
+    }, [loadServices]);
+
+    // Reload after a service or its prices are edited
+    useEffect(() => onServicesChanged(() => {
+        loadServices(true);
+    }), [loadServices]);
+
+    const visibleServices = useMemo(
+        () => filterServices(showInactive ? services : services.filter(service => service.active), searchQuery),
+        [services, showInactive, searchQuery],
+    );
+
+    const openService = useCallback((service: CatalogService) => {
+        navigation.navigate('ServiceForm', { serviceId: service.id });
+    }, [navigation]);
+
+    return (
+        <SafeAreaView style={tw`flex-1 bg-background-light dark:bg-background-dark`}>
+            <View style={tw`flex-row items-center p-4 bg-background-light dark:bg-background-dark`}>
+                <TouchableOpacity onPress={() => navigation.goBack()}>
+                    <Icon name="arrow-back" size={24} color={iconColor} />
+                </TouchableOpacity>
+                <Text style={tw`flex-1 text-center text-lg font-bold text-text-light dark:text-text-dark`}>Service Catalog</Text>
+                <View style={tw`w-6`} />
+            </View>
+            <View style={tw`px-4 pb-4 gap-3`}>
+                <View style={tw`flex-row items-center rounded-lg bg-slate-100 dark:bg-slate-800 px-3 h-12`}>
+                    <Icon name="search" size={22} color={mutedIconColor} />
+                    <TextInput
+                        style={tw`flex-1 px-2 text-text-light dark:text-text-dark`}
+                        placeholder="Search code or description"
+                        placeholderTextColor={mutedIconColor}
+                        autoCapitalize="none"
+                        autoCorrect={false}
+                        returnKeyType="search"
+                        value={searchQuery}
+                        onChangeText={setSearchQuery}
+                    />
+                    {searchQuery.length > 0 && (
+                        <TouchableOpacity onPress={() => setSearchQuery('')}>
+                            <Icon name="close" size={20} color={mutedIconColor} />
+                        </TouchableOpacity>
+                    )}
+                </View>
+                <TouchableOpacity onPress={() => setShowInactive(prev => !prev)} style={tw`flex-row items-center gap-2`}>
+                    <Icon name={showInactive ? 'check-box' : 'check-box-outline-blank'} size={22} color={tw.color('primary')} />
+                    <Text style={tw`text-sm text-text-light dark:text-text-dark`}>Show inactive services</Text>
+                </TouchableOpacity>
+            </View>
+            <FlatList
+                ListHeaderComponent={
+                    <>
+                        {isLoading && (
+                            <View style={tw`items-center justify-center py-8`}>
+                                <ActivityIndicator size="large" color={tw.color('primary')} />
+                                <Text style={tw`mt-4 text-text-light/70 dark:text-text-dark/70`}>Loading services...</Text>
+                            </View>
+                        )}
+                        {error && !isLoading && (
+                            <View style={tw`mb-4 items-center rounded-lg bg-red-50 dark:bg-red-900/20 p-4`}>
+                                <Text style={tw`text-red-800 dark:text-red-300`}>{error}</Text>
+                                <TouchableOpacity style={tw`mt-3 px-6 py-2 bg-primary rounded-lg`} onPress={() => loadServices()}>
+                                    <Text style={tw`text-white font-medium`}>Retry</Text>
+                                </TouchableOpacity>
+                            </View>
+                        )}
+                        {!isLoading && !error && visibleServices.length === 0 && (
+                            <View style={tw`items-center justify-center py-8`}>
+                                <Icon name="medical-services" size={48} color={mutedIconColor} />
+                                <Text style={tw`mt-4 text-base text-text-light/70 dark:text-text-dark/70`}>
+                                    {searchQuery.trim() ? 'No matching services' : 'No services yet'}
+                                </Text>
+                            </View>
+                        )}
+                    </>
+                }
+                data={isLoading ? [] : visibleServices}
+                renderItem={({ item }) => <ServiceRow service={item} onPress={openService} />}
+                keyExtractor={item => String(item.id)}
+                contentContainerStyle={tw`px-4 pb-24`}
+                ItemSeparatorComponent={RowSeparator}
+                keyboardShouldPersistTaps="handled"
+                refreshing={isRefreshing}
+                onRefresh={() => loadServices(true)}
+            />
+            <TouchableOpacity onPress={() => navigation.navigate('ServiceForm')} style={tw`absolute bottom-6 right-6 flex h-14 w-14 items-center justify-center rounded-2xl bg-primary shadow-lg`}>
+                <Icon name="add" size={28} color="#FFFFFF" />
+            </TouchableOpacity>
+        </SafeAreaView>
+    );
+};
+
+export default ServiceCatalogScreen;
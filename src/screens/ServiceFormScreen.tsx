@@ -0,0 +1,334 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { View, Text, TextInput, TextInputProps, TouchableOpacity, ScrollView, ActivityIndicator, Alert, Switch, useColorScheme } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import type { RootStackParamList } from '../types';
+import tw from '../lib/tailwind';
+import { addServicePrice, createService, deleteServicePrice, fetchService, fetchServices, updateService } from '../api/serviceCatalogApi';
+import { ApiError, CancelledError, NetworkError, ValidationError } from '../api/errors';
+import { CatalogService, PriceFormValues, ServiceFormValues, ServicePrice, TaxCategory } from '../types/serviceCatalog';
+import PriceModal from '../components/PriceModal';
+import { formatCurrency } from '../utils/financialMetrics';
+import { formatInvoiceDate } from '../utils/invoiceFormatting';
+import {
+    buildPriceRequest,
+    buildServiceRequest,
+    EMPTY_SERVICE_FORM,
+    notifyServicesChanged,
+    resolveServicePrice,
+    sortPriceSchedule,
+    TAX_CATEGORY_LABELS,
+    toServiceForm,
+    validateServiceForm,
+} from '../utils/serviceCatalog';
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList, 'ServiceForm'>;
+type ServiceFormRouteProp = RouteProp<RootStackParamList, 'ServiceForm'>;
+
+type ServiceTextField = 'service_code' | 'description' | 'default_price';
+
+const TAX_CATEGORIES = Object.keys(TAX_CATEGORY_LABELS) as TaxCategory[];
+
+const getCatalogErrorMessage = (err: unknown, fallback: string): string => {
+    if (err instanceof NetworkError) {
+        return 'Unable to connect to server. Please check your connection.';
+    }
+    if (err instanceof ValidationError || (err instanceof ApiError && err.status && err.status < 500)) {
+        return err.message;
+    }
+    return fallback;
+};
+
+const SectionTitle: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+    <Text style={tw`text-lg font-bold pt-2 pb-3 text-text-light dark:text-text-dark`}>{children}</Text>
+);
+
+interface FormFieldProps extends Omit<TextInputProps, 'value' | 'onChangeText'> {
+    label: string;
+    value: string;
+    error?: string; // shown only once the field is touched or a save was attempted
+    onChangeText: (text: string) => void;
+}
+
+const FormField: React.FC<FormFieldProps> = ({ label, value, error, onChangeText, style, ...inputProps }) => {
+    const isDark = useColorScheme() === 'dark';
+    const placeholderTextColor = isDark ? tw.color('border-dark') : tw.color('border-light');
+    return (
+        <View style={[tw`mb-4`, style]}>
+            <Text style={tw`text-sm font-medium pb-2 text-text-light dark:text-text-dark`}>{label}</Text>
+            <TextInput
+                style={tw`rounded-lg border ${error ? 'border-danger' : 'border-border-light dark:border-border-dark'} bg-background-light dark:bg-background-dark h-12 px-4 text-text-light dark:text-text-dark`}
+                placeholderTextColor={placeholderTextColor}
+                value={value}
+                onChangeText={onChangeText}
+                {...inputProps}
+            />
+            {error && <Text style={tw`mt-1 text-xs text-danger`}>{error}</Text>}
+        </View>
+    );
+};
+
+const ServiceFormScreen = () => {
+    const navigation = useNavigation<NavigationProp>();
+    const { params } = useRoute<ServiceFormRouteProp>();
+    const serviceId = params?.serviceId;
+    const [values, setValues] = useState<ServiceFormValues>(EMPTY_SERVICE_FORM);
+    const [service, setService] = useState<CatalogService | null>(null);
+    const [otherServices, setOtherServices] = useState<CatalogService[]>([]); // to keep codes unique
+    const [touched, setTouched] = useState<Partial<Record<ServiceTextField, boolean>>>({});
+    const [submitAttempted, setSubmitAttempted] = useState(false);
+    const [isLoading, setIsLoading] = useState(serviceId !== undefined);
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const [saveError, setSaveError] = useState<string | null>(null);
+    const [isPriceModalVisible, setIsPriceModalVisible] = useState(false);
+    const [isPriceSaving, setIsPriceSaving] = useState(false);
+    const [priceError, setPriceError] = useState<string | null>(null);
+    const isDark = useColorScheme() === 'dark';
+    const iconColor = isDark ? tw.color('text-dark') : tw.color('text-light');
+
+    const errors = useMemo(() => validateServiceForm(values, otherServices, serviceId), [values, otherServices, serviceId]);
+
+    const loadService = useCallback(async (signal?: AbortSignal) => {
+        if (serviceId === undefined) return;
+
+        setIsLoading(true);
+        setLoadError(null);
+        try {
+            const loaded = await fetchService(serviceId, { signal });
+            setService(loaded);
+            setValues(toServiceForm(loaded));
+        } catch (err) {
+            if (err instanceof CancelledError) return;
+            console.error('Error loading service:', err);
+            setLoadError(err instanceof ApiError && err.status === 404
+                ? 'This service no longer exists.'
+                : 'Unable to load the service. Please try again.');
+        } finally {
+            if (!signal?.aborted) {
+                setIsLoading(false);
+            }
+        }
+    }, [serviceId]);
+
+    useEffect(() => {
+        const controller = new AbortController();
+        loadService(controller.signal);
+        // Duplicate codes are also rejected by the server, so this check is best effort
+        fetchServices(true, { signal: controller.signal })
+            .then(setOtherServices)
+            .catch(err => {
+                if (err instanceof CancelledError) return;
+                console.error('Error loading service catalog:', err);
+            });
+        return () => controller.abort();
+    }, [loadService]);
+
+    const updateField = (field: ServiceTextField) => (text: string) => {
+        setSaveError(null);
+        setValues(prev => ({ ...prev, [field]: text }));
+    };
+
+    const fieldProps = (field: ServiceTextField) => ({
+        value: values[field],
+        error: submitAttempted || touched[field] ? errors[field] : undefined,
+        onChangeText: updateField(field),
+        onBlur: () => setTouched(prev => ({ ...prev, [field]: true })),
+    });
+
+    const handleSave = async () => {
+        setSubmitAttempted(true);
+        if (Object.keys(errors).length > 0) {
+            setSaveError('Please correct the highlighted fields.');
+            return;
+        }
+
+        setIsSaving(true);
+        setSaveError(null);
+        try {
+            const request = buildServiceRequest(values);
+            if (serviceId === undefined) {
+                await createService(request);
+            } else {
+                await updateService(serviceId, request);
+            }
+            notifyServicesChanged();
+            navigation.goBack();
+        } catch (err) {
+            console.error('Error saving service:', err);
+            setSaveError(getCatalogErrorMessage(err, 'Unable to save the service. Please try again.'));
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    // Scheduled prices are saved as soon as they are added, separately from the service's details
+    const handleAddPrice = async (priceValues: PriceFormValues) => {
+        if (serviceId === undefined || isPriceSaving) return;
+        setIsPriceSaving(true);
+        setPriceError(null);
+        try {
+            setService(await addServicePrice(serviceId, buildPriceRequest(priceValues)));
+            notifyServicesChanged();
+            setIsPriceModalVisible(false);
+        } catch (err) {
+            console.error('Error scheduling price:', err);
+            setPriceError(getCatalogErrorMessage(err, 'Unable to save the price. Please try again.'));
+        } finally {
+            setIsPriceSaving(false);
+        }
+    };
+
+    const performDeletePrice = async (price: ServicePrice) => {
+        if (serviceId === undefined) return;
+        setIsPriceSaving(true);
+        try {
+            setService(await deleteServicePrice(serviceId, price.id));
+            notifyServicesChanged();
+        } catch (err) {
+            console.error('Error removing price:', err);
+            Alert.alert('Price Not Removed', getCatalogErrorMessage(err, 'Unable to remove the price. Please try again.'));
+        } finally {
+            setIsPriceSaving(false);
+        }
+    };
+
+    const handleDeletePrice = (price: ServicePrice) => {
+        Alert.alert(
+            'Remove Price',
+            `Remove the ${formatCurrency(price.price_cents)} price from ${formatInvoiceDate(price.effective_date)}? Invoices already created keep their prices.`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                { text: 'Remove', style: 'destructive', onPress: () => performDeletePrice(price) },
+            ],
+        );
+    };
+
+    const currentStandardPrice = service ? resolveServicePrice(service).price : undefined;
+    const schedule = service ? sortPriceSchedule(service.prices) : [];
+
+    return (
+        <SafeAreaView style={tw`flex-1 bg-background-light dark:bg-background-dark`}>
+            <View style={tw`flex-row items-center p-4 border-b border-border-light/50 dark:border-border-dark/50`}>
+                <TouchableOpacity onPress={() => navigation.goBack()} disabled={isSaving}>
+                    <Icon name="arrow-back" size={24} color={iconColor} />
+                </TouchableOpacity>
+                <Text style={tw`flex-1 text-center text-lg font-bold text-text-light dark:text-text-dark`}>
+                    {serviceId === undefined ? 'New Service' : 'Edit Service'}
+                </Text>
+                <TouchableOpacity onPress={handleSave} disabled={isLoading || isSaving || loadError !== null}>
+                    {isSaving ? (
+                        <ActivityIndicator size="small" color={tw.color('primary')} />
+                    ) : (
+                        <Text style={tw`text-base font-semibold text-primary`}>Save</Text>
+                    )}
+                </TouchableOpacity>
+            </View>
+
+            {isLoading ? (
+                <View style={tw`flex-1 items-center justify-center p-8`}>
+                    <ActivityIndicator size="large" color={tw.color('primary')} />
+                    <Text style={tw`mt-4 text-text-light dark:text-text-dark`}>Loading service...</Text>
+                </View>
+            ) : loadError ? (
+                <View style={tw`flex-1 items-center justify-center p-8`}>
+                    <Icon name="error-outline" size={48} color={tw.color('danger')} />
+                    <Text style={tw`mt-4 text-center text-text-light dark:text-text-dark`}>{loadError}</Text>
+                    <TouchableOpacity style={tw`mt-4 px-6 py-3 bg-primary rounded-lg`} onPress={() => loadService()}>
+                        <Text style={tw`text-white font-medium`}>Retry</Text>
+                    </TouchableOpacity>
+                </View>
+            ) : (
+                <ScrollView style={tw`flex-1 px-4 pt-4`} contentContainerStyle={tw`pb-8`} keyboardShouldPersistTaps="handled">
+                    {saveError && (
+                        <View style={tw`mb-4 flex-row items-start gap-2 rounded-lg bg-red-50 dark:bg-red-900/20 p-4`}>
+                            <Icon name="error-outline" size={20} color={tw.color('danger')} />
+                            <Text style={tw`flex-1 text-red-800 dark:text-red-300`}>{saveError}</Text>
+                        </View>
+                    )}
+
+                    <SectionTitle>Service</SectionTitle>
+                    <FormField label="Service Code" placeholder="e.g. 99213" autoCapitalize="characters" autoCorrect={false} {...fieldProps('service_code')} />
+                    <FormField label="Description" autoCapitalize="sentences" {...fieldProps('description')} />
+                    <FormField
+                        label="Default Price"
+                        placeholder="0.00"
+                        keyboardType="decimal-pad"
+                        {...fieldProps('default_price')}
+                    />
+                    <Text style={tw`text-sm font-medium pb-2 text-text-light dark:text-text-dark`}>Tax</Text>
+                    <View style={tw`flex-row rounded-lg bg-primary/20 p-1 mb-4`}>
+                        {TAX_CATEGORIES.map(option => (
+                            <TouchableOpacity
+                                key={option}
+                                onPress={() => setValues(prev => ({ ...prev, tax_category: option }))}
+                                style={tw`flex-1 h-9 items-center justify-center rounded-md ${values.tax_category === option ? 'bg-primary' : ''}`}
+                            >
+                                <Text style={tw`text-sm font-semibold ${values.tax_category === option ? 'text-white' : 'text-primary'}`}>
+                                    {TAX_CATEGORY_LABELS[option]}
+                                </Text>
+                            </TouchableOpacity>
+                        ))}
+                    </View>
+                    <View style={tw`flex-row items-center justify-between mb-4`}>
+                        <View style={tw`flex-1 pr-4`}>
+                            <Text style={tw`text-sm font-medium text-text-light dark:text-text-dark`}>Active</Text>
+                            <Text style={tw`text-xs text-text-light/70 dark:text-text-dark/70`}>Inactive services can't be added to new invoices</Text>
+                        </View>
+                        <Switch value={values.active} onValueChange={active => setValues(prev => ({ ...prev, active }))} />
+                    </View>
+
+                    {service && (
+                        <>
+                            <SectionTitle>Price Schedule</SectionTitle>
+                            <View style={tw`bg-surface-light dark:bg-surface-dark rounded-xl shadow-sm px-4 mb-4 border border-border-light/50 dark:border-border-dark/50`}>
+                                {schedule.length === 0 ? (
+                                    <Text style={tw`py-4 text-sm text-text-light/70 dark:text-text-dark/70`}>No scheduled prices. Every payer is billed the default price.</Text>
+                                ) : (
+                                    schedule.map(price => (
+                                        <View key={price.id} style={tw`flex-row items-center gap-3 py-3 border-b border-border-light/50 dark:border-border-dark/50`}>
+                                            <View style={tw`flex-1`}>
+                                                <Text style={tw`text-sm font-medium text-text-light dark:text-text-dark`}>
+                                                    {formatCurrency(price.price_cents)} · {price.payer_name ?? 'Standard'}
+                                                </Text>
+                                                <Text style={tw`text-xs text-text-light/70 dark:text-text-dark/70`}>
+                                                    From {formatInvoiceDate(price.effective_date)}
+                                                    {price.id === currentStandardPrice?.id ? ' · Current standard price' : ''}
+                                                </Text>
+                                            </View>
+                                            <TouchableOpacity onPress={() => handleDeletePrice(price)} disabled={isPriceSaving}>
+                                                <Icon name="delete-outline" size={22} color={tw.color('danger')} />
+                                            </TouchableOpacity>
+                                        </View>
+                                    ))
+                                )}
+                                <TouchableOpacity
+                                    onPress={() => {
+                                        setPriceError(null);
+                                        setIsPriceModalVisible(true);
+                                    }}
+                                    style={tw`flex-row items-center justify-center gap-1 py-3`}
+                                >
+                                    <Icon name="add" size={20} color={tw.color('primary')} />
+                                    <Text style={tw`text-sm font-semibold text-primary`}>Schedule Price</Text>
+                                </TouchableOpacity>
+                            </View>
+                        </>
+                    )}
+                </ScrollView>
+            )}
+            <PriceModal
+                visible={isPriceModalVisible}
+                service={service}
+                isSubmitting={isPriceSaving}
+                error={priceError}
+                onSubmit={handleAddPrice}
+                onClose={() => setIsPriceModalVisible(false)}
+            />
+        </SafeAreaView>
+    );
+};
+
+export default ServiceFormScreen;
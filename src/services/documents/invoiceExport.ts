@@ -0,0 +1,28 @@
+/**
+ * Invoice Export Service
+ *
+ * Exports invoices as a CSV file through the system share sheet, where it can
+ * be saved to files or sent to accounting
+ */
+
+import Share from 'react-native-share';
+import { Invoice } from '../../types/invoice';
+import { buildInvoiceCsv, encodeBase64, getExportFileName } from '../../utils/invoiceExport';
+
+/**
+ * Build a CSV of the invoices and open the share sheet for it
+ * Dismissing the share sheet is not treated as an error
+ * @param invoices - Invoices to export, in order
+ */
+export async function shareInvoiceCsv(invoices: Invoice[]): Promise<void> {
+  const title = `${invoices.length} ${invoices.length === 1 ? 'invoice' : 'invoices'}`;
+
+  await Share.open({
+    title,
+    subject: title,
+    url: `data:text/csv;base64,${encodeBase64(buildInvoiceCsv(invoices))}`,
+    type: 'text/csv',
+    filename: getExportFileName(),
+    failOnCancel: false,
+  });
+}
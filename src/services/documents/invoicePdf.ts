@@ -0,0 +1,116 @@
+/**
+ * Invoice PDF Service
+ *
+ * Renders invoices, payment receipts and patient statements to PDF files on
+ * the device and hands them to the system share sheet, where they can be sent
+ * or saved to files
+ */
+
+import { generatePDF } from 'react-native-html-to-pdf';
+import Share from 'react-native-share';
+import { Invoice } from '../../types/invoice';
+import { PatientStatement } from '../../types/ledger';
+import { Patient } from '../../types/patient';
+import { Payment } from '../../types/payment';
+import {
+  buildInvoiceBatchHtml,
+  buildInvoiceDocumentHtml,
+  buildPatientStatementHtml,
+  getDocumentFileName,
+  getStatementFileName,
+} from '../../utils/invoiceDocument';
+import { getExportFileName } from '../../utils/invoiceExport';
+
+// US Letter at 72 dpi
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const PAGE_PADDING = 36;
+
+/**
+ * Render an invoice, or a receipt for one of its payments, to a PDF file
+ * @param invoice - Invoice to render
+ * @param payment - Payment to print a receipt for; omit for the invoice itself
+ * @returns Local path of the generated file
+ */
+export async function generateInvoicePdf(invoice: Invoice, payment?: Payment): Promise<string> {
+  const result = await generatePDF({
+    html: buildInvoiceDocumentHtml(invoice, payment),
+    fileName: getDocumentFileName(invoice, payment),
+    width: PAGE_WIDTH,
+    height: PAGE_HEIGHT,
+    padding: PAGE_PADDING,
+  });
+  return result.filePath;
+}
+
+/**
+ * Generate a PDF and open the share sheet for it
+ * Dismissing the share sheet is not treated as an error
+ * @param invoice - Invoice to share
+ * @param payment - Payment to share a receipt for; omit to share the invoice
+ */
+export async function shareInvoicePdf(invoice: Invoice, payment?: Payment): Promise<void> {
+  const filePath = await generateInvoicePdf(invoice, payment);
+  const title = payment ? `Receipt for invoice #${invoice.invoice_number}` : `Invoice #${invoice.invoice_number}`;
+
+  await Share.open({
+    title,
+    subject: title,
+    url: filePath.startsWith('file://') ? filePath : `file://${filePath}`,
+    type: 'application/pdf',
+    filename: getDocumentFileName(invoice, payment),
+    failOnCancel: false,
+  });
+}
+
+/**
+ * Render several invoices into one PDF, a page per invoice, and open the share
+ * sheet for it so they can be printed or saved together
+ * @param invoices - Invoices to print, in order
+ */
+export async function shareInvoiceBatchPdf(invoices: Invoice[]): Promise<void> {
+  const fileName = getExportFileName();
+  const result = await generatePDF({
+    html: buildInvoiceBatchHtml(invoices),
+    fileName,
+    width: PAGE_WIDTH,
+    height: PAGE_HEIGHT,
+    padding: PAGE_PADDING,
+  });
+  const title = `${invoices.length} ${invoices.length === 1 ? 'invoice' : 'invoices'}`;
+
+  await Share.open({
+    title,
+    subject: title,
+    url: result.filePath.startsWith('file://') ? result.filePath : `file://${result.filePath}`,
+    type: 'application/pdf',
+    filename: fileName,
+    failOnCancel: false,
+  });
+}
+
+/**
+ * Render a patient statement to PDF and open the share sheet for it
+ * @param statement - Statement to share
+ * @param patient - Patient record, for the billing address
+ */
+export async function sharePatientStatementPdf(statement: PatientStatement, patient?: Patient): Promise<void> {
+  const fileName = getStatementFileName(statement);
+  const result = await generatePDF({
+    html: buildPatientStatementHtml(statement, patient),
+    fileName,
+    width: PAGE_WIDTH,
+    height: PAGE_HEIGHT,
+    padding: PAGE_PADDING,
+  });
+  const title = `Statement for ${statement.patient_name ?? `P-${statement.patient_id}`}`;
+
+  await Share.open({
+    title,
+    subject: title,
+    url: result.filePath.startsWith('file://') ? result.filePath : `file://${result.filePath}`,
+    type: 'application/pdf',
+    filename: fileName,
+    failOnCancel: false,
+  });
+}
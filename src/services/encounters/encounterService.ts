@@ -0,0 +1,50 @@
+/**
+ * Encounter Service
+ *
+ * Logs the visits doctors record, creating a draft invoice for billing staff to
+ * review, and records each one in the audit log
+ */
+
+import { createEncounter } from '../../api/encounterApi';
+import { recordAuditEntry } from '../../api/auditApi';
+import { ValidationError } from '../../api/errors';
+import { Encounter, EncounterFormValues } from '../../types/encounter';
+import { buildEncounterRequest, validateEncounterForm } from '../../utils/encounters';
+
+/**
+ * Log a visit with the services performed and draft its invoice
+ * @param values - Completed encounter form
+ * @param payerName - Insurer billed first for the patient, for negotiated prices; omit for self-pay
+ * @returns The recorded encounter, with its draft invoice
+ * @throws ValidationError if the form is incomplete, other ApiError subclasses on API failure
+ */
+export async function logEncounter(values: EncounterFormValues, payerName?: string): Promise<Encounter> {
+  const errors = Object.values(validateEncounterForm(values));
+  if (errors.length > 0) {
+    throw new ValidationError(errors[0] ?? 'The encounter is incomplete', 400);
+  }
+
+  const request = buildEncounterRequest(values, payerName);
+  const encounter = await createEncounter(request);
+
+  try {
+    await recordAuditEntry({
+      action: 'create',
+      target_type: 'encounter',
+      target_id: encounter.id,
+      details: {
+        invoice_id: encounter.invoice_id,
+        invoice_number: encounter.invoice_number,
+        amount: request.total_amount_cents,
+        currency: request.currency,
+        patient_id: request.patient_id,
+        visit_date: request.visit_date,
+        services: request.line_items.map(item => item.service_code).filter(Boolean).join(', '),
+      },
+    });
+  } catch (error) {
+    // The encounter and its draft invoice exist at the backend; a missing audit entry must not report them as failed
+    console.error(`Audit entry for encounter ${encounter.id} not recorded:`, error);
+  }
+  return encounter;
+}
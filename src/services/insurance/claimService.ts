@@ -0,0 +1,147 @@
+/**
+ * Claim Service
+ *
+ * Submits insurance claims, moves them through their statuses and posts the
+ * explanations of benefits that settle them, recording each step in the
+ * audit log
+ */
+
+import { postExplanationOfBenefits, submitClaim, updateClaimStatus } from '../../api/insuranceApi';
+import { recordAuditEntry } from '../../api/auditApi';
+import { ValidationError } from '../../api/errors';
+import { AuditLogDetails } from '../../types/audit';
+import { Invoice } from '../../types/invoice';
+import { ClaimStatus, ExplanationOfBenefits, InsuranceClaim, InsurancePolicy } from '../../types/insurance';
+import { canTransitionClaim } from '../../utils/claimStatus';
+import { normalizeCurrency } from '../../utils/currency';
+import { formatCurrency } from '../../utils/financialMetrics';
+import { getPatientBalanceCents } from '../../utils/invoiceTotals';
+
+/**
+ * Write an audit entry for a claim without failing the action it describes
+ */
+async function auditClaim(
+  action: string,
+  invoice: Invoice,
+  claimId: number,
+  details: AuditLogDetails,
+): Promise<void> {
+  try {
+    await recordAuditEntry({
+      action,
+      target_type: 'claim',
+      target_id: claimId,
+      details: {
+        invoice_id: invoice.id,
+        invoice_number: invoice.invoice_number,
+        currency: normalizeCurrency(invoice.currency),
+        ...details,
+      },
+    });
+  } catch (error) {
+    // The claim has been updated at the backend; a missing audit entry must not report it as failed
+    console.error(`Audit entry for claim ${claimId} not recorded:`, error);
+  }
+}
+
+/**
+ * Find a claim on an invoice returned by the API
+ */
+function findClaim(invoice: Invoice, claimId: number): InsuranceClaim | undefined {
+  return invoice.claims?.find(claim => claim.id === claimId);
+}
+
+export interface ClaimSubmissionRequest {
+  invoice: Invoice;
+  policy: InsurancePolicy;
+  amountCents: number;
+}
+
+/**
+ * Bill part of an invoice's patient balance to an insurer
+ * @returns The invoice with the new claim
+ * @throws ValidationError if the amount is more than the patient still owes,
+ *         other ApiError subclasses on API failure
+ */
+export async function submitInsuranceClaim(request: ClaimSubmissionRequest): Promise<Invoice> {
+  const { invoice, policy, amountCents } = request;
+  if (amountCents <= 0 || amountCents > getPatientBalanceCents(invoice)) {
+    throw new ValidationError('The claim amount must be more than zero and no more than the patient balance', 400);
+  }
+
+  const updated = await submitClaim(invoice.id, { policy_id: policy.id, billed_cents: amountCents });
+  // The new claim is the one the invoice didn't have before
+  const previousIds = new Set((invoice.claims ?? []).map(claim => claim.id));
+  const claim = updated.claims?.find(item => !previousIds.has(item.id));
+  if (!claim) {
+    return updated;
+  }
+  await auditClaim('submit', updated, claim.id, {
+    amount: amountCents,
+    payer: policy.payer_name,
+    policy_id: policy.id,
+  });
+  return updated;
+}
+
+export interface ClaimStatusChange {
+  claim: InsuranceClaim;
+  status: ClaimStatus;
+  claimNumber?: string;
+  denialReason?: string;
+  note?: string;
+}
+
+/**
+ * Move a claim to a new status
+ * @returns The invoice with the updated claim
+ * @throws ValidationError if the claim can't move to that status or a denial has no reason,
+ *         other ApiError subclasses on API failure
+ */
+export async function changeClaimStatus(change: ClaimStatusChange): Promise<Invoice> {
+  const { claim, status } = change;
+  if (!canTransitionClaim(claim.status, status)) {
+    throw new ValidationError(`A ${claim.status} claim cannot be marked ${status}`, 400);
+  }
+  if (status === 'denied' && !change.denialReason?.trim()) {
+    throw new ValidationError('Enter the reason the claim was denied', 400);
+  }
+
+  const updated = await updateClaimStatus(claim.id, {
+    status,
+    claim_number: change.claimNumber?.trim() || undefined,
+    denial_reason: status === 'denied' ? change.denialReason?.trim() : undefined,
+    note: change.note?.trim() || undefined,
+  });
+  await auditClaim('update', updated, claim.id, {
+    from: claim.status,
+    to: status,
+    amount: claim.billed_cents,
+    reason: status === 'denied' ? change.denialReason?.trim() : undefined,
+  });
+  return updated;
+}
+
+/**
+ * Post the explanation of benefits for a claim, settling the insurer's portion
+ * and leaving the patient's responsibility on their balance
+ * @returns The invoice with insurer and patient portions updated
+ * @throws ValidationError if the claim is already settled or denied,
+ *         other ApiError subclasses on API failure
+ */
+export async function adjudicateClaim(invoice: Invoice, claim: InsuranceClaim, eob: ExplanationOfBenefits): Promise<Invoice> {
+  if (!canTransitionClaim(claim.status, 'paid')) {
+    throw new ValidationError(`An EOB cannot be posted for a ${claim.status} claim`, 400);
+  }
+
+  const updated = await postExplanationOfBenefits(claim.id, eob);
+  const settled = findClaim(updated, claim.id);
+  await auditClaim('adjudicate', updated, claim.id, {
+    amount: eob.paid_cents,
+    allowed: formatCurrency(eob.allowed_cents, invoice.currency),
+    patient_responsibility: formatCurrency(eob.patient_responsibility_cents, invoice.currency),
+    adjustment: formatCurrency(settled?.adjustment_cents ?? claim.billed_cents - eob.allowed_cents, invoice.currency),
+    claim_number: eob.claim_number ?? claim.claim_number,
+  });
+  return updated;
+}
@@ -0,0 +1,146 @@
+/**
+ * Bulk Invoice Actions
+ *
+ * Runs one action (send reminder, mark paid, void) over many invoices in turn,
+ * reporting progress as it goes and an outcome for every invoice, so one
+ * failure doesn't stop the rest of the batch
+ */
+
+import { fetchInvoice, voidInvoice } from '../../api/invoiceApi';
+import { submitManualPayment } from '../../api/paymentApi';
+import { ApiError, NetworkError } from '../../api/errors';
+import { Invoice } from '../../types/invoice';
+import { ManualPaymentMethod } from '../../types/payment';
+import { sendReminder } from '../reminders/reminderService';
+import { generateIdempotencyKey } from '../../utils/idempotency';
+import { notifyInvoicesChanged, updateCachedInvoice } from '../../utils/invoiceCache';
+import { getInsuranceBalanceCents, getPatientBalanceCents } from '../../utils/invoiceTotals';
+import { canTransition, isReceivableStatus } from '../../utils/invoiceStatus';
+import { ONE_OFF_REMINDER_TEMPLATE, renderReminderTemplate } from '../../utils/reminders';
+import { ReminderChannel } from '../../types/reminder';
+
+export type BulkInvoiceAction =
+  | { type: 'remind'; channel: ReminderChannel }
+  | { type: 'mark_paid'; method: ManualPaymentMethod; reference?: string }
+  | { type: 'void' };
+
+export type BulkActionOutcome = 'succeeded' | 'skipped' | 'failed';
+
+export interface BulkActionResult {
+  invoice: Invoice;
+  outcome: BulkActionOutcome;
+  message?: string; // why the invoice was skipped or failed
+}
+
+export interface BulkActionProgress {
+  completed: number;
+  total: number;
+}
+
+/**
+ * Reason an invoice can't take the action, or null if it can
+ */
+export function getBulkActionSkipReason(action: BulkInvoiceAction, invoice: Invoice): string | null {
+  switch (action.type) {
+    case 'remind':
+    case 'mark_paid':
+      if (!isReceivableStatus(invoice.status)) {
+        return 'Nothing is owed';
+      }
+      // Patients are only reminded of, and only pay, their own portion
+      if (getPatientBalanceCents(invoice) > 0) {
+        return null;
+      }
+      return getInsuranceBalanceCents(invoice) > 0 ? 'Awaiting insurance' : 'Nothing is owed';
+    case 'void':
+      // Voiding a draft skips the audited reject decision in billing review
+      if (invoice.status === 'draft') {
+        return 'Drafts are rejected through billing review';
+      }
+      return canTransition(invoice.status, 'void') ? null : 'Only unpaid invoices can be voided';
+  }
+}
+
+const getFailureMessage = (error: unknown): string => {
+  if (error instanceof NetworkError) {
+    return 'Unable to connect to server';
+  }
+  if (error instanceof ApiError && error.message) {
+    return error.message;
+  }
+  return 'Unexpected error';
+};
+
+/**
+ * Apply the action to one invoice
+ * @returns The invoice as updated by the server, when it is known
+ */
+async function applyAction(action: BulkInvoiceAction, invoice: Invoice): Promise<Invoice | null> {
+  switch (action.type) {
+    case 'remind':
+      await sendReminder({
+        invoice,
+        channel: action.channel,
+        message: renderReminderTemplate(ONE_OFF_REMINDER_TEMPLATE, invoice),
+      });
+      return null;
+    case 'mark_paid':
+      await submitManualPayment({
+        invoice_id: invoice.id,
+        amount_cents: getPatientBalanceCents(invoice),
+        method: action.method,
+        reference: action.reference,
+        idempotency_key: generateIdempotencyKey(action.method),
+      });
+      try {
+        return await fetchInvoice(invoice.id);
+      } catch (error) {
+        // The payment is recorded; the list reload after the batch picks up the new status
+        console.error(`Invoice ${invoice.id} paid but not reloaded:`, error);
+        return null;
+      }
+    case 'void':
+      return voidInvoice(invoice.id);
+  }
+}
+
+/**
+ * Run an action over invoices one at a time
+ * Invoices the action doesn't apply to are skipped; failures are recorded and the batch continues
+ * @param onProgress - Called after each invoice
+ * @returns One result per invoice, in the order given
+ */
+export async function runBulkInvoiceAction(
+  action: BulkInvoiceAction,
+  invoices: Invoice[],
+  onProgress?: (progress: BulkActionProgress) => void,
+): Promise<BulkActionResult[]> {
+  const results: BulkActionResult[] = [];
+  let changed = false;
+
+  for (const invoice of invoices) {
+    const skipReason = getBulkActionSkipReason(action, invoice);
+    if (skipReason) {
+      results.push({ invoice, outcome: 'skipped', message: skipReason });
+    } else {
+      try {
+        const updated = await applyAction(action, invoice);
+        if (updated) {
+          await updateCachedInvoice(updated);
+        }
+        changed = changed || action.type !== 'remind';
+        results.push({ invoice: updated ?? invoice, outcome: 'succeeded' });
+      } catch (error) {
+        console.error(`Bulk ${action.type} failed for invoice ${invoice.id}:`, error);
+        results.push({ invoice, outcome: 'failed', message: getFailureMessage(error) });
+      }
+    }
+    onProgress?.({ completed: results.length, total: invoices.length });
+  }
+
+  // One reload for the whole batch rather than one per invoice
+  if (changed) {
+    notifyInvoicesChanged();
+  }
+  return results;
+}
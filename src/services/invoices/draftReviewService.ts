@@ -0,0 +1,79 @@
+/**
+ * Draft Review Service
+ *
+ * Finalizes or rejects the draft invoices created from doctors' encounters
+ * once billing staff have reviewed them, recording each decision in the audit log
+ */
+
+import { finalizeInvoice, voidInvoice } from '../../api/invoiceApi';
+import { recordAuditEntry } from '../../api/auditApi';
+import { ValidationError } from '../../api/errors';
+import { AuditLogDetails } from '../../types/audit';
+import { Invoice } from '../../types/invoice';
+import { normalizeCurrency } from '../../utils/currency';
+import { parseDateInput, startOfDay } from '../../utils/dateUtils';
+
+/**
+ * Write an audit entry for a review decision without failing the decision itself
+ */
+async function auditReview(action: string, invoice: Invoice, details: AuditLogDetails = {}): Promise<void> {
+  try {
+    await recordAuditEntry({
+      action,
+      target_type: 'invoice',
+      target_id: invoice.id,
+      details: {
+        invoice_id: invoice.id,
+        invoice_number: invoice.invoice_number,
+        amount: invoice.total_amount_cents,
+        currency: normalizeCurrency(invoice.currency),
+        encounter_id: invoice.encounter_id,
+        ...details,
+      },
+    });
+  } catch (error) {
+    // The invoice has been updated at the backend; a missing audit entry must not report it as failed
+    console.error(`Audit entry for invoice ${invoice.id} not recorded:`, error);
+  }
+}
+
+/**
+ * Issue a reviewed draft invoice to the patient
+ * @param dueDate - Due date as YYYY-MM-DD, today or later
+ * @returns The issued invoice
+ * @throws ValidationError if the invoice isn't a draft or the due date is invalid,
+ *         other ApiError subclasses on API failure
+ */
+export async function finalizeDraftInvoice(invoice: Invoice, dueDate: string, now: Date = new Date()): Promise<Invoice> {
+  if (invoice.status !== 'draft') {
+    throw new ValidationError('Only draft invoices can be finalized', 400);
+  }
+  const due = parseDateInput(dueDate);
+  if (!due || due < startOfDay(now)) {
+    throw new ValidationError('Enter a due date of today or later as YYYY-MM-DD', 400);
+  }
+
+  const updated = await finalizeInvoice(invoice.id, { due_date: dueDate.trim() });
+  await auditReview('finalize', updated, { due_date: dueDate.trim() });
+  return updated;
+}
+
+/**
+ * Reject a draft invoice, voiding it so the charges are never billed
+ * @param reason - Why billing staff rejected the charges
+ * @returns The voided invoice
+ * @throws ValidationError if the invoice isn't a draft or no reason is given,
+ *         other ApiError subclasses on API failure
+ */
+export async function rejectDraftInvoice(invoice: Invoice, reason: string): Promise<Invoice> {
+  if (invoice.status !== 'draft') {
+    throw new ValidationError('Only draft invoices can be rejected', 400);
+  }
+  if (!reason.trim()) {
+    throw new ValidationError('Enter the reason the charges were rejected', 400);
+  }
+
+  const updated = await voidInvoice(invoice.id);
+  await auditReview('reject', updated, { reason: reason.trim() });
+  return updated;
+}
@@ -0,0 +1,203 @@
+/**
+ * Fake Payment Gateway
+ *
+ * Deterministic in-memory processor for development and demos. The outcome of a
+ * charge is chosen by the test card number, so every scenario can be reproduced
+ * without a real processor account.
+ */
+
+import { PaymentDeclinedError, TimeoutError, ValidationError } from '../../api/errors';
+import {
+  AuthorizeRequest,
+  CardDetails,
+  CardToken,
+  DeclineCode,
+  GatewayRefundRequest,
+  GatewayTransaction,
+  PaymentGateway,
+} from '../../types/payment';
+import { detectCardBrand } from '../../utils/cardValidation';
+
+type FakeOutcome = 'approve' | DeclineCode | 'timeout';
+
+/**
+ * Test card numbers and the outcome each one simulates
+ * Any other valid card is approved
+ */
+export const FAKE_TEST_CARDS: Record<string, FakeOutcome> = {
+  '4242424242424242': 'approve',
+  '5555555555554444': 'approve',
+  '378282246310005': 'approve',
+  '4000000000000002': 'card_declined',
+  '4000000000009995': 'insufficient_funds',
+  '4000000000000069': 'expired_card',
+  '4000000000000119': 'processing_error',
+  '4000000000000341': 'timeout',
+};
+
+const DECLINE_MESSAGES: Record<DeclineCode, string> = {
+  card_declined: 'The card was declined.',
+  insufficient_funds: 'The card has insufficient funds.',
+  expired_card: 'The card has expired.',
+  processing_error: 'The card could not be processed.',
+};
+
+const SIMULATED_LATENCY_MS = 400;
+const SIMULATED_TIMEOUT_MS = 3000;
+
+const delay = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Create a fake gateway with its own in-memory state
+ * @param latencyMs - Delay applied to every call to mimic network round trips
+ */
+export function createFakeGateway(latencyMs: number = SIMULATED_LATENCY_MS): PaymentGateway {
+  const cardsByToken = new Map<string, string>();
+  const transactions = new Map<string, GatewayTransaction>();
+  const authorizations = new Map<string, Promise<GatewayTransaction>>();
+  const refunds = new Map<string, Promise<GatewayTransaction>>();
+  let sequence = 0;
+
+  const nextId = (prefix: string) => {
+    sequence += 1;
+    return `${prefix}_fake_${sequence.toString().padStart(6, '0')}`;
+  };
+
+  const getTransaction = (transactionId: string): GatewayTransaction => {
+    const transaction = transactions.get(transactionId);
+    if (!transaction) {
+      throw new ValidationError(`Unknown transaction ${transactionId}`, 404);
+    }
+    return transaction;
+  };
+
+  const save = (transaction: GatewayTransaction): GatewayTransaction => {
+    transactions.set(transaction.id, transaction);
+    return { ...transaction };
+  };
+
+  const authorizeOnce = async (request: AuthorizeRequest): Promise<GatewayTransaction> => {
+    const cardNumber = cardsByToken.get(request.token);
+    if (!cardNumber) {
+      throw new ValidationError('Invalid or expired card token', 400);
+    }
+    if (request.amount_cents <= 0) {
+      throw new ValidationError('Amount must be greater than zero', 400);
+    }
+
+    const outcome = FAKE_TEST_CARDS[cardNumber] ?? 'approve';
+    if (outcome === 'timeout') {
+      await delay(SIMULATED_TIMEOUT_MS);
+      throw new TimeoutError('Payment processor did not respond');
+    }
+    await delay(latencyMs);
+
+    const transaction: GatewayTransaction = {
+      id: nextId('txn'),
+      status: outcome === 'approve' ? 'authorized' : 'declined',
+      amount_cents: request.amount_cents,
+      captured_cents: 0,
+      refunded_cents: 0,
+      decline_code: outcome === 'approve' ? undefined : outcome,
+      created_at: new Date().toISOString(),
+    };
+    save(transaction);
+
+    if (transaction.decline_code) {
+      throw new PaymentDeclinedError(DECLINE_MESSAGES[transaction.decline_code], transaction.decline_code);
+    }
+    return transaction;
+  };
+
+  const refundOnce = async (request: GatewayRefundRequest): Promise<GatewayTransaction> => {
+    await delay(latencyMs);
+    const transaction = getTransaction(request.transaction_id);
+    if (transaction.status !== 'captured' && transaction.status !== 'refunded') {
+      throw new ValidationError(`Cannot refund a ${transaction.status} transaction`, 400);
+    }
+    const refundable = transaction.captured_cents - transaction.refunded_cents;
+    const amount = request.amount_cents ?? refundable;
+    if (amount <= 0 || amount > refundable) {
+      throw new ValidationError('Refund amount exceeds the refundable balance', 400);
+    }
+    const refundedCents = transaction.refunded_cents + amount;
+    return save({
+      ...transaction,
+      status: refundedCents === transaction.captured_cents ? 'refunded' : 'captured',
+      refunded_cents: refundedCents,
+    });
+  };
+
+  return {
+    name: 'fake',
+
+    async tokenizeCard(card: CardDetails): Promise<CardToken> {
+      await delay(latencyMs);
+      const token = nextId('tok');
+      cardsByToken.set(token, card.number);
+      return {
+        token,
+        brand: detectCardBrand(card.number),
+        last4: card.number.slice(-4),
+        exp_month: card.exp_month,
+        exp_year: card.exp_year,
+      };
+    },
+
+    authorize(request: AuthorizeRequest): Promise<GatewayTransaction> {
+      // A repeated idempotency key (even while the first call is in flight) shares its result
+      let authorization = authorizations.get(request.idempotency_key);
+      if (!authorization) {
+        authorization = authorizeOnce(request);
+        authorizations.set(request.idempotency_key, authorization);
+        // Nothing was recorded on a timeout, so a retry with the same key may try again
+        authorization.catch(error => {
+          if (error instanceof TimeoutError) {
+            authorizations.delete(request.idempotency_key);
+          }
+        });
+      }
+      return authorization.then(transaction => ({ ...transaction }));
+    },
+
+    async capture(transactionId: string, amountCents?: number): Promise<GatewayTransaction> {
+      await delay(latencyMs);
+      const transaction = getTransaction(transactionId);
+      if (transaction.status === 'captured') {
+        return { ...transaction };
+      }
+      if (transaction.status !== 'authorized') {
+        throw new ValidationError(`Cannot capture a ${transaction.status} transaction`, 400);
+      }
+      const amount = amountCents ?? transaction.amount_cents;
+      if (amount <= 0 || amount > transaction.amount_cents) {
+        throw new ValidationError('Capture amount exceeds the authorized amount', 400);
+      }
+      return save({ ...transaction, status: 'captured', captured_cents: amount });
+    },
+
+    refund(request: GatewayRefundRequest): Promise<GatewayTransaction> {
+      // A repeated idempotency key shares the first call's result instead of refunding again
+      let refund = refunds.get(request.idempotency_key);
+      if (!refund) {
+        refund = refundOnce(request);
+        refunds.set(request.idempotency_key, refund);
+        // Nothing was refunded when the call failed, so a retry with the same key may try again
+        refund.catch(() => refunds.delete(request.idempotency_key));
+      }
+      return refund.then(transaction => ({ ...transaction }));
+    },
+
+    async void(transactionId: string): Promise<GatewayTransaction> {
+      await delay(latencyMs);
+      const transaction = getTransaction(transactionId);
+      if (transaction.status === 'voided') {
+        return { ...transaction };
+      }
+      if (transaction.status !== 'authorized') {
+        throw new ValidationError(`Cannot void a ${transaction.status} transaction`, 400);
+      }
+      return save({ ...transaction, status: 'voided' });
+    },
+  };
+}
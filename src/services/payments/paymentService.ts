@@ -0,0 +1,218 @@
+/**
+ * Payment Service
+ *
+ * Holds the active payment gateway and runs the card payment flow
+ * (tokenize -> authorize -> capture -> record on backend) and the refund flow
+ * (refund at gateway -> record on backend -> audit) so screens never call a
+ * processor directly
+ */
+
+import { submitPayment, submitRefund } from '../../api/paymentApi';
+import { recordAuditEntry } from '../../api/auditApi';
+import { ApiError, ValidationError } from '../../api/errors';
+import { Invoice } from '../../types/invoice';
+import { formatCurrency } from '../../utils/financialMetrics';
+import { normalizeCurrency } from '../../utils/currency';
+import {
+  CardDetails,
+  Payment,
+  PaymentGateway,
+  Refund,
+  RefundAllocation,
+  RefundReason,
+} from '../../types/payment';
+import { createFakeGateway } from './fakeGateway';
+
+// The local fake is used until a processor adapter is registered with setPaymentGateway
+let activeGateway: PaymentGateway = createFakeGateway();
+
+/**
+ * Gateway used for new payments
+ */
+export function getPaymentGateway(): PaymentGateway {
+  return activeGateway;
+}
+
+/**
+ * Replace the gateway (e.g. with a processor SDK adapter at app start)
+ */
+export function setPaymentGateway(gateway: PaymentGateway): void {
+  activeGateway = gateway;
+}
+
+export interface CardPaymentRequest {
+  invoiceId: number;
+  amountCents: number;
+  currency: string;
+  card: CardDetails;
+  /** Reuse the same key for every retry of one payment so it is charged at most once */
+  idempotencyKey: string;
+  saveCard?: boolean;
+}
+
+/**
+ * Charge a card and record the payment against the invoice
+ * @returns The payment recorded by the backend
+ * @throws PaymentDeclinedError if the processor declines the card,
+ *         other ApiError subclasses for network, timeout or backend failures
+ */
+export async function processCardPayment(request: CardPaymentRequest): Promise<Payment> {
+  const gateway = getPaymentGateway();
+
+  const cardToken = await gateway.tokenizeCard(request.card);
+  const authorization = await gateway.authorize({
+    token: cardToken.token,
+    amount_cents: request.amountCents,
+    currency: request.currency,
+    idempotency_key: request.idempotencyKey,
+    invoice_id: request.invoiceId,
+  });
+  const charge = await gateway.capture(authorization.id);
+
+  try {
+    return await submitPayment({
+      invoice_id: request.invoiceId,
+      amount_cents: charge.captured_cents,
+      transaction_id: charge.id,
+      card_token: cardToken.token,
+      card_brand: cardToken.brand,
+      card_last4: cardToken.last4,
+      idempotency_key: request.idempotencyKey,
+      save_card: request.saveCard,
+    });
+  } catch (error) {
+    // The card was charged; keep the transaction id so staff can reconcile it
+    console.error(`Payment ${charge.id} captured but not recorded:`, error);
+    const reason = error instanceof Error ? error.message : 'Unknown error';
+    throw new ApiError(
+      `The card was charged (transaction ${charge.id}) but the payment could not be recorded: ${reason}`,
+      error instanceof ApiError ? error.status : undefined,
+      error instanceof ApiError ? error.body : undefined,
+    );
+  }
+}
+
+export interface InvoiceRefundRequest {
+  invoice: Invoice;
+  amountCents: number;
+  reason: RefundReason;
+  note?: string;
+  /** Reuse the same key for every retry of one refund so each card is refunded and the refund recorded at most once */
+  idempotencyKey: string;
+}
+
+/**
+ * Split a refund across the invoice's successful card payments, newest first
+ * @returns One allocation per payment touched, or null if the payments can't cover the amount
+ */
+function allocateRefund(payments: Payment[], amountCents: number): RefundAllocation[] | null {
+  const allocations: RefundAllocation[] = [];
+  let remaining = amountCents;
+  const refundable = payments
+    // Cash and check payments have no gateway charge to return money to
+    .filter(payment => payment.status === 'succeeded' && (payment.method ?? 'card') === 'card')
+    .reverse();
+
+  for (const payment of refundable) {
+    if (remaining === 0) {
+      break;
+    }
+    const available = payment.amount_cents - (payment.refunded_cents ?? 0);
+    const amount = Math.min(available, remaining);
+    if (amount > 0) {
+      allocations.push({ payment_id: payment.id, transaction_id: payment.transaction_id, amount_cents: amount });
+      remaining -= amount;
+    }
+  }
+  return remaining === 0 ? allocations : null;
+}
+
+/**
+ * Refund part or all of what was paid on an invoice
+ * Refunds the captured charges at the gateway, records the refund (which issues a
+ * credit note) and writes an audit entry
+ * @returns The refund recorded by the backend, including its credit note
+ * @throws ValidationError if the invoice's payments can't cover the amount,
+ *         other ApiError subclasses for gateway, network or backend failures
+ */
+export async function processRefund(request: InvoiceRefundRequest): Promise<Refund> {
+  const { invoice, amountCents } = request;
+  const allocations = allocateRefund(invoice.payments ?? [], amountCents);
+  if (!allocations) {
+    throw new ValidationError('The refund amount is more than the refundable card payments on this invoice', 400);
+  }
+
+  const gateway = getPaymentGateway();
+  const completed: RefundAllocation[] = [];
+  let gatewayError: unknown = null;
+  for (const allocation of allocations) {
+    try {
+      await gateway.refund({
+        transaction_id: allocation.transaction_id,
+        amount_cents: allocation.amount_cents,
+        // One key per charge, so a retry only refunds the charges that weren't refunded yet
+        idempotency_key: `${request.idempotencyKey}_${allocation.payment_id}`,
+      });
+      completed.push(allocation);
+    } catch (error) {
+      gatewayError = error;
+      break;
+    }
+  }
+  if (completed.length === 0) {
+    throw gatewayError;
+  }
+
+  // Record whatever the gateway refunded, even if a later charge failed, so the books match the processor
+  const refundedCents = completed.reduce((sum, allocation) => sum + allocation.amount_cents, 0);
+  let refund: Refund;
+  try {
+    refund = await submitRefund(invoice.id, {
+      amount_cents: refundedCents,
+      reason: request.reason,
+      note: request.note,
+      allocations: completed,
+      idempotency_key: request.idempotencyKey,
+    });
+  } catch (error) {
+    // Money was returned; keep the transaction ids so staff can reconcile it
+    const transactionIds = completed.map(allocation => allocation.transaction_id).join(', ');
+    console.error(`Refund of ${transactionIds} issued but not recorded:`, error);
+    const reason = error instanceof Error ? error.message : 'Unknown error';
+    throw new ApiError(
+      `${formatCurrency(refundedCents, invoice.currency)} was refunded (transactions ${transactionIds}) but the refund could not be recorded: ${reason}`,
+      error instanceof ApiError ? error.status : undefined,
+      error instanceof ApiError ? error.body : undefined,
+    );
+  }
+
+  try {
+    await recordAuditEntry({
+      action: 'refund',
+      target_type: 'invoice',
+      target_id: invoice.id,
+      details: {
+        refund_id: refund.id,
+        amount: refund.amount_cents,
+        currency: normalizeCurrency(invoice.currency),
+        invoice_id: invoice.id,
+        invoice_number: invoice.invoice_number,
+        credit_note: refund.credit_note.credit_note_number,
+        reason: request.reason,
+      },
+    });
+  } catch (error) {
+    // The refund and credit note exist; a missing audit entry must not hide that
+    console.error(`Audit entry for refund ${refund.id} not recorded:`, error);
+  }
+
+  if (gatewayError) {
+    const reason = gatewayError instanceof Error ? gatewayError.message : 'Unknown error';
+    throw new ApiError(
+      `Only ${formatCurrency(refundedCents, invoice.currency)} of ${formatCurrency(amountCents, invoice.currency)} was refunded (credit note ${refund.credit_note.credit_note_number}): ${reason}`,
+      gatewayError instanceof ApiError ? gatewayError.status : undefined,
+      gatewayError instanceof ApiError ? gatewayError.body : undefined,
+    );
+  }
+  return refund;
+}
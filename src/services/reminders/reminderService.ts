@@ -0,0 +1,70 @@
+/**
+ * Reminder Service
+ *
+ * Loads the reminder schedule and sends payment reminders for invoices,
+ * recording each one in the audit log
+ */
+
+import { fetchReminderSchedule, sendInvoiceReminder } from '../../api/reminderApi';
+import { recordAuditEntry } from '../../api/auditApi';
+import { ApiCallOptions } from '../../api/client';
+import { ApiError } from '../../api/errors';
+import { Invoice } from '../../types/invoice';
+import { InvoiceReminder, ReminderChannel, ReminderSchedule, ReminderStep } from '../../types/reminder';
+import { DEFAULT_REMINDER_SCHEDULE, describeReminderOffset } from '../../utils/reminders';
+
+/**
+ * The clinic's reminder schedule, or the default one if none has been saved
+ * @throws ApiError subclass on API failures other than 404
+ */
+export async function getReminderSchedule(options?: ApiCallOptions): Promise<ReminderSchedule> {
+  try {
+    return await fetchReminderSchedule(options);
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 404) {
+      return DEFAULT_REMINDER_SCHEDULE;
+    }
+    throw error;
+  }
+}
+
+export interface InvoiceReminderRequest {
+  invoice: Invoice;
+  channel: ReminderChannel;
+  message: string;
+  /** Schedule step being sent; omit for a one-off reminder */
+  step?: ReminderStep;
+}
+
+/**
+ * Send a reminder to the patient and write an audit entry for it
+ * @returns The reminder recorded by the backend
+ * @throws ApiError subclass if the reminder could not be sent
+ */
+export async function sendReminder(request: InvoiceReminderRequest): Promise<InvoiceReminder> {
+  const { invoice, step } = request;
+  const reminder = await sendInvoiceReminder(invoice.id, {
+    step_id: step?.id,
+    channel: request.channel,
+    message: request.message,
+  });
+
+  try {
+    await recordAuditEntry({
+      action: 'send',
+      target_type: 'invoice',
+      target_id: invoice.id,
+      details: {
+        invoice_id: invoice.id,
+        invoice_number: invoice.invoice_number,
+        reminder_id: reminder.id,
+        channel: request.channel,
+        schedule: step ? describeReminderOffset(step.offset_days) : 'one-off',
+      },
+    });
+  } catch (error) {
+    // The patient has been contacted; a missing audit entry must not report the send as failed
+    console.error(`Audit entry for reminder ${reminder.id} not recorded:`, error);
+  }
+  return reminder;
+}
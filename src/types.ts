@@ -1,13 +1,25 @@
 import type { NavigatorScreenParams } from '@react-navigation/native';
+import type { AgingBucketId } from './types/invoice';
 
 export type MainTabParamList = {
   Dashboard: undefined;
-  Invoices: undefined;
+  Invoices: { agingBucket?: AgingBucketId; currency?: string } | undefined;
+  Patients: undefined;
+  Encounters: undefined;
   AuditLog: undefined;
 };
 
 export type RootStackParamList = {
   Auth: undefined;
   Main: NavigatorScreenParams<MainTabParamList>;
-  Payment: undefined;
+  Payment: { invoiceId: number };
+  InvoiceDetail: { invoiceId: number };
+  CreateInvoice: undefined;
+  AgingReport: undefined;
+  ReminderSettings: undefined;
+  PatientForm: { patientId?: number } | undefined;
+  PatientLedger: { patientId: number };
+  ServiceCatalog: undefined;
+  ServiceForm: { serviceId?: number } | undefined;
+  EncounterForm: undefined;
 };
@@ -23,6 +23,14 @@ export interface AuditLogDetails {
   [key: string]: unknown; // Allow additional fields
 }
 
+// Entry recorded by the app; the backend fills in the actor from the session
+export interface AuditEntryRequest {
+  action: string;
+  target_type: string;
+  target_id: string | number;
+  details?: AuditLogDetails;
+}
+
 export interface DisplayAuditEntry {
   id: string;
   title: string;
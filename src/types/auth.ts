@@ -6,6 +6,25 @@
 
 export type UserRole = 'admin' | 'doctor' | 'billing_staff' | 'receptionist';
 
+/**
+ * Actions a role may be granted, checked via the permission matrix in utils/permissions
+ */
+export type Permission =
+  | 'dashboard:view'
+  | 'invoices:view'
+  | 'invoices:create'
+  | 'invoices:void'
+  | 'payments:process'
+  | 'payments:refund'
+  | 'patients:view'
+  | 'patients:manage'
+  | 'reminders:send'
+  | 'reminders:manage'
+  | 'claims:manage'
+  | 'catalog:manage'
+  | 'encounters:create'
+  | 'audit:view';
+
 export interface User {
   id: string | number;
   email: string;
@@ -38,6 +57,10 @@ export interface LoginRequest {
   password: string;
 }
 
+export interface RefreshRequest {
+  refresh_token: string;
+}
+
 export interface LoginResponse {
   access_token: string;
   refresh_token: string;
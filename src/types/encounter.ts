@@ -0,0 +1,64 @@
+/**
+ * Encounter Type Definitions
+ *
+ * TypeScript types for the visits doctors log, the catalog services performed
+ * during them, and the draft invoices billing staff review for each one
+ */
+
+import { CreateInvoiceLineItem, InvoiceStatus } from './invoice';
+import { CatalogService } from './serviceCatalog';
+
+export interface EncounterService {
+  service_id: number;
+  service_code: string;
+  description: string;
+  quantity: number;
+}
+
+export interface Encounter {
+  id: number;
+  patient_id: number;
+  patient_name?: string; // included by the API when the patient record is available
+  provider_id: string | number; // the doctor who logged the visit
+  provider_name?: string;
+  visit_date: string; // YYYY-MM-DD
+  services: EncounterService[];
+  notes?: string;
+  invoice_id?: number; // draft invoice created for the visit
+  invoice_number?: string;
+  invoice_status?: InvoiceStatus; // absent if the invoice has been deleted
+  created_at?: string; // ISO 8601 timestamp
+}
+
+// Encounter as returned by the API, before its invoice's status is normalized
+export type ApiEncounter = Omit<Encounter, 'invoice_status'> & { invoice_status?: string | null };
+
+// Where billing stands for an encounter, derived from its invoice's status
+export type EncounterReviewStatus = 'awaiting_review' | 'billed' | 'rejected' | 'invoice_deleted';
+
+// The backend records the encounter and creates its draft invoice together
+export interface EncounterRequest {
+  patient_id: number;
+  visit_date: string; // YYYY-MM-DD
+  notes?: string;
+  currency: string; // ISO 4217 currency code
+  line_items: CreateInvoiceLineItem[]; // performed services at the catalog price for the patient's payer
+  total_amount_cents: number;
+}
+
+// A performed service as entered on the encounter form
+export interface EncounterFormService {
+  key: string; // local identifier for list rendering
+  service: CatalogService;
+  quantity: string;
+}
+
+// Raw encounter form fields as the doctor entered them
+export interface EncounterFormValues {
+  patient_id: string;
+  visit_date: string; // YYYY-MM-DD
+  services: EncounterFormService[];
+  notes: string;
+}
+
+export type EncounterFormErrors = Partial<Record<keyof EncounterFormValues, string>>;
@@ -0,0 +1,19 @@
+/**
+ * Backend Environment Type Definitions
+ *
+ * TypeScript types for selectable API server profiles and connectivity checks
+ */
+
+export type EnvironmentId = 'dev' | 'staging' | 'production' | 'custom';
+
+export interface EnvironmentProfile {
+  id: EnvironmentId;
+  label: string;
+  baseUrl: string; // including the /api/v1 prefix, no trailing slash
+}
+
+export interface HealthCheckResult {
+  ok: boolean;
+  message: string;
+  latencyMs?: number;
+}
@@ -0,0 +1,95 @@
+/**
+ * Insurance Type Definitions
+ *
+ * TypeScript types for patients' insurance policies, the claims billed to
+ * insurers and the explanations of benefits (EOBs) that settle them
+ */
+
+export type PolicyPriority = 'primary' | 'secondary';
+
+// Patient's relationship to the policy holder
+export type PolicyRelationship = 'self' | 'spouse' | 'child' | 'other';
+
+export interface InsurancePolicy {
+  id: number;
+  patient_id: number;
+  payer_name: string; // insurer, e.g. "Blue Cross"
+  payer_id?: string; // electronic payer id used for claim submission
+  plan_name?: string;
+  member_id: string;
+  group_number?: string;
+  relationship: PolicyRelationship;
+  priority: PolicyPriority;
+  effective_date?: string; // YYYY-MM-DD
+  termination_date?: string; // YYYY-MM-DD; coverage ends after this day
+}
+
+// Body for creating or replacing a policy
+export type InsurancePolicyRequest = Omit<InsurancePolicy, 'id' | 'patient_id'>;
+
+// Raw text of the policy form fields as the user typed them
+export interface PolicyFormValues {
+  payer_name: string;
+  payer_id: string;
+  plan_name: string;
+  member_id: string;
+  group_number: string;
+  relationship: PolicyRelationship;
+  priority: PolicyPriority;
+  effective_date: string;
+  termination_date: string;
+}
+
+export type PolicyFormErrors = Partial<Record<keyof PolicyFormValues, string>>;
+
+// Claim lifecycle; allowed moves are defined in utils/claimStatus
+export type ClaimStatus = 'submitted' | 'pending' | 'paid' | 'denied' | 'appealed';
+
+export interface InsuranceClaim {
+  id: number;
+  invoice_id: number;
+  policy_id: number;
+  payer_name?: string; // included by the API for display
+  claim_number?: string; // assigned by the payer
+  status: ClaimStatus;
+  billed_cents: number; // amount claimed from the insurer
+  allowed_cents?: number; // from the EOB
+  paid_cents?: number; // paid by the insurer, from the EOB
+  patient_responsibility_cents?: number; // copay, coinsurance and deductible, from the EOB
+  adjustment_cents?: number; // contractual write-off, from the EOB
+  denial_reason?: string;
+  submitted_at: string; // ISO 8601 timestamp
+  adjudicated_at?: string; // ISO 8601 timestamp the EOB was posted
+  updated_at?: string; // ISO 8601 timestamp
+}
+
+export interface SubmitClaimRequest {
+  policy_id: number;
+  billed_cents: number;
+}
+
+export interface UpdateClaimStatusRequest {
+  status: ClaimStatus;
+  claim_number?: string;
+  denial_reason?: string; // required when denying
+  note?: string; // e.g. appeal reference
+}
+
+// Explanation of benefits as posted from the payer's remittance
+export interface ExplanationOfBenefits {
+  allowed_cents: number;
+  paid_cents: number;
+  patient_responsibility_cents: number;
+  claim_number?: string;
+  paid_at?: string; // YYYY-MM-DD the insurer paid
+}
+
+// Raw text of the EOB form fields as the user typed them
+export interface EobFormValues {
+  allowed: string;
+  paid: string;
+  patient_responsibility: string;
+  claim_number: string;
+}
+
+export type EobFormErrors = Partial<Record<keyof EobFormValues, string>>;
@@ -4,28 +4,216 @@
  * TypeScript types for invoice data and financial metrics calculations
  */
 
+import { InsuranceClaim } from './insurance';
+import { Payment } from './payment';
+import { TaxCategory } from './serviceCatalog';
+
+// Invoice lifecycle; allowed moves between statuses are defined in utils/invoiceStatus
+export type InvoiceStatus =
+  | 'draft'
+  | 'sent'
+  | 'pending'
+  | 'partially_paid'
+  | 'paid'
+  | 'overdue'
+  | 'void'
+  | 'refunded'
+  | 'written_off';
+
 export interface Invoice {
   id: number;
   invoice_number: string;
   patient_id: number;
+  patient_name?: string; // included by the API when the patient record is available
   total_amount_cents: number;
-  status: 'paid' | 'unpaid' | 'pending' | string; // string for extensibility
+  status: InvoiceStatus;
   created_at?: string; // ISO 8601 date string
   updated_at?: string; // ISO 8601 date string
   currency?: string; // ISO 4217 currency code
   due_date?: string; // ISO 8601 date string
   paid_at?: string; // ISO 8601 date string
+  line_items?: InvoiceLineItem[]; // omitted by older API versions
+  amount_paid_cents?: number; // sum of successful patient payments; omitted by older API versions
+  payments?: Payment[]; // payment records, oldest first
+  amount_refunded_cents?: number; // sum of refunds issued; omitted by older API versions
+  credit_notes?: CreditNote[]; // one per refund, oldest first
+  claims?: InsuranceClaim[]; // insurance claims billed for this invoice, oldest first
+  encounter_id?: number; // set on invoices drafted from a doctor's encounter
+}
+
+// Issued for every refund and linked to the refunded invoice
+export interface CreditNote {
+  id: number | string;
+  credit_note_number: string;
+  invoice_id: number;
+  refund_id: string;
+  amount_cents: number;
+  reason: string;
+  created_at: string; // ISO 8601 timestamp
+}
+
+// A billed service; line_total_cents = quantity × unit_price_cents − discount_cents + tax_cents
+export interface InvoiceLineItem {
+  id?: number;
+  description: string;
+  service_code?: string; // procedure (e.g. CPT) or internal service code
+  service_id?: number; // catalog service the line was priced from
+  quantity: number;
+  unit_price_cents: number;
+  discount_cents: number;
+  tax_cents: number;
+  line_total_cents: number;
+}
+
+export interface InvoiceTotals {
+  subtotal_cents: number; // before discounts and tax
+  discount_cents: number;
+  tax_cents: number;
+  total_cents: number;
+}
+
+// Result of checking an invoice's line items against its stored total
+export interface InvoiceTotalsCheck {
+  totals: InvoiceTotals;
+  matches: boolean;
+  difference_cents: number; // total_amount_cents − calculated total
+  mismatched_lines: number[]; // indexes of lines whose line_total_cents doesn't add up
+}
+
+// Invoice as returned by the API, before the status is normalized
+export type ApiInvoice = Omit<Invoice, 'status'> & { status: string };
+
+// Status shown on invoice badges and filter chips
+export type InvoiceDisplayStatus =
+  | 'Draft'
+  | 'Sent'
+  | 'Pending'
+  | 'Partially Paid'
+  | 'Paid'
+  | 'Overdue'
+  | 'Void'
+  | 'Refunded'
+  | 'Written Off';
+
+// Invoice List Filter Types
+
+export type InvoiceDateField = 'created_at' | 'due_date' | 'paid_at';
+
+export type DateRangePreset = 'today' | 'this_week' | 'last_30_days' | 'this_quarter' | 'custom';
+
+// Date-range filter on the invoice list; no preset means no date filtering
+export interface InvoiceDateFilter {
+  field: InvoiceDateField;
+  preset: DateRangePreset | null;
+  custom_start?: string; // YYYY-MM-DD, inclusive (custom preset only)
+  custom_end?: string; // YYYY-MM-DD, inclusive (custom preset only)
+}
+
+export type InvoiceSortKey = 'due_date' | 'amount' | 'created_at' | 'status';
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface InvoiceSort {
+  key: InvoiceSortKey;
+  direction: SortDirection;
+}
+
+// Resolved range in local time; end is exclusive
+export interface DateRange {
+  start: Date;
+  end: Date;
 }
 
+// Minor-unit amounts keyed by ISO 4217 currency code
+export type CurrencyAmounts = Record<string, number>;
+
 export interface FinancialMetrics {
-  outstandingRevenue: number; // in cents
-  paidRevenue: number; // in cents
-  totalRevenue: number; // in cents
+  outstandingRevenue: CurrencyAmounts;
+  insuranceReceivables: CurrencyAmounts; // billed to insurers, awaiting settlement
+  patientReceivables: CurrencyAmounts; // owed by patients
+  grossRevenue: CurrencyAmounts; // collected before refunds
+  refundedRevenue: CurrencyAmounts;
+  netRevenue: CurrencyAmounts; // gross minus refunds
+  totalRevenue: CurrencyAmounts;
 }
 
 export interface FinancialMetricsDisplay {
-  outstandingRevenue: string; // formatted as "$X,XXX.XX"
-  paidRevenue: string; // formatted as "$X,XXX.XX"
-  totalRevenue: string; // formatted as "$X,XXX.XX"
+  outstandingRevenue: string; // one formatted amount per currency, newline separated
+  insuranceReceivables: string;
+  patientReceivables: string;
+  grossRevenue: string;
+  refundedRevenue: string;
+  netRevenue: string;
+  totalRevenue: string;
+}
+
+// Accounts Receivable Aging Types
+
+// Days past due: current (not yet due), 1–30, 31–60, 61–90 and over 90
+export type AgingBucketId = 'current' | 'days_1_30' | 'days_31_60' | 'days_61_90' | 'days_over_90';
+
+export interface AgingBucket {
+  id: AgingBucketId;
+  label: string;
+  balanceCents: number;
+  invoiceCount: number;
+}
+
+// One patient's outstanding balances split by bucket
+export interface PatientAging {
+  patientId: number;
+  patientName?: string;
+  totalCents: number;
+  invoiceCount: number;
+  buckets: Record<AgingBucketId, number>; // balance in cents per bucket
+}
+
+export interface AgingReport {
+  currency: string; // ISO 4217 code; each report covers one currency
+  buckets: AgingBucket[]; // in bucket order, including empty buckets
+  patients: PatientAging[]; // largest balance first
+  totalCents: number;
+  invoiceCount: number;
+}
+
+
+// Invoice Creation Types
+
+export type DiscountType = 'percent' | 'amount';
+
+// Line item as entered in the creation wizard; numeric fields keep the raw text typed
+export interface InvoiceDraftLineItem {
+  key: string; // local identifier for list rendering
+  description: string;
+  service_code?: string;
+  service_id?: number; // set when picked from the service catalog
+  tax_category?: TaxCategory; // from the catalog; lines typed by hand are taxable
+  quantity: string;
+  unit_price: string; // in currency units, e.g. "125.00"
 }
 
+// In-progress invoice saved locally so an interrupted entry can be resumed
+export interface InvoiceDraft {
+  patient_id: string;
+  line_items: InvoiceDraftLineItem[];
+  discount_type: DiscountType;
+  discount_value: string; // percent or currency units, per discount_type
+  tax_rate_percent: string;
+  due_date: string; // YYYY-MM-DD
+  updated_at: string; // ISO 8601 timestamp
+}
+
+export type CreateInvoiceLineItem = Omit<InvoiceLineItem, 'id'>;
+
+export interface CreateInvoiceRequest {
+  patient_id: number;
+  currency: string; // ISO 4217 currency code
+  due_date: string; // ISO 8601 date string
+  line_items: CreateInvoiceLineItem[]; // invoice-level discount and tax are allocated across lines (tax only across taxable ones)
+  total_amount_cents: number;
+}
+
+// Issues a reviewed draft invoice to the patient
+export interface FinalizeInvoiceRequest {
+  due_date: string; // ISO 8601 date string; payment terms start when the invoice is issued
+}
@@ -0,0 +1,54 @@
+/**
+ * Patient Ledger Type Definitions
+ *
+ * TypeScript types for a patient's account history and the statements
+ * generated from it
+ */
+
+import { AgingBucket, DateRange } from './invoice';
+
+// Charges raise the balance; payments and adjustments (credit notes, voids,
+// write-offs) lower it; refunds pay money back out and raise it again
+export type LedgerEntryType = 'invoice' | 'payment' | 'refund' | 'adjustment';
+
+export interface LedgerEntry {
+  id: string; // unique within the ledger, e.g. "payment-17"
+  type: LedgerEntryType;
+  date: string | null; // ISO 8601; null when the API gave no date
+  description: string;
+  invoice_id: number;
+  invoice_number: string;
+  amount_cents: number; // signed change to the balance
+  balance_cents: number; // running balance after this entry
+}
+
+// One patient's account in a single currency
+export interface PatientLedger {
+  patient_id: number;
+  currency: string; // ISO 4217 code
+  entries: LedgerEntry[]; // oldest first
+  balance_cents: number; // balance after the last entry
+  insurance_balance_cents: number; // part of the balance billed to insurers and not yet settled
+  aging: AgingBucket[]; // outstanding balance by days past due, in bucket order
+}
+
+export type StatementPeriodPreset = 'last_30_days' | 'last_90_days' | 'year_to_date' | 'all' | 'custom';
+
+export interface StatementPeriod {
+  preset: StatementPeriodPreset;
+  custom_start?: string; // YYYY-MM-DD, inclusive (custom preset only)
+  custom_end?: string; // YYYY-MM-DD, inclusive (custom preset only)
+}
+
+// Ledger activity for a period, with the balance brought forward
+export interface PatientStatement {
+  patient_id: number;
+  patient_name?: string;
+  currency: string;
+  period: DateRange | null; // null covers all activity
+  opening_balance_cents: number;
+  entries: LedgerEntry[];
+  closing_balance_cents: number;
+  aging: AgingBucket[];
+  generated_at: string; // ISO 8601 timestamp
+}
@@ -0,0 +1,52 @@
+/**
+ * Patient Type Definitions
+ *
+ * TypeScript types for the patient directory: demographics, contact details and
+ * the address invoices are billed to
+ */
+
+export type PatientSex = 'female' | 'male' | 'other' | 'unknown';
+
+export interface PatientAddress {
+  line1: string;
+  line2?: string;
+  city: string;
+  state: string; // state, province or region
+  postal_code: string;
+  country: string; // ISO 3166-1 alpha-2 code, e.g. "US"
+}
+
+export interface Patient {
+  id: number;
+  first_name: string;
+  last_name: string;
+  date_of_birth?: string; // YYYY-MM-DD
+  sex?: PatientSex;
+  email?: string;
+  phone?: string;
+  billing_address?: PatientAddress;
+  created_at?: string; // ISO 8601 timestamp
+  updated_at?: string; // ISO 8601 timestamp
+}
+
+// Body for creating or replacing a patient record
+export type PatientRequest = Omit<Patient, 'id' | 'created_at' | 'updated_at'>;
+
+// Raw text of the patient form fields as the user typed them
+export interface PatientFormValues {
+  first_name: string;
+  last_name: string;
+  date_of_birth: string; // YYYY-MM-DD
+  sex: PatientSex;
+  email: string;
+  phone: string;
+  address_line1: string;
+  address_line2: string;
+  city: string;
+  state: string;
+  postal_code: string;
+  country: string;
+}
+
+// Inline validation message per field; absent when the field is valid
+export type PatientFormErrors = Partial<Record<keyof PatientFormValues, string>>;
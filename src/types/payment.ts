@@ -0,0 +1,158 @@
+/**
+ * Payment Type Definitions
+ *
+ * TypeScript types for submitting card payments and refunds against invoices
+ */
+
+import { CreditNote } from './invoice';
+
+export type CardBrand = 'visa' | 'mastercard' | 'amex' | 'unknown';
+
+// Raw text of the card entry fields as the user typed them (formatted)
+export interface CardFormValues {
+  number: string; // e.g. "4242 4242 4242 4242"
+  expiry: string; // "MM/YY"
+  cvc: string;
+}
+
+// Inline validation message per field; absent when the field is valid
+export interface CardFormErrors {
+  number?: string;
+  expiry?: string;
+  cvc?: string;
+}
+
+export type PaymentStatus = 'succeeded' | 'declined' | 'failed' | string; // string for extensibility
+
+export interface CardDetails {
+  number: string; // digits only
+  exp_month: number; // 1-12
+  exp_year: number; // four-digit year
+  cvc: string;
+}
+
+// Records a captured gateway charge against an invoice on the backend
+export interface PaymentRequest {
+  invoice_id: number;
+  amount_cents: number;
+  transaction_id: string; // gateway transaction id of the captured charge
+  card_token: string;
+  card_brand: CardBrand;
+  card_last4: string;
+  idempotency_key: string;
+  save_card?: boolean;
+}
+
+// Payments taken at the front desk rather than through the card gateway
+export type ManualPaymentMethod = 'cash' | 'check';
+
+// Records a cash or check payment against an invoice on the backend
+export interface ManualPaymentRequest {
+  invoice_id: number;
+  amount_cents: number;
+  method: ManualPaymentMethod;
+  reference?: string; // e.g. check number
+  idempotency_key: string;
+}
+
+export interface Payment {
+  id: number | string;
+  invoice_id: number;
+  amount_cents: number;
+  currency?: string; // ISO 4217 currency code
+  status: PaymentStatus;
+  method?: 'card' | ManualPaymentMethod; // card when absent
+  transaction_id: string;
+  card_last4?: string;
+  card_brand?: string;
+  failure_reason?: string;
+  refunded_cents?: number; // amount of this payment refunded so far
+  created_at: string; // ISO 8601 timestamp
+}
+
+// Refund Types
+
+export type RefundReason = 'duplicate' | 'billing_error' | 'service_not_provided' | 'patient_request' | 'other';
+
+// Part of a refund returned to one captured payment
+export interface RefundAllocation {
+  payment_id: number | string;
+  transaction_id: string;
+  amount_cents: number;
+}
+
+// Records gateway refunds against an invoice on the backend, which issues the credit note
+export interface RefundRequest {
+  amount_cents: number;
+  reason: RefundReason;
+  note?: string;
+  allocations: RefundAllocation[];
+  idempotency_key: string;
+}
+
+export interface Refund {
+  id: string;
+  invoice_id: number;
+  amount_cents: number;
+  reason: RefundReason;
+  note?: string;
+  allocations: RefundAllocation[];
+  credit_note: CreditNote;
+  created_at: string; // ISO 8601 timestamp
+}
+
+// Gateway Types
+
+export type DeclineCode = 'card_declined' | 'insufficient_funds' | 'expired_card' | 'processing_error';
+
+export type GatewayTransactionStatus = 'authorized' | 'captured' | 'declined' | 'refunded' | 'voided';
+
+// Single-use reference to card data held by the gateway; raw card numbers never leave it
+export interface CardToken {
+  token: string;
+  brand: CardBrand;
+  last4: string;
+  exp_month: number;
+  exp_year: number;
+}
+
+export interface AuthorizeRequest {
+  token: string;
+  amount_cents: number;
+  currency: string; // ISO 4217 currency code
+  idempotency_key: string;
+  invoice_id: number;
+}
+
+export interface GatewayRefundRequest {
+  transaction_id: string;
+  amount_cents?: number; // the whole refundable balance when omitted
+  idempotency_key: string;
+}
+
+export interface GatewayTransaction {
+  id: string;
+  status: GatewayTransactionStatus;
+  amount_cents: number;
+  captured_cents: number;
+  refunded_cents: number;
+  decline_code?: DeclineCode;
+  created_at: string; // ISO 8601 timestamp
+}
+
+/**
+ * Card processor used by the payment flow
+ * Implementations wrap a processor SDK (or a local fake) so the UI never depends on one vendor
+ */
+export interface PaymentGateway {
+  readonly name: string;
+  tokenizeCard: (card: CardDetails) => Promise<CardToken>;
+  /** Reserve funds; repeated calls with the same idempotency key return the same transaction */
+  authorize: (request: AuthorizeRequest) => Promise<GatewayTransaction>;
+  /** Capture an authorization, in full when amountCents is omitted */
+  capture: (transactionId: string, amountCents?: number) => Promise<GatewayTransaction>;
+  /** Refund a captured charge; repeated calls with the same idempotency key refund it once */
+  refund: (request: GatewayRefundRequest) => Promise<GatewayTransaction>;
+  /** Release an authorization that has not been captured */
+  void: (transactionId: string) => Promise<GatewayTransaction>;
+}
@@ -0,0 +1,52 @@
+/**
+ * Reminder Type Definitions
+ *
+ * TypeScript types for payment reminder schedules and the reminders sent for invoices
+ */
+
+export type ReminderChannel = 'email' | 'sms';
+
+// One step of the dunning schedule, timed relative to the invoice due date
+export interface ReminderStep {
+  id: string;
+  offset_days: number; // negative before the due date, 0 on it, positive once overdue
+  channel: ReminderChannel;
+  template: string; // message with {{placeholders}}, see utils/reminders
+  enabled: boolean;
+}
+
+// The backend sends each enabled step automatically; staff can also send them early
+export interface ReminderSchedule {
+  steps: ReminderStep[];
+  updated_at?: string; // ISO 8601 timestamp
+}
+
+export type ReminderStatus = 'queued' | 'sent' | 'failed' | string; // string for extensibility
+
+export interface InvoiceReminder {
+  id: number | string;
+  invoice_id: number;
+  step_id?: string | null; // null for reminders sent outside the schedule
+  channel: ReminderChannel;
+  message: string;
+  recipient?: string; // email address or phone number used
+  status: ReminderStatus;
+  automatic?: boolean; // sent by the backend scheduler rather than a user
+  created_at: string; // ISO 8601 timestamp
+}
+
+export interface SendReminderRequest {
+  step_id?: string;
+  channel: ReminderChannel;
+  message: string;
+}
+
+export type ReminderPlanStatus = 'sent' | 'due' | 'upcoming';
+
+// Where one schedule step stands for an invoice
+export interface ReminderPlanItem {
+  step: ReminderStep;
+  scheduledFor: Date;
+  status: ReminderPlanStatus;
+  sentReminder?: InvoiceReminder;
+}
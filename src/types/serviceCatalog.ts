@@ -0,0 +1,63 @@
+/**
+ * Service Catalog Type Definitions
+ *
+ * TypeScript types for the clinic's fee schedule: the billable services, their
+ * effective-dated price changes and the prices negotiated with each payer
+ */
+
+// Services in the exempt category are never taxed on invoices
+export type TaxCategory = 'standard' | 'exempt';
+
+// A price that applies from its effective date until the next one for the same payer
+export interface ServicePrice {
+  id: number;
+  service_id: number;
+  price_cents: number; // in the clinic's default currency
+  effective_date: string; // YYYY-MM-DD
+  payer_name?: string; // insurer the price was negotiated with; absent for the standard price
+}
+
+export interface CatalogService {
+  id: number;
+  service_code: string; // procedure (e.g. CPT) or internal service code
+  description: string;
+  default_price_cents: number; // used until a scheduled price takes effect
+  tax_category: TaxCategory;
+  active: boolean; // inactive services stay on past invoices but can't be billed
+  prices: ServicePrice[];
+  updated_at?: string; // ISO 8601 timestamp
+}
+
+// Body for creating or replacing a service; the price schedule is edited separately
+export type ServiceRequest = Omit<CatalogService, 'id' | 'prices' | 'updated_at'>;
+
+export type ServicePriceRequest = Omit<ServicePrice, 'id' | 'service_id'>;
+
+// Raw text of the service form fields as the user typed them
+export interface ServiceFormValues {
+  service_code: string;
+  description: string;
+  default_price: string; // in currency units, e.g. "125.00"
+  tax_category: TaxCategory;
+  active: boolean;
+}
+
+export type ServiceFormErrors = Partial<Record<keyof ServiceFormValues, string>>;
+
+// Raw text of a scheduled price as the user typed it
+export interface PriceFormValues {
+  price: string;
+  effective_date: string; // YYYY-MM-DD
+  payer_name: string; // blank for the standard price
+}
+
+export type PriceFormErrors = Partial<Record<keyof PriceFormValues, string>>;
+
+// Where a looked-up price came from: a payer's negotiated price, the standard schedule or the default
+export type PriceSource = 'payer' | 'schedule' | 'default';
+
+export interface ResolvedServicePrice {
+  price_cents: number;
+  source: PriceSource;
+  price?: ServicePrice; // the scheduled price used, unless the default applied
+}
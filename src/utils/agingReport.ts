@@ -0,0 +1,117 @@
+/**
+ * Accounts Receivable Aging Utilities
+ *
+ * Buckets outstanding invoice balances by how many days they are past due,
+ * with totals per bucket and per patient. Reports cover a single currency
+ */
+
+import { AgingBucketId, AgingReport, Invoice, PatientAging } from '../types/invoice';
+import { parseDateValue, startOfDay } from './dateUtils';
+import { getBalanceCents } from './invoiceTotals';
+import { DEFAULT_CURRENCY, normalizeCurrency } from './currency';
+
+const MS_PER_DAY = 86400000;
+
+// Buckets in report order; maxDays is inclusive and null means no upper bound
+export const AGING_BUCKETS: { id: AgingBucketId; label: string; minDays: number; maxDays: number | null }[] = [
+  { id: 'current', label: 'Current', minDays: Number.NEGATIVE_INFINITY, maxDays: 0 },
+  { id: 'days_1_30', label: '1–30 days', minDays: 1, maxDays: 30 },
+  { id: 'days_31_60', label: '31–60 days', minDays: 31, maxDays: 60 },
+  { id: 'days_61_90', label: '61–90 days', minDays: 61, maxDays: 90 },
+  { id: 'days_over_90', label: '90+ days', minDays: 91, maxDays: null },
+];
+
+const AGING_BUCKET_IDS = AGING_BUCKETS.map(bucket => bucket.id);
+
+/**
+ * Label for a bucket
+ * @returns e.g. "31–60 days"
+ */
+export function getAgingBucketLabel(id: AgingBucketId): string {
+  return AGING_BUCKETS.find(bucket => bucket.id === id)?.label ?? '';
+}
+
+/**
+ * Whole days between the due date and a reference day
+ * @param dueDate - ISO 8601 due date (payable through the end of that day)
+ * @param now - Reference time
+ * @returns Days past due (0 on the due date, negative before it), or null without a valid due date
+ */
+export function getDaysPastDue(dueDate: string | undefined, now: Date = new Date()): number | null {
+  const due = parseDateValue(dueDate);
+  if (!due) {
+    return null;
+  }
+  // Round rather than floor so a daylight saving shift doesn't lose a day
+  return Math.round((startOfDay(now).getTime() - startOfDay(due).getTime()) / MS_PER_DAY);
+}
+
+/**
+ * Aging bucket an invoice's outstanding balance falls into
+ * Invoices without a due date are treated as current
+ * @returns Bucket id, or null if nothing is owed on the invoice
+ */
+export function getAgingBucket(invoice: Invoice, now: Date = new Date()): AgingBucketId | null {
+  if (getBalanceCents(invoice) <= 0) {
+    return null;
+  }
+  const days = getDaysPastDue(invoice.due_date, now) ?? 0;
+  const bucket = AGING_BUCKETS.find(({ minDays, maxDays }) => days >= minDays && (maxDays === null || days <= maxDays));
+  return bucket?.id ?? 'current';
+}
+
+const emptyBucketTotals = (): Record<AgingBucketId, number> =>
+  Object.fromEntries(AGING_BUCKET_IDS.map(id => [id, 0])) as Record<AgingBucketId, number>;
+
+/**
+ * Build the aging report from invoice data
+ * @param invoices - Invoices to age (only outstanding balances are counted)
+ * @param now - Reference time for days past due
+ * @param currency - Only invoices in this ISO 4217 currency are aged
+ * @returns Totals and counts per bucket and a per-patient breakdown
+ */
+export function buildAgingReport(
+  invoices: Invoice[],
+  now: Date = new Date(),
+  currency: string = DEFAULT_CURRENCY,
+): AgingReport {
+  const reportCurrency = normalizeCurrency(currency);
+  const bucketTotals = emptyBucketTotals();
+  const bucketCounts = emptyBucketTotals();
+  const patients = new Map<number, PatientAging>();
+
+  invoices.forEach(invoice => {
+    const bucket = getAgingBucket(invoice, now);
+    if (!bucket || normalizeCurrency(invoice.currency) !== reportCurrency) {
+      return;
+    }
+    const balanceCents = getBalanceCents(invoice);
+    bucketTotals[bucket] += balanceCents;
+    bucketCounts[bucket] += 1;
+
+    let patient = patients.get(invoice.patient_id);
+    if (!patient) {
+      patient = { patientId: invoice.patient_id, totalCents: 0, invoiceCount: 0, buckets: emptyBucketTotals() };
+      patients.set(invoice.patient_id, patient);
+    }
+    patient.patientName = patient.patientName ?? invoice.patient_name;
+    patient.totalCents += balanceCents;
+    patient.invoiceCount += 1;
+    patient.buckets[bucket] += balanceCents;
+  });
+
+  const buckets = AGING_BUCKETS.map(({ id, label }) => ({
+    id,
+    label,
+    balanceCents: bucketTotals[id],
+    invoiceCount: bucketCounts[id],
+  }));
+
+  return {
+    currency: reportCurrency,
+    buckets,
+    patients: Array.from(patients.values()).sort((a, b) => b.totalCents - a.totalCents),
+    totalCents: buckets.reduce((sum, bucket) => sum + bucket.balanceCents, 0),
+    invoiceCount: buckets.reduce((sum, bucket) => sum + bucket.invoiceCount, 0),
+  };
+}
@@ -0,0 +1,101 @@
+/**
+ * API Environment Utilities
+ *
+ * Built-in server profiles, the active profile read by the API client,
+ * and persistence of the user's choice in AsyncStorage
+ */
+
+import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { EnvironmentId, EnvironmentProfile } from '../types/environment';
+
+const STORAGE_KEY = '@api:environment';
+
+// Android emulator uses 10.0.2.2 to access host machine's localhost
+// iOS simulator can use localhost
+// For physical devices, pick "Custom" on the login screen and enter the server's IP
+const getDevBaseUrl = (): string =>
+  Platform.OS === 'android' ? 'http://10.0.2.2:8000/api/v1' : 'http://localhost:8000/api/v1';
+
+export const ENVIRONMENT_PRESETS: EnvironmentProfile[] = [
+  { id: 'dev', label: 'Development', baseUrl: getDevBaseUrl() },
+  { id: 'staging', label: 'Staging', baseUrl: 'https://staging-api.clinicbilling.com/api/v1' },
+  { id: 'production', label: 'Production', baseUrl: 'https://api.clinicbilling.com/api/v1' },
+];
+
+const DEFAULT_ENVIRONMENT = ENVIRONMENT_PRESETS[0];
+
+let activeEnvironment: EnvironmentProfile = DEFAULT_ENVIRONMENT;
+
+/**
+ * Trim whitespace and trailing slashes from a base URL
+ */
+export function normalizeBaseUrl(url: string): string {
+  return url.trim().replace(/\/+$/, '');
+}
+
+/**
+ * Check that a custom base URL is an absolute http(s) URL
+ */
+export function isValidBaseUrl(url: string): boolean {
+  return /^https?:\/\/[^\s/]+(\/\S*)?$/i.test(normalizeBaseUrl(url));
+}
+
+/**
+ * Build a profile for a user-entered server URL
+ */
+export function createCustomEnvironment(baseUrl: string): EnvironmentProfile {
+  return { id: 'custom', label: 'Custom', baseUrl: normalizeBaseUrl(baseUrl) };
+}
+
+/**
+ * Get the built-in profile for an id (custom profiles are not presets)
+ */
+export function getEnvironmentPreset(id: EnvironmentId): EnvironmentProfile | undefined {
+  return ENVIRONMENT_PRESETS.find(preset => preset.id === id);
+}
+
+/**
+ * Profile currently used by every API request
+ */
+export function getActiveEnvironment(): EnvironmentProfile {
+  return activeEnvironment;
+}
+
+/**
+ * Base URL of the active profile
+ */
+export function getApiBaseUrl(): string {
+  return activeEnvironment.baseUrl;
+}
+
+/**
+ * Switch the active profile and remember it on the device
+ */
+export async function saveActiveEnvironment(profile: EnvironmentProfile): Promise<void> {
+  activeEnvironment = { ...profile, baseUrl: normalizeBaseUrl(profile.baseUrl) };
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(activeEnvironment));
+}
+
+/**
+ * Restore the saved profile on app start
+ * Presets are re-resolved so a saved dev profile follows the current platform default
+ * @returns The active profile (the default if nothing valid was saved)
+ */
+export async function loadActiveEnvironment(): Promise<EnvironmentProfile> {
+  try {
+    const stored = await AsyncStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed: EnvironmentProfile = JSON.parse(stored);
+      if (parsed.id === 'custom' && isValidBaseUrl(parsed.baseUrl)) {
+        activeEnvironment = createCustomEnvironment(parsed.baseUrl);
+      } else {
+        activeEnvironment = getEnvironmentPreset(parsed.id) ?? DEFAULT_ENVIRONMENT;
+      }
+    }
+  } catch (error) {
+    console.error('Error loading API environment:', error);
+    activeEnvironment = DEFAULT_ENVIRONMENT;
+  }
+  return activeEnvironment;
+}
@@ -4,6 +4,8 @@
  * Functions for formatting timestamps, icons, types, and nested details for audit log entries
  */
 
+import { formatCurrency } from './financialMetrics';
+
 /**
  * Format timestamp to user-friendly relative or absolute format
  * @param timestamp - ISO 8601 timestamp string
@@ -63,6 +65,11 @@ export function getActionIcon(action: string): string {
     view: 'visibility',
     send: 'send',
     generate: 'receipt-long',
+    refund: 'undo',
+    submit: 'upload-file',
+    adjudicate: 'fact-check',
+    finalize: 'task-alt',
+    reject: 'block',
     login: 'lock',
     logout: 'lock-open',
   };
@@ -79,6 +86,8 @@ export function getActionType(action: string): 'info' | 'danger' | 'warning' {
     delete: 'danger',
     remove: 'danger',
     cancel: 'warning',
+    refund: 'warning',
+    reject: 'warning',
   };
   return typeMap[action.toLowerCase()] || 'info';
 }
@@ -100,11 +109,9 @@ export function formatDetails(details: Record<string, unknown> | null | undefine
     parts.push(`Refund ID: ${details.refund_id}`);
   }
   if (details.amount !== undefined && typeof details.amount === 'number') {
-    const dollars = details.amount / 100;
-    parts.push(`Amount: ${new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-    }).format(dollars)}`);
+    // Entries written before currencies were recorded are in USD
+    const currency = typeof details.currency === 'string' ? details.currency : undefined;
+    parts.push(`Amount: ${formatCurrency(details.amount, currency)}`);
   }
   if (details.invoice_id) {
     parts.push(`Invoice ID: ${details.invoice_id}`);
@@ -115,7 +122,7 @@ export function formatDetails(details: Record<string, unknown> | null | undefine
 
   // Format other fields
   Object.entries(details).forEach(([key, value]) => {
-    if (['refund_id', 'amount', 'invoice_id', 'invoice_number'].includes(key)) {
+    if (['refund_id', 'amount', 'currency', 'invoice_id', 'invoice_number'].includes(key)) {
       return; // Already handled
     }
     if (value !== null && value !== undefined) {
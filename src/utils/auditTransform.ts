@@ -37,6 +37,10 @@ function generateTarget(targetType: string, targetId: string | number): string {
     return `Invoice #${targetId}`;
   } else if (targetType === 'patient') {
     return `Patient ID ${targetId}`;
+  } else if (targetType === 'claim') {
+    return `Claim #${targetId}`;
+  } else if (targetType === 'encounter') {
+    return `Encounter #${targetId}`;
   } else if (targetType === 'ip') {
     return `IP: ${targetId}`;
   } else {
@@ -78,3 +82,31 @@ export function transformAuditEntries(entries: AuditLogEntry[]): DisplayAuditEnt
     .filter((entry): entry is DisplayAuditEntry => entry !== null);
 }
 
+
+/**
+ * Select the audit entries that refer to a single invoice
+ * Matches entries targeting the invoice and entries whose details reference it
+ * (e.g. refunds or payments targeting another resource)
+ * @returns Matching entries, newest first
+ */
+export function filterAuditEntriesForInvoice(
+  entries: AuditLogEntry[],
+  invoiceId: number,
+  invoiceNumber?: string,
+): AuditLogEntry[] {
+  return entries
+    .filter(entry => {
+      if (entry.target_type === 'invoice' && String(entry.target_id) === String(invoiceId)) {
+        return true;
+      }
+      const details = entry.details;
+      if (!details) {
+        return false;
+      }
+      return (
+        (details.invoice_id !== undefined && String(details.invoice_id) === String(invoiceId)) ||
+        (invoiceNumber !== undefined && details.invoice_number === invoiceNumber)
+      );
+    })
+    .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+}
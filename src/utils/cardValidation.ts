@@ -0,0 +1,213 @@
+/**
+ * Card Validation Utilities
+ *
+ * Functions for formatting card entry fields as the user types, detecting the
+ * card brand and validating number (Luhn), expiry and CVC
+ */
+
+import { CardBrand, CardDetails, CardFormErrors, CardFormValues } from '../types/payment';
+
+interface CardBrandRules {
+  label: string;
+  lengths: number[];
+  cvcLength: number;
+  gaps: number[]; // digit positions followed by a space
+}
+
+export const CARD_BRAND_RULES: Record<CardBrand, CardBrandRules> = {
+  visa: { label: 'Visa', lengths: [13, 16, 19], cvcLength: 3, gaps: [4, 8, 12, 16] },
+  mastercard: { label: 'Mastercard', lengths: [16], cvcLength: 3, gaps: [4, 8, 12] },
+  amex: { label: 'American Express', lengths: [15], cvcLength: 4, gaps: [4, 10] },
+  unknown: { label: 'Card', lengths: [16], cvcLength: 3, gaps: [4, 8, 12, 16] },
+};
+
+const MAX_CARD_DIGITS = 19;
+
+/**
+ * Strip everything but digits
+ */
+export function digitsOnly(value: string): string {
+  return value.replace(/\D/g, '');
+}
+
+/**
+ * Detect the card brand from the leading digits
+ * @param cardNumber - Card number (formatted or raw)
+ * @returns Detected brand or 'unknown'
+ */
+export function detectCardBrand(cardNumber: string): CardBrand {
+  const digits = digitsOnly(cardNumber);
+  if (/^4/.test(digits)) {
+    return 'visa';
+  }
+  if (/^3[47]/.test(digits)) {
+    return 'amex';
+  }
+  if (/^5[1-5]/.test(digits)) {
+    return 'mastercard';
+  }
+  // Mastercard 2-series range: 2221-2720
+  const prefix = Number(digits.slice(0, 4));
+  if (digits.length >= 4 && prefix >= 2221 && prefix <= 2720) {
+    return 'mastercard';
+  }
+  return 'unknown';
+}
+
+/**
+ * Group card digits with spaces for the detected brand (4-4-4-4 or Amex 4-6-5)
+ * @param input - Text from the card number field
+ * @returns Formatted card number, truncated to the brand's maximum length
+ */
+export function formatCardNumber(input: string): string {
+  const brand = detectCardBrand(input);
+  const { lengths, gaps } = CARD_BRAND_RULES[brand];
+  const maxLength = brand === 'unknown' ? MAX_CARD_DIGITS : Math.max(...lengths);
+  const digits = digitsOnly(input).slice(0, maxLength);
+
+  let formatted = '';
+  for (let i = 0; i < digits.length; i++) {
+    if (gaps.includes(i)) {
+      formatted += ' ';
+    }
+    formatted += digits[i];
+  }
+  return formatted;
+}
+
+/**
+ * Format the expiry field as MM/YY while typing
+ * A leading digit above 1 is treated as a single-digit month (e.g. "4" -> "04/")
+ */
+export function formatExpiry(input: string): string {
+  let digits = digitsOnly(input).slice(0, 4);
+  if (digits.length === 1 && Number(digits) > 1) {
+    digits = `0${digits}`;
+  }
+  if (digits.length < 2) {
+    return digits;
+  }
+  // Keep the slash only once the user has typed past the month
+  if (digits.length === 2) {
+    return input.includes('/') ? `${digits}/` : digits;
+  }
+  return `${digits.slice(0, 2)}/${digits.slice(2)}`;
+}
+
+/**
+ * Format the CVC field, limited to the brand's CVC length
+ */
+export function formatCvc(input: string, brand: CardBrand): string {
+  return digitsOnly(input).slice(0, CARD_BRAND_RULES[brand].cvcLength);
+}
+
+/**
+ * Luhn (mod 10) checksum
+ * @param cardNumber - Card number (formatted or raw)
+ * @returns True if the checksum is valid
+ */
+export function passesLuhn(cardNumber: string): boolean {
+  const digits = digitsOnly(cardNumber);
+  if (digits.length === 0) {
+    return false;
+  }
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Parse "MM/YY" into month and four-digit year
+ * @returns Parsed expiry or null if the format or month is invalid
+ */
+export function parseExpiry(expiry: string): { month: number; year: number } | null {
+  const match = expiry.trim().match(/^(\d{2})\/(\d{2})$/);
+  if (!match) {
+    return null;
+  }
+  const month = Number(match[1]);
+  if (month < 1 || month > 12) {
+    return null;
+  }
+  return { month, year: 2000 + Number(match[2]) };
+}
+
+/**
+ * Cards are valid through the last day of their expiry month
+ */
+export function isExpired(month: number, year: number, now: Date = new Date()): boolean {
+  const currentYear = now.getFullYear();
+  const currentMonth = now.getMonth() + 1;
+  return year < currentYear || (year === currentYear && month < currentMonth);
+}
+
+/**
+ * Validate every card field
+ * @param values - Current field values
+ * @param now - Reference date for the expiry check
+ * @returns Error message per invalid field (empty object when the form is valid)
+ */
+export function validateCardForm(values: CardFormValues, now: Date = new Date()): CardFormErrors {
+  const errors: CardFormErrors = {};
+  const digits = digitsOnly(values.number);
+  const brand = detectCardBrand(digits);
+  const rules = CARD_BRAND_RULES[brand];
+
+  if (!digits) {
+    errors.number = 'Card number is required';
+  } else if (!rules.lengths.includes(digits.length) || !passesLuhn(digits)) {
+    errors.number = 'Card number is invalid';
+  }
+
+  const expiry = parseExpiry(values.expiry);
+  if (!values.expiry) {
+    errors.expiry = 'Expiry date is required';
+  } else if (!expiry) {
+    errors.expiry = 'Use MM/YY';
+  } else if (isExpired(expiry.month, expiry.year, now)) {
+    errors.expiry = 'Card has expired';
+  }
+
+  const cvc = digitsOnly(values.cvc);
+  if (!cvc) {
+    errors.cvc = 'CVC is required';
+  } else if (cvc.length !== rules.cvcLength) {
+    errors.cvc = `CVC must be ${rules.cvcLength} digits`;
+  }
+
+  return errors;
+}
+
+/**
+ * Check that a validation result has no errors
+ */
+export function isCardFormValid(errors: CardFormErrors): boolean {
+  return !errors.number && !errors.expiry && !errors.cvc;
+}
+
+/**
+ * Convert validated form values into the card payload sent for payment
+ * @throws Error if the expiry cannot be parsed (validate first)
+ */
+export function toCardDetails(values: CardFormValues): CardDetails {
+  const expiry = parseExpiry(values.expiry);
+  if (!expiry) {
+    throw new Error('Invalid expiry date');
+  }
+  return {
+    number: digitsOnly(values.number),
+    exp_month: expiry.month,
+    exp_year: expiry.year,
+    cvc: digitsOnly(values.cvc),
+  };
+}
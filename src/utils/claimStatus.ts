@@ -0,0 +1,45 @@
+/**
+ * Claim Status Utilities
+ *
+ * The insurance claim lifecycle state machine: which moves between statuses
+ * are allowed and which claims are still waiting on the insurer
+ */
+
+import { ClaimStatus, InsuranceClaim } from '../types/insurance';
+
+/**
+ * Allowed transitions from each status
+ * Claims reach paid by posting the EOB; paid is terminal and a denial can only be appealed
+ */
+export const CLAIM_STATUS_TRANSITIONS: Record<ClaimStatus, readonly ClaimStatus[]> = {
+  submitted: ['pending', 'paid', 'denied'],
+  pending: ['paid', 'denied'],
+  denied: ['appealed'],
+  appealed: ['pending', 'paid', 'denied'],
+  paid: [],
+};
+
+// Claims the insurer has yet to settle; what they bill is insurance receivable
+const OPEN_CLAIM_STATUSES: readonly ClaimStatus[] = ['submitted', 'pending', 'appealed'];
+
+/**
+ * Whether a claim may move from one status to another
+ */
+export function canTransitionClaim(from: ClaimStatus, to: ClaimStatus): boolean {
+  return CLAIM_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Whether the insurer has yet to settle the claim
+ */
+export function isClaimOpen(claim: Pick<InsuranceClaim, 'status'>): boolean {
+  return OPEN_CLAIM_STATUSES.includes(claim.status);
+}
+
+/**
+ * Statuses a claim can be moved to by hand
+ * Paid is left out: it is reached by posting the EOB, which carries the amounts
+ */
+export function getManualClaimTransitions(claim: Pick<InsuranceClaim, 'status'>): ClaimStatus[] {
+  return CLAIM_STATUS_TRANSITIONS[claim.status].filter(status => status !== 'paid');
+}
@@ -0,0 +1,89 @@
+/**
+ * Currency Utilities
+ *
+ * ISO 4217 currency codes and minor units. Amount fields named *_cents hold the
+ * invoice currency's minor unit, which is not always a hundredth (JPY has none,
+ * KWD has thousandths)
+ */
+
+export const DEFAULT_CURRENCY = 'USD';
+
+// Currencies whose minor unit is not 2 decimal places
+const MINOR_UNIT_DIGITS: Record<string, number> = {
+  BIF: 0,
+  CLP: 0,
+  DJF: 0,
+  GNF: 0,
+  ISK: 0,
+  JPY: 0,
+  KMF: 0,
+  KRW: 0,
+  PYG: 0,
+  RWF: 0,
+  UGX: 0,
+  VND: 0,
+  VUV: 0,
+  XAF: 0,
+  XOF: 0,
+  XPF: 0,
+  BHD: 3,
+  IQD: 3,
+  JOD: 3,
+  KWD: 3,
+  LYD: 3,
+  OMR: 3,
+  TND: 3,
+};
+
+/**
+ * Upper-case a currency code, falling back to the default for missing or malformed codes
+ */
+export function normalizeCurrency(currency?: string | null): string {
+  const code = currency?.trim().toUpperCase() ?? '';
+  return /^[A-Z]{3}$/.test(code) ? code : DEFAULT_CURRENCY;
+}
+
+/**
+ * Decimal places of a currency's minor unit
+ * @returns e.g. 2 for USD, 0 for JPY, 3 for KWD
+ */
+export function getMinorUnitDigits(currency?: string | null): number {
+  return MINOR_UNIT_DIGITS[normalizeCurrency(currency)] ?? 2;
+}
+
+/**
+ * Amount as typed in an input, without symbol or grouping
+ * @param amount - Amount in minor units
+ * @returns e.g. "12.50" for USD or "1250" for JPY
+ */
+export function formatAmountInput(amount: number, currency?: string | null): string {
+  const digits = getMinorUnitDigits(currency);
+  return (amount / 10 ** digits).toFixed(digits);
+}
+
+/**
+ * Symbol shown before amount inputs
+ * @returns e.g. "$", "€" or "¥"
+ */
+export function getCurrencySymbol(currency?: string | null): string {
+  const code = normalizeCurrency(currency);
+  try {
+    const parts = new Intl.NumberFormat('en-US', { style: 'currency', currency: code }).formatToParts(0);
+    return parts.find(part => part.type === 'currency')?.value ?? code;
+  } catch {
+    return code;
+  }
+}
+
+/**
+ * Distinct currencies of a set of invoices, default currency first then alphabetical
+ */
+export function listCurrencies(items: { currency?: string | null }[]): string[] {
+  const codes = Array.from(new Set(items.map(item => normalizeCurrency(item.currency))));
+  return codes.sort((a, b) => {
+    if (a === DEFAULT_CURRENCY || b === DEFAULT_CURRENCY) {
+      return a === DEFAULT_CURRENCY ? -1 : 1;
+    }
+    return a.localeCompare(b);
+  });
+}
@@ -0,0 +1,80 @@
+/**
+ * Date Utilities
+ *
+ * Helpers for the plain YYYY-MM-DD date fields used in forms and filters
+ */
+
+/**
+ * Format a date as YYYY-MM-DD in local time
+ */
+export function formatDateInput(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Parse a YYYY-MM-DD string to a local date at midnight
+ * @returns Date or null if the string is not a real calendar date
+ */
+export function parseDateInput(value: string): Date | null {
+  const match = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) {
+    return null;
+  }
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return date;
+}
+
+/**
+ * Midnight (local time) of the given date
+ */
+export function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+/**
+ * Add a number of days, keeping the local time of day
+ */
+export function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+/**
+ * Parse an API date or timestamp
+ * Date-only strings (YYYY-MM-DD) are read as local dates rather than UTC midnight
+ * @returns Date or null if missing or invalid
+ */
+export function parseDateValue(value?: string | null): Date | null {
+  if (!value) {
+    return null;
+  }
+  const dateOnly = parseDateInput(value);
+  if (dateOnly) {
+    return dateOnly;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Midnight on the Monday of the date's week
+ */
+export function startOfWeek(date: Date): Date {
+  const start = startOfDay(date);
+  const daysSinceMonday = (start.getDay() + 6) % 7;
+  return addDays(start, -daysSinceMonday);
+}
+
+/**
+ * Midnight on the first day of the date's calendar quarter
+ */
+export function startOfQuarter(date: Date): Date {
+  return new Date(date.getFullYear(), Math.floor(date.getMonth() / 3) * 3, 1);
+}
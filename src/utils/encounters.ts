@@ -0,0 +1,168 @@
+/**
+ * Encounter Utilities
+ *
+ * Labels for where billing stands on each encounter, validation for the
+ * encounter form, and pricing the performed services into a draft invoice
+ */
+
+import {
+  Encounter,
+  EncounterFormErrors,
+  EncounterFormValues,
+  EncounterRequest,
+  EncounterReviewStatus,
+} from '../types/encounter';
+import { CatalogService } from '../types/serviceCatalog';
+import { DEFAULT_CURRENCY } from './currency';
+import { formatDateInput, parseDateInput, startOfDay } from './dateUtils';
+import { buildDraftLineItems, createDraftLineItemFromService, createEmptyDraft, parseQuantity } from './invoiceDraft';
+import { calculateInvoiceTotals } from './invoiceTotals';
+import { resolveServicePrice } from './serviceCatalog';
+
+type EncounterChangeListener = () => void;
+
+const changeListeners = new Set<EncounterChangeListener>();
+
+let serviceSequence = 0;
+
+export const ENCOUNTER_REVIEW_STATUS_LABELS: Record<EncounterReviewStatus, string> = {
+  awaiting_review: 'Awaiting review',
+  billed: 'Billed',
+  rejected: 'Rejected',
+  invoice_deleted: 'Invoice deleted',
+};
+
+/**
+ * Badge styles for each review status
+ */
+export const encounterReviewStyles: Record<EncounterReviewStatus, { bg: string, text: string }> = {
+  awaiting_review: { bg: 'bg-amber-100 dark:bg-amber-900/50', text: 'text-amber-800 dark:text-amber-300' },
+  billed: { bg: 'bg-green-100 dark:bg-green-900/50', text: 'text-green-800 dark:text-green-300' },
+  rejected: { bg: 'bg-red-100 dark:bg-red-900/50', text: 'text-red-800 dark:text-red-300' },
+  invoice_deleted: { bg: 'bg-slate-100 dark:bg-slate-800', text: 'text-slate-600 dark:text-slate-300' },
+};
+
+/**
+ * Where billing stands for an encounter
+ * Its draft invoice is awaiting review until billing staff finalize it, or void it to reject the charges
+ */
+export function getEncounterReviewStatus(encounter: Pick<Encounter, 'invoice_status'>): EncounterReviewStatus {
+  switch (encounter.invoice_status) {
+    case undefined:
+      return 'invoice_deleted';
+    case 'draft':
+      return 'awaiting_review';
+    case 'void':
+      return 'rejected';
+    default:
+      return 'billed';
+  }
+}
+
+/**
+ * Short list of the services performed, e.g. "99213 × 2, 90471"
+ */
+export function formatEncounterServices(encounter: Pick<Encounter, 'services'>): string {
+  return encounter.services
+    .map(service => (service.quantity > 1 ? `${service.service_code} × ${service.quantity}` : service.service_code))
+    .join(', ');
+}
+
+/**
+ * Blank encounter form for a visit today
+ */
+export function createEncounterForm(now: Date = new Date()): EncounterFormValues {
+  return { patient_id: '', visit_date: formatDateInput(now), services: [], notes: '' };
+}
+
+/**
+ * Add a performed service to the form
+ * A service already on the form is counted again rather than listed twice
+ */
+export function addEncounterService(values: EncounterFormValues, service: CatalogService): EncounterFormValues {
+  const existing = values.services.find(item => item.service.id === service.id);
+  if (existing) {
+    const quantity = (parseQuantity(existing.quantity) ?? 0) + 1;
+    return {
+      ...values,
+      services: values.services.map(item => (item === existing ? { ...item, quantity: String(quantity) } : item)),
+    };
+  }
+
+  serviceSequence += 1;
+  return {
+    ...values,
+    services: [...values.services, { key: `service-${Date.now()}-${serviceSequence}`, service, quantity: '1' }],
+  };
+}
+
+/**
+ * Validate the encounter form
+ * @returns Errors keyed by field; empty when the form is valid
+ */
+export function validateEncounterForm(values: EncounterFormValues, now: Date = new Date()): EncounterFormErrors {
+  const errors: EncounterFormErrors = {};
+
+  if (parseQuantity(values.patient_id) === null) {
+    errors.patient_id = 'Enter the patient ID';
+  }
+
+  const visitDate = parseDateInput(values.visit_date);
+  if (!visitDate) {
+    errors.visit_date = 'Use YYYY-MM-DD';
+  } else if (visitDate > startOfDay(now)) {
+    errors.visit_date = 'The visit date cannot be in the future';
+  }
+
+  if (values.services.length === 0) {
+    errors.services = 'Add at least one service performed';
+  } else if (values.services.some(item => parseQuantity(item.quantity) === null)) {
+    errors.services = 'Quantities must be whole numbers above zero';
+  }
+
+  return errors;
+}
+
+/**
+ * Convert a validated form into the encounter payload
+ * Services are priced as of the visit date for the patient's payer; the draft
+ * invoice carries no discount or tax until billing staff review it
+ * @param payerName - Insurer billed first for the patient; omit for self-pay
+ */
+export function buildEncounterRequest(values: EncounterFormValues, payerName?: string): EncounterRequest {
+  const visitDate = parseDateInput(values.visit_date) ?? new Date();
+  const lineItems = buildDraftLineItems({
+    ...createEmptyDraft(),
+    line_items: values.services.map(item => ({
+      ...createDraftLineItemFromService(item.service, resolveServicePrice(item.service, visitDate, payerName).price_cents),
+      quantity: item.quantity,
+    })),
+  });
+
+  return {
+    patient_id: Number(values.patient_id),
+    visit_date: values.visit_date.trim(),
+    notes: values.notes.trim() || undefined,
+    currency: DEFAULT_CURRENCY,
+    line_items: lineItems,
+    total_amount_cents: calculateInvoiceTotals(lineItems).total_cents,
+  };
+}
+
+/**
+ * Subscribe to encounters being logged elsewhere in the app
+ * @returns Unsubscribe function
+ */
+export function onEncountersChanged(listener: EncounterChangeListener): () => void {
+  changeListeners.add(listener);
+  return () => {
+    changeListeners.delete(listener);
+  };
+}
+
+/**
+ * Tell subscribed screens that encounters changed and should be reloaded
+ */
+export function notifyEncountersChanged(): void {
+  changeListeners.forEach(listener => listener());
+}
@@ -4,12 +4,23 @@
  * Functions for calculating and formatting financial metrics from invoice data
  */
 
-import { Invoice, FinancialMetrics, FinancialMetricsDisplay } from '../types/invoice';
+import { CurrencyAmounts, Invoice, InvoiceStatus, FinancialMetrics, FinancialMetricsDisplay } from '../types/invoice';
+import {
+  getAmountPaidCents,
+  getAmountRefundedCents,
+  getBalanceCents,
+  getInsuranceBalanceCents,
+  getInsurancePaidCents,
+  getPatientBalanceCents,
+} from './invoiceTotals';
+import { getMinorUnitDigits, listCurrencies, normalizeCurrency } from './currency';
+
+const UNBILLED_STATUSES: readonly InvoiceStatus[] = ['draft', 'void'];
 
 /**
  * Calculate financial metrics from invoice array
  * @param invoices - Array of invoice objects
- * @returns Financial metrics in cents
+ * @returns Financial metrics in minor units, totalled per currency
  */
 export function calculateFinancialMetrics(invoices: Invoice[]): FinancialMetrics {
   // Filter out invalid invoices (missing required fields)
@@ -25,55 +36,118 @@ export function calculateFinancialMetrics(invoices: Invoice[]): FinancialMetrics
   // For values beyond safe integer range, JavaScript will lose precision
   // In practice, 10,000 invoices * $1M = $10B = 1,000,000,000,000 cents (within safe range)
 
-  // Calculate Outstanding Revenue (unpaid + pending)
-  const outstandingRevenue = validInvoices
-    .filter(inv => inv.status === 'unpaid' || inv.status === 'pending')
-    .reduce((sum, inv) => sum + (inv.total_amount_cents || 0), 0);
+  const metrics: FinancialMetrics = {
+    outstandingRevenue: {},
+    insuranceReceivables: {},
+    patientReceivables: {},
+    grossRevenue: {},
+    refundedRevenue: {},
+    netRevenue: {},
+    totalRevenue: {},
+  };
+  // Amounts in different currencies are never added together
+  const add = (amounts: CurrencyAmounts, currency: string, value: number) => {
+    amounts[currency] = (amounts[currency] ?? 0) + value;
+  };
 
-  // Calculate Paid Revenue
-  const paidRevenue = validInvoices
-    .filter(inv => inv.status === 'paid')
-    .reduce((sum, inv) => sum + (inv.total_amount_cents || 0), 0);
+  validInvoices.forEach(inv => {
+    const currency = normalizeCurrency(inv.currency);
 
-  // Calculate Total Revenue (all invoices, includes negative amounts for refunds)
-  const totalRevenue = validInvoices
-    .reduce((sum, inv) => sum + (inv.total_amount_cents || 0), 0);
+    // Calculate Outstanding Revenue (remaining balances of receivable invoices)
+    add(metrics.outstandingRevenue, currency, getBalanceCents(inv));
+    // Split Outstanding Revenue by who owes it: insurers on open claims, or the patient
+    add(metrics.insuranceReceivables, currency, getInsuranceBalanceCents(inv));
+    add(metrics.patientReceivables, currency, getPatientBalanceCents(inv));
 
-  return {
-    outstandingRevenue,
-    paidRevenue,
-    totalRevenue,
-  };
+    // Drafts were never issued and void invoices were cancelled, so neither counts below
+    if (UNBILLED_STATUSES.includes(inv.status)) {
+      return;
+    }
+
+    // Calculate Gross Revenue (every payment received from patients and insurers, including partial payments)
+    const paid = getAmountPaidCents(inv) + getInsurancePaidCents(inv);
+    // Calculate Refunded Revenue (full and partial refunds issued as credit notes)
+    const refunded = getAmountRefundedCents(inv);
+    add(metrics.grossRevenue, currency, paid);
+    add(metrics.refundedRevenue, currency, refunded);
+    add(metrics.netRevenue, currency, paid - refunded);
+
+    // Calculate Total Revenue (everything billed, includes negative amounts for refunds)
+    add(metrics.totalRevenue, currency, inv.total_amount_cents || 0);
+  });
+
+  return metrics;
 }
 
 /**
- * Convert cents to formatted currency string
- * @param cents - Amount in cents (can be negative for refunds/credits)
- * @returns Formatted string (e.g., "$12,450.00" or "-$12,450.00")
+ * Convert minor units to formatted currency string
+ * @param cents - Amount in the currency's minor unit (can be negative for refunds/credits)
+ * @param currency - ISO 4217 currency code, defaults to USD
+ * @returns Formatted string (e.g., "$12,450.00", "-$12,450.00" or "¥12,450")
  */
-export function formatCurrency(cents: number): string {
-  const dollars = cents / 100;
+export function formatCurrency(cents: number, currency?: string | null): string {
+  const code = normalizeCurrency(currency);
+  const digits = getMinorUnitDigits(code);
+  const amount = cents / 10 ** digits;
   // Intl.NumberFormat automatically handles negative values correctly
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
-  }).format(dollars);
+  try {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: code,
+      minimumFractionDigits: digits,
+      maximumFractionDigits: digits,
+    }).format(amount);
+  } catch {
+    // Codes the runtime's Intl data doesn't know still show the amount
+    return `${amount.toFixed(digits)} ${code}`;
+  }
+}
+
+/**
+ * Parse a typed currency amount (e.g. "1,250.5") to minor units
+ * @param currency - ISO 4217 currency code, which sets how many decimals are allowed
+ * @returns Minor units or null if the text is not a non-negative amount the currency can represent
+ */
+export function parseAmountToCents(value: string, currency?: string | null): number | null {
+  const digits = getMinorUnitDigits(currency);
+  const trimmed = value.trim();
+  // Digits with optional thousands separators; signs, letters and other symbols are rejected
+  const wholePattern = '(\\d+|\\d{1,3}(,\\d{3})+)';
+  const pattern = new RegExp(digits === 0 ? `^${wholePattern}$` : `^${wholePattern}(\\.\\d{0,${digits}})?$`);
+  if (!pattern.test(trimmed)) {
+    return null;
+  }
+  const [whole, fraction = ''] = trimmed.replace(/,/g, '').split('.');
+  return Number(whole) * 10 ** digits + Number(fraction.padEnd(digits, '0') || 0);
+}
+
+/**
+ * Format per-currency amounts, one currency per line
+ * @returns e.g. "$1,200.00\n€300.00", or zero in the default currency when empty
+ */
+export function formatCurrencyAmounts(amounts: CurrencyAmounts): string {
+  const currencies = listCurrencies(Object.keys(amounts).map(currency => ({ currency })));
+  if (currencies.length === 0) {
+    return formatCurrency(0);
+  }
+  return currencies.map(currency => formatCurrency(amounts[currency], currency)).join('\n');
 }
 
 /**
  * Convert financial metrics to display format
- * @param metrics - Metrics in cents
+ * @param metrics - Metrics in minor units per currency
  * @returns Formatted metrics for display
  */
 export function formatFinancialMetrics(
   metrics: FinancialMetrics
 ): FinancialMetricsDisplay {
   return {
-    outstandingRevenue: formatCurrency(metrics.outstandingRevenue),
-    paidRevenue: formatCurrency(metrics.paidRevenue),
-    totalRevenue: formatCurrency(metrics.totalRevenue),
+    outstandingRevenue: formatCurrencyAmounts(metrics.outstandingRevenue),
+    insuranceReceivables: formatCurrencyAmounts(metrics.insuranceReceivables),
+    patientReceivables: formatCurrencyAmounts(metrics.patientReceivables),
+    grossRevenue: formatCurrencyAmounts(metrics.grossRevenue),
+    refundedRevenue: formatCurrencyAmounts(metrics.refundedRevenue),
+    netRevenue: formatCurrencyAmounts(metrics.netRevenue),
+    totalRevenue: formatCurrencyAmounts(metrics.totalRevenue),
   };
 }
-
@@ -0,0 +1,15 @@
+/**
+ * Idempotency Key Utilities
+ *
+ * Keys sent with payment requests so a retried or double-submitted charge is processed once
+ */
+
+/**
+ * Generate a unique idempotency key
+ * @param prefix - Short label for the operation (e.g. 'pay', 'refund')
+ * @returns Key such as "pay_lz3k9q_8f2a6c1d9e"
+ */
+export function generateIdempotencyKey(prefix: string): string {
+  const random = Array.from({ length: 10 }, () => Math.floor(Math.random() * 36).toString(36)).join('');
+  return `${prefix}_${Date.now().toString(36)}_${random}`;
+}
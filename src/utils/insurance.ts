@@ -0,0 +1,211 @@
+/**
+ * Insurance Utilities
+ *
+ * Labels for claims and policies, and validation for the insurance policy and
+ * explanation of benefits (EOB) forms. The claim lifecycle is in claimStatus
+ * and how claims split an invoice into insurer and patient portions is in
+ * invoiceTotals
+ */
+
+import {
+  ClaimStatus,
+  EobFormErrors,
+  EobFormValues,
+  ExplanationOfBenefits,
+  InsuranceClaim,
+  InsurancePolicy,
+  InsurancePolicyRequest,
+  PolicyFormErrors,
+  PolicyFormValues,
+  PolicyPriority,
+  PolicyRelationship,
+} from '../types/insurance';
+import { formatAmountInput } from './currency';
+import { parseDateInput } from './dateUtils';
+import { parseAmountToCents } from './financialMetrics';
+
+export const CLAIM_STATUS_LABELS: Record<ClaimStatus, string> = {
+  submitted: 'Submitted',
+  pending: 'Pending',
+  paid: 'Paid',
+  denied: 'Denied',
+  appealed: 'Appealed',
+};
+
+/**
+ * Badge styles for each claim status
+ */
+export const claimStatusStyles: Record<ClaimStatus, { bg: string, text: string }> = {
+  submitted: { bg: 'bg-blue-100 dark:bg-blue-900/50', text: 'text-blue-800 dark:text-blue-300' },
+  pending: { bg: 'bg-amber-100 dark:bg-amber-900/50', text: 'text-amber-800 dark:text-amber-300' },
+  paid: { bg: 'bg-green-100 dark:bg-green-900/50', text: 'text-green-800 dark:text-green-300' },
+  denied: { bg: 'bg-red-100 dark:bg-red-900/50', text: 'text-red-800 dark:text-red-300' },
+  appealed: { bg: 'bg-purple-100 dark:bg-purple-900/50', text: 'text-purple-800 dark:text-purple-300' },
+};
+
+export const POLICY_PRIORITY_LABELS: Record<PolicyPriority, string> = {
+  primary: 'Primary',
+  secondary: 'Secondary',
+};
+
+export const POLICY_RELATIONSHIP_LABELS: Record<PolicyRelationship, string> = {
+  self: 'Self',
+  spouse: 'Spouse',
+  child: 'Child',
+  other: 'Other',
+};
+
+export const EMPTY_POLICY_FORM: PolicyFormValues = {
+  payer_name: '',
+  payer_id: '',
+  plan_name: '',
+  member_id: '',
+  group_number: '',
+  relationship: 'self',
+  priority: 'primary',
+  effective_date: '',
+  termination_date: '',
+};
+
+/**
+ * Whether a policy covers a given day
+ */
+export function isPolicyActive(policy: InsurancePolicy, on: Date = new Date()): boolean {
+  const effective = policy.effective_date ? parseDateInput(policy.effective_date) : null;
+  const termination = policy.termination_date ? parseDateInput(policy.termination_date) : null;
+  const day = new Date(on.getFullYear(), on.getMonth(), on.getDate());
+  return (!effective || effective <= day) && (!termination || day <= termination);
+}
+
+/**
+ * Sort policies primary first, then by payer name
+ */
+export function sortPolicies(policies: InsurancePolicy[]): InsurancePolicy[] {
+  return [...policies].sort((a, b) =>
+    (a.priority === b.priority ? 0 : a.priority === 'primary' ? -1 : 1) || a.payer_name.localeCompare(b.payer_name));
+}
+
+/**
+ * Short label for a policy, e.g. "Blue Cross · Primary"
+ */
+export function formatPolicyLabel(policy: Pick<InsurancePolicy, 'payer_name' | 'priority'>): string {
+  return `${policy.payer_name} · ${POLICY_PRIORITY_LABELS[policy.priority]}`;
+}
+
+/**
+ * Form values for editing an existing policy
+ */
+export function toPolicyForm(policy: InsurancePolicy): PolicyFormValues {
+  return {
+    payer_name: policy.payer_name,
+    payer_id: policy.payer_id ?? '',
+    plan_name: policy.plan_name ?? '',
+    member_id: policy.member_id,
+    group_number: policy.group_number ?? '',
+    relationship: policy.relationship,
+    priority: policy.priority,
+    effective_date: policy.effective_date ?? '',
+    termination_date: policy.termination_date ?? '',
+  };
+}
+
+/**
+ * Validate the policy form
+ * @returns Errors keyed by field; empty when the form is valid
+ */
+export function validatePolicyForm(values: PolicyFormValues): PolicyFormErrors {
+  const errors: PolicyFormErrors = {};
+
+  if (!values.payer_name.trim()) {
+    errors.payer_name = 'Insurer is required';
+  }
+  if (!values.member_id.trim()) {
+    errors.member_id = 'Member ID is required';
+  }
+
+  const effective = values.effective_date.trim() ? parseDateInput(values.effective_date) : null;
+  if (values.effective_date.trim() && !effective) {
+    errors.effective_date = 'Use YYYY-MM-DD';
+  }
+  const termination = values.termination_date.trim() ? parseDateInput(values.termination_date) : null;
+  if (values.termination_date.trim() && !termination) {
+    errors.termination_date = 'Use YYYY-MM-DD';
+  } else if (effective && termination && termination < effective) {
+    errors.termination_date = 'Coverage cannot end before it starts';
+  }
+
+  return errors;
+}
+
+/**
+ * Convert validated form values into the create/update payload
+ * Blank optional fields are omitted
+ */
+export function buildPolicyRequest(values: PolicyFormValues): InsurancePolicyRequest {
+  const optional = (value: string) => value.trim() || undefined;
+  return {
+    payer_name: values.payer_name.trim(),
+    payer_id: optional(values.payer_id),
+    plan_name: optional(values.plan_name),
+    member_id: values.member_id.trim(),
+    group_number: optional(values.group_number),
+    relationship: values.relationship,
+    priority: values.priority,
+    effective_date: optional(values.effective_date),
+    termination_date: optional(values.termination_date),
+  };
+}
+
+/**
+ * EOB form prefilled from the claim: the insurer is assumed to allow what was billed
+ */
+export function createEobForm(claim: InsuranceClaim, currency?: string | null): EobFormValues {
+  return {
+    allowed: formatAmountInput(claim.billed_cents, currency),
+    paid: '',
+    patient_responsibility: '',
+    claim_number: claim.claim_number ?? '',
+  };
+}
+
+/**
+ * Validate an EOB against the claim it settles
+ * The insurer's payment and the patient's share together make up the allowed amount,
+ * which can't exceed what was billed
+ * @returns Errors keyed by field; empty when the form is valid
+ */
+export function validateEobForm(values: EobFormValues, claim: InsuranceClaim, currency?: string | null): EobFormErrors {
+  const errors: EobFormErrors = {};
+  const allowed = parseAmountToCents(values.allowed, currency);
+  const paid = parseAmountToCents(values.paid, currency);
+  const patientShare = parseAmountToCents(values.patient_responsibility || '0', currency);
+
+  if (allowed === null) {
+    errors.allowed = 'Enter the allowed amount';
+  } else if (allowed > claim.billed_cents) {
+    errors.allowed = 'Allowed amount cannot exceed the billed amount';
+  }
+  if (paid === null) {
+    errors.paid = 'Enter the amount the insurer paid';
+  }
+  if (patientShare === null) {
+    errors.patient_responsibility = 'Enter a valid amount';
+  }
+  if (allowed !== null && paid !== null && patientShare !== null && paid + patientShare !== allowed) {
+    errors.patient_responsibility = 'Paid plus patient responsibility must equal the allowed amount';
+  }
+
+  return errors;
+}
+
+/**
+ * Convert a validated EOB form into the posting payload
+ */
+export function buildExplanationOfBenefits(values: EobFormValues, currency?: string | null): ExplanationOfBenefits {
+  return {
+    allowed_cents: parseAmountToCents(values.allowed, currency) ?? 0,
+    paid_cents: parseAmountToCents(values.paid, currency) ?? 0,
+    patient_responsibility_cents: parseAmountToCents(values.patient_responsibility || '0', currency) ?? 0,
+    claim_number: values.claim_number.trim() || undefined,
+  };
+}
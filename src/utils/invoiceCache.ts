@@ -6,10 +6,15 @@
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Invoice } from '../types/invoice';
+import { normalizeInvoice } from './invoiceStatus';
 
 const CACHE_KEY = '@invoice_data_cache';
 const CACHE_TTL = 5 * 60 * 1000; // 5 minutes in milliseconds
 
+type InvoiceChangeListener = () => void;
+
+const changeListeners = new Set<InvoiceChangeListener>();
+
 interface CachedInvoiceData {
   invoices: Invoice[];
   timestamp: number;
@@ -47,10 +52,49 @@ export async function loadInvoiceCache(): Promise<Invoice[] | null> {
       return null;
     }
 
-    return cacheData.invoices;
+    // Entries cached by older versions may still carry legacy statuses
+    return cacheData.invoices.map(normalizeInvoice);
   } catch (error) {
     console.error('Error loading invoice cache:', error);
     return null;
   }
 }
 
+
+/**
+ * Replace a single invoice in the cache, keeping the cache's expiry
+ * No-op if nothing is cached
+ */
+export async function updateCachedInvoice(invoice: Invoice): Promise<void> {
+  try {
+    const cached = await AsyncStorage.getItem(CACHE_KEY);
+    if (!cached) return;
+
+    const cacheData: CachedInvoiceData = JSON.parse(cached);
+    const exists = cacheData.invoices.some(inv => inv.id === invoice.id);
+    cacheData.invoices = exists
+      ? cacheData.invoices.map(inv => (inv.id === invoice.id ? invoice : inv))
+      : [invoice, ...cacheData.invoices];
+    await AsyncStorage.setItem(CACHE_KEY, JSON.stringify(cacheData));
+  } catch (error) {
+    console.error('Error updating invoice cache:', error);
+  }
+}
+
+/**
+ * Subscribe to invoice changes made elsewhere in the app (payments, voids)
+ * @returns Unsubscribe function
+ */
+export function onInvoicesChanged(listener: InvoiceChangeListener): () => void {
+  changeListeners.add(listener);
+  return () => {
+    changeListeners.delete(listener);
+  };
+}
+
+/**
+ * Tell subscribed screens that invoice data changed on the server and should be reloaded
+ */
+export function notifyInvoicesChanged(): void {
+  changeListeners.forEach(listener => listener());
+}
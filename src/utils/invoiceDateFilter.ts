@@ -0,0 +1,126 @@
+/**
+ * Invoice Date Filter Utilities
+ *
+ * Preset date ranges for the invoice list, range matching and persistence of
+ * the chosen filter between sessions
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DateRange, DateRangePreset, InvoiceDateField, InvoiceDateFilter } from '../types/invoice';
+import { addDays, formatDateInput, parseDateInput, startOfDay, startOfQuarter, startOfWeek } from './dateUtils';
+
+const FILTER_KEY = '@invoices:date_filter';
+
+export const DATE_RANGE_PRESETS: { id: DateRangePreset; label: string }[] = [
+  { id: 'today', label: 'Today' },
+  { id: 'this_week', label: 'This Week' },
+  { id: 'last_30_days', label: 'Last 30 Days' },
+  { id: 'this_quarter', label: 'This Quarter' },
+  { id: 'custom', label: 'Custom' },
+];
+
+export const DATE_FIELD_LABELS: Record<InvoiceDateField, string> = {
+  created_at: 'Created',
+  due_date: 'Due',
+  paid_at: 'Paid',
+};
+
+export const DEFAULT_DATE_FILTER: InvoiceDateFilter = { field: 'created_at', preset: null };
+
+/**
+ * Resolve a filter to a concrete range
+ * Week and quarter presets cover the whole period, so future due dates are included
+ * @param filter - Date filter
+ * @param now - Reference time for relative presets
+ * @returns Range with an exclusive end, or null if the filter is off or the custom dates are invalid
+ */
+export function resolveDateRange(filter: InvoiceDateFilter, now: Date = new Date()): DateRange | null {
+  const today = startOfDay(now);
+  const tomorrow = addDays(today, 1);
+
+  switch (filter.preset) {
+    case 'today':
+      return { start: today, end: tomorrow };
+    case 'this_week': {
+      const weekStart = startOfWeek(now);
+      return { start: weekStart, end: addDays(weekStart, 7) };
+    }
+    case 'last_30_days':
+      return { start: addDays(today, -29), end: tomorrow };
+    case 'this_quarter': {
+      const quarterStart = startOfQuarter(now);
+      return { start: quarterStart, end: new Date(quarterStart.getFullYear(), quarterStart.getMonth() + 3, 1) };
+    }
+    case 'custom': {
+      const start = parseDateInput(filter.custom_start ?? '');
+      const end = parseDateInput(filter.custom_end ?? '');
+      if (!start || !end || end < start) {
+        return null;
+      }
+      return { start, end: addDays(end, 1) };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Whether a timestamp (ms since epoch) falls inside a range
+ * Missing dates never match, so "Paid" ranges exclude unpaid invoices
+ */
+export function isInDateRange(timestamp: number | null, range: DateRange): boolean {
+  return timestamp !== null && timestamp >= range.start.getTime() && timestamp < range.end.getTime();
+}
+
+/**
+ * Short description of the active filter for the filter row
+ * @returns e.g. "Due · Last 30 Days" or "Created · 1 Jan 2024 – 31 Jan 2024"
+ */
+export function describeDateFilter(filter: InvoiceDateFilter, now: Date = new Date()): string | null {
+  if (!filter.preset) {
+    return null;
+  }
+  const fieldLabel = DATE_FIELD_LABELS[filter.field];
+  if (filter.preset === 'custom') {
+    const range = resolveDateRange(filter, now);
+    if (!range) {
+      return null;
+    }
+    const format = (date: Date) =>
+      date.toLocaleDateString('en-US', { day: 'numeric', month: 'short', year: 'numeric' });
+    return `${fieldLabel} · ${format(range.start)} – ${format(addDays(range.end, -1))}`;
+  }
+  const preset = DATE_RANGE_PRESETS.find(option => option.id === filter.preset);
+  return `${fieldLabel} · ${preset?.label ?? ''}`;
+}
+
+/**
+ * Default custom range (last 30 days) used to prefill the custom inputs
+ */
+export function getDefaultCustomRange(now: Date = new Date()): { custom_start: string; custom_end: string } {
+  return {
+    custom_start: formatDateInput(addDays(now, -29)),
+    custom_end: formatDateInput(now),
+  };
+}
+
+/**
+ * Save the invoice list date filter
+ */
+export async function saveDateFilter(filter: InvoiceDateFilter): Promise<void> {
+  await AsyncStorage.setItem(FILTER_KEY, JSON.stringify(filter));
+}
+
+/**
+ * Load the saved invoice list date filter
+ * @returns Saved filter, or the default (no date filtering) if none is saved
+ */
+export async function loadDateFilter(): Promise<InvoiceDateFilter> {
+  try {
+    const stored = await AsyncStorage.getItem(FILTER_KEY);
+    return stored ? { ...DEFAULT_DATE_FILTER, ...JSON.parse(stored) } : DEFAULT_DATE_FILTER;
+  } catch (error) {
+    console.error('Error loading invoice date filter:', error);
+    return DEFAULT_DATE_FILTER;
+  }
+}
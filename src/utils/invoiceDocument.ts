@@ -0,0 +1,276 @@
+/**
+ * Invoice Document Utilities
+ *
+ * Builds the printable HTML for an invoice, a payment receipt or a patient
+ * account statement. The HTML is
+ * rendered to PDF on the device, so styles are embedded and nothing is loaded
+ * from the network
+ */
+
+import { Invoice } from '../types/invoice';
+import { PatientStatement } from '../types/ledger';
+import { Patient } from '../types/patient';
+import { Payment } from '../types/payment';
+import { formatCurrency } from './financialMetrics';
+import { formatInvoiceDate, formatInvoiceDateTime, mapApiStatusToDisplay } from './invoiceFormatting';
+import {
+  calculateInvoiceTotals,
+  getAmountPaidCents,
+  getAmountRefundedCents,
+  getInsuranceAdjustmentCents,
+  getInsuranceBalanceCents,
+  getInsurancePaidCents,
+  getPatientBalanceCents,
+} from './invoiceTotals';
+import { describeStatementPeriod, LEDGER_ENTRY_LABELS } from './patientLedger';
+import { formatPatientLabel } from './patients';
+
+export interface ClinicDetails {
+  name: string;
+  addressLines: string[];
+  phone?: string;
+  email?: string;
+}
+
+// Printed at the top of every document
+export const CLINIC_DETAILS: ClinicDetails = {
+  name: 'Clinic Billing',
+  addressLines: [],
+};
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+/**
+ * Escape text for safe insertion into HTML
+ */
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, char => HTML_ESCAPES[char]);
+}
+
+/**
+ * File name for a generated document, without extension
+ * @returns e.g. "Invoice-INV-0042" or "Receipt-INV-0042-17"
+ */
+export function getDocumentFileName(invoice: Invoice, payment?: Payment): string {
+  const name = payment
+    ? `Receipt-${invoice.invoice_number}-${payment.id}`
+    : `Invoice-${invoice.invoice_number}`;
+  return name.replace(/[^A-Za-z0-9_-]/g, '_');
+}
+
+/**
+ * File name for a patient statement, without extension
+ * @returns e.g. "Statement-P-12-2025-01-31"
+ */
+export function getStatementFileName(statement: PatientStatement): string {
+  return `Statement-P-${statement.patient_id}-${statement.generated_at.slice(0, 10)}`;
+}
+
+const row = (label: string, value: string, strong = false): string =>
+  `<tr${strong ? ' class="strong"' : ''}><td>${escapeHtml(label)}</td><td class="num">${escapeHtml(value)}</td></tr>`;
+
+const renderLineItems = (invoice: Invoice): string => {
+  if (!invoice.line_items || invoice.line_items.length === 0) {
+    return '';
+  }
+  const totals = calculateInvoiceTotals(invoice.line_items);
+  const rows = invoice.line_items
+    .map(item => `
+      <tr>
+        <td>${escapeHtml(item.description)}${item.service_code ? `<div class="muted">${escapeHtml(item.service_code)}</div>` : ''}</td>
+        <td class="num">${item.quantity}</td>
+        <td class="num">${escapeHtml(formatCurrency(item.unit_price_cents, invoice.currency))}</td>
+        <td class="num">${escapeHtml(formatCurrency(item.line_total_cents, invoice.currency))}</td>
+      </tr>`)
+    .join('');
+
+  return `
+    <table class="items">
+      <thead><tr><th>Service</th><th class="num">Qty</th><th class="num">Unit Price</th><th class="num">Amount</th></tr></thead>
+      <tbody>${rows}</tbody>
+    </table>
+    <table class="summary">
+      ${row('Subtotal', formatCurrency(totals.subtotal_cents, invoice.currency))}
+      ${totals.discount_cents > 0 ? row('Discount', formatCurrency(-totals.discount_cents, invoice.currency)) : ''}
+      ${totals.tax_cents > 0 ? row('Tax', formatCurrency(totals.tax_cents, invoice.currency)) : ''}
+    </table>`;
+};
+
+const renderPayment = (payment: Payment, currency?: string): string => `
+  <h2>Payment Received</h2>
+  <table class="summary">
+    ${row('Amount', formatCurrency(payment.amount_cents, payment.currency ?? currency), true)}
+    ${row('Date', formatInvoiceDateTime(payment.created_at))}
+    ${payment.card_last4 ? row('Card', `•••• ${payment.card_last4}`) : ''}
+    ${row('Transaction ID', payment.transaction_id)}
+  </table>`;
+
+const DOCUMENT_STYLES = `
+<style>
+  body { font-family: -apple-system, Roboto, Helvetica, Arial, sans-serif; color: #1F2937; font-size: 12px; }
+  h1 { font-size: 24px; margin: 0; }
+  h2 { font-size: 14px; margin: 24px 0 8px; }
+  table { width: 100%; border-collapse: collapse; }
+  th { text-align: left; border-bottom: 2px solid #D1D5DB; padding: 6px 4px; }
+  td { border-bottom: 1px solid #E5E7EB; padding: 6px 4px; vertical-align: top; }
+  .num { text-align: right; white-space: nowrap; }
+  .muted { color: #6B7280; font-size: 10px; }
+  .header { display: flex; justify-content: space-between; margin-bottom: 24px; }
+  .clinic { font-size: 16px; font-weight: bold; }
+  .summary { width: 50%; margin-left: auto; margin-top: 12px; }
+  .summary td { border-bottom: none; }
+  .strong td { font-weight: bold; font-size: 14px; border-top: 2px solid #D1D5DB; }
+</style>`;
+
+const renderClinic = (clinic: ClinicDetails): string => {
+  const clinicLines = [...clinic.addressLines, clinic.phone, clinic.email]
+    .filter((line): line is string => Boolean(line))
+    .map(line => `<div>${escapeHtml(line)}</div>`)
+    .join('');
+  return `
+    <div>
+      <div class="clinic">${escapeHtml(clinic.name)}</div>
+      <div class="muted">${clinicLines}</div>
+    </div>`;
+};
+
+// Page content for one invoice or receipt, without the surrounding document
+const renderDocumentBody = (invoice: Invoice, payment: Payment | undefined, clinic: ClinicDetails): string => {
+  const title = payment ? 'Receipt' : 'Invoice';
+  const patient = formatPatientLabel(invoice.patient_id, invoice.patient_name);
+  const refundedCents = getAmountRefundedCents(invoice);
+  // Insurance rows only appear once a claim was billed; the balance due is the patient's
+  const insuranceRows = [
+    { label: 'Insurance Paid', cents: -getInsurancePaidCents(invoice) },
+    { label: 'Insurance Adjustment', cents: -getInsuranceAdjustmentCents(invoice) },
+    { label: 'Pending Insurance', cents: -getInsuranceBalanceCents(invoice) },
+  ]
+    .filter(item => item.cents !== 0)
+    .map(item => row(item.label, formatCurrency(item.cents, invoice.currency)))
+    .join('');
+
+  return `
+  <div class="header">${renderClinic(clinic)}
+    <div class="num">
+      <h1>${title}</h1>
+      <div>#${escapeHtml(invoice.invoice_number)}</div>
+      <div>Status: ${escapeHtml(mapApiStatusToDisplay(invoice.status, invoice.due_date))}</div>
+    </div>
+  </div>
+  <table class="summary" style="width: 100%">
+    ${row('Patient', patient)}
+    ${row('Issued', formatInvoiceDate(invoice.created_at))}
+    ${row('Due Date', formatInvoiceDate(invoice.due_date))}
+  </table>
+  ${renderLineItems(invoice)}
+  <table class="summary">
+    ${row('Total', formatCurrency(invoice.total_amount_cents, invoice.currency), true)}
+    ${insuranceRows}
+    ${row('Amount Paid', formatCurrency(getAmountPaidCents(invoice), invoice.currency))}
+    ${refundedCents > 0 ? row('Refunded', formatCurrency(-refundedCents, invoice.currency)) : ''}
+    ${row('Balance Due', formatCurrency(getPatientBalanceCents(invoice), invoice.currency), true)}
+  </table>
+  ${payment ? renderPayment(payment, invoice.currency) : ''}
+`;
+};
+
+const wrapDocument = (body: string): string => `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />${DOCUMENT_STYLES}
+</head>
+<body>${body}</body>
+</html>`;
+
+/**
+ * Build the HTML for an invoice, or a receipt for one payment on it
+ * @param invoice - Invoice to render (balances are taken from its current state)
+ * @param payment - Payment to print a receipt for; omit for the invoice itself
+ * @param clinic - Clinic shown in the header
+ * @returns A complete HTML document
+ */
+export function buildInvoiceDocumentHtml(
+  invoice: Invoice,
+  payment?: Payment,
+  clinic: ClinicDetails = CLINIC_DETAILS,
+): string {
+  return wrapDocument(renderDocumentBody(invoice, payment, clinic));
+}
+
+/**
+ * Build one HTML document printing several invoices, each starting on a new page
+ * @param invoices - Invoices to render, in print order
+ * @param clinic - Clinic shown in each header
+ * @returns A complete HTML document
+ */
+export function buildInvoiceBatchHtml(invoices: Invoice[], clinic: ClinicDetails = CLINIC_DETAILS): string {
+  return wrapDocument(invoices
+    .map((invoice, index) => `<div${index < invoices.length - 1 ? ' style="page-break-after: always"' : ''}>${renderDocumentBody(invoice, undefined, clinic)}</div>`)
+    .join(''));
+}
+
+/**
+ * Build the HTML for a patient account statement
+ * @param statement - Statement cut from the patient's ledger
+ * @param patient - Patient record, for the billing address; omit if it couldn't be loaded
+ * @param clinic - Clinic shown in the header
+ * @returns A complete HTML document
+ */
+export function buildPatientStatementHtml(
+  statement: PatientStatement,
+  patient?: Patient,
+  clinic: ClinicDetails = CLINIC_DETAILS,
+): string {
+  const { currency } = statement;
+  const address = patient?.billing_address;
+  const addressLines = address
+    ? [address.line1, address.line2, `${address.city}${address.state ? `, ${address.state}` : ''} ${address.postal_code}`, address.country]
+      .filter((line): line is string => Boolean(line))
+      .map(line => `<div class="muted">${escapeHtml(line)}</div>`)
+      .join('')
+    : '';
+  const rows = statement.entries
+    .map(entry => `
+      <tr>
+        <td>${escapeHtml(formatInvoiceDate(entry.date ?? undefined))}</td>
+        <td>${escapeHtml(entry.description)}<div class="muted">${escapeHtml(LEDGER_ENTRY_LABELS[entry.type])} · #${escapeHtml(entry.invoice_number)}</div></td>
+        <td class="num">${escapeHtml(formatCurrency(entry.amount_cents, currency))}</td>
+        <td class="num">${escapeHtml(formatCurrency(entry.balance_cents, currency))}</td>
+      </tr>`)
+    .join('');
+  const agingCells = statement.aging
+    .map(bucket => `<td class="num">${escapeHtml(bucket.label)}<div><strong>${escapeHtml(formatCurrency(bucket.balanceCents, currency))}</strong></div></td>`)
+    .join('');
+
+  return wrapDocument(`
+  <div class="header">${renderClinic(clinic)}
+    <div class="num">
+      <h1>Statement</h1>
+      <div>${escapeHtml(describeStatementPeriod(statement.period))}</div>
+      <div class="muted">Issued ${escapeHtml(formatInvoiceDate(statement.generated_at))}</div>
+    </div>
+  </div>
+  <div>
+    <strong>${escapeHtml(formatPatientLabel(statement.patient_id, statement.patient_name))}</strong>
+    ${addressLines}
+  </div>
+  <table class="summary">
+    ${row('Opening Balance', formatCurrency(statement.opening_balance_cents, currency))}
+  </table>
+  <table class="items">
+    <thead><tr><th>Date</th><th>Description</th><th class="num">Amount</th><th class="num">Balance</th></tr></thead>
+    <tbody>${rows || '<tr><td colspan="4" class="muted">No activity in this period</td></tr>'}</tbody>
+  </table>
+  <table class="summary">
+    ${row('Balance Due', formatCurrency(statement.closing_balance_cents, currency), true)}
+  </table>
+  <h2>Aging</h2>
+  <table><tr>${agingCells}</tr></table>
+`);
+}
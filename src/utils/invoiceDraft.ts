@@ -0,0 +1,274 @@
+/**
+ * Invoice Draft Utilities
+ *
+ * Totals, step validation and local persistence for the invoice creation wizard
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  CreateInvoiceLineItem,
+  CreateInvoiceRequest,
+  InvoiceDraft,
+  InvoiceDraftLineItem,
+  InvoiceTotals,
+} from '../types/invoice';
+import { CatalogService } from '../types/serviceCatalog';
+import { addDays, formatDateInput, parseDateInput, startOfDay } from './dateUtils';
+import { allocateProportionally, calculateInvoiceTotals, calculateLineTotal } from './invoiceTotals';
+import { parseAmountToCents } from './financialMetrics';
+import { DEFAULT_CURRENCY, formatAmountInput } from './currency';
+
+const DRAFT_KEY = '@invoice:draft';
+
+export const DEFAULT_PAYMENT_TERMS_DAYS = 30;
+
+// Wizard steps in the order they are shown
+export const INVOICE_WIZARD_STEPS = ['Patient', 'Items', 'Adjustments', 'Due Date', 'Review'] as const;
+
+export type InvoiceWizardStep = (typeof INVOICE_WIZARD_STEPS)[number];
+
+let lineItemSequence = 0;
+
+/**
+ * Create an empty line item with a unique local key
+ */
+export function createDraftLineItem(): InvoiceDraftLineItem {
+  lineItemSequence += 1;
+  return {
+    key: `item-${Date.now()}-${lineItemSequence}`,
+    description: '',
+    quantity: '1',
+    unit_price: '',
+  };
+}
+
+/**
+ * Create a line item for a catalog service at the given price
+ * @param priceCents - Price looked up from the fee schedule for the patient's payer
+ */
+export function createDraftLineItemFromService(service: CatalogService, priceCents: number): InvoiceDraftLineItem {
+  return {
+    ...createDraftLineItem(),
+    description: service.description,
+    service_code: service.service_code,
+    service_id: service.id,
+    tax_category: service.tax_category,
+    unit_price: formatAmountInput(priceCents),
+  };
+}
+
+/**
+ * Create a new draft with one empty line item and the default payment terms
+ */
+export function createEmptyDraft(now: Date = new Date()): InvoiceDraft {
+  return {
+    patient_id: '',
+    line_items: [createDraftLineItem()],
+    discount_type: 'percent',
+    discount_value: '',
+    tax_rate_percent: '',
+    due_date: formatDateInput(addDays(now, DEFAULT_PAYMENT_TERMS_DAYS)),
+    updated_at: now.toISOString(),
+  };
+}
+
+/**
+ * Parse a percentage between 0 and 100 (up to 2 decimals)
+ * @returns Percentage or null if invalid
+ */
+export function parsePercent(value: string): number | null {
+  const normalized = value.replace(/[%\s]/g, '');
+  if (!/^\d+(\.\d{0,2})?$/.test(normalized)) {
+    return null;
+  }
+  const percent = Number(normalized);
+  return percent <= 100 ? percent : null;
+}
+
+/**
+ * Parse a whole, positive quantity
+ * @returns Quantity or null if invalid
+ */
+export function parseQuantity(value: string): number | null {
+  if (!/^\d+$/.test(value.trim())) {
+    return null;
+  }
+  const quantity = Number(value.trim());
+  return quantity > 0 ? quantity : null;
+}
+
+/**
+ * Build priced line items from the draft
+ * The invoice-level discount and tax are allocated across lines in proportion to
+ * each line's amount, so line totals always add up to the invoice total;
+ * tax-exempt catalog services take no share of the tax
+ * Invalid or empty inputs count as zero
+ */
+export function buildDraftLineItems(draft: InvoiceDraft): CreateInvoiceLineItem[] {
+  const lines = draft.line_items.map(item => {
+    const quantity = parseQuantity(item.quantity) ?? 0;
+    const unitPriceCents = parseAmountToCents(item.unit_price) ?? 0;
+    return { item, quantity, unitPriceCents, amountCents: quantity * unitPriceCents };
+  });
+  const subtotalCents = lines.reduce((sum, line) => sum + line.amountCents, 0);
+
+  let discountCents = 0;
+  if (draft.discount_type === 'percent') {
+    discountCents = Math.round((subtotalCents * (parsePercent(draft.discount_value) ?? 0)) / 100);
+  } else {
+    discountCents = parseAmountToCents(draft.discount_value) ?? 0;
+  }
+  discountCents = Math.min(discountCents, subtotalCents);
+
+  // Tax applies to the discounted amount of lines that aren't tax exempt
+  const discounts = allocateProportionally(discountCents, lines.map(line => line.amountCents));
+  const taxableAmounts = lines.map((line, index) =>
+    (line.item.tax_category === 'exempt' ? 0 : line.amountCents - discounts[index]));
+  const taxableCents = taxableAmounts.reduce((sum, amount) => sum + amount, 0);
+  const taxCents = Math.round((taxableCents * (parsePercent(draft.tax_rate_percent) ?? 0)) / 100);
+  const taxes = allocateProportionally(taxCents, taxableAmounts);
+
+  return lines.map((line, index) => {
+    const lineItem = {
+      description: line.item.description.trim(),
+      service_code: line.item.service_code?.trim() || undefined,
+      service_id: line.item.service_id,
+      quantity: line.quantity,
+      unit_price_cents: line.unitPriceCents,
+      discount_cents: discounts[index],
+      tax_cents: taxes[index],
+    };
+    return { ...lineItem, line_total_cents: calculateLineTotal(lineItem) };
+  });
+}
+
+/**
+ * Calculate draft totals
+ */
+export function calculateDraftTotals(draft: InvoiceDraft): InvoiceTotals {
+  return calculateInvoiceTotals(buildDraftLineItems(draft));
+}
+
+/**
+ * Validate the fields belonging to one wizard step
+ * @returns Error message, or null if the step is complete
+ */
+export function validateDraftStep(step: InvoiceWizardStep, draft: InvoiceDraft, now: Date = new Date()): string | null {
+  switch (step) {
+    case 'Patient':
+      return parseQuantity(draft.patient_id) === null ? 'Select or enter a patient ID.' : null;
+
+    case 'Items': {
+      if (draft.line_items.length === 0) {
+        return 'Add at least one line item.';
+      }
+      for (const [index, item] of draft.line_items.entries()) {
+        const label = `Item ${index + 1}`;
+        if (!item.description.trim()) {
+          return `${label}: enter the service provided.`;
+        }
+        if (parseQuantity(item.quantity) === null) {
+          return `${label}: quantity must be a whole number above zero.`;
+        }
+        if (parseAmountToCents(item.unit_price) === null) {
+          return `${label}: enter a valid unit price.`;
+        }
+      }
+      return calculateDraftTotals(draft).subtotal_cents > 0 ? null : 'The invoice total must be above zero.';
+    }
+
+    case 'Adjustments': {
+      if (draft.discount_value.trim()) {
+        if (draft.discount_type === 'percent' && parsePercent(draft.discount_value) === null) {
+          return 'Discount must be a percentage between 0 and 100.';
+        }
+        if (draft.discount_type === 'amount') {
+          const discountCents = parseAmountToCents(draft.discount_value);
+          if (discountCents === null) {
+            return 'Enter a valid discount amount.';
+          }
+          if (discountCents > calculateDraftTotals(draft).subtotal_cents) {
+            return 'Discount cannot exceed the subtotal.';
+          }
+        }
+      }
+      if (draft.tax_rate_percent.trim() && parsePercent(draft.tax_rate_percent) === null) {
+        return 'Tax rate must be a percentage between 0 and 100.';
+      }
+      return null;
+    }
+
+    case 'Due Date': {
+      const dueDate = parseDateInput(draft.due_date);
+      if (!dueDate) {
+        return 'Enter the due date as YYYY-MM-DD.';
+      }
+      return dueDate < startOfDay(now) ? 'The due date cannot be in the past.' : null;
+    }
+
+    case 'Review':
+      return null;
+  }
+}
+
+/**
+ * Convert a completed draft to the createInvoice payload
+ * @throws Error if any step is still invalid
+ */
+export function buildCreateInvoiceRequest(draft: InvoiceDraft, currency: string = DEFAULT_CURRENCY): CreateInvoiceRequest {
+  for (const step of INVOICE_WIZARD_STEPS) {
+    const error = validateDraftStep(step, draft);
+    if (error) {
+      throw new Error(error);
+    }
+  }
+
+  const lineItems = buildDraftLineItems(draft);
+  return {
+    patient_id: Number(draft.patient_id),
+    currency,
+    due_date: draft.due_date,
+    line_items: lineItems,
+    total_amount_cents: calculateInvoiceTotals(lineItems).total_cents,
+  };
+}
+
+/**
+ * Whether the user has entered anything worth keeping
+ */
+export function isDraftStarted(draft: InvoiceDraft): boolean {
+  return (
+    draft.patient_id.trim() !== '' ||
+    draft.discount_value.trim() !== '' ||
+    draft.tax_rate_percent.trim() !== '' ||
+    draft.line_items.some(item => item.description.trim() !== '' || item.unit_price.trim() !== '')
+  );
+}
+
+/**
+ * Save the in-progress draft, replacing any previous one
+ */
+export async function saveInvoiceDraft(draft: InvoiceDraft): Promise<void> {
+  await AsyncStorage.setItem(DRAFT_KEY, JSON.stringify(draft));
+}
+
+/**
+ * Load the saved draft
+ * @returns Draft or null if none is saved or it can't be read
+ */
+export async function loadInvoiceDraft(): Promise<InvoiceDraft | null> {
+  try {
+    const stored = await AsyncStorage.getItem(DRAFT_KEY);
+    return stored ? (JSON.parse(stored) as InvoiceDraft) : null;
+  } catch (error) {
+    console.error('Error loading invoice draft:', error);
+    return null;
+  }
+}
+
+/**
+ * Remove the saved draft (after submitting or discarding it)
+ */
+export async function clearInvoiceDraft(): Promise<void> {
+  await AsyncStorage.removeItem(DRAFT_KEY);
+}
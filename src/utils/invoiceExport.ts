@@ -0,0 +1,87 @@
+/**
+ * Invoice Export Utilities
+ *
+ * Builds CSV exports of invoices for spreadsheets and accounting tools
+ */
+
+import { Invoice } from '../types/invoice';
+import { formatAmountInput, normalizeCurrency } from './currency';
+import { mapApiStatusToDisplay } from './invoiceFormatting';
+import {
+  getAmountPaidCents,
+  getAmountRefundedCents,
+  getBalanceCents,
+  getInsuranceBalanceCents,
+  getInsurancePaidCents,
+  getPatientBalanceCents,
+} from './invoiceTotals';
+
+const CSV_COLUMNS: { header: string; value: (invoice: Invoice) => string }[] = [
+  { header: 'Invoice Number', value: invoice => invoice.invoice_number },
+  { header: 'Patient ID', value: invoice => `P-${invoice.patient_id}` },
+  { header: 'Patient Name', value: invoice => invoice.patient_name ?? '' },
+  { header: 'Status', value: invoice => mapApiStatusToDisplay(invoice.status, invoice.due_date) },
+  { header: 'Issued', value: invoice => invoice.created_at?.slice(0, 10) ?? '' },
+  { header: 'Due Date', value: invoice => invoice.due_date?.slice(0, 10) ?? '' },
+  { header: 'Currency', value: invoice => normalizeCurrency(invoice.currency) },
+  { header: 'Total', value: invoice => formatAmountInput(invoice.total_amount_cents, invoice.currency) },
+  { header: 'Paid', value: invoice => formatAmountInput(getAmountPaidCents(invoice), invoice.currency) },
+  { header: 'Refunded', value: invoice => formatAmountInput(getAmountRefundedCents(invoice), invoice.currency) },
+  { header: 'Insurance Paid', value: invoice => formatAmountInput(getInsurancePaidCents(invoice), invoice.currency) },
+  { header: 'Balance', value: invoice => formatAmountInput(getBalanceCents(invoice), invoice.currency) },
+  { header: 'Insurance Balance', value: invoice => formatAmountInput(getInsuranceBalanceCents(invoice), invoice.currency) },
+  { header: 'Patient Balance', value: invoice => formatAmountInput(getPatientBalanceCents(invoice), invoice.currency) },
+];
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+// Leading characters spreadsheets read as the start of a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Quote a CSV field when it contains a delimiter, quote or line break
+ * Text a spreadsheet would run as a formula (e.g. a patient name starting with "=") is
+ * prefixed with an apostrophe so it is shown as typed
+ */
+export function escapeCsvField(value: string): string {
+  const safe = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * Build a CSV with one row per invoice; amounts are plain numbers in each invoice's currency
+ */
+export function buildInvoiceCsv(invoices: Invoice[]): string {
+  const rows = invoices.map(invoice => CSV_COLUMNS.map(column => escapeCsvField(column.value(invoice))).join(','));
+  return [CSV_COLUMNS.map(column => column.header).join(','), ...rows].join('\r\n');
+}
+
+/**
+ * Base64-encode text as UTF-8, for sharing generated files as data URLs
+ */
+export function encodeBase64(text: string): string {
+  // encodeURIComponent yields UTF-8 bytes as %XX escapes alongside plain ASCII
+  const bytes: number[] = [];
+  encodeURIComponent(text).replace(/%([0-9A-F]{2})|./g, (match, hex: string | undefined) => {
+    bytes.push(hex ? parseInt(hex, 16) : match.charCodeAt(0));
+    return '';
+  });
+
+  let output = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    // Three bytes make four 6-bit digits
+    const chunk = bytes[i] * 65536 + (bytes[i + 1] ?? 0) * 256 + (bytes[i + 2] ?? 0);
+    output += BASE64_ALPHABET[Math.floor(chunk / 262144) % 64] + BASE64_ALPHABET[Math.floor(chunk / 4096) % 64];
+    output += i + 1 < bytes.length ? BASE64_ALPHABET[Math.floor(chunk / 64) % 64] : '=';
+    output += i + 2 < bytes.length ? BASE64_ALPHABET[chunk % 64] : '=';
+  }
+  return output;
+}
+
+/**
+ * File name for an export, e.g. "invoices-2025-01-31"
+ */
+export function getExportFileName(now: Date = new Date()): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `invoices-${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
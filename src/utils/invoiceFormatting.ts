@@ -0,0 +1,101 @@
+/**
+ * Invoice Formatting Utilities
+ * 
+ * Functions for mapping invoice statuses and formatting invoice dates for display
+ */
+
+import { InvoiceDisplayStatus, InvoiceStatus } from '../types/invoice';
+import { ManualPaymentMethod, RefundReason } from '../types/payment';
+import { getEffectiveStatus, normalizeInvoiceStatus } from './invoiceStatus';
+
+/**
+ * Badge styles for each display status
+ */
+export const statusStyles: Record<InvoiceDisplayStatus, { bg: string, text: string }> = {
+  Draft: { bg: 'bg-slate-100 dark:bg-slate-800', text: 'text-slate-600 dark:text-slate-300' },
+  Sent: { bg: 'bg-blue-100 dark:bg-blue-900/50', text: 'text-blue-800 dark:text-blue-300' },
+  Pending: { bg: 'bg-amber-100 dark:bg-amber-900/50', text: 'text-amber-800 dark:text-amber-300' },
+  'Partially Paid': { bg: 'bg-teal-100 dark:bg-teal-900/50', text: 'text-teal-800 dark:text-teal-300' },
+  Paid: { bg: 'bg-green-100 dark:bg-green-900/50', text: 'text-green-800 dark:text-green-300' },
+  Overdue: { bg: 'bg-red-100 dark:bg-red-900/50', text: 'text-red-800 dark:text-red-300' },
+  Void: { bg: 'bg-slate-200 dark:bg-slate-700', text: 'text-slate-700 dark:text-slate-300' },
+  Refunded: { bg: 'bg-purple-100 dark:bg-purple-900/50', text: 'text-purple-800 dark:text-purple-300' },
+  'Written Off': { bg: 'bg-stone-200 dark:bg-stone-700', text: 'text-stone-700 dark:text-stone-300' },
+};
+
+const DISPLAY_STATUS_LABELS: Record<InvoiceStatus, InvoiceDisplayStatus> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  pending: 'Pending',
+  partially_paid: 'Partially Paid',
+  paid: 'Paid',
+  overdue: 'Overdue',
+  void: 'Void',
+  refunded: 'Refunded',
+  written_off: 'Written Off',
+};
+
+// Filter chips in list order
+export const DISPLAY_STATUSES: readonly InvoiceDisplayStatus[] = Object.values(DISPLAY_STATUS_LABELS);
+
+export const REFUND_REASON_LABELS: Record<RefundReason, string> = {
+  duplicate: 'Duplicate payment',
+  billing_error: 'Billing error',
+  service_not_provided: 'Service not provided',
+  patient_request: 'Patient request',
+  other: 'Other',
+};
+
+export const MANUAL_PAYMENT_METHOD_LABELS: Record<ManualPaymentMethod, string> = {
+  cash: 'Cash',
+  check: 'Check',
+};
+
+/**
+ * Map API status to display status
+ * @param status - Invoice status (raw API values are normalized first)
+ * @param dueDate - ISO 8601 due date, used to detect overdue invoices
+ * @returns Display status
+ */
+export function mapApiStatusToDisplay(status: InvoiceStatus | string, dueDate?: string): InvoiceDisplayStatus {
+  return DISPLAY_STATUS_LABELS[getEffectiveStatus(normalizeInvoiceStatus(status), dueDate)];
+}
+
+/**
+ * Format date from ISO string to readable format
+ * @param dateString - ISO 8601 date string
+ * @returns Formatted date (e.g., "5 Feb 2024") or "N/A"
+ */
+export function formatInvoiceDate(dateString?: string): string {
+  if (!dateString) return 'N/A';
+  const date = new Date(dateString);
+  if (isNaN(date.getTime())) {
+    return 'Invalid Date';
+  }
+  return date.toLocaleDateString('en-US', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+  });
+}
+
+/**
+ * Format timestamp from ISO string to date and time
+ * @param dateString - ISO 8601 timestamp string
+ * @returns Formatted date and time (e.g., "Jan 16, 2024, 2:20 PM") or "N/A"
+ */
+export function formatInvoiceDateTime(dateString?: string): string {
+  if (!dateString) return 'N/A';
+  const date = new Date(dateString);
+  if (isNaN(date.getTime())) {
+    return 'Invalid Date';
+  }
+  return date.toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true,
+  });
+}
@@ -0,0 +1,115 @@
+/**
+ * Invoice Status Utilities
+ *
+ * The invoice lifecycle state machine: which statuses exist, which moves between
+ * them are allowed, and how raw API statuses are normalized
+ */
+
+import { ApiInvoice, Invoice, InvoiceStatus } from '../types/invoice';
+import { addDays, parseDateValue, startOfDay } from './dateUtils';
+
+export const INVOICE_STATUSES: readonly InvoiceStatus[] = [
+  'draft',
+  'sent',
+  'pending',
+  'partially_paid',
+  'paid',
+  'overdue',
+  'void',
+  'refunded',
+  'written_off',
+];
+
+/**
+ * Allowed transitions from each status
+ * void, refunded and written_off are terminal
+ */
+export const INVOICE_STATUS_TRANSITIONS: Record<InvoiceStatus, readonly InvoiceStatus[]> = {
+  draft: ['sent', 'void'],
+  sent: ['pending', 'partially_paid', 'paid', 'overdue', 'void'],
+  pending: ['partially_paid', 'paid', 'overdue', 'void'],
+  partially_paid: ['paid', 'overdue', 'written_off'],
+  overdue: ['partially_paid', 'paid', 'written_off', 'void'],
+  paid: ['refunded'],
+  void: [],
+  refunded: [],
+  written_off: [],
+};
+
+// Statuses with money still owed by the patient
+export const RECEIVABLE_STATUSES: readonly InvoiceStatus[] = ['sent', 'pending', 'partially_paid', 'overdue'];
+
+// Statuses that can pass their due date and become overdue
+const DUE_STATUSES: readonly InvoiceStatus[] = ['sent', 'pending', 'partially_paid'];
+
+// Older API versions report unpaid invoices as 'unpaid'
+const LEGACY_STATUS_ALIASES: Record<string, InvoiceStatus> = {
+  unpaid: 'pending',
+  open: 'pending',
+  cancelled: 'void',
+  canceled: 'void',
+};
+
+// Status assumed when the API sends none, or one this app doesn't know,
+// so the invoice stays visible and payable
+const FALLBACK_STATUS: InvoiceStatus = 'pending';
+
+/**
+ * Map a raw API status to a known lifecycle status
+ * Missing and unknown values fall back to pending
+ */
+export function normalizeInvoiceStatus(status: string | null | undefined): InvoiceStatus {
+  const value = (status ?? '').trim().toLowerCase();
+  if (value === '') {
+    return FALLBACK_STATUS;
+  }
+  if ((INVOICE_STATUSES as readonly string[]).includes(value)) {
+    return value as InvoiceStatus;
+  }
+  return LEGACY_STATUS_ALIASES[value] ?? FALLBACK_STATUS;
+}
+
+/**
+ * Normalize an invoice received from the API
+ */
+export function normalizeInvoice(invoice: ApiInvoice): Invoice {
+  return { ...invoice, status: normalizeInvoiceStatus(invoice.status) };
+}
+
+/**
+ * Whether an invoice may move from one status to another
+ */
+export function canTransition(from: InvoiceStatus, to: InvoiceStatus): boolean {
+  return INVOICE_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Whether the status has no further transitions
+ */
+export function isTerminalStatus(status: InvoiceStatus): boolean {
+  return INVOICE_STATUS_TRANSITIONS[status].length === 0;
+}
+
+/**
+ * Whether the invoice still has money owed on it
+ */
+export function isReceivableStatus(status: InvoiceStatus): boolean {
+  return RECEIVABLE_STATUSES.includes(status);
+}
+
+/**
+ * Effective status at a point in time: receivable invoices are overdue once their
+ * due date has passed, even if the server hasn't flagged them yet
+ * @param status - Invoice status
+ * @param dueDate - ISO 8601 due date (payable through the end of that day)
+ * @param now - Reference time
+ */
+export function getEffectiveStatus(status: InvoiceStatus, dueDate?: string, now: Date = new Date()): InvoiceStatus {
+  if (DUE_STATUSES.includes(status)) {
+    const due = parseDateValue(dueDate);
+    if (due && addDays(startOfDay(due), 1) <= now) {
+      return 'overdue';
+    }
+  }
+  return status;
+}
@@ -0,0 +1,213 @@
+/**
+ * Invoice Totals Utilities
+ *
+ * Functions for calculating invoice totals from line items, checking them
+ * against the total stored on the invoice, and working out what is still owed
+ * or refundable. When insurance claims are billed, what is owed is split into
+ * the insurer's portion and the patient's
+ */
+
+import { Invoice, InvoiceLineItem, InvoiceTotals, InvoiceTotalsCheck } from '../types/invoice';
+import { canTransition, isReceivableStatus } from './invoiceStatus';
+import { isClaimOpen } from './claimStatus';
+
+type LineItemAmounts = Pick<InvoiceLineItem, 'quantity' | 'unit_price_cents' | 'discount_cents' | 'tax_cents'>;
+type PricedLineItem = LineItemAmounts & Pick<InvoiceLineItem, 'line_total_cents'>;
+
+/**
+ * Calculate a line's total from its parts
+ * @returns quantity × unit price − discount + tax, in cents
+ */
+export function calculateLineTotal(item: LineItemAmounts): number {
+  return item.quantity * item.unit_price_cents - item.discount_cents + item.tax_cents;
+}
+
+/**
+ * Sum line items into invoice totals
+ * @param lineItems - Line items (line_total_cents is recalculated, not trusted)
+ * @returns Totals in cents
+ */
+export function calculateInvoiceTotals(lineItems: LineItemAmounts[]): InvoiceTotals {
+  return lineItems.reduce<InvoiceTotals>(
+    (totals, item) => ({
+      subtotal_cents: totals.subtotal_cents + item.quantity * item.unit_price_cents,
+      discount_cents: totals.discount_cents + item.discount_cents,
+      tax_cents: totals.tax_cents + item.tax_cents,
+      total_cents: totals.total_cents + calculateLineTotal(item),
+    }),
+    { subtotal_cents: 0, discount_cents: 0, tax_cents: 0, total_cents: 0 }
+  );
+}
+
+/**
+ * Split an amount across weights in proportion, without losing or inventing cents
+ * Rounding remainders go to the largest weights first
+ * @param amountCents - Amount to split
+ * @param weights - Non-negative weights (e.g. line subtotals)
+ * @returns One share per weight, summing to amountCents (all zero if every weight is zero)
+ */
+export function allocateProportionally(amountCents: number, weights: number[]): number[] {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  if (totalWeight <= 0 || amountCents === 0) {
+    return weights.map(() => 0);
+  }
+
+  const exact = weights.map(weight => (amountCents * weight) / totalWeight);
+  const shares = exact.map(Math.floor);
+  let remainder = amountCents - shares.reduce((sum, share) => sum + share, 0);
+
+  const order = weights
+    .map((weight, index) => ({ index, fraction: exact[index] - shares[index], weight }))
+    .sort((a, b) => b.fraction - a.fraction || b.weight - a.weight);
+  for (const { index } of order) {
+    if (remainder <= 0) break;
+    shares[index] += 1;
+    remainder -= 1;
+  }
+  return shares;
+}
+
+/**
+ * Check line items against the total they should add up to
+ * @param lineItems - Line items as stored (line_total_cents is verified too)
+ * @param totalAmountCents - Expected invoice total
+ * @returns Check result with the recalculated totals
+ */
+export function checkLineItemTotals(lineItems: PricedLineItem[], totalAmountCents: number): InvoiceTotalsCheck {
+  const totals = calculateInvoiceTotals(lineItems);
+  const mismatchedLines = lineItems
+    .map((item, index) => (calculateLineTotal(item) === item.line_total_cents ? -1 : index))
+    .filter(index => index >= 0);
+  const differenceCents = totalAmountCents - totals.total_cents;
+
+  return {
+    totals,
+    matches: differenceCents === 0 && mismatchedLines.length === 0,
+    difference_cents: differenceCents,
+    mismatched_lines: mismatchedLines,
+  };
+}
+
+/**
+ * Check an invoice's line items against its total_amount_cents
+ * @param invoice - Invoice to check
+ * @returns Check result, or null if the invoice has no line items
+ */
+export function checkInvoiceTotals(invoice: Invoice): InvoiceTotalsCheck | null {
+  if (!invoice.line_items || invoice.line_items.length === 0) {
+    return null;
+  }
+  return checkLineItemTotals(invoice.line_items, invoice.total_amount_cents);
+}
+
+/**
+ * Amount the patient has paid towards an invoice so far (insurer payments are on the claims)
+ * Uses amount_paid_cents when the API provides it, otherwise the successful payment
+ * records, otherwise assumes the patient's share of a paid invoice was paid in full
+ * @returns Amount paid in cents
+ */
+export function getAmountPaidCents(invoice: Invoice): number {
+  if (typeof invoice.amount_paid_cents === 'number') {
+    return invoice.amount_paid_cents;
+  }
+  if (invoice.payments && invoice.payments.length > 0) {
+    return invoice.payments
+      .filter(payment => payment.status === 'succeeded')
+      .reduce((sum, payment) => sum + payment.amount_cents, 0);
+  }
+  return invoice.status === 'paid' || invoice.status === 'refunded' ? getPatientPortionCents(invoice) : 0;
+}
+
+/**
+ * Amount insurers have paid on an invoice, from the EOBs of settled claims
+ * @returns Amount in cents
+ */
+export function getInsurancePaidCents(invoice: Invoice): number {
+  return (invoice.claims ?? [])
+    .filter(claim => claim.status === 'paid')
+    .reduce((sum, claim) => sum + (claim.paid_cents ?? 0), 0);
+}
+
+/**
+ * Contractual adjustments from settled claims: billed amounts the insurer didn't allow
+ * and the clinic can't collect from anyone
+ * @returns Amount in cents
+ */
+export function getInsuranceAdjustmentCents(invoice: Invoice): number {
+  return (invoice.claims ?? [])
+    .filter(claim => claim.status === 'paid')
+    .reduce((sum, claim) => sum + (claim.adjustment_cents
+      ?? (claim.allowed_cents !== undefined ? Math.max(claim.billed_cents - claim.allowed_cents, 0) : 0)), 0);
+}
+
+/**
+ * Remaining balance insurers are expected to pay
+ * @returns Billed amount of claims not yet settled, in cents; zero for invoices that are not receivable
+ */
+export function getInsuranceBalanceCents(invoice: Invoice): number {
+  if (!isReceivableStatus(invoice.status)) {
+    return 0;
+  }
+  return (invoice.claims ?? [])
+    .filter(isClaimOpen)
+    .reduce((sum, claim) => sum + claim.billed_cents, 0);
+}
+
+/**
+ * The patient's share of an invoice: whatever insurers haven't paid, aren't
+ * expected to pay or adjusted away
+ * Denied claims leave their amount with the patient
+ * @returns Amount in cents; the whole total when no claims were billed
+ */
+export function getPatientPortionCents(invoice: Invoice): number {
+  const insuranceCents = getInsurancePaidCents(invoice)
+    + getInsuranceAdjustmentCents(invoice)
+    + (invoice.claims ?? []).filter(isClaimOpen).reduce((sum, claim) => sum + claim.billed_cents, 0);
+  return Math.max(invoice.total_amount_cents - insuranceCents, 0);
+}
+
+/**
+ * Remaining balance the patient owes
+ * @returns Balance in cents; zero for invoices that are not receivable (draft, paid, void, ...)
+ */
+export function getPatientBalanceCents(invoice: Invoice): number {
+  if (!isReceivableStatus(invoice.status)) {
+    return 0;
+  }
+  return Math.max(getPatientPortionCents(invoice) - getAmountPaidCents(invoice), 0);
+}
+
+/**
+ * Remaining balance owed on an invoice by the patient and insurers together
+ * @returns Balance in cents; zero for invoices that are not receivable (draft, paid, void, ...)
+ */
+export function getBalanceCents(invoice: Invoice): number {
+  return getPatientBalanceCents(invoice) + getInsuranceBalanceCents(invoice);
+}
+
+/**
+ * Amount refunded on an invoice so far
+ * Uses amount_refunded_cents when the API provides it, otherwise the credit notes,
+ * otherwise assumes a refunded invoice was refunded in full
+ * @returns Amount refunded in cents
+ */
+export function getAmountRefundedCents(invoice: Invoice): number {
+  if (typeof invoice.amount_refunded_cents === 'number') {
+    return invoice.amount_refunded_cents;
+  }
+  if (invoice.credit_notes && invoice.credit_notes.length > 0) {
+    return invoice.credit_notes.reduce((sum, note) => sum + note.amount_cents, 0);
+  }
+  return invoice.status === 'refunded' ? getAmountPaidCents(invoice) : 0;
+}
+
+/**
+ * Amount that can still be refunded
+ * @returns Cents paid and not yet refunded; zero unless the invoice can move to refunded
+ */
+export function getRefundableCents(invoice: Invoice): number {
+  if (!canTransition(invoice.status, 'refunded')) {
+    return 0;
+  }
+  return Math.max(getAmountPaidCents(invoice) - getAmountRefundedCents(invoice), 0);
+}
@@ -0,0 +1,94 @@
+/**
+ * Patient Cache Utilities
+ *
+ * Caches the patient directory in AsyncStorage so names can be shown on invoices
+ * offline, and lets screens know when a patient record changes
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Patient } from '../types/patient';
+
+const CACHE_KEY = '@patient_directory_cache';
+const CACHE_TTL = 24 * 60 * 60 * 1000; // names change rarely, keep them for a day
+
+type PatientChangeListener = () => void;
+
+const changeListeners = new Set<PatientChangeListener>();
+
+interface CachedPatientData {
+  patients: Patient[];
+  timestamp: number;
+  expiresAt: number;
+}
+
+/**
+ * Save the patient directory to cache
+ */
+export async function savePatientCache(patients: Patient[]): Promise<void> {
+  const now = Date.now();
+  const cacheData: CachedPatientData = {
+    patients,
+    timestamp: now,
+    expiresAt: now + CACHE_TTL,
+  };
+  await AsyncStorage.setItem(CACHE_KEY, JSON.stringify(cacheData));
+}
+
+/**
+ * Load the patient directory from cache if not expired
+ * @returns Cached patients or null if cache expired/not found
+ */
+export async function loadPatientCache(): Promise<Patient[] | null> {
+  try {
+    const cached = await AsyncStorage.getItem(CACHE_KEY);
+    if (!cached) return null;
+
+    const cacheData: CachedPatientData = JSON.parse(cached);
+    if (Date.now() > cacheData.expiresAt) {
+      await AsyncStorage.removeItem(CACHE_KEY);
+      return null;
+    }
+    return cacheData.patients;
+  } catch (error) {
+    console.error('Error loading patient cache:', error);
+    return null;
+  }
+}
+
+/**
+ * Add or replace a single patient in the cache, keeping the cache's expiry
+ * No-op if nothing is cached
+ */
+export async function updateCachedPatient(patient: Patient): Promise<void> {
+  try {
+    const cached = await AsyncStorage.getItem(CACHE_KEY);
+    if (!cached) return;
+
+    const cacheData: CachedPatientData = JSON.parse(cached);
+    const exists = cacheData.patients.some(item => item.id === patient.id);
+    cacheData.patients = exists
+      ? cacheData.patients.map(item => (item.id === patient.id ? patient : item))
+      : [patient, ...cacheData.patients];
+    await AsyncStorage.setItem(CACHE_KEY, JSON.stringify(cacheData));
+  } catch (error) {
+    console.error('Error updating patient cache:', error);
+  }
+}
+
+/**
+ * Subscribe to patient records being created or edited elsewhere in the app
+ * @returns Unsubscribe function
+ */
+export function onPatientsChanged(listener: PatientChangeListener): () => void {
+  changeListeners.add(listener);
+  return () => {
+    changeListeners.delete(listener);
+  };
+}
+
+/**
+ * Tell subscribed screens that patient data changed and should be reloaded
+ */
+export function notifyPatientsChanged(): void {
+  changeListeners.forEach(listener => listener());
+}
@@ -0,0 +1,257 @@
+/**
+ * Patient Ledger Utilities
+ *
+ * Merges a patient's invoices, payments (their own and their insurers'),
+ * refunds and adjustments into one date-ordered ledger with a running balance,
+ * and cuts statements from it for a chosen period. Ledgers cover a single
+ * currency
+ */
+
+import { DateRange, Invoice } from '../types/invoice';
+import { LedgerEntry, LedgerEntryType, PatientLedger, PatientStatement, StatementPeriod, StatementPeriodPreset } from '../types/ledger';
+import { buildAgingReport } from './agingReport';
+import { DEFAULT_CURRENCY, normalizeCurrency } from './currency';
+import { addDays, parseDateInput, parseDateValue, startOfDay } from './dateUtils';
+import { MANUAL_PAYMENT_METHOD_LABELS } from './invoiceFormatting';
+import {
+  getAmountPaidCents,
+  getAmountRefundedCents,
+  getInsuranceAdjustmentCents,
+  getInsuranceBalanceCents,
+  getInsurancePaidCents,
+} from './invoiceTotals';
+
+export const STATEMENT_PERIOD_PRESETS: { id: StatementPeriodPreset; label: string }[] = [
+  { id: 'last_30_days', label: 'Last 30 Days' },
+  { id: 'last_90_days', label: 'Last 90 Days' },
+  { id: 'year_to_date', label: 'Year to Date' },
+  { id: 'all', label: 'All Activity' },
+  { id: 'custom', label: 'Custom' },
+];
+
+export const LEDGER_ENTRY_LABELS: Record<LedgerEntryType, string> = {
+  invoice: 'Charge',
+  payment: 'Payment',
+  refund: 'Refund',
+  adjustment: 'Adjustment',
+};
+
+// Same-day entries are listed charge first, so the running balance never dips below zero mid-day
+const ENTRY_ORDER: Record<LedgerEntryType, number> = { invoice: 0, payment: 1, adjustment: 2, refund: 3 };
+
+type UnbalancedEntry = Omit<LedgerEntry, 'balance_cents'>;
+
+const entryTime = (entry: Pick<LedgerEntry, 'date'>): number => parseDateValue(entry.date)?.getTime() ?? 0;
+
+/**
+ * Ledger entries for one invoice, in no particular order
+ * Per-invoice entries always net to what is still owed on it: refunds come with
+ * the credit note that reverses the charge, and voids and write-offs clear the rest
+ */
+function buildInvoiceEntries(invoice: Invoice): UnbalancedEntry[] {
+  if (invoice.status === 'draft') {
+    return [];
+  }
+
+  const base = { invoice_id: invoice.id, invoice_number: invoice.invoice_number };
+  const entries: UnbalancedEntry[] = [{
+    ...base,
+    id: `invoice-${invoice.id}`,
+    type: 'invoice',
+    date: invoice.created_at ?? invoice.due_date ?? null,
+    description: `Invoice #${invoice.invoice_number}`,
+    amount_cents: invoice.total_amount_cents,
+  }];
+
+  const succeededPayments = (invoice.payments ?? []).filter(payment => payment.status === 'succeeded');
+  const paidCents = getAmountPaidCents(invoice);
+  if (succeededPayments.length > 0) {
+    succeededPayments.forEach(payment => entries.push({
+      ...base,
+      id: `payment-${payment.id}`,
+      type: 'payment',
+      date: payment.created_at,
+      description: payment.card_last4
+        ? `Card •••• ${payment.card_last4}`
+        : payment.method && payment.method !== 'card' ? MANUAL_PAYMENT_METHOD_LABELS[payment.method] : 'Payment',
+      amount_cents: -payment.amount_cents,
+    }));
+  } else if (paidCents > 0) {
+    // Older API versions only report the amount paid
+    entries.push({
+      ...base,
+      id: `payment-${invoice.id}`,
+      type: 'payment',
+      date: invoice.paid_at ?? invoice.updated_at ?? invoice.created_at ?? null,
+      description: 'Payment',
+      amount_cents: -paidCents,
+    });
+  }
+
+  // Insurers' payments and contractual adjustments come from the EOBs of settled claims
+  (invoice.claims ?? [])
+    .filter(claim => claim.status === 'paid')
+    .forEach(claim => {
+      const date = claim.adjudicated_at ?? claim.updated_at ?? claim.submitted_at;
+      const payer = claim.payer_name ?? 'Insurance';
+      if ((claim.paid_cents ?? 0) > 0) {
+        entries.push({ ...base, id: `claim-payment-${claim.id}`, type: 'payment', date, description: `${payer} payment`, amount_cents: -(claim.paid_cents ?? 0) });
+      }
+      const adjustmentCents = getInsuranceAdjustmentCents({ ...invoice, claims: [claim] });
+      if (adjustmentCents > 0) {
+        entries.push({ ...base, id: `claim-adjustment-${claim.id}`, type: 'adjustment', date, description: `${payer} contractual adjustment`, amount_cents: -adjustmentCents });
+      }
+    });
+
+  const creditNotes = invoice.credit_notes ?? [];
+  const refunds = creditNotes.length > 0
+    ? creditNotes.map(note => ({ id: String(note.id), date: note.created_at, label: `Credit note ${note.credit_note_number}`, amount: note.amount_cents }))
+    : getAmountRefundedCents(invoice) > 0
+      ? [{ id: String(invoice.id), date: invoice.updated_at ?? null, label: 'Credit note', amount: getAmountRefundedCents(invoice) }]
+      : [];
+  refunds.forEach(refund => {
+    entries.push({ ...base, id: `credit-${refund.id}`, type: 'adjustment', date: refund.date, description: refund.label, amount_cents: -refund.amount });
+    entries.push({ ...base, id: `refund-${refund.id}`, type: 'refund', date: refund.date, description: 'Refund issued', amount_cents: refund.amount });
+  });
+
+  const unpaidCents = invoice.total_amount_cents - paidCents - getInsurancePaidCents(invoice) - getInsuranceAdjustmentCents(invoice);
+  if ((invoice.status === 'void' || invoice.status === 'written_off') && unpaidCents > 0) {
+    entries.push({
+      ...base,
+      id: `${invoice.status}-${invoice.id}`,
+      type: 'adjustment',
+      date: invoice.updated_at ?? invoice.created_at ?? null,
+      description: invoice.status === 'void' ? 'Invoice voided' : 'Balance written off',
+      amount_cents: -unpaidCents,
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Build a patient's ledger in one currency
+ * @param patientId - Patient the invoices belong to (other patients' invoices are ignored)
+ * @param invoices - The patient's invoices, with payments and credit notes where available
+ * @param currency - Only invoices in this ISO 4217 currency are included
+ * @param now - Reference time for aging
+ * @returns Entries oldest first with a running balance, and the aging of what is owed
+ */
+export function buildPatientLedger(
+  patientId: number,
+  invoices: Invoice[],
+  currency: string = DEFAULT_CURRENCY,
+  now: Date = new Date(),
+): PatientLedger {
+  const ledgerCurrency = normalizeCurrency(currency);
+  const patientInvoices = invoices.filter(invoice =>
+    invoice.patient_id === patientId && normalizeCurrency(invoice.currency) === ledgerCurrency);
+
+  const sorted = patientInvoices
+    .flatMap(buildInvoiceEntries)
+    .sort((a, b) => entryTime(a) - entryTime(b) || ENTRY_ORDER[a.type] - ENTRY_ORDER[b.type]);
+
+  let balance = 0;
+  const entries = sorted.map(entry => {
+    balance += entry.amount_cents;
+    return { ...entry, balance_cents: balance };
+  });
+
+  return {
+    patient_id: patientId,
+    currency: ledgerCurrency,
+    entries,
+    balance_cents: balance,
+    insurance_balance_cents: patientInvoices.reduce((sum, invoice) => sum + getInsuranceBalanceCents(invoice), 0),
+    aging: buildAgingReport(patientInvoices, now, ledgerCurrency).buckets,
+  };
+}
+
+/**
+ * Resolve a statement period to a concrete range
+ * @returns Range with an exclusive end, or null for all activity (and for invalid custom dates;
+ * check validateStatementPeriod first)
+ */
+export function resolveStatementPeriod(period: StatementPeriod, now: Date = new Date()): DateRange | null {
+  const today = startOfDay(now);
+  const tomorrow = addDays(today, 1);
+
+  switch (period.preset) {
+    case 'last_30_days':
+      return { start: addDays(today, -29), end: tomorrow };
+    case 'last_90_days':
+      return { start: addDays(today, -89), end: tomorrow };
+    case 'year_to_date':
+      return { start: new Date(today.getFullYear(), 0, 1), end: tomorrow };
+    case 'custom': {
+      const start = parseDateInput(period.custom_start ?? '');
+      const end = parseDateInput(period.custom_end ?? '');
+      if (!start || !end || end < start) {
+        return null;
+      }
+      return { start, end: addDays(end, 1) };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Check a statement period before generating
+ * @returns Error message, or null if the period is usable
+ */
+export function validateStatementPeriod(period: StatementPeriod): string | null {
+  if (period.preset !== 'custom') {
+    return null;
+  }
+  const start = parseDateInput(period.custom_start ?? '');
+  const end = parseDateInput(period.custom_end ?? '');
+  if (!start || !end) {
+    return 'Enter both dates as YYYY-MM-DD';
+  }
+  return end < start ? 'The end date is before the start date' : null;
+}
+
+/**
+ * Describe a statement period for headings
+ * @returns e.g. "1 Jan 2024 – 31 Jan 2024", or "All activity"
+ */
+export function describeStatementPeriod(range: DateRange | null): string {
+  if (!range) {
+    return 'All activity';
+  }
+  const format = (date: Date) => date.toLocaleDateString('en-US', { day: 'numeric', month: 'short', year: 'numeric' });
+  return `${format(range.start)} – ${format(addDays(range.end, -1))}`;
+}
+
+/**
+ * Cut a statement from a ledger
+ * Activity before the period is carried in as the opening balance
+ * @param ledger - Patient ledger
+ * @param range - Period to cover; null for all activity
+ * @param patientName - Printed on the statement when known
+ */
+export function buildPatientStatement(
+  ledger: PatientLedger,
+  range: DateRange | null,
+  patientName?: string,
+  now: Date = new Date(),
+): PatientStatement {
+  const start = range?.start.getTime() ?? Number.NEGATIVE_INFINITY;
+  const end = range?.end.getTime() ?? Number.POSITIVE_INFINITY;
+  const before = ledger.entries.filter(entry => entryTime(entry) < start);
+  const entries = ledger.entries.filter(entry => entryTime(entry) >= start && entryTime(entry) < end);
+  const openingBalance = before.length > 0 ? before[before.length - 1].balance_cents : 0;
+
+  return {
+    patient_id: ledger.patient_id,
+    patient_name: patientName,
+    currency: ledger.currency,
+    period: range,
+    opening_balance_cents: openingBalance,
+    entries,
+    closing_balance_cents: entries.length > 0 ? entries[entries.length - 1].balance_cents : openingBalance,
+    aging: ledger.aging,
+    generated_at: now.toISOString(),
+  };
+}
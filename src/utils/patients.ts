@@ -0,0 +1,188 @@
+/**
+ * Patient Utilities
+ *
+ * Display names, local search and the create/edit form for patient records
+ */
+
+import { Patient, PatientFormErrors, PatientFormValues, PatientRequest, PatientSex } from '../types/patient';
+import { parseDateInput } from './dateUtils';
+
+export const PATIENT_SEX_LABELS: Record<PatientSex, string> = {
+  female: 'Female',
+  male: 'Male',
+  other: 'Other',
+  unknown: 'Not stated',
+};
+
+export const EMPTY_PATIENT_FORM: PatientFormValues = {
+  first_name: '',
+  last_name: '',
+  date_of_birth: '',
+  sex: 'unknown',
+  email: '',
+  phone: '',
+  address_line1: '',
+  address_line2: '',
+  city: '',
+  state: '',
+  postal_code: '',
+  country: 'US',
+};
+
+const ADDRESS_FIELDS: readonly (keyof PatientFormValues)[] = ['address_line1', 'address_line2', 'city', 'state', 'postal_code'];
+
+/**
+ * Full name of a patient, e.g. "Jane Doe"
+ */
+export function getPatientName(patient: Pick<Patient, 'first_name' | 'last_name'>): string {
+  return `${patient.first_name} ${patient.last_name}`.trim();
+}
+
+/**
+ * Label shown wherever an invoice's patient appears
+ * @returns e.g. "Jane Doe (P-12)", or "P-12" when the name isn't known
+ */
+export function formatPatientLabel(patientId: number, patientName?: string | null): string {
+  return patientName ? `${patientName} (P-${patientId})` : `P-${patientId}`;
+}
+
+/**
+ * Date of birth for display, e.g. "Mar 4, 1985"
+ * Read as a local calendar date so it doesn't shift a day in timezones behind UTC
+ */
+export function formatDateOfBirth(dateOfBirth?: string | null): string | null {
+  const date = dateOfBirth ? parseDateInput(dateOfBirth) : null;
+  return date ? date.toLocaleDateString('en-US', { day: 'numeric', month: 'short', year: 'numeric' }) : null;
+}
+
+/**
+ * Filter patients by name, patient id ("P-12" or "12"), email or phone
+ */
+export function filterPatients(patients: Patient[], query: string): Patient[] {
+  const text = query.trim().toLowerCase();
+  if (!text) {
+    return patients;
+  }
+  const digits = text.replace(/\D/g, '');
+  return patients.filter(patient =>
+    getPatientName(patient).toLowerCase().includes(text)
+    || `p-${patient.id}` === text
+    || String(patient.id) === text
+    || (patient.email?.toLowerCase().includes(text) ?? false)
+    || (digits.length >= 3 && (patient.phone?.replace(/\D/g, '').includes(digits) ?? false)),
+  );
+}
+
+/**
+ * Sort patients by last then first name
+ */
+export function sortPatients(patients: Patient[]): Patient[] {
+  return [...patients].sort((a, b) =>
+    a.last_name.localeCompare(b.last_name) || a.first_name.localeCompare(b.first_name));
+}
+
+/**
+ * Form values for editing an existing patient
+ */
+export function toPatientForm(patient: Patient): PatientFormValues {
+  const address = patient.billing_address;
+  return {
+    first_name: patient.first_name,
+    last_name: patient.last_name,
+    date_of_birth: patient.date_of_birth ?? '',
+    sex: patient.sex ?? 'unknown',
+    email: patient.email ?? '',
+    phone: patient.phone ?? '',
+    address_line1: address?.line1 ?? '',
+    address_line2: address?.line2 ?? '',
+    city: address?.city ?? '',
+    state: address?.state ?? '',
+    postal_code: address?.postal_code ?? '',
+    country: address?.country ?? EMPTY_PATIENT_FORM.country,
+  };
+}
+
+const hasAddress = (values: PatientFormValues): boolean =>
+  ADDRESS_FIELDS.some(field => values[field].trim() !== '');
+
+/**
+ * Validate the patient form
+ * The billing address is optional, but once started its street, city and postal code are required
+ * @returns Errors keyed by field; empty when the form is valid
+ */
+export function validatePatientForm(values: PatientFormValues, now: Date = new Date()): PatientFormErrors {
+  const errors: PatientFormErrors = {};
+
+  if (!values.first_name.trim()) {
+    errors.first_name = 'First name is required';
+  }
+  if (!values.last_name.trim()) {
+    errors.last_name = 'Last name is required';
+  }
+
+  if (values.date_of_birth.trim()) {
+    const dateOfBirth = parseDateInput(values.date_of_birth);
+    if (!dateOfBirth) {
+      errors.date_of_birth = 'Use YYYY-MM-DD';
+    } else if (dateOfBirth > now) {
+      errors.date_of_birth = 'Date of birth cannot be in the future';
+    }
+  }
+
+  if (values.email.trim() && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(values.email.trim())) {
+    errors.email = 'Email address is invalid';
+  }
+  if (values.phone.trim() && values.phone.replace(/\D/g, '').length < 7) {
+    errors.phone = 'Phone number is too short';
+  }
+
+  if (hasAddress(values)) {
+    if (!values.address_line1.trim()) {
+      errors.address_line1 = 'Street address is required';
+    }
+    if (!values.city.trim()) {
+      errors.city = 'City is required';
+    }
+    if (!values.postal_code.trim()) {
+      errors.postal_code = 'Postal code is required';
+    }
+    if (!/^[A-Za-z]{2}$/.test(values.country.trim())) {
+      errors.country = 'Use a two-letter country code';
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Whether validation found no errors
+ */
+export function isPatientFormValid(errors: PatientFormErrors): boolean {
+  return Object.keys(errors).length === 0;
+}
+
+/**
+ * Convert validated form values into the create/update payload
+ * Blank optional fields are omitted
+ */
+export function buildPatientRequest(values: PatientFormValues): PatientRequest {
+  const optional = (value: string) => value.trim() || undefined;
+  return {
+    first_name: values.first_name.trim(),
+    last_name: values.last_name.trim(),
+    date_of_birth: optional(values.date_of_birth),
+    sex: values.sex,
+    email: optional(values.email),
+    phone: optional(values.phone),
+    billing_address: hasAddress(values)
+      ? {
+        line1: values.address_line1.trim(),
+        line2: optional(values.address_line2),
+        city: values.city.trim(),
+        state: values.state.trim(),
+        postal_code: values.postal_code.trim(),
+        country: values.country.trim().toUpperCase(),
+      }
+      : undefined,
+  };
+}
@@ -0,0 +1,69 @@
+/**
+ * Role Permission Utilities
+ *
+ * Central permission matrix mapping each user role to the actions it may perform
+ */
+
+import { Permission, UserRole } from '../types/auth';
+
+/**
+ * Permissions granted to each role
+ * Add new permissions here rather than checking roles directly in screens
+ */
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  admin: [
+    'dashboard:view',
+    'invoices:view',
+    'invoices:create',
+    'invoices:void',
+    'payments:process',
+    'payments:refund',
+    'patients:view',
+    'patients:manage',
+    'reminders:send',
+    'reminders:manage',
+    'claims:manage',
+    'catalog:manage',
+    'encounters:create',
+    'audit:view',
+  ],
+  billing_staff: [
+    'dashboard:view',
+    'invoices:view',
+    'invoices:create',
+    'invoices:void',
+    'payments:process',
+    'payments:refund',
+    'patients:view',
+    'patients:manage',
+    'reminders:send',
+    'claims:manage',
+  ],
+  receptionist: [
+    'dashboard:view',
+    'invoices:view',
+    'payments:process',
+    'patients:view',
+    'patients:manage',
+    'reminders:send',
+  ],
+  doctor: [
+    'dashboard:view',
+    'invoices:view',
+    'patients:view',
+    'encounters:create',
+  ],
+};
+
+/**
+ * Check whether a role is granted a permission
+ * @param role - User role (unknown or missing roles are granted nothing)
+ * @param permission - Permission to check
+ * @returns True if the role has the permission
+ */
+export function hasPermission(role: UserRole | null | undefined, permission: Permission): boolean {
+  if (!role) {
+    return false;
+  }
+  return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+}
@@ -0,0 +1,177 @@
+/**
+ * Payment Reminder Utilities
+ *
+ * The default dunning schedule, message templates and working out which
+ * reminders are due for an invoice
+ */
+
+import { Invoice } from '../types/invoice';
+import {
+  InvoiceReminder,
+  ReminderChannel,
+  ReminderPlanItem,
+  ReminderSchedule,
+  ReminderStep,
+} from '../types/reminder';
+import { addDays, parseDateValue, startOfDay } from './dateUtils';
+import { formatCurrency } from './financialMetrics';
+import { formatInvoiceDate } from './invoiceFormatting';
+import { getPatientBalanceCents } from './invoiceTotals';
+import { getDaysPastDue } from './agingReport';
+import { CLINIC_DETAILS } from './invoiceDocument';
+
+export const REMINDER_CHANNEL_LABELS: Record<ReminderChannel, string> = {
+  email: 'Email',
+  sms: 'SMS',
+};
+
+// Placeholders available in reminder templates
+export const REMINDER_TEMPLATE_FIELDS: { key: string; description: string }[] = [
+  { key: 'patient_name', description: 'Patient name' },
+  { key: 'invoice_number', description: 'Invoice number' },
+  { key: 'balance', description: 'Balance due' },
+  { key: 'due_date', description: 'Due date' },
+  { key: 'days_overdue', description: 'Days past due' },
+  { key: 'clinic_name', description: 'Clinic name' },
+];
+
+// Schedule used until an admin saves one
+export const DEFAULT_REMINDER_SCHEDULE: ReminderSchedule = {
+  steps: [
+    {
+      id: 'before_due_3',
+      offset_days: -3,
+      channel: 'email',
+      template: 'Hi {{patient_name}}, a reminder that invoice #{{invoice_number}} for {{balance}} is due on {{due_date}}. Thank you, {{clinic_name}}',
+      enabled: true,
+    },
+    {
+      id: 'due_date',
+      offset_days: 0,
+      channel: 'email',
+      template: 'Hi {{patient_name}}, invoice #{{invoice_number}} for {{balance}} is due today. Thank you, {{clinic_name}}',
+      enabled: true,
+    },
+    {
+      id: 'overdue_7',
+      offset_days: 7,
+      channel: 'sms',
+      template: '{{clinic_name}}: invoice #{{invoice_number}} is {{days_overdue}} days overdue. Balance due: {{balance}}.',
+      enabled: true,
+    },
+    {
+      id: 'overdue_30',
+      offset_days: 30,
+      channel: 'email',
+      template: 'Hi {{patient_name}}, invoice #{{invoice_number}} is now {{days_overdue}} days overdue with {{balance}} outstanding. Please contact us to arrange payment. {{clinic_name}}',
+      enabled: true,
+    },
+  ],
+};
+
+// SMS longer than this is split into several messages by carriers
+export const SMS_MAX_LENGTH = 320;
+
+// Message for reminders sent outside the schedule
+export const ONE_OFF_REMINDER_TEMPLATE = 'Hi {{patient_name}}, invoice #{{invoice_number}} has {{balance}} outstanding, due {{due_date}}. {{clinic_name}}';
+
+/**
+ * Describe when a step is sent
+ * @returns e.g. "3 days before due", "On due date" or "7 days overdue"
+ */
+export function describeReminderOffset(offsetDays: number): string {
+  if (offsetDays === 0) {
+    return 'On due date';
+  }
+  const days = Math.abs(offsetDays);
+  const unit = days === 1 ? 'day' : 'days';
+  return offsetDays < 0 ? `${days} ${unit} before due` : `${days} ${unit} overdue`;
+}
+
+/**
+ * Fill a template's {{placeholders}} from an invoice
+ * Unknown placeholders are left as written so mistakes are visible in the preview
+ */
+export function renderReminderTemplate(template: string, invoice: Invoice, now: Date = new Date()): string {
+  const values: Record<string, string> = {
+    patient_name: invoice.patient_name ?? `patient P-${invoice.patient_id}`,
+    invoice_number: invoice.invoice_number,
+    balance: formatCurrency(getPatientBalanceCents(invoice), invoice.currency),
+    due_date: formatInvoiceDate(invoice.due_date),
+    days_overdue: String(Math.max(getDaysPastDue(invoice.due_date, now) ?? 0, 0)),
+    clinic_name: CLINIC_DETAILS.name,
+  };
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) => values[key] ?? match);
+}
+
+/**
+ * Work out each enabled step's send date and whether it has gone out
+ * @param invoice - Invoice to plan for
+ * @param schedule - Reminder schedule
+ * @param reminders - Reminders already sent for the invoice
+ * @param now - Reference time
+ * @returns Plan in send order; empty if nothing is owed or the invoice has no due date
+ */
+export function buildReminderPlan(
+  invoice: Invoice,
+  schedule: ReminderSchedule,
+  reminders: InvoiceReminder[],
+  now: Date = new Date(),
+): ReminderPlanItem[] {
+  const due = parseDateValue(invoice.due_date);
+  if (!due || getPatientBalanceCents(invoice) <= 0) {
+    return [];
+  }
+  const today = startOfDay(now);
+
+  return schedule.steps
+    .filter(step => step.enabled)
+    .sort((a, b) => a.offset_days - b.offset_days)
+    .map(step => {
+      const scheduledFor = addDays(startOfDay(due), step.offset_days);
+      const sentReminder = reminders.find(reminder => reminder.step_id === step.id && reminder.status !== 'failed');
+      return {
+        step,
+        scheduledFor,
+        sentReminder,
+        status: sentReminder ? 'sent' : scheduledFor <= today ? 'due' : 'upcoming',
+      };
+    });
+}
+
+/**
+ * New step for the schedule editor
+ */
+export function createReminderStep(): ReminderStep {
+  return {
+    id: `step_${Date.now().toString(36)}`,
+    offset_days: 7,
+    channel: 'email',
+    template: 'Hi {{patient_name}}, invoice #{{invoice_number}} has {{balance}} outstanding. {{clinic_name}}',
+    enabled: true,
+  };
+}
+
+/**
+ * Check a schedule before saving
+ * @returns First problem found, or null if the schedule is valid
+ */
+export function validateReminderSchedule(schedule: ReminderSchedule): string | null {
+  for (const step of schedule.steps) {
+    const label = describeReminderOffset(step.offset_days);
+    if (!Number.isInteger(step.offset_days) || Math.abs(step.offset_days) > 365) {
+      return 'Days must be a whole number up to 365.';
+    }
+    if (step.template.trim() === '') {
+      return `Enter a message for the "${label}" reminder.`;
+    }
+    if (step.channel === 'sms' && step.template.length > SMS_MAX_LENGTH) {
+      return `The "${label}" SMS is longer than ${SMS_MAX_LENGTH} characters.`;
+    }
+  }
+  const timings = schedule.steps.map(step => `${step.offset_days}:${step.channel}`);
+  if (new Set(timings).size !== timings.length) {
+    return 'Two reminders use the same day and channel.';
+  }
+  return null;
+}
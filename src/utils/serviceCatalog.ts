@@ -0,0 +1,220 @@
+/**
+ * Service Catalog Utilities
+ *
+ * Price lookup from the fee schedule (effective-dated, with per-payer prices),
+ * local search, validation for the service and scheduled price forms, and
+ * notifications when the catalog is edited
+ */
+
+import {
+  CatalogService,
+  PriceFormErrors,
+  PriceFormValues,
+  ResolvedServicePrice,
+  ServiceFormErrors,
+  ServiceFormValues,
+  ServicePrice,
+  ServicePriceRequest,
+  ServiceRequest,
+  TaxCategory,
+} from '../types/serviceCatalog';
+import { formatAmountInput } from './currency';
+import { formatDateInput, parseDateInput } from './dateUtils';
+import { parseAmountToCents } from './financialMetrics';
+
+type ServiceChangeListener = () => void;
+
+const changeListeners = new Set<ServiceChangeListener>();
+
+export const TAX_CATEGORY_LABELS: Record<TaxCategory, string> = {
+  standard: 'Taxable',
+  exempt: 'Tax exempt',
+};
+
+export const EMPTY_SERVICE_FORM: ServiceFormValues = {
+  service_code: '',
+  description: '',
+  default_price: '',
+  tax_category: 'exempt',
+  active: true,
+};
+
+/**
+ * Blank scheduled price form, starting today
+ */
+export function createPriceForm(now: Date = new Date()): PriceFormValues {
+  return { price: '', effective_date: formatDateInput(now), payer_name: '' };
+}
+
+// Payer names are typed by hand on policies and prices, so compare them loosely
+const normalizePayer = (payerName?: string | null): string => payerName?.trim().toLowerCase() ?? '';
+
+/**
+ * Latest of the given prices that has taken effect by a day
+ */
+function findEffectivePrice(prices: ServicePrice[], on: Date): ServicePrice | undefined {
+  return prices
+    .filter(price => {
+      const effective = parseDateInput(price.effective_date);
+      return effective !== null && effective <= on;
+    })
+    .sort((a, b) => b.effective_date.localeCompare(a.effective_date))[0];
+}
+
+/**
+ * Price of a service on a given day
+ * A price negotiated with the patient's payer wins over the standard schedule,
+ * which wins over the service's default price
+ * @param payerName - Insurer billed for the visit; omit for self-pay
+ */
+export function resolveServicePrice(
+  service: CatalogService,
+  on: Date = new Date(),
+  payerName?: string | null,
+): ResolvedServicePrice {
+  const day = new Date(on.getFullYear(), on.getMonth(), on.getDate());
+  const payer = normalizePayer(payerName);
+
+  const payerPrice = payer
+    ? findEffectivePrice(service.prices.filter(price => normalizePayer(price.payer_name) === payer), day)
+    : undefined;
+  if (payerPrice) {
+    return { price_cents: payerPrice.price_cents, source: 'payer', price: payerPrice };
+  }
+  const standardPrice = findEffectivePrice(service.prices.filter(price => !normalizePayer(price.payer_name)), day);
+  if (standardPrice) {
+    return { price_cents: standardPrice.price_cents, source: 'schedule', price: standardPrice };
+  }
+  return { price_cents: service.default_price_cents, source: 'default' };
+}
+
+/**
+ * Price schedule for display: standard prices first, then by payer, newest first within each
+ */
+export function sortPriceSchedule(prices: ServicePrice[]): ServicePrice[] {
+  return [...prices].sort((a, b) =>
+    normalizePayer(a.payer_name).localeCompare(normalizePayer(b.payer_name))
+    || b.effective_date.localeCompare(a.effective_date));
+}
+
+/**
+ * Sort services by code
+ */
+export function sortServices(services: CatalogService[]): CatalogService[] {
+  return [...services].sort((a, b) => a.service_code.localeCompare(b.service_code));
+}
+
+/**
+ * Filter services by code or description
+ */
+export function filterServices(services: CatalogService[], query: string): CatalogService[] {
+  const text = query.trim().toLowerCase();
+  if (!text) {
+    return services;
+  }
+  return services.filter(service =>
+    service.service_code.toLowerCase().includes(text) || service.description.toLowerCase().includes(text));
+}
+
+/**
+ * Form values for editing an existing service
+ */
+export function toServiceForm(service: CatalogService): ServiceFormValues {
+  return {
+    service_code: service.service_code,
+    description: service.description,
+    default_price: formatAmountInput(service.default_price_cents),
+    tax_category: service.tax_category,
+    active: service.active,
+  };
+}
+
+/**
+ * Validate the service form
+ * @param services - The rest of the catalog, to keep codes unique
+ * @param serviceId - Service being edited; omit when adding one
+ * @returns Errors keyed by field; empty when the form is valid
+ */
+export function validateServiceForm(values: ServiceFormValues, services: CatalogService[] = [], serviceId?: number): ServiceFormErrors {
+  const errors: ServiceFormErrors = {};
+  const code = values.service_code.trim().toUpperCase();
+
+  if (!code) {
+    errors.service_code = 'Service code is required';
+  } else if (services.some(service => service.id !== serviceId && service.service_code.toUpperCase() === code)) {
+    errors.service_code = 'Another service already uses this code';
+  }
+  if (!values.description.trim()) {
+    errors.description = 'Description is required';
+  }
+  if (parseAmountToCents(values.default_price) === null) {
+    errors.default_price = 'Enter a valid price';
+  }
+
+  return errors;
+}
+
+/**
+ * Convert validated form values into the create/update payload
+ */
+export function buildServiceRequest(values: ServiceFormValues): ServiceRequest {
+  return {
+    service_code: values.service_code.trim().toUpperCase(),
+    description: values.description.trim(),
+    default_price_cents: parseAmountToCents(values.default_price) ?? 0,
+    tax_category: values.tax_category,
+    active: values.active,
+  };
+}
+
+/**
+ * Validate a scheduled price against the service's existing schedule
+ * @returns Errors keyed by field; empty when the form is valid
+ */
+export function validatePriceForm(values: PriceFormValues, service: CatalogService): PriceFormErrors {
+  const errors: PriceFormErrors = {};
+
+  if (parseAmountToCents(values.price) === null) {
+    errors.price = 'Enter a valid price';
+  }
+  if (!parseDateInput(values.effective_date)) {
+    errors.effective_date = 'Use YYYY-MM-DD';
+  } else if (service.prices.some(price =>
+    price.effective_date === values.effective_date.trim()
+    && normalizePayer(price.payer_name) === normalizePayer(values.payer_name))) {
+    errors.effective_date = values.payer_name.trim()
+      ? 'A price for this payer already starts on this day'
+      : 'A standard price already starts on this day';
+  }
+
+  return errors;
+}
+
+/**
+ * Convert a validated price form into the payload
+ */
+export function buildPriceRequest(values: PriceFormValues): ServicePriceRequest {
+  return {
+    price_cents: parseAmountToCents(values.price) ?? 0,
+    effective_date: values.effective_date.trim(),
+    payer_name: values.payer_name.trim() || undefined,
+  };
+}
+
+/**
+ * Subscribe to catalog services being created or edited elsewhere in the app
+ * @returns Unsubscribe function
+ */
+export function onServicesChanged(listener: ServiceChangeListener): () => void {
+  changeListeners.add(listener);
+  return () => {
+    changeListeners.delete(listener);
+  };
+}
+
+/**
+ * Tell subscribed screens that the catalog changed and should be reloaded
+ */
+export function notifyServicesChanged(): void {
+  changeListeners.forEach(listener => listener());
+}
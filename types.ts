@@ -1,4 +1,5 @@
 import type { NavigatorScreenParams } from '@react-navigation/native';
+import type { AgingBucketId } from './src/types/invoice';
 
 export type AuthStackParamList = {
   Login: undefined;
@@ -6,7 +7,9 @@ export type AuthStackParamList = {
 
 export type MainTabParamList = {
   Dashboard: undefined;
-  Invoices: undefined;
+  Invoices: { agingBucket?: AgingBucketId; currency?: string } | undefined;
+  Patients: undefined;
+  Encounters: undefined;
   AuditLog: undefined;
 };
 
@@ -15,5 +18,14 @@ export type RootStackParamList = {
   Auth: undefined;
   // Fix: Use NavigatorScreenParams to correctly type nested navigators. This ensures the parent navigator is aware of the child navigator's screens, resolving type conflicts.
   Main: NavigatorScreenParams<MainTabParamList>;
-  Payment: undefined;
+  Payment: { invoiceId: number };
+  InvoiceDetail: { invoiceId: number };
+  CreateInvoice: undefined;
+  AgingReport: undefined;
+  ReminderSettings: undefined;
+  PatientForm: { patientId?: number } | undefined;
+  PatientLedger: { patientId: number };
+  ServiceCatalog: undefined;
+  ServiceForm: { serviceId?: number } | undefined;
+  EncounterForm: undefined;
 };
\ No newline at end of file